@@ -0,0 +1,50 @@
+// Local mock of an OpenAI-compatible chat completions API for exercising risk assessment and
+// response content scanning without a real LLM.
+//
+// Usage: bun scripts/mock-llm.ts, then start the gateway with LLM_BASE_URL=http://localhost:4010
+//
+// Scores: MOCK_LLM_SCORE if set; otherwise 0.9 when the user message contains one of the
+// trigger phrases below, else 0.1. MOCK_LLM_FAIL=1 answers every call with HTTP 500
+// (exercises the fail-closed paths).
+
+const PORT = Number(process.env.MOCK_LLM_PORT || 4010);
+const FIXED_SCORE = process.env.MOCK_LLM_SCORE ? Number(process.env.MOCK_LLM_SCORE) : null;
+const FAIL = process.env.MOCK_LLM_FAIL === '1';
+
+const TRIGGERS = [/ignore (?:all )?previous instructions/i, /system prompt/i, /you are now/i, /delete/i];
+
+function verdict(userMessage: string): { score: number; explanation: string } {
+  if (FIXED_SCORE !== null) {
+    return { score: FIXED_SCORE, explanation: 'Mock LLM: fixed score from MOCK_LLM_SCORE.' };
+  }
+  const trigger = TRIGGERS.find((pattern) => pattern.test(userMessage));
+  return trigger
+    ? { score: 0.9, explanation: `Mock LLM: matched ${trigger.source}.` }
+    : { score: 0.1, explanation: 'Mock LLM: no trigger phrase found.' };
+}
+
+Bun.serve({
+  port: PORT,
+  async fetch(req) {
+    const url = new URL(req.url);
+    if (req.method !== 'POST' || !url.pathname.endsWith('/chat/completions')) {
+      return Response.json({ error: 'Not found' }, { status: 404 });
+    }
+    if (FAIL) {
+      return Response.json({ error: 'Mock failure' }, { status: 500 });
+    }
+
+    const body = await req.json() as { messages?: Array<{ role: string; content: string }> };
+    const userMessage = body.messages?.find((message) => message.role === 'user')?.content ?? '';
+    const result = verdict(userMessage);
+    console.log(`mock-llm: score=${result.score} (${userMessage.length} chars)`);
+
+    return Response.json({
+      id: `mock-${Date.now()}`,
+      object: 'chat.completion',
+      choices: [{ index: 0, message: { role: 'assistant', content: JSON.stringify(result) }, finish_reason: 'stop' }],
+    });
+  },
+});
+
+console.log(`Mock LLM listening on http://localhost:${PORT}`);
@@ -0,0 +1,146 @@
+// Local mock of an OAuth 2.0 authorization server and a protected API, for exercising the gateway's
+// token minting, caching, refresh and account connection without a real provider.
+//
+// Usage: bun scripts/mock-oauth.ts, then start the gateway with SSRF_ALLOWED_CIDRS=127.0.0.0/8 and
+// register an oauth2 service with baseUrl http://127.0.0.1:4020/api and credentials
+// client_id=gateway, client_secret=secret, token_url=http://127.0.0.1:4020/token
+// (client credentials), plus authorization_url=http://127.0.0.1:4020/authorize to connect an account.
+//
+// GET  /authorize     consents at once: redirects to redirect_uri with a code (PKCE S256 required)
+// POST /token         client_credentials, authorization_code and refresh_token grants; client
+//                     authenticated with HTTP Basic or form fields. Refresh tokens rotate on use
+// ANY  /api/*         200 with the token's client and scope if the Bearer token is live, else 401
+// POST /revoke-all    forgets every issued access token, so the next API call gets a 401 (exercises refresh)
+//
+// MOCK_OAUTH_TTL sets expires_in in seconds (default 3600; set it low to exercise expiry refresh).
+// MOCK_OAUTH_FAIL=1 answers every token request with HTTP 500.
+
+const PORT = Number(process.env.MOCK_OAUTH_PORT || 4020);
+const CLIENT_ID = process.env.MOCK_OAUTH_CLIENT_ID || 'gateway';
+const CLIENT_SECRET = process.env.MOCK_OAUTH_CLIENT_SECRET || 'secret';
+const TTL_SECONDS = Number(process.env.MOCK_OAUTH_TTL || 3600);
+const FAIL = process.env.MOCK_OAUTH_FAIL === '1';
+
+const tokens = new Map<string, { clientId: string; scope: string | null; expiresAt: number }>();
+const codes = new Map<string, { challenge: string; redirectUri: string; scope: string | null }>();
+const refreshTokens = new Map<string, { scope: string | null }>();
+let issued = 0;
+
+function authorize(url: URL): Response {
+  const redirectUri = url.searchParams.get('redirect_uri');
+  const challenge = url.searchParams.get('code_challenge');
+  if (url.searchParams.get('client_id') !== CLIENT_ID || !redirectUri) {
+    return Response.json({ error: 'invalid_request' }, { status: 400 });
+  }
+  const target = new URL(redirectUri);
+  const state = url.searchParams.get('state');
+  if (state) target.searchParams.set('state', state);
+  if (!challenge || url.searchParams.get('code_challenge_method') !== 'S256') {
+    target.searchParams.set('error', 'invalid_request');
+    target.searchParams.set('error_description', 'PKCE S256 code challenge required');
+    return Response.redirect(target.toString(), 302);
+  }
+  const code = crypto.randomUUID();
+  codes.set(code, { challenge, redirectUri, scope: url.searchParams.get('scope') });
+  target.searchParams.set('code', code);
+  console.log(`mock-oauth: authorized, redirecting to ${target.origin}${target.pathname}`);
+  return Response.redirect(target.toString(), 302);
+}
+
+async function s256(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return Buffer.from(digest).toString('base64url');
+}
+
+function clientFrom(req: Request, form: URLSearchParams): { id: string; secret: string } | null {
+  const authorization = req.headers.get('authorization');
+  if (authorization?.startsWith('Basic ')) {
+    const [id, secret] = Buffer.from(authorization.slice(6), 'base64').toString().split(':');
+    return id !== undefined && secret !== undefined
+      ? { id: decodeURIComponent(id), secret: decodeURIComponent(secret) }
+      : null;
+  }
+  const id = form.get('client_id');
+  const secret = form.get('client_secret');
+  return id && secret ? { id, secret } : null;
+}
+
+async function issueToken(req: Request): Promise<Response> {
+  if (FAIL) {
+    return Response.json({ error: 'server_error' }, { status: 500 });
+  }
+
+  const form = new URLSearchParams(await req.text());
+  const grantType = form.get('grant_type');
+  const client = clientFrom(req, form);
+  if (!client || client.id !== CLIENT_ID || client.secret !== CLIENT_SECRET) {
+    return Response.json({ error: 'invalid_client' }, { status: 401 });
+  }
+
+  let scope = form.get('scope');
+  let refreshToken: string | null = null;
+  if (grantType === 'authorization_code') {
+    const grant = codes.get(form.get('code') ?? '');
+    codes.delete(form.get('code') ?? '');
+    const verifier = form.get('code_verifier') ?? '';
+    if (!grant || grant.redirectUri !== form.get('redirect_uri') || (await s256(verifier)) !== grant.challenge) {
+      return Response.json({ error: 'invalid_grant' }, { status: 400 });
+    }
+    scope = grant.scope;
+    refreshToken = `mock-refresh-${crypto.randomUUID()}`;
+  } else if (grantType === 'refresh_token') {
+    const grant = refreshTokens.get(form.get('refresh_token') ?? '');
+    if (!grant) {
+      return Response.json({ error: 'invalid_grant' }, { status: 400 });
+    }
+    refreshTokens.delete(form.get('refresh_token')!);
+    scope = grant.scope;
+    refreshToken = `mock-refresh-${crypto.randomUUID()}`;
+  } else if (grantType !== 'client_credentials') {
+    return Response.json({ error: 'unsupported_grant_type' }, { status: 400 });
+  }
+
+  const accessToken = `mock-token-${++issued}-${crypto.randomUUID()}`;
+  tokens.set(accessToken, { clientId: client.id, scope, expiresAt: Date.now() + TTL_SECONDS * 1000 });
+  if (refreshToken) refreshTokens.set(refreshToken, { scope });
+  console.log(`mock-oauth: issued token #${issued} via ${grantType} (scope: ${scope ?? 'none'}, ttl ${TTL_SECONDS}s)`);
+
+  return Response.json({
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: TTL_SECONDS,
+    ...(refreshToken ? { refresh_token: refreshToken } : {}),
+    ...(scope ? { scope } : {}),
+  });
+}
+
+function callApi(req: Request, url: URL): Response {
+  const authorization = req.headers.get('authorization') ?? '';
+  const token = tokens.get(authorization.replace(/^Bearer /, ''));
+  if (!token || token.expiresAt <= Date.now()) {
+    console.log(`mock-oauth: 401 for ${req.method} ${url.pathname}`);
+    return Response.json(
+      { error: 'invalid_token' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' } }
+    );
+  }
+  return Response.json({ ok: true, method: req.method, path: url.pathname, client: token.clientId, scope: token.scope });
+}
+
+Bun.serve({
+  port: PORT,
+  async fetch(req) {
+    const url = new URL(req.url);
+    if (req.method === 'GET' && url.pathname === '/authorize') return authorize(url);
+    if (req.method === 'POST' && url.pathname === '/token') return issueToken(req);
+    if (req.method === 'POST' && url.pathname === '/revoke-all') {
+      tokens.clear();
+      console.log('mock-oauth: revoked all tokens');
+      return new Response(null, { status: 204 });
+    }
+    if (url.pathname.startsWith('/api/')) return callApi(req, url);
+    return Response.json({ error: 'Not found' }, { status: 404 });
+  },
+});
+
+console.log(`Mock OAuth server listening on http://localhost:${PORT}`);
@@ -0,0 +1,84 @@
+// Local AWS Signature Version 4 verifier, for exercising the gateway's sigv4 auth type without
+// MinIO or a real AWS account. Recomputes the signature of every request from what actually arrived
+// (method, path, query, signed headers, body), so anything changed after signing shows up as a 403.
+//
+// Usage: bun scripts/mock-sigv4.ts, then start the gateway with SSRF_ALLOWED_CIDRS=127.0.0.0/8 and
+// register a sigv4 service with baseUrl http://127.0.0.1:4030 and credentials
+// access_key_id=AKIDMOCK, secret_access_key=mock-secret, region=us-east-1, service=s3
+// (optionally session_token=mock-session, to require X-Amz-Security-Token).
+//
+// ANY /*   200 with the method, path and signed headers if the signature checks out, else 403 with
+//          the canonical mismatch (the same error codes S3 uses)
+//
+// MOCK_SIGV4_ACCESS_KEY, MOCK_SIGV4_SECRET, MOCK_SIGV4_SESSION_TOKEN, MOCK_SIGV4_REGION and
+// MOCK_SIGV4_SERVICE override the expected credentials.
+
+import { signSigV4, hashPayload } from '../src/utils/sigv4';
+
+const PORT = Number(process.env.MOCK_SIGV4_PORT || 4030);
+const ACCESS_KEY = process.env.MOCK_SIGV4_ACCESS_KEY || 'AKIDMOCK';
+const SECRET = process.env.MOCK_SIGV4_SECRET || 'mock-secret';
+const SESSION_TOKEN = process.env.MOCK_SIGV4_SESSION_TOKEN || undefined;
+const REGION = process.env.MOCK_SIGV4_REGION || 'us-east-1';
+const SERVICE = process.env.MOCK_SIGV4_SERVICE || 's3';
+const MAX_SKEW_MS = 15 * 60 * 1000;
+
+const AUTHORIZATION_PATTERN =
+  /^AWS4-HMAC-SHA256 Credential=([^/]+)\/(\d{8})\/([^/]+)\/([^/]+)\/aws4_request, SignedHeaders=([a-z0-9;-]+), Signature=([0-9a-f]{64})$/;
+
+function denied(code: string, message: string): Response {
+  console.log(`mock-sigv4: 403 ${code}: ${message}`);
+  return Response.json({ error: code, message }, { status: 403 });
+}
+
+async function verify(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+  const match = AUTHORIZATION_PATTERN.exec(req.headers.get('authorization') ?? '');
+  if (!match) return denied('AccessDenied', 'Missing or malformed AWS4-HMAC-SHA256 Authorization header');
+
+  const [, accessKey, dateStamp, region, service, signedHeaderList, signature] = match;
+  if (accessKey !== ACCESS_KEY) return denied('InvalidAccessKeyId', `Unknown access key ${accessKey}`);
+  if (region !== REGION || service !== SERVICE) {
+    return denied('AuthorizationHeaderMalformed', `Scope ${region}/${service}, expected ${REGION}/${SERVICE}`);
+  }
+  if (SESSION_TOKEN && req.headers.get('x-amz-security-token') !== SESSION_TOKEN) {
+    return denied('InvalidToken', 'Missing or wrong X-Amz-Security-Token');
+  }
+
+  const amzDate = req.headers.get('x-amz-date') ?? '';
+  const signedAt = Date.parse(amzDate.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, '$1-$2-$3T$4:$5:$6Z'));
+  if (isNaN(signedAt) || !amzDate.startsWith(dateStamp!)) return denied('AccessDenied', `Bad X-Amz-Date "${amzDate}"`);
+  if (Math.abs(Date.now() - signedAt) > MAX_SKEW_MS) return denied('RequestTimeTooSkewed', 'Signed more than 15 minutes ago');
+
+  const body = new Uint8Array(await req.arrayBuffer());
+  const payloadHash = req.headers.get('x-amz-content-sha256') ?? hashPayload(body);
+  if (payloadHash !== 'UNSIGNED-PAYLOAD' && payloadHash !== hashPayload(body)) {
+    return denied('XAmzContentSHA256Mismatch', `Body of ${body.byteLength} bytes doesn't match X-Amz-Content-Sha256`);
+  }
+
+  const signedHeaders: Record<string, string> = {};
+  for (const name of signedHeaderList!.split(';')) {
+    const value = req.headers.get(name);
+    if (value === null) return denied('AccessDenied', `Signed header ${name} not received`);
+    signedHeaders[name] = value;
+  }
+
+  const expected = signSigV4(
+    { method: req.method, url: req.url, headers: signedHeaders, payloadHash },
+    { accessKeyId: ACCESS_KEY, secretAccessKey: SECRET, sessionToken: SESSION_TOKEN, region: REGION, service: SERVICE },
+    new Date(signedAt)
+  ).Authorization!;
+  if (!expected.endsWith(`Signature=${signature}`)) {
+    return denied('SignatureDoesNotMatch', `Recomputed ${expected}`);
+  }
+
+  console.log(`mock-sigv4: verified ${req.method} ${url.pathname}${url.search} (${body.byteLength} bytes)`);
+  return Response.json({ ok: true, method: req.method, path: url.pathname, query: url.search, signedHeaders: signedHeaderList });
+}
+
+Bun.serve({
+  port: PORT,
+  fetch: verify,
+});
+
+console.log(`Mock SigV4 verifier listening on http://localhost:${PORT}`);
@@ -46,4 +46,23 @@ export const env = {
     return val;
   })(),
   APPROVAL_EXECUTE_TTL_HOURS: getEnvNumber('APPROVAL_EXECUTE_TTL_HOURS', 1),
+  // Largest upstream response body (bytes) kept for idempotency/approval replay; larger bodies stream but aren't cached
+  PROXY_CACHE_MAX_BYTES: getEnvNumber('PROXY_CACHE_MAX_BYTES', 1024 * 1024),
+  // Upstream retries for idempotent (or idempotency-keyed) requests; attempts includes the first try
+  PROXY_RETRY_ATTEMPTS: getEnvNumber('PROXY_RETRY_ATTEMPTS', 3),
+  PROXY_RETRY_BASE_DELAY_MS: getEnvNumber('PROXY_RETRY_BASE_DELAY_MS', 200),
+  PROXY_RETRY_MAX_DELAY_MS: getEnvNumber('PROXY_RETRY_MAX_DELAY_MS', 5000),
+  // Longest a Server-Sent Events stream or WebSocket session may stay open; replaces the per-request total timeout
+  PROXY_STREAM_MAX_SECONDS: getEnvNumber('PROXY_STREAM_MAX_SECONDS', 3600),
+  // Circuit breaker: consecutive upstream failures before a service is failed fast, and for how long
+  CIRCUIT_FAILURE_THRESHOLD: getEnvNumber('CIRCUIT_FAILURE_THRESHOLD', 5),
+  CIRCUIT_OPEN_SECONDS: getEnvNumber('CIRCUIT_OPEN_SECONDS', 30),
+  // OAuth2 connect flow: the callback URL registered with providers, and where the browser returns afterwards
+  OAUTH_REDIRECT_URL: getEnvVar('OAUTH_REDIRECT_URL', false) || `http://localhost:${getEnvNumber('PORT', 3000)}/oauth/callback`,
+  DASHBOARD_URL: (getEnvVar('DASHBOARD_URL', false) || 'http://localhost:4173').replace(/\/+$/, ''),
+  // Comma-separated CIDRs exempt from SSRF range blocking (e.g. "127.0.0.0/8" for local development upstreams)
+  SSRF_ALLOWED_CIDRS: (getEnvVar('SSRF_ALLOWED_CIDRS', false) || '')
+    .split(',')
+    .map((cidr) => cidr.trim())
+    .filter(Boolean),
 };
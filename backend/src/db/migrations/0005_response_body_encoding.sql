@@ -0,0 +1,2 @@
+ALTER TABLE "idempotency_keys" ADD COLUMN "responseBodyEncoding" varchar(10);--> statement-breakpoint
+ALTER TABLE "approval_queue" ADD COLUMN "responseBodyEncoding" varchar(10);
@@ -0,0 +1 @@
+ALTER TABLE "approval_queue" ADD COLUMN "requestBodyEncoding" varchar(10);
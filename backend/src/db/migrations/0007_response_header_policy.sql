@@ -0,0 +1 @@
+ALTER TABLE "services" ADD COLUMN "responseHeaderPolicy" jsonb;
@@ -0,0 +1,2 @@
+ALTER TABLE "services" ADD COLUMN "redirectPolicy" jsonb;--> statement-breakpoint
+ALTER TABLE "proxy_requests" ADD COLUMN "redirectChain" jsonb;
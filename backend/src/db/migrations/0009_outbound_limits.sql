@@ -0,0 +1,5 @@
+ALTER TABLE "services" ADD COLUMN "connectTimeoutMs" integer;--> statement-breakpoint
+ALTER TABLE "services" ADD COLUMN "timeoutMs" integer;--> statement-breakpoint
+ALTER TABLE "services" ADD COLUMN "maxRequestBodyBytes" integer;--> statement-breakpoint
+ALTER TABLE "services" ADD COLUMN "maxResponseBodyBytes" integer;--> statement-breakpoint
+ALTER TABLE "services" ADD COLUMN "maxConcurrency" integer;
@@ -0,0 +1,5 @@
+ALTER TABLE "proxy_requests" ADD COLUMN "protocol" varchar(16) DEFAULT 'http' NOT NULL;--> statement-breakpoint
+ALTER TABLE "proxy_requests" ADD COLUMN "durationMs" integer;--> statement-breakpoint
+ALTER TABLE "proxy_requests" ADD COLUMN "bytesSent" bigint;--> statement-breakpoint
+ALTER TABLE "proxy_requests" ADD COLUMN "bytesReceived" bigint;--> statement-breakpoint
+ALTER TABLE "approval_queue" ADD COLUMN "protocol" varchar(16) DEFAULT 'http' NOT NULL;
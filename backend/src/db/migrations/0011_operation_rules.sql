@@ -0,0 +1,2 @@
+ALTER TABLE "services" ADD COLUMN "operationRules" jsonb;--> statement-breakpoint
+ALTER TABLE "approval_queue" ADD COLUMN "operation" jsonb;
@@ -0,0 +1,2 @@
+ALTER TABLE "services" ADD COLUMN "apiProtocol" varchar(16);--> statement-breakpoint
+ALTER TABLE "proxy_requests" ADD COLUMN "operation" jsonb;
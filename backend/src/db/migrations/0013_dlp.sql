@@ -0,0 +1,2 @@
+ALTER TABLE "services" ADD COLUMN "dlpPolicy" jsonb;--> statement-breakpoint
+ALTER TABLE "approval_queue" ADD COLUMN "dlpMatches" jsonb;
@@ -0,0 +1,2 @@
+ALTER TABLE "services" ADD COLUMN "responseRedactionRules" jsonb;--> statement-breakpoint
+ALTER TABLE "proxy_requests" ADD COLUMN "redactions" jsonb;
@@ -0,0 +1 @@
+ALTER TABLE "proxy_requests" ADD COLUMN "securityIncidents" jsonb;
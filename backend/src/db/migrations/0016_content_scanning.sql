@@ -0,0 +1,2 @@
+ALTER TABLE "services" ADD COLUMN "contentScanPolicy" jsonb;--> statement-breakpoint
+ALTER TABLE "approval_queue" ADD COLUMN "contentRisk" jsonb;
\ No newline at end of file
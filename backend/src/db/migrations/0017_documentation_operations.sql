@@ -0,0 +1,17 @@
+CREATE TABLE "documentation_operations" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "documentation_operations_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"documentationId" integer NOT NULL,
+	"serviceId" integer NOT NULL,
+	"method" varchar(10) NOT NULL,
+	"path" varchar(2048) NOT NULL,
+	"operationId" varchar(255),
+	"summary" text,
+	"description" text,
+	"deprecated" boolean DEFAULT false NOT NULL,
+	"hints" jsonb NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "documentation_operations" ADD CONSTRAINT "documentation_operations_documentationId_documentation_id_fk" FOREIGN KEY ("documentationId") REFERENCES "public"."documentation"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "documentation_operations" ADD CONSTRAINT "documentation_operations_serviceId_services_id_fk" FOREIGN KEY ("serviceId") REFERENCES "public"."services"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "documentation_operations_service_method_idx" ON "documentation_operations" USING btree ("serviceId","method");--> statement-breakpoint
+CREATE INDEX "documentation_operations_documentation_id_idx" ON "documentation_operations" USING btree ("documentationId");
@@ -0,0 +1,3 @@
+ALTER TABLE "documentation_operations" ADD COLUMN "tags" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "documentation_operations" ADD COLUMN "riskLevel" varchar(10) DEFAULT 'medium' NOT NULL;--> statement-breakpoint
+CREATE INDEX "documentation_operations_service_operation_id_idx" ON "documentation_operations" USING btree ("serviceId","operationId");
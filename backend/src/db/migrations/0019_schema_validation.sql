@@ -0,0 +1,2 @@
+ALTER TABLE "services" ADD COLUMN "schemaValidationPolicy" jsonb;--> statement-breakpoint
+ALTER TABLE "documentation_operations" ADD COLUMN "requestContract" jsonb;
@@ -0,0 +1,12 @@
+ALTER TABLE "services" ADD COLUMN "credentialPlacements" jsonb;--> statement-breakpoint
+UPDATE "services" SET "credentialPlacements" = jsonb_build_array(jsonb_build_object(
+  'in', 'header',
+  'name', CASE WHEN "first_key"."key" = 'api_key' THEN 'X-API-Key' ELSE "first_key"."key" END,
+  'value', '{' || "first_key"."key" || '}'
+))
+FROM (
+  SELECT DISTINCT ON ("serviceId") "serviceId", "key"
+  FROM "credentials"
+  ORDER BY "serviceId", ("key" = 'api_key'), "id"
+) AS "first_key"
+WHERE "services"."id" = "first_key"."serviceId" AND "services"."authType" = 'api_key';
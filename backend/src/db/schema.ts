@@ -1,6 +1,6 @@
 // Database schema definitions using Drizzle ORM
 
-import { pgTable, integer, varchar, timestamp, text, index, boolean, uniqueIndex, real } from 'drizzle-orm/pg-core';
+import { pgTable, integer, varchar, timestamp, text, index, boolean, uniqueIndex, real, jsonb, bigint } from 'drizzle-orm/pg-core';
 import type { InferSelectModel, InferInsertModel } from 'drizzle-orm';
 
 // Users table
@@ -25,6 +25,161 @@ export const refreshTokens = pgTable('refresh_tokens', {
   userIdIdx: index('refresh_tokens_user_id_idx').on(table.userId),
 }));
 
+// Response header passthrough policy for a service (see utils/headers.ts)
+// - denylist: forward every header except those listed
+// - allowlist: forward only the headers listed (Content-Type is always forwarded)
+export interface HeaderPolicy {
+  mode: 'denylist' | 'allowlist';
+  headers: string[];
+}
+
+// Redirect-following policy for a service; null = return 3xx responses to the agent unfollowed
+export interface RedirectPolicy {
+  maxHops: number;           // follow at most this many redirects
+  allowCrossOrigin: boolean; // follow redirects off the service origin (credentials are never sent there)
+}
+
+// One followed redirect, recorded in the proxy_requests audit row
+export interface RedirectHop {
+  status: number; // 3xx status that triggered the hop
+  url: string;    // Location the gateway followed
+}
+
+// A GraphQL operation as seen by the risk gate (top-level fields only, aliases resolved)
+export interface GraphQLOperationSummary {
+  type: 'query' | 'mutation' | 'subscription';
+  name: string | null;
+  fields: string[];
+}
+
+// One call in a JSON-RPC 2.0 request (a batch has several)
+export interface JsonRpcCallSummary {
+  method: string;
+  id: string | number | null; // null for notifications (no response expected)
+  params: string | null;      // params as compact JSON, truncated for display
+  riskScore: number;          // baseline risk of the method name (see jsonRpcMethodScore in risk.service.ts)
+}
+
+// What a request does at the API-protocol level, extracted from its body for risk, policy and review
+export type RequestOperation =
+  | { protocol: 'graphql'; operations: GraphQLOperationSummary[] }
+  | { protocol: 'jsonrpc'; batch: boolean; calls: JsonRpcCallSummary[] };
+
+// API protocol spoken over a service's URL; null = plain HTTP (request bodies aren't parsed as either protocol)
+export type ApiProtocol = 'graphql' | 'jsonrpc';
+
+// Service rule applied to a request's operation keys (GraphQL "mutation.delete*", JSON-RPC method "wallet_send*");
+// first matching rule per key wins
+export interface OperationRule {
+  match: string; // operation key pattern, '*' matches any run of characters
+  action: 'allow' | 'approve' | 'deny'; // allow skips risk assessment; approve always queues; deny rejects (403)
+}
+
+// Data-loss prevention: what happens to a request whose body matches a detector
+export type DlpAction = 'block' | 'redact' | 'approve'; // reject (403) | replace the match | force human approval
+export type DlpDetector = 'api_key' | 'private_key' | 'credit_card' | 'email' | 'phone';
+
+// Per-service DLP configuration; null = built-in defaults (see DEFAULT_DLP_ACTIONS in utils/dlp.ts)
+export interface DlpPolicy {
+  detectors?: Partial<Record<DlpDetector, DlpAction | 'off'>>; // unset detectors keep their default action
+  customPatterns?: Array<{ name: string; pattern: string; action: DlpAction }>; // JavaScript regex source
+}
+
+// One DLP finding, recorded on the approval entry — the matched value itself is never stored
+export interface DlpMatch {
+  detector: string; // built-in detector or custom pattern name
+  action: DlpAction;
+  preview: string;  // masked excerpt, e.g. "AKIA…MPLE"
+  part?: string;    // multipart part name; absent for the main body
+  start: number;    // span in the body (or part value) as stored, after redaction
+  end: number;
+}
+
+// Per-service rule removing data from upstream responses before the agent (or any cache) sees it
+export interface ResponseRedactionRule {
+  name: string;                             // identifies the rule in the audit log
+  type: 'json_path' | 'field' | 'regex';    // JSONPath ($.user.ssn, $..card), JSON key at any depth, or regex
+  pattern: string;
+  replacement?: string;                     // default "[REDACTED]"
+}
+
+// A redaction rule that fired on a response, as recorded in the audit log (never the values)
+export interface RedactionHit {
+  rule: string;
+  count: number; // values (json_path/field) or matches (regex) replaced
+}
+
+// Something in an exchange that a security reviewer should look at, recorded on the audit row
+export interface SecurityIncident {
+  // credential_echo: upstream echoed a credential the gateway injected (scrubbed before returning);
+  // prompt_injection: response content scored at or above the service's content scan threshold
+  type: 'credential_echo' | 'prompt_injection';
+  location: 'header' | 'body';
+  detail: string;          // header names, 'response body', or the content risk explanation
+  count: number;           // occurrences scrubbed, or injection signals matched
+  score?: number;          // content risk score (prompt_injection only)
+}
+
+// A request the gateway made to an oauth2 service's token endpoint (client credentials grant) while
+// handling a proxy request
+export interface OAuthTokenFetch {
+  // missing: no cached token; expiring: cached token expired or about to; unauthorized: upstream answered 401 to it
+  reason: 'missing' | 'expiring' | 'unauthorized';
+  status: number | null;   // token endpoint HTTP status, null if it couldn't be reached
+  durationMs: number;
+  error?: string;          // set if no token was obtained
+}
+
+// Response-side prompt-injection scanning: what happens to a response whose content is flagged
+// annotate: X-GaiterGuard-Content-Risk header only | wrap: body wrapped in an untrusted-content envelope |
+// withhold: response parked in the approval queue until a human releases it
+export type ContentScanMode = 'annotate' | 'wrap' | 'withhold';
+
+// Per-service content scanning; null = responses aren't scanned
+export interface ContentScanPolicy {
+  mode: ContentScanMode;
+  threshold?: number; // 0-1 score at which content is flagged; default RISK_THRESHOLD
+}
+
+// Result of scanning one response body (see assessContentRisk in risk.service.ts)
+export interface ContentRisk {
+  score: number;       // 0-1, the higher of the heuristic and LLM scores
+  signals: string[];   // heuristic patterns matched, e.g. "override_instructions"
+  explanation: string;
+  flagged: boolean;    // score >= the service's threshold
+}
+
+// Request validation against the service's OpenAPI operation catalog; null = requests aren't validated
+export interface SchemaValidationPolicy {
+  // Requests matching no cataloged operation: block (422) | flag (human approval) | allow (assessed as usual)
+  unknownOperations: 'block' | 'flag' | 'allow';
+}
+
+// Request signing for hmac services: a signature header computed per outgoing request over a canonical
+// string template (placeholders listed in utils/hmac-signing.ts); the key is credentials.secret
+export interface HmacSigning {
+  algorithm: 'sha256' | 'sha512' | 'sha1';
+  canonical: string;                                  // e.g. "{timestamp}\n{method}\n{path}\n{body}"
+  signatureHeader: string;                            // e.g. "X-Signature"
+  signatureFormat?: string;                           // header value template; default "{signature}"
+  encoding?: 'hex' | 'base64';                        // signature encoding; default hex
+  secretEncoding?: 'utf8' | 'hex' | 'base64';         // how credentials.secret is stored; default utf8
+  timestampHeader?: string | null;                    // e.g. "X-Timestamp"; unset = only inside the signature
+  timestampFormat?: 'unix' | 'unix_ms' | 'iso8601';   // default unix (seconds)
+  nonceHeader?: string | null;                        // sends {nonce} in this header
+}
+
+// Where a credential goes on outgoing requests: a header, query parameter or cookie named `name`, its
+// value a template referencing credential keys, e.g. "{api_key}" or "Token {token}"
+export interface CredentialPlacement {
+  in: 'header' | 'query' | 'cookie';
+  name: string;
+  value: string;
+}
+
+// How a proxied exchange was carried: a plain request/response, a Server-Sent Events stream or a WebSocket session
+export type ProxyProtocol = 'http' | 'sse' | 'websocket';
+
 // Services table - stores API service configurations
 export const services = pgTable('services', {
   id: integer().primaryKey().generatedAlwaysAsIdentity(),
@@ -33,7 +188,23 @@ export const services = pgTable('services', {
     .notNull(),
   name: varchar({ length: 255 }).notNull(),
   baseUrl: varchar({ length: 512 }).notNull(),
-  authType: varchar({ length: 50 }).notNull(), // 'api_key', 'bearer', 'basic', 'oauth2'
+  authType: varchar({ length: 50 }).notNull(), // 'api_key', 'bearer', 'basic', 'oauth2', 'sigv4', 'hmac'
+  apiProtocol: varchar({ length: 16 }).$type<ApiProtocol>(),
+  responseHeaderPolicy: jsonb().$type<HeaderPolicy>(), // null = forward all headers that pass safety rules
+  redirectPolicy: jsonb().$type<RedirectPolicy>(), // null = don't follow redirects
+  operationRules: jsonb().$type<OperationRule[]>(), // null = every request goes through risk assessment
+  dlpPolicy: jsonb().$type<DlpPolicy>(), // null = built-in detectors with default actions
+  responseRedactionRules: jsonb().$type<ResponseRedactionRule[]>(), // null = responses returned unmodified
+  contentScanPolicy: jsonb().$type<ContentScanPolicy>(), // null = responses aren't scanned for prompt injection
+  schemaValidationPolicy: jsonb().$type<SchemaValidationPolicy>(), // null = requests aren't validated against OpenAPI docs
+  hmacSigning: jsonb().$type<HmacSigning>(), // hmac services only: how requests are signed
+  credentialPlacements: jsonb().$type<CredentialPlacement[]>(), // required for api_key; extra placements for other auth types
+  // Outbound limits — null = gateway default (see resolveOutboundLimits in proxy.service.ts)
+  connectTimeoutMs: integer(),     // time allowed to connect and receive response headers
+  timeoutMs: integer(),            // time allowed for the whole exchange, including the body
+  maxRequestBodyBytes: integer(),
+  maxResponseBodyBytes: integer(),
+  maxConcurrency: integer(),       // in-flight requests per service (per gateway process)
   createdAt: timestamp().defaultNow().notNull(),
   updatedAt: timestamp().defaultNow().notNull(),
 }, (table) => ({
@@ -54,21 +225,114 @@ export const credentials = pgTable('credentials', {
   serviceIdIdx: index('credentials_service_id_idx').on(table.serviceId),
 }));
 
+// OAuth tokens table - access tokens the gateway minted for oauth2 services configured with client
+// credentials; one per service, replaced on refresh and dropped when the service's credentials change
+export const oauthTokens = pgTable('oauth_tokens', {
+  id: integer().primaryKey().generatedAlwaysAsIdentity(),
+  serviceId: integer()
+    .references(() => services.id, { onDelete: 'cascade' })
+    .notNull()
+    .unique(),
+  encryptedAccessToken: text().notNull(), // format: iv:authTag:ciphertext
+  scope: text(), // scope granted, if the token endpoint reported it
+  expiresAt: timestamp(), // null = no expires_in given; the token is only replaced after a 401
+  createdAt: timestamp().defaultNow().notNull(),
+  updatedAt: timestamp().defaultNow().notNull(),
+});
+
+// OAuth authorizations table - pending authorization-code connect flows, claimed once by the callback
+export const oauthAuthorizations = pgTable('oauth_authorizations', {
+  id: integer().primaryKey().generatedAlwaysAsIdentity(),
+  state: varchar({ length: 64 }).notNull().unique(), // random, sent to the provider and echoed to the callback
+  serviceId: integer()
+    .references(() => services.id, { onDelete: 'cascade' })
+    .notNull(),
+  userId: integer()
+    .references(() => users.id, { onDelete: 'cascade' })
+    .notNull(),
+  encryptedCodeVerifier: text().notNull(), // PKCE code_verifier, format: iv:authTag:ciphertext
+  bindingHash: varchar({ length: 64 }), // SHA-256 hex of the browser binding cookie; null (older rows) never matches
+  redirectUri: varchar({ length: 2048 }).notNull(), // must be repeated verbatim in the code exchange
+  expiresAt: timestamp().notNull(),
+  createdAt: timestamp().defaultNow().notNull(),
+});
+
+export type DocumentationType = 'openapi' | 'markdown' | 'url';
+
+// What is kept of an OpenAPI document once its operations are indexed (documentation.content for type 'openapi')
+export interface OpenApiDocumentSummary {
+  specVersion: string;     // "3.1.0", "2.0", ...
+  title: string | null;    // info.title
+  apiVersion: string | null; // info.version
+  basePaths: string[];     // path prefixes from servers / basePath, stripped when matching requests
+  operationCount: number;
+}
+
 // Documentation table - stores API documentation
 export const documentation = pgTable('documentation', {
   id: integer().primaryKey().generatedAlwaysAsIdentity(),
   serviceId: integer()
     .references(() => services.id, { onDelete: 'cascade' })
     .notNull(),
-  type: varchar({ length: 50 }).notNull(), // 'openapi', 'markdown', 'url'
+  type: varchar({ length: 50 }).$type<DocumentationType>().notNull(),
   title: varchar({ length: 255 }), // optional display title
-  content: text().notNull(), // JSON string for OpenAPI, markdown text, or URL string
+  // OpenAPI: JSON OpenApiDocumentSummary (operations live in documentation_operations); markdown text; or URL string
+  content: text().notNull(),
   createdAt: timestamp().defaultNow().notNull(),
   updatedAt: timestamp().defaultNow().notNull(),
 }, (table) => ({
   serviceIdIdx: index('documentation_service_id_idx').on(table.serviceId),
 }));
 
+// One path, query or header parameter of a cataloged operation
+export interface OperationParameterContract {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  schema: Record<string, unknown> | null; // JSON Schema (OpenAPI dialect), $refs inlined; null = any value
+}
+
+// What a cataloged operation accepts, checked when the service has a schema validation policy
+// (see utils/openapi-validation.ts)
+export interface OperationRequestContract {
+  parameters: OperationParameterContract[];
+  body: {
+    required: boolean;
+    contentTypes: string[];                 // declared media types, e.g. application/json, multipart/*
+    schema: Record<string, unknown> | null; // schema of the JSON media type; null = not validated
+  } | null;                                 // null = no body declared (a body sent anyway isn't checked)
+}
+
+// Default risk of a cataloged operation, inferred from its method and tags (see inferRiskLevel in utils/api-docs.ts)
+// high: the request always needs approval unless an operation rule names the operation
+export type OperationRiskLevel = 'low' | 'medium' | 'high';
+
+// Documentation operations table - one row per OpenAPI operation (method + path): the service's operation
+// catalog, indexed for request lookup. Operation rules match plain-HTTP requests by the operation's operationId
+export const documentationOperations = pgTable('documentation_operations', {
+  id: integer().primaryKey().generatedAlwaysAsIdentity(),
+  documentationId: integer()
+    .references(() => documentation.id, { onDelete: 'cascade' })
+    .notNull(),
+  serviceId: integer()
+    .references(() => services.id, { onDelete: 'cascade' })
+    .notNull(),
+  method: varchar({ length: 10 }).notNull(), // uppercase
+  path: varchar({ length: 2048 }).notNull(), // path template, e.g. /repos/{owner}/{repo}
+  operationId: varchar({ length: 255 }),
+  summary: text(),
+  description: text(),
+  deprecated: boolean().notNull().default(false),
+  hints: jsonb().$type<string[]>().notNull(), // destructive-ness hints (see collectHints in utils/api-docs.ts)
+  tags: jsonb().$type<string[]>().notNull().default([]),
+  riskLevel: varchar({ length: 10 }).$type<OperationRiskLevel>().notNull().default('medium'),
+  requestContract: jsonb().$type<OperationRequestContract>(), // null = indexed before contracts were kept
+}, (table) => ({
+  serviceMethodIdx: index('documentation_operations_service_method_idx').on(table.serviceId, table.method),
+  serviceOperationIdIdx: index('documentation_operations_service_operation_id_idx').on(table.serviceId, table.operationId),
+  documentationIdIdx: index('documentation_operations_documentation_id_idx').on(table.documentationId),
+}));
+
 // Agents table - stores AI agent identities with API keys
 export const agents = pgTable('agents', {
   id: integer().primaryKey().generatedAlwaysAsIdentity(),
@@ -111,10 +375,12 @@ export const idempotencyKeys = pgTable('idempotency_keys', {
     .notNull(),
   key: varchar({ length: 255 }).notNull(),
   requestHash: varchar({ length: 64 }).notNull(), // SHA-256 hex of method+url+body
-  status: varchar({ length: 20 }).notNull(), // 'processing', 'completed', 'failed'
+  status: varchar({ length: 20 }).notNull(), // 'processing', 'completed', 'withheld', 'failed'
   responseStatus: integer(),
   responseHeaders: text(), // JSON-serialized response headers
   responseBody: text(),
+  responseBodyEncoding: varchar({ length: 10 }), // 'utf8' | 'base64' | 'none' (not cacheable); null = legacy utf8
+  withheldActionId: varchar({ length: 36 }), // status 'withheld': approval action holding the response
   createdAt: timestamp().defaultNow().notNull(),
   completedAt: timestamp(),
   expiresAt: timestamp().notNull(), // 24 hour TTL from creation
@@ -141,6 +407,16 @@ export const proxyRequests = pgTable('proxy_requests', {
   completedAt: timestamp(),
   statusCode: integer(),
   errorMessage: text(),
+  redirectChain: jsonb().$type<RedirectHop[]>(), // redirects followed by the gateway, in order
+  // Streaming sessions (SSE, WebSocket) are logged once they end; plain requests leave duration/bytes null
+  protocol: varchar({ length: 16 }).$type<ProxyProtocol>().notNull().default('http'),
+  durationMs: integer(),     // session length, open to close
+  bytesSent: bigint({ mode: 'number' }),     // agent → upstream
+  bytesReceived: bigint({ mode: 'number' }), // upstream → agent
+  operation: jsonb().$type<RequestOperation>(), // parsed GraphQL operations / JSON-RPC calls, null for plain HTTP
+  redactions: jsonb().$type<RedactionHit[]>(), // response redaction rules that fired, null if none
+  securityIncidents: jsonb().$type<SecurityIncident[]>(), // null = nothing to report
+  tokenFetches: jsonb().$type<OAuthTokenFetch[]>(), // OAuth token requests made for this request, null if none
 }, (table) => ({
   agentIdIdx: index('proxy_requests_agent_id_idx').on(table.agentId),
   serviceIdIdx: index('proxy_requests_service_id_idx').on(table.serviceId),
@@ -163,14 +439,20 @@ export const approvalQueue = pgTable('approval_queue', {
   method: varchar({ length: 10 }).notNull(),
   targetUrl: varchar({ length: 2048 }).notNull(),
   requestHeaders: text(), // JSON-serialized, auth headers stripped
-  requestBody: text(),    // nullable
+  requestBody: text(),    // nullable; text, base64, or JSON multipart envelope per requestBodyEncoding
+  requestBodyEncoding: varchar({ length: 10 }), // 'utf8' | 'base64' | 'multipart'; null = legacy utf8
   intent: varchar({ length: 500 }).notNull(),
+  protocol: varchar({ length: 16 }).$type<ProxyProtocol>().notNull().default('http'), // 'websocket' = a blocked session open
+  operation: jsonb().$type<RequestOperation>(), // parsed GraphQL operations / JSON-RPC calls, shown on the approval card
+  dlpMatches: jsonb().$type<DlpMatch[]>(), // data-loss prevention findings in the request body
+  contentRisk: jsonb().$type<ContentRisk>(), // set on a withheld response: the response itself is stored below
 
   // Risk assessment result
   riskScore: real().notNull(),          // 0-1 float; PostgreSQL REAL (4-byte), sufficient for risk scores
   riskExplanation: text().notNull(),
 
-  // 5-state machine: PENDING | APPROVED | DENIED | EXPIRED | EXECUTED
+  // State machine: PENDING | APPROVED | DENIED | EXPIRED | EXECUTING (being forwarded) | EXECUTED
+  // (a withheld response goes PENDING → EXECUTED)
   status: varchar({ length: 20 }).notNull().default('PENDING'),
 
   // TTL: set when status flips to APPROVED; if not executed by this time, status → EXPIRED
@@ -180,10 +462,11 @@ export const approvalQueue = pgTable('approval_queue', {
   resolvedAt: timestamp(), // when APPROVED or DENIED
   executedAt: timestamp(), // when EXECUTED
 
-  // Cached execution result (set after EXECUTED)
+  // Cached execution result (set after EXECUTED, or on creation for a withheld response)
   responseStatus: integer(),
   responseHeaders: text(), // JSON-serialized
   responseBody: text(),
+  responseBodyEncoding: varchar({ length: 10 }), // 'utf8' | 'base64' | 'none' (not cacheable); null = legacy utf8
 }, (table) => ({
   actionIdIdx: uniqueIndex('approval_queue_action_id_idx').on(table.actionId),
   agentIdIdx: index('approval_queue_agent_id_idx').on(table.agentId),
@@ -200,8 +483,14 @@ export type Service = InferSelectModel<typeof services>;
 export type InsertService = InferInsertModel<typeof services>;
 export type Credential = InferSelectModel<typeof credentials>;
 export type InsertCredential = InferInsertModel<typeof credentials>;
+export type OAuthToken = InferSelectModel<typeof oauthTokens>;
+export type InsertOAuthToken = InferInsertModel<typeof oauthTokens>;
+export type OAuthAuthorization = InferSelectModel<typeof oauthAuthorizations>;
+export type InsertOAuthAuthorization = InferInsertModel<typeof oauthAuthorizations>;
 export type Documentation = InferSelectModel<typeof documentation>;
 export type InsertDocumentation = InferInsertModel<typeof documentation>;
+export type DocumentationOperation = InferSelectModel<typeof documentationOperations>;
+export type InsertDocumentationOperation = InferInsertModel<typeof documentationOperations>;
 export type Agent = InferSelectModel<typeof agents>;
 export type InsertAgent = InferInsertModel<typeof agents>;
 export type AgentService = InferSelectModel<typeof agentServices>;
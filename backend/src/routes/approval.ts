@@ -11,10 +11,16 @@ import { errorResponse } from '@/utils/responses';
  *
  * Response shapes by status (per research Pattern 5):
  * - PENDING:  { status, action_id, created_at }
+ *             Withheld responses: { status, action_id, created_at, withheld: 'response' } — released as EXECUTED
  * - APPROVED: { status, action_id, execute_url }
+ *             WebSocket actions: { status, action_id, protocol: 'websocket' } — reopen the socket with X-Action-Id
+ * - EXECUTING: { status, action_id } — an execute call is forwarding it; poll again for the result
  * - DENIED:   { status, action_id, resolved_at }
  * - EXPIRED:  { status, action_id }
- * - EXECUTED: { status, action_id, result: { status, headers, body } }
+ * - EXECUTED: { status, action_id, result: { status, headers, body, body_encoding } }
+ *
+ * body_encoding is 'utf8' (body is text), 'base64' (binary body) or 'none' (body was too
+ * large to cache; body is null).
  *
  * Ownership check: returns 404 for both not-found and wrong-agent — avoids revealing existence.
  */
@@ -48,15 +54,25 @@ export async function handleApprovalStatus(
           status: 'PENDING',
           action_id,
           created_at: row.createdAt.toISOString(),
+          ...(row.contentRisk ? { withheld: 'response' } : {}),
         });
 
       case 'APPROVED':
+        if (row.protocol === 'websocket') {
+          return Response.json({ status: 'APPROVED', action_id, protocol: 'websocket' });
+        }
         return Response.json({
           status: 'APPROVED',
           action_id,
           execute_url: `/proxy/execute/${action_id}`,
         });
 
+      case 'EXECUTING':
+        return Response.json({
+          status: 'EXECUTING',
+          action_id,
+        });
+
       case 'DENIED':
         return Response.json({
           status: 'DENIED',
@@ -84,6 +100,7 @@ export async function handleApprovalStatus(
             status: row.responseStatus,
             headers: parsedHeaders,
             body: row.responseBody,
+            body_encoding: row.responseBodyEncoding ?? 'utf8',
           },
         });
       }
@@ -14,6 +14,7 @@ import { eq } from 'drizzle-orm';
 import { env } from '@/config/env';
 import { errorResponse } from '@/utils/responses';
 import { logger } from '@/utils/logger';
+import { summarizeRequestBody, type RequestBodyEncoding } from '@/utils/body';
 
 /**
  * GET /approvals/pending
@@ -21,6 +22,12 @@ import { logger } from '@/utils/logger';
  *
  * Returns every pending action queued by agents belonging to this user.
  * Joins approvalQueue with agents on userId — users only see their own agents' actions.
+ *
+ * Binary and multipart bodies are never sent to the dashboard: request_body is null and
+ * request_body_summary lists sizes, filenames and content types instead.
+ *
+ * Withheld responses (content scanning) carry content_risk and the held-back response
+ * (response_body is null unless it is text).
  */
 export async function handleListPendingApprovals(req: Request): Promise<Response> {
   try {
@@ -36,17 +43,33 @@ export async function handleListPendingApprovals(req: Request): Promise<Response
         // If headers can't be parsed, return empty object
       }
 
+      const encoding = (row.requestBodyEncoding ?? 'utf8') as RequestBodyEncoding;
+      let requestBodySummary = null;
+      try {
+        requestBodySummary = summarizeRequestBody({ body: row.requestBody, encoding });
+      } catch {
+        // Malformed stored envelope — show no summary rather than failing the whole list
+      }
+
       return {
         action_id: row.actionId,
         agent_name: row.agentName,
         service_id: row.serviceId,
         method: row.method,
         target_url: row.targetUrl,
+        protocol: row.protocol,
+        operation: row.operation,
+        dlp_matches: row.dlpMatches,
+        content_risk: row.contentRisk,
+        response_status: row.contentRisk ? row.responseStatus : null,
+        response_body: row.contentRisk && (row.responseBodyEncoding ?? 'utf8') === 'utf8' ? row.responseBody : null,
         intent: row.intent,
         risk_score: row.riskScore,
         risk_explanation: row.riskExplanation,
         request_headers: requestHeaders,
-        request_body: row.requestBody,
+        request_body: encoding === 'utf8' ? row.requestBody : null,
+        request_body_encoding: encoding,
+        request_body_summary: requestBodySummary,
         created_at: row.createdAt.toISOString(),
       };
     });
@@ -86,6 +109,9 @@ async function getOwnedEntry(actionId: string, userId: number) {
  * PATCH /approvals/:actionId/approve
  * Dashboard approves a PENDING action, transitioning it to APPROVED.
  *
+ * A withheld response (content scanning) is released instead: PENDING → EXECUTED, and the agent
+ * collects the stored response from GET /status/:actionId.
+ *
  * Sets approvalExpiresAt based on APPROVAL_EXECUTE_TTL_HOURS env var.
  * Returns 409 if the action is already resolved (race condition protection).
  * Returns 404 if actionId not found or belongs to a different user.
@@ -102,6 +128,20 @@ export async function handleApproveAction(
       return errorResponse('Action not found', 404);
     }
 
+    if (row.contentRisk) {
+      const released = await transitionStatus(params.actionId, 'PENDING', 'EXECUTED', {
+        resolvedAt: new Date(),
+        executedAt: new Date(),
+      });
+      if (!released) {
+        return errorResponse('Action already resolved', 409);
+      }
+
+      logger.info(`Withheld response ${params.actionId} RELEASED by user ${userId}`);
+
+      return Response.json({ status: 'EXECUTED', action_id: params.actionId });
+    }
+
     const approvalExpiresAt = new Date(
       Date.now() + env.APPROVAL_EXECUTE_TTL_HOURS * 3600000
     );
@@ -0,0 +1,178 @@
+// Service documentation REST API routes
+// All endpoints require JWT authentication
+
+import { requireAuth, AuthError } from '@/middleware/auth';
+import { validateBody, ValidationError } from '@/middleware/validation';
+import { NotFoundError } from '@/services/service.service';
+import {
+  listDocumentation,
+  getDocumentation,
+  createDocumentation,
+  updateDocumentation,
+  deleteDocumentation,
+  InvalidDocumentationError,
+  createDocumentationSchema,
+  updateDocumentationSchema,
+} from '@/services/documentation.service';
+import { successResponse, errorResponse } from '@/utils/responses';
+import { logger } from '@/utils/logger';
+
+// ============================================================================
+// Route Handlers
+// ============================================================================
+
+/**
+ * Parse the :id and (optional) :docId path params, or return a 400 response
+ */
+function parseIds(params: { id: string; docId?: string }): { serviceId: number; docId: number } | Response {
+  const serviceId = parseInt(params.id, 10);
+  if (isNaN(serviceId)) {
+    return errorResponse('Invalid service ID', 400);
+  }
+  const docId = params.docId !== undefined ? parseInt(params.docId, 10) : 0;
+  if (isNaN(docId)) {
+    return errorResponse('Invalid documentation ID', 400);
+  }
+  return { serviceId, docId };
+}
+
+/**
+ * GET /services/:id/docs
+ * List a service's documentation (OpenAPI specs as summaries)
+ */
+export async function handleListDocumentation(req: Request, params: { id: string }): Promise<Response> {
+  try {
+    const { userId } = await requireAuth(req);
+
+    const ids = parseIds(params);
+    if (ids instanceof Response) return ids;
+
+    const docs = await listDocumentation(ids.serviceId, userId);
+    return successResponse(docs, 200);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return errorResponse(error.message, error.statusCode);
+    }
+    if (error instanceof NotFoundError) {
+      return errorResponse(error.message, error.statusCode);
+    }
+    logger.error('List documentation error:', error instanceof Error ? error.message : 'Unknown error');
+    return errorResponse('Internal server error', 500);
+  }
+}
+
+/**
+ * POST /services/:id/docs
+ * Add an OpenAPI spec (JSON or YAML), markdown document or documentation URL
+ */
+export async function handleCreateDocumentation(req: Request, params: { id: string }): Promise<Response> {
+  try {
+    const { userId } = await requireAuth(req);
+
+    const ids = parseIds(params);
+    if (ids instanceof Response) return ids;
+
+    const data = await validateBody(createDocumentationSchema)(req);
+
+    const doc = await createDocumentation(ids.serviceId, userId, data);
+    logger.info(`Documentation added: ${doc.type} (id: ${doc.id}) for service ${ids.serviceId} by user ${userId}`);
+
+    return successResponse(doc, 201);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return errorResponse(error.message, error.statusCode);
+    }
+    if (error instanceof ValidationError) {
+      return errorResponse(error.message, error.statusCode);
+    }
+    if (error instanceof NotFoundError) {
+      return errorResponse(error.message, error.statusCode);
+    }
+    logger.error('Create documentation error:', error instanceof Error ? error.message : 'Unknown error');
+    return errorResponse('Internal server error', 500);
+  }
+}
+
+/**
+ * GET /services/:id/docs/:docId
+ * Get one document; OpenAPI specs include their indexed operations
+ */
+export async function handleGetDocumentation(req: Request, params: { id: string; docId: string }): Promise<Response> {
+  try {
+    const { userId } = await requireAuth(req);
+
+    const ids = parseIds(params);
+    if (ids instanceof Response) return ids;
+
+    const doc = await getDocumentation(ids.serviceId, ids.docId, userId);
+    return successResponse(doc, 200);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return errorResponse(error.message, error.statusCode);
+    }
+    if (error instanceof NotFoundError) {
+      return errorResponse(error.message, error.statusCode);
+    }
+    logger.error('Get documentation error:', error instanceof Error ? error.message : 'Unknown error');
+    return errorResponse('Internal server error', 500);
+  }
+}
+
+/**
+ * PUT /services/:id/docs/:docId
+ * Update a document's title and/or content (OpenAPI content is re-indexed)
+ */
+export async function handleUpdateDocumentation(req: Request, params: { id: string; docId: string }): Promise<Response> {
+  try {
+    const { userId } = await requireAuth(req);
+
+    const ids = parseIds(params);
+    if (ids instanceof Response) return ids;
+
+    const data = await validateBody(updateDocumentationSchema)(req);
+
+    const doc = await updateDocumentation(ids.serviceId, ids.docId, userId, data);
+    logger.info(`Documentation updated: id=${ids.docId} for service ${ids.serviceId} by user ${userId}`);
+
+    return successResponse(doc, 200);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return errorResponse(error.message, error.statusCode);
+    }
+    if (error instanceof ValidationError || error instanceof InvalidDocumentationError) {
+      return errorResponse(error.message, error.statusCode);
+    }
+    if (error instanceof NotFoundError) {
+      return errorResponse(error.message, error.statusCode);
+    }
+    logger.error('Update documentation error:', error instanceof Error ? error.message : 'Unknown error');
+    return errorResponse('Internal server error', 500);
+  }
+}
+
+/**
+ * DELETE /services/:id/docs/:docId
+ * Delete a document and its indexed operations
+ */
+export async function handleDeleteDocumentation(req: Request, params: { id: string; docId: string }): Promise<Response> {
+  try {
+    const { userId } = await requireAuth(req);
+
+    const ids = parseIds(params);
+    if (ids instanceof Response) return ids;
+
+    await deleteDocumentation(ids.serviceId, ids.docId, userId);
+    logger.info(`Documentation deleted: id=${ids.docId} for service ${ids.serviceId} by user ${userId}`);
+
+    return successResponse({ message: 'Documentation deleted' }, 200);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return errorResponse(error.message, error.statusCode);
+    }
+    if (error instanceof NotFoundError) {
+      return errorResponse(error.message, error.statusCode);
+    }
+    logger.error('Delete documentation error:', error instanceof Error ? error.message : 'Unknown error');
+    return errorResponse('Internal server error', 500);
+  }
+}
@@ -0,0 +1,111 @@
+// OAuth 2.0 account connection routes
+// Starting a connection requires JWT authentication; the provider's callback is authenticated by its state
+// together with the binding cookie set on the browser that started it
+
+import { requireAuth, AuthError } from '@/middleware/auth';
+import {
+  startAuthorization,
+  completeAuthorization,
+  bindingCookieName,
+  OAuthConnectError,
+  AUTHORIZATION_TTL_MS,
+} from '@/services/oauth.service';
+import { env } from '@/config/env';
+import { successResponse, errorResponse } from '@/utils/responses';
+import { logger } from '@/utils/logger';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Set-Cookie value for a flow's binding cookie: HttpOnly, SameSite=Lax (sent on the provider's
+ * top-level redirect) and scoped to the callback path. maxAgeSeconds 0 clears it.
+ */
+function bindingCookie(state: string, value: string, maxAgeSeconds: number): string {
+  const callback = new URL(env.OAUTH_REDIRECT_URL);
+  return new Bun.Cookie(bindingCookieName(state), value, {
+    path: callback.pathname,
+    maxAge: maxAgeSeconds,
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: callback.protocol === 'https:',
+  }).serialize();
+}
+
+/**
+ * 302 to the dashboard, clearing the flow's binding cookie.
+ */
+function redirectToDashboard(location: string, state: string | null): Response {
+  const headers = new Headers({ Location: location });
+  if (state) headers.append('Set-Cookie', bindingCookie(state, '', 0));
+  return new Response(null, { status: 302, headers });
+}
+
+// ============================================================================
+// Route Handlers
+// ============================================================================
+
+/**
+ * POST /services/:id/oauth/authorize
+ * Start connecting an account; returns the provider URL the dashboard sends the user to and sets the
+ * flow's binding cookie (the dashboard must send this request with credentials)
+ */
+export async function handleStartOAuthConnect(req: Request, params: { id: string }): Promise<Response> {
+  try {
+    const { userId } = await requireAuth(req);
+
+    const serviceId = parseInt(params.id, 10);
+    if (isNaN(serviceId)) {
+      return errorResponse('Invalid service ID', 400);
+    }
+
+    const { authorizationUrl, state, binding } = await startAuthorization(userId, serviceId);
+    const response = successResponse({ authorizationUrl }, 200);
+    response.headers.append('Set-Cookie', bindingCookie(state, binding, AUTHORIZATION_TTL_MS / 1000));
+    return response;
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return errorResponse(error.message, error.statusCode);
+    }
+    if (error instanceof OAuthConnectError) {
+      return errorResponse(error.message, error.statusCode);
+    }
+    logger.error('Start OAuth connect error:', error instanceof Error ? error.message : 'Unknown error');
+    return errorResponse('Internal server error', 500);
+  }
+}
+
+/**
+ * GET /oauth/callback
+ * Provider redirect after consent. Sends the browser back to the service's edit page with
+ * ?oauth=connected, or ?oauth=error&message=...; errors without a known service are plain responses.
+ * Only the browser holding the flow's binding cookie can complete it.
+ */
+export async function handleOAuthCallback(req: Request): Promise<Response> {
+  const query = new URL(req.url).searchParams;
+  const state = query.get('state');
+  const cookies = new Bun.CookieMap(req.headers.get('Cookie') ?? '');
+
+  try {
+    const { serviceId } = await completeAuthorization({
+      state,
+      code: query.get('code'),
+      error: query.get('error'),
+      errorDescription: query.get('error_description'),
+      binding: state ? cookies.get(bindingCookieName(state)) : null,
+    });
+    return redirectToDashboard(`${env.DASHBOARD_URL}/services/${serviceId}/edit?oauth=connected`, state);
+  } catch (error) {
+    if (error instanceof OAuthConnectError) {
+      logger.warn(`OAuth2 connect failed${error.serviceId ? ` for service ${error.serviceId}` : ''}: ${error.message}`);
+      if (error.serviceId === null) {
+        return errorResponse(error.message, error.statusCode);
+      }
+      const message = encodeURIComponent(error.message);
+      return redirectToDashboard(`${env.DASHBOARD_URL}/services/${error.serviceId}/edit?oauth=error&message=${message}`, state);
+    }
+    logger.error('OAuth callback error:', error instanceof Error ? error.message : 'Unknown error');
+    return errorResponse('Internal server error', 500);
+  }
+}
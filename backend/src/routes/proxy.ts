@@ -1,7 +1,8 @@
-// Proxy endpoint: agent-facing POST /proxy for secure request forwarding
+// Proxy endpoints: agent-facing POST /proxy, path-based /p/:serviceName/* (HTTP and WebSocket) and HTTP forward-proxy mode
 // Handles Agent-Key authentication, validation, delegation, and response proxying
 
-import { requireAgentAuth, AuthError } from '@/middleware/auth';
+import type { Server } from 'bun';
+import { requireAgentAuth, requireProxyAgentAuth, AuthError } from '@/middleware/auth';
 import { validateBody, ValidationError } from '@/middleware/validation';
 import {
   executeProxyRequest,
@@ -10,16 +11,87 @@ import {
   NotFoundError,
   ForbiddenError,
   RiskyRequestError,
+  ContentWithheldError,
+  SchemaValidationError,
+  CircuitOpenError,
   injectCredentials,
+  injectedHeaderDiff,
   forwardRequest,
+  isRetryableRequest,
+  resolveServiceByName,
+  resolveServiceByHost,
+  logProxyResponse,
+  logProxyFailure,
+  type AuditedRequest,
+  type CredentialContext,
+  type ProxyResponse,
 } from '@/services/proxy.service';
-import { getApprovalQueueEntry, markExecuted, transitionStatus } from '@/services/approval.service';
+import { openWebSocketSession, type WebSocketSession } from '@/services/websocket.service';
+import {
+  getApprovalQueueEntry,
+  claimExecution,
+  releaseExecution,
+  markExecuted,
+  transitionStatus,
+} from '@/services/approval.service';
 import { db } from '@/config/db';
-import { services } from '@/db/schema';
+import { services, type Service } from '@/db/schema';
 import { eq } from 'drizzle-orm';
 import { successResponse, errorResponse } from '@/utils/responses';
+import { encodeBody, materializeRequestBody, UNCACHED_BODY, type RequestBodyEncoding } from '@/utils/body';
+import { stripUnsafeResponseHeaders } from '@/utils/headers';
 import { logger } from '@/utils/logger';
 
+/**
+ * Build the agent-facing response from a proxied result.
+ *
+ * Forwards every upstream header that survived the service's passthrough policy (ETag, Link,
+ * Retry-After, rate-limit headers, Location, ...), then adds proxy metadata headers.
+ * Unsafe headers are stripped again here so responses cached before filtering existed
+ * (idempotency hits) can't carry stale framing or cookies.
+ */
+function buildProxyResponse(
+  result: ProxyResponse,
+  metadata: Record<string, string>
+): Response {
+  let targetHeaders: Record<string, string> = {};
+  try {
+    targetHeaders = JSON.parse(result.headers);
+  } catch {
+    // If headers can't be parsed, ignore silently
+  }
+
+  const responseHeaders = new Headers();
+  for (const [name, value] of Object.entries(stripUnsafeResponseHeaders(targetHeaders))) {
+    responseHeaders.set(name, value);
+  }
+
+  // Default Content-Type when the target didn't send one
+  if (!responseHeaders.has('Content-Type')) {
+    responseHeaders.set('Content-Type', 'application/json');
+  }
+
+  for (const [name, value] of Object.entries(metadata)) {
+    responseHeaders.set(name, value);
+  }
+
+  return new Response(result.body, {
+    status: result.status,
+    headers: responseHeaders,
+  });
+}
+
+/**
+ * Error response for a failed proxy call. Circuit-open errors tell the agent when to come back.
+ */
+function proxyErrorResponse(error: ProxyError): Response {
+  const response = errorResponse(error.message, error.statusCode);
+  if (error instanceof CircuitOpenError) {
+    response.headers.set('Retry-After', String(error.retryAfterSeconds));
+  }
+  return response;
+}
+
 /**
  * POST /proxy
  * Main proxy endpoint for agents to forward requests through the gateway
@@ -29,7 +101,7 @@ import { logger } from '@/utils/logger';
  * 2. Validate request body with proxyRequestSchema
  * 3. Extract Idempotency-Key header (header takes precedence over body field)
  * 4. Execute proxy request via proxy service
- * 5. Return target response with proxy metadata headers
+ * 5. Return target response (upstream headers per service policy) with proxy metadata headers
  *
  * Response headers:
  * - X-Proxy-Status: forwarded (indicates request went through gateway)
@@ -55,22 +127,7 @@ export async function handleProxy(req: Request): Promise<Response> {
     const result = await executeProxyRequest(agentId, userId, data);
 
     // Step 5: Construct response with target's data + proxy metadata
-    const responseHeaders = new Headers();
-
-    // Parse target response headers
-    let targetHeaders: Record<string, string> = {};
-    try {
-      targetHeaders = JSON.parse(result.headers);
-    } catch {
-      // If headers can't be parsed, ignore silently
-    }
-
-    // Set Content-Type from target (default to application/json)
-    const contentType = targetHeaders['content-type'] || 'application/json';
-    responseHeaders.set('Content-Type', contentType);
-
-    // Add proxy metadata headers
-    responseHeaders.set('X-Proxy-Status', 'forwarded');
+    const metadata: Record<string, string> = { 'X-Proxy-Status': 'forwarded' };
 
     // Add idempotency status if key was used
     if (data.idempotencyKey) {
@@ -78,47 +135,347 @@ export async function handleProxy(req: Request): Promise<Response> {
       // We can infer this by checking if the response was very fast, but simpler is to check
       // if idempotencyKey was provided - if yes, mark as potential hit
       // For now, mark as 'processed' to indicate idempotency was used
-      responseHeaders.set('X-Idempotency-Status', 'processed');
+      metadata['X-Idempotency-Status'] = 'processed';
     }
 
-    return new Response(result.body, {
-      status: result.status,
-      headers: responseHeaders,
-    });
+    return buildProxyResponse(result, metadata);
   } catch (error) {
-    // Handle specific error types
-    if (error instanceof AuthError) {
-      return errorResponse(error.message, error.statusCode);
-    }
-    if (error instanceof ValidationError) {
-      return errorResponse(error.message, error.statusCode);
+    return proxyFailureResponse(error);
+  }
+}
+
+/**
+ * Map a failed proxy call to the agent-facing response. Shared by every proxy mode (POST /proxy,
+ * /p/:serviceName/*, forward proxy) so risk blocks and withheld responses (428) and errors look
+ * identical everywhere.
+ */
+function proxyFailureResponse(error: unknown): Response {
+  // Handle specific error types
+  if (error instanceof AuthError) {
+    const response = errorResponse(error.message, error.statusCode);
+    if (error.statusCode === 407) {
+      response.headers.set('Proxy-Authenticate', 'Basic realm="GaiterGuard"');
     }
-    if (error instanceof NotFoundError) {
-      return errorResponse(error.message, error.statusCode);
+    return response;
+  }
+  if (error instanceof ValidationError) {
+    return errorResponse(error.message, error.statusCode);
+  }
+  if (error instanceof NotFoundError) {
+    return errorResponse(error.message, error.statusCode);
+  }
+  if (error instanceof ForbiddenError) {
+    return errorResponse(error.message, error.statusCode);
+  }
+  if (error instanceof SchemaValidationError) {
+    return Response.json(
+      {
+        error: error.message,
+        operation: error.operation,
+        violations: error.violations,
+        statusCode: error.statusCode,
+      },
+      { status: error.statusCode }
+    );
+  }
+  if (error instanceof RiskyRequestError) {
+    logger.info(`Request requires approval: actionId=${error.actionId}, score=${error.riskScore}`);
+    return Response.json(
+      {
+        error: 'Request requires human approval',
+        action_id: error.actionId,
+        risk_score: error.riskScore,
+        risk_explanation: error.riskExplanation,
+        status_url: `/status/${error.actionId}`,
+      },
+      { status: 428 }
+    );
+  }
+  if (error instanceof ContentWithheldError) {
+    logger.info(`Response withheld for review: actionId=${error.actionId}, score=${error.contentRisk.score}`);
+    return Response.json(
+      {
+        error: 'Response withheld pending human review',
+        action_id: error.actionId,
+        content_risk_score: error.contentRisk.score,
+        content_risk_signals: error.contentRisk.signals,
+        status_url: `/status/${error.actionId}`,
+      },
+      { status: 428 }
+    );
+  }
+  if (error instanceof ProxyError) {
+    return proxyErrorResponse(error);
+  }
+
+  // Unknown error
+  logger.error('Proxy handler error:', error instanceof Error ? error.message : 'Unknown error');
+  return errorResponse('Internal server error', 500);
+}
+
+/**
+ * Agent request headers never forwarded by the path-based and forward proxies:
+ * gateway control headers, framing, and anything the gateway supplies itself (credentials, Host)
+ */
+const RAW_STRIPPED_HEADERS = new Set([
+  'agent-key',
+  'x-agent-intent',
+  'idempotency-key',
+  'authorization', // SDKs often insist on sending a placeholder key; the gateway injects the real one
+  'host',
+  'content-length',
+  'accept-encoding', // fetch negotiates and decodes compression itself
+  'connection',
+  'keep-alive',
+  'proxy-authorization',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+]);
+
+/**
+ * Run a raw HTTP request through executeProxyRequest (path-based and forward-proxy modes).
+ *
+ * The request itself is the proxy request: method, headers and raw body are taken as sent,
+ * intent comes from X-Agent-Intent and the idempotency key from Idempotency-Key.
+ * Validation uses proxyRequestSchema, so the rules match POST /proxy exactly.
+ */
+async function proxyRawRequest(
+  req: Request,
+  agent: { agentId: number; userId: number },
+  service: Service,
+  targetUrl: string
+): Promise<Response> {
+  const headers: Record<string, string> = {};
+  req.headers.forEach((value, name) => {
+    if (!RAW_STRIPPED_HEADERS.has(name.toLowerCase())) headers[name] = value;
+  });
+
+  const bytes = new Uint8Array(await req.arrayBuffer());
+  const body = bytes.byteLength > 0 ? encodeBody(bytes) : null;
+
+  const parsed = proxyRequestSchema.safeParse({
+    targetUrl,
+    method: req.method,
+    headers,
+    body: body?.body ?? null,
+    bodyEncoding: body?.encoding === 'base64' ? 'base64' : 'utf8',
+    intent: req.headers.get('X-Agent-Intent') ?? '',
+    idempotencyKey: req.headers.get('Idempotency-Key') ?? undefined,
+  });
+  if (!parsed.success) {
+    throw new ValidationError(parsed.error);
+  }
+  const data = parsed.data;
+
+  // Pinned to the already-resolved service; executeProxyRequest still re-checks access and URL match
+  const result = await executeProxyRequest(agent.agentId, agent.userId, data, { serviceName: service.name });
+
+  const metadata: Record<string, string> = { 'X-Proxy-Status': 'forwarded' };
+  if (data.idempotencyKey) {
+    metadata['X-Idempotency-Status'] = 'processed';
+  }
+  return buildProxyResponse(result, metadata);
+}
+
+/**
+ * ANY /p/:serviceName/*
+ * Path-based passthrough proxy for off-the-shelf SDKs and HTTP clients.
+ *
+ * The path is appended to the service baseUrl and the query string kept; everything then runs
+ * through executeProxyRequest exactly like POST /proxy (service resolution, SSRF checks, risk gate,
+ * idempotency, credential injection).
+ *
+ * Flow:
+ * 1. Authenticate via Agent-Key header
+ * 2. Resolve the named service among the agent's services
+ * 3. Build the target URL and proxy the raw request (proxyRawRequest)
+ */
+export async function handleTransparentProxy(
+  req: Request,
+  params: { serviceName: string; path: string }
+): Promise<Response> {
+  try {
+    // Step 1: Authenticate agent via Agent-Key header
+    const agent = await requireAgentAuth(req);
+
+    // Step 2: Resolve the named service
+    const service = await resolveServiceByName(params.serviceName, agent.agentId);
+
+    // Step 3: Build the target URL and proxy the request
+    const search = new URL(req.url).search;
+    const targetUrl = `${service.baseUrl.replace(/\/+$/, '')}${params.path}${search}`;
+
+    logger.info(`Proxying path-based request for agent ${agent.agentId} via service ${service.id} to ${targetUrl}`);
+    return await proxyRawRequest(req, agent, service, targetUrl);
+  } catch (error) {
+    return proxyFailureResponse(error);
+  }
+}
+
+/**
+ * Agent handshake headers that only describe the agent's own WebSocket connection;
+ * the gateway's WebSocket client negotiates its own with the upstream
+ */
+const WEBSOCKET_HANDSHAKE_HEADERS = new Set([
+  'sec-websocket-key',
+  'sec-websocket-version',
+  'sec-websocket-extensions',
+  'sec-websocket-protocol', // requested subprotocols are passed to the client separately
+]);
+
+/**
+ * Whether the request asks to upgrade to a WebSocket.
+ */
+export function isWebSocketUpgrade(req: Request): boolean {
+  return req.method === 'GET' && (req.headers.get('Upgrade') ?? '').toLowerCase() === 'websocket';
+}
+
+/**
+ * GET /p/:serviceName/* with Upgrade: websocket
+ * WebSocket passthrough: the gateway opens the upstream socket itself and relays frames both ways.
+ *
+ * The open is treated as a GET to the target URL: same service resolution, SSRF checks and risk
+ * gate as an HTTP request, with X-Agent-Intent as the intent. A blocked open returns the usual 428;
+ * once approved, the agent reconnects with `X-Action-Id: {action_id}` (no new assessment).
+ *
+ * Flow:
+ * 1. Authenticate via Agent-Key header
+ * 2. Resolve the named service and build the target URL
+ * 3. Approved reopen: ownership, websocket action, APPROVED, TTL and same URL; stored headers and intent are used.
+ *    Otherwise: validate the open as a GET via proxyRequestSchema
+ * 4. Open the upstream session (openWebSocketSession: risk gate, credentials, connect)
+ * 5. Upgrade the agent's connection, answering with the upstream's chosen subprotocol
+ *
+ * @returns undefined once the connection is upgraded (Bun writes the 101), otherwise an error response
+ */
+export async function handleWebSocketProxy(
+  req: Request,
+  server: Server<WebSocketSession>,
+  params: { serviceName: string; path: string }
+): Promise<Response | undefined> {
+  try {
+    // Step 1: Authenticate agent via Agent-Key header
+    const agent = await requireAgentAuth(req);
+
+    // Step 2: Resolve the named service and build the target URL (http(s) form, like the service baseUrl)
+    const service = await resolveServiceByName(params.serviceName, agent.agentId);
+    const search = new URL(req.url).search;
+    const targetUrl = `${service.baseUrl.replace(/\/+$/, '')}${params.path}${search}`;
+
+    const protocols = (req.headers.get('Sec-WebSocket-Protocol') ?? '')
+      .split(',')
+      .map((protocol) => protocol.trim())
+      .filter(Boolean);
+
+    // Step 3: Approved reopen, or a new open
+    const actionId = req.headers.get('X-Action-Id');
+    let data;
+    if (actionId) {
+      const row = await getApprovalQueueEntry(actionId);
+      if (!row || row.agentId !== agent.agentId) {
+        return errorResponse('Action not found', 404);
+      }
+      if (row.protocol !== 'websocket') {
+        return errorResponse('Action is not a WebSocket session — execute it via POST /proxy/execute', 409);
+      }
+      if (row.status !== 'APPROVED') {
+        return errorResponse(`Cannot execute action with status ${row.status}`, 409);
+      }
+      if (row.approvalExpiresAt && row.approvalExpiresAt < new Date()) {
+        transitionStatus(actionId, 'APPROVED', 'EXPIRED').catch(() => {});
+        return errorResponse('Approval has expired — reconnect without X-Action-Id to request a new approval', 410);
+      }
+      if (row.targetUrl !== targetUrl) {
+        return errorResponse('Action was approved for a different URL', 409);
+      }
+
+      let storedHeaders: Record<string, string> = {};
+      try {
+        storedHeaders = JSON.parse(row.requestHeaders || '{}');
+      } catch {
+        // Use empty headers if stored headers can't be parsed
+      }
+      data = { targetUrl, method: 'GET' as const, headers: storedHeaders, bodyEncoding: 'utf8' as const, intent: row.intent };
+    } else {
+      const headers: Record<string, string> = {};
+      req.headers.forEach((value, name) => {
+        const lower = name.toLowerCase();
+        if (!RAW_STRIPPED_HEADERS.has(lower) && !WEBSOCKET_HANDSHAKE_HEADERS.has(lower)) headers[name] = value;
+      });
+
+      const parsed = proxyRequestSchema.safeParse({
+        targetUrl,
+        method: 'GET',
+        headers,
+        intent: req.headers.get('X-Agent-Intent') ?? '',
+      });
+      if (!parsed.success) {
+        throw new ValidationError(parsed.error);
+      }
+      data = parsed.data;
     }
-    if (error instanceof ForbiddenError) {
-      return errorResponse(error.message, error.statusCode);
+
+    // Step 4: Open the upstream session
+    logger.info(`Opening WebSocket session for agent ${agent.agentId} via service ${service.id} to ${targetUrl}`);
+    const { session, protocol } = await openWebSocketSession(agent.agentId, data, {
+      serviceName: service.name,
+      protocols,
+      approvedActionId: actionId ?? undefined,
+    });
+
+    // Step 5: Upgrade the agent's connection
+    const upgraded = server.upgrade(req, {
+      data: session,
+      headers: protocol ? { 'Sec-WebSocket-Protocol': protocol } : undefined,
+    });
+    if (!upgraded) {
+      session.upstream.close();
+      return errorResponse('WebSocket upgrade failed', 400);
     }
-    if (error instanceof RiskyRequestError) {
-      logger.info(`Request requires approval: actionId=${error.actionId}, score=${error.riskScore}`);
-      return Response.json(
-        {
-          error: 'Request requires human approval',
-          action_id: error.actionId,
-          risk_score: error.riskScore,
-          risk_explanation: error.riskExplanation,
-          status_url: `/status/${error.actionId}`,
-        },
-        { status: 428 }
+    return undefined;
+  } catch (error) {
+    return proxyFailureResponse(error);
+  }
+}
+
+/**
+ * HTTP forward-proxy mode (absolute-form requests from clients configured with HTTP_PROXY)
+ *
+ * A request is handled here when it carries Proxy-Authorization (or is a CONNECT). Bun rebuilds
+ * req.url from the Host header, which for absolute-form requests is the upstream host.
+ * Only plain-http requests are supported (no CONNECT tunnels): the gateway must see the request
+ * to assess and inject credentials, and upgrades to the service's registered scheme itself.
+ *
+ * Flow:
+ * 1. Reject CONNECT (501)
+ * 2. Authenticate via Proxy-Authorization carrying the agent key (407 on failure)
+ * 3. Resolve the agent's service by host and base path
+ * 4. Proxy the raw request (proxyRawRequest)
+ */
+export async function handleForwardProxy(req: Request): Promise<Response> {
+  try {
+    // Step 1: Tunnels would hide the request from the gateway
+    if (req.method === 'CONNECT') {
+      return errorResponse(
+        'CONNECT is not supported; send plain http:// URLs through the proxy — the gateway uses the service\'s scheme upstream',
+        501
       );
     }
-    if (error instanceof ProxyError) {
-      return errorResponse(error.message, error.statusCode);
-    }
 
-    // Unknown error
-    logger.error('Proxy handler error:', error instanceof Error ? error.message : 'Unknown error');
-    return errorResponse('Internal server error', 500);
+    // Step 2: Authenticate via Proxy-Authorization
+    const agent = await requireProxyAgentAuth(req);
+
+    // Step 3: Resolve the service from the requested host
+    const { service, targetUrl } = await resolveServiceByHost(new URL(req.url), agent.agentId);
+
+    // Step 4: Proxy the request
+    logger.info(`Proxying forward-proxy request for agent ${agent.agentId} via service ${service.id} to ${targetUrl}`);
+    return await proxyRawRequest(req, agent, service, targetUrl);
+  } catch (error) {
+    return proxyFailureResponse(error);
   }
 }
 
@@ -133,10 +490,14 @@ export async function handleProxy(req: Request): Promise<Response> {
  * 4. Verify status is APPROVED
  * 5. Check TTL — if approvalExpiresAt has passed, transition to EXPIRED and return 410
  * 6. Look up the service record for fresh credential injection
- * 7. Parse stored headers, inject credentials fresh from encrypted store
- * 8. Forward the stored request to the target
- * 9. Mark as EXECUTED and cache the response
- * 10. Return the response with X-Proxy-Status: executed-approved
+ * 7. Claim the action (APPROVED → EXECUTING) so a concurrent execute call can't forward it too
+ * 8. Parse stored headers, inject credentials fresh from encrypted store
+ * 9. Forward the stored request to the target, rebuilding binary/multipart bodies from storage
+ *    (response body streamed back to the agent); on a failure before the upstream answered the action
+ *    is handed back (APPROVED), after it answered it is marked EXECUTED without a body
+ * 10. Mark as EXECUTED and cache the response once the body has streamed
+ * 11. Log to proxy_requests (failures too; event streams once they close)
+ * 12. Return the response with X-Proxy-Status: executed-approved
  */
 export async function handleProxyExecute(
   req: Request,
@@ -157,10 +518,13 @@ export async function handleProxyExecute(
       return errorResponse('Action not found', 404);
     }
 
-    // Step 4: Verify status is APPROVED
+    // Step 4: Verify status is APPROVED (WebSocket actions are reopened via /p/:serviceName/* instead)
     if (row.status !== 'APPROVED') {
       return errorResponse(`Cannot execute action with status ${row.status}`, 409);
     }
+    if (row.protocol === 'websocket') {
+      return errorResponse('WebSocket actions are executed by reconnecting with the X-Action-Id header', 409);
+    }
 
     // Step 5: Check TTL — if approvalExpiresAt has passed, expire and return 410
     if (row.approvalExpiresAt && row.approvalExpiresAt < new Date()) {
@@ -180,7 +544,12 @@ export async function handleProxyExecute(
       return errorResponse('Service no longer exists', 410);
     }
 
-    // Step 7: Parse stored headers and inject fresh credentials from vault
+    // Step 7: Claim the action — only one execute call forwards it
+    if (!(await claimExecution(params.actionId))) {
+      return errorResponse('Action has already been executed or is no longer approved', 409);
+    }
+
+    // Step 8: Parse stored headers and inject fresh credentials from vault
     let parsedHeaders: Record<string, string> = {};
     try {
       parsedHeaders = JSON.parse(row.requestHeaders || '{}');
@@ -188,45 +557,76 @@ export async function handleProxyExecute(
       // Use empty headers if stored headers can't be parsed
     }
 
-    const headersWithCreds = await injectCredentials(parsedHeaders, row.serviceId, service.authType);
+    const injectedSecrets: string[] = [];
+    const auth: CredentialContext = { tokenFetches: [] };
+    const auditedRequest: AuditedRequest = {
+      agentId,
+      serviceId: row.serviceId,
+      idempotencyKeyId: null,
+      method: row.method,
+      targetUrl: row.targetUrl,
+      intent: row.intent,
+      operation: row.operation,
+      tokenFetches: auth.tokenFetches,
+    };
+    const outboundBody = materializeRequestBody({
+      body: row.requestBody,
+      encoding: (row.requestBodyEncoding ?? 'utf8') as RequestBodyEncoding,
+    });
 
-    // Step 8: Forward the stored request to the target
+    // Step 9: Forward the stored request to the target
+    // Step 10 (deferred): mark as EXECUTED and cache the response once the body has streamed through
     logger.info(`Executing approved action ${params.actionId} for agent ${agentId} to ${row.targetUrl}`);
-    const response = await forwardRequest(
-      row.targetUrl,
-      row.method,
-      headersWithCreds,
-      row.requestBody
-    );
-
-    // Step 9: Mark as EXECUTED and cache the response (fire-and-forget — don't block)
-    markExecuted(params.actionId, response.status, response.headers, response.body).catch(() => {});
-
-    // Step 10: Return the response with proxy metadata
-    const responseHeaders = new Headers();
-
-    // Parse target response headers for Content-Type passthrough
-    let targetHeaders: Record<string, string> = {};
+    let response;
+    let answeredStatus: number | null = null; // set once the upstream has processed the request
     try {
-      targetHeaders = JSON.parse(response.headers);
-    } catch {
-      // If headers can't be parsed, ignore silently
+      const headersWithCreds = await injectCredentials({ ...parsedHeaders }, row.serviceId, service.authType, injectedSecrets, auth);
+      response = await forwardRequest(
+        row.targetUrl,
+        row.method,
+        headersWithCreds,
+        outboundBody,
+        {
+          service,
+          injectedHeaders: injectedHeaderDiff(parsedHeaders, headersWithCreds),
+          injectedSecrets,
+          retryable: isRetryableRequest(row.method, false),
+          reauthenticate: auth.accessToken
+            ? () => injectCredentials({ ...parsedHeaders }, row.serviceId, service.authType, injectedSecrets, auth)
+            : undefined,
+          signRequest: auth.signer,
+          credentialQuery: auth.query,
+          onUpstreamAnswer: (status) => {
+            answeredStatus = status;
+          },
+          onBodyComplete: (result) => {
+            // The request ran even if its body was cut short; there is just nothing to show for it
+            markExecuted(params.actionId, result.status, result.headers, result.body ?? UNCACHED_BODY, 'EXECUTING').catch(() => {});
+          },
+        }
+      );
+    } catch (error) {
+      // Handed back for another execute call only if the upstream never answered — a request it
+      // processed must not run twice
+      const settled = answeredStatus === null
+        ? releaseExecution(params.actionId)
+        : markExecuted(params.actionId, answeredStatus, '{}', UNCACHED_BODY, 'EXECUTING');
+      settled.catch(() => {});
+      logProxyFailure(auditedRequest, error);
+      throw error;
     }
 
-    const contentType = targetHeaders['content-type'] || 'application/json';
-    responseHeaders.set('Content-Type', contentType);
-    responseHeaders.set('X-Proxy-Status', 'executed-approved');
+    // Step 11: Log to proxy_requests (fire-and-forget; event streams once they close)
+    logProxyResponse(auditedRequest, response, outboundBody);
 
-    return new Response(response.body, {
-      status: response.status,
-      headers: responseHeaders,
-    });
+    // Step 12: Return the response with proxy metadata
+    return buildProxyResponse(response, { 'X-Proxy-Status': 'executed-approved' });
   } catch (error) {
     if (error instanceof AuthError) {
       return errorResponse(error.message, error.statusCode);
     }
     if (error instanceof ProxyError) {
-      return errorResponse(error.message, error.statusCode);
+      return proxyErrorResponse(error);
     }
 
     logger.error('Proxy execute handler error:', error instanceof Error ? error.message : 'Unknown error');
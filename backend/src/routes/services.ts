@@ -15,6 +15,13 @@ import {
   updateServiceSchema,
   credentialsSchema,
 } from '@/services/service.service';
+import { getCircuitStatus } from '@/services/circuit-breaker.service';
+import {
+  importServiceFromOpenApi,
+  importOpenApiSchema,
+  InvalidDocumentationError,
+} from '@/services/documentation.service';
+import type { Service } from '@/db/schema';
 import { formatServiceResponse } from '@/utils/masking';
 import { successResponse, errorResponse } from '@/utils/responses';
 import { logger } from '@/utils/logger';
@@ -23,6 +30,13 @@ import { logger } from '@/utils/logger';
 // Route Handlers
 // ============================================================================
 
+/**
+ * Service API shape: masked service plus its live circuit breaker state
+ */
+function serviceResponse(service: Service, credentialKeys?: string[]) {
+  return { ...formatServiceResponse(service, credentialKeys), circuitBreaker: getCircuitStatus(service.id) };
+}
+
 /**
  * POST /services
  * Create a new service with encrypted credentials
@@ -44,7 +58,7 @@ export async function handleCreateService(req: Request): Promise<Response> {
 
     // Return formatted response (no credential values)
     return successResponse(
-      formatServiceResponse(service, credentialKeys),
+      serviceResponse(service, credentialKeys),
       201
     );
   } catch (error) {
@@ -60,6 +74,42 @@ export async function handleCreateService(req: Request): Promise<Response> {
   }
 }
 
+/**
+ * POST /services/import
+ * Create a service from an OpenAPI document (base URL, auth type and operation catalog inferred)
+ */
+export async function handleImportService(req: Request): Promise<Response> {
+  try {
+    // Authenticate user
+    const { userId } = await requireAuth(req);
+
+    // Validate request body
+    const data = await validateBody(importOpenApiSchema)(req);
+
+    // Create service, documentation and operation catalog
+    const result = await importServiceFromOpenApi(userId, data);
+    logger.info(
+      `Service imported from OpenAPI: ${result.service.name} (id: ${result.service.id}, ` +
+      `${result.documentation.openapi?.operationCount ?? 0} operations) by user ${userId}`
+    );
+
+    return successResponse({
+      service: serviceResponse(result.service, result.credentialKeys),
+      documentation: result.documentation,
+      inferred: result.inferred,
+    }, 201);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return errorResponse(error.message, error.statusCode);
+    }
+    if (error instanceof ValidationError || error instanceof InvalidDocumentationError) {
+      return errorResponse(error.message, error.statusCode);
+    }
+    logger.error('Import service error:', error instanceof Error ? error.message : 'Unknown error');
+    return errorResponse('Internal server error', 500);
+  }
+}
+
 /**
  * GET /services
  * List all services for authenticated user
@@ -74,7 +124,7 @@ export async function handleListServices(req: Request): Promise<Response> {
 
     // Format responses
     const formattedServices = services.map((service) =>
-      formatServiceResponse(service, service.credentialKeys)
+      serviceResponse(service, service.credentialKeys)
     );
 
     return successResponse(formattedServices, 200);
@@ -107,7 +157,7 @@ export async function handleGetService(req: Request, params: { id: string }): Pr
 
     // Format response
     return successResponse(
-      formatServiceResponse(service, service.credentialKeys),
+      serviceResponse(service, service.credentialKeys),
       200
     );
   } catch (error) {
@@ -148,7 +198,7 @@ export async function handleUpdateService(req: Request, params: { id: string }):
 
     // Format response
     return successResponse(
-      formatServiceResponse(serviceWithKeys, serviceWithKeys.credentialKeys),
+      serviceResponse(serviceWithKeys, serviceWithKeys.credentialKeys),
       200
     );
   } catch (error) {
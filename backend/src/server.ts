@@ -1,5 +1,6 @@
 // Main Bun HTTP server entry point
 
+import type { Server } from 'bun';
 import { env } from '@/config/env';
 import { healthHandler, readyHandler } from '@/routes/health';
 import { handleRegister, handleLogin, handleRefresh, handleMe } from '@/routes/auth';
@@ -10,7 +11,15 @@ import {
   handleUpdateService,
   handleDeleteService,
   handleUpsertCredentials,
+  handleImportService,
 } from '@/routes/services';
+import {
+  handleListDocumentation,
+  handleCreateDocumentation,
+  handleGetDocumentation,
+  handleUpdateDocumentation,
+  handleDeleteDocumentation,
+} from '@/routes/documentation';
 import {
   handleCreateAgent,
   handleListAgents,
@@ -19,7 +28,16 @@ import {
   handleDeleteAgent,
   handleUpdateAgentServices,
 } from '@/routes/agents';
-import { handleProxy, handleProxyExecute } from '@/routes/proxy';
+import {
+  handleProxy,
+  handleProxyExecute,
+  handleTransparentProxy,
+  handleForwardProxy,
+  handleWebSocketProxy,
+  isWebSocketUpgrade,
+} from '@/routes/proxy';
+import { webSocketHandlers, type WebSocketSession } from '@/services/websocket.service';
+import { handleStartOAuthConnect, handleOAuthCallback } from '@/routes/oauth';
 import { handleApprovalStatus } from '@/routes/approval';
 import { handleListPendingApprovals, handleApproveAction, handleDenyAction } from '@/routes/dashboard';
 import { expireStaleApprovals } from '@/services/approval.service';
@@ -51,18 +69,43 @@ const routes: Record<string, RouteHandler> = {
   'POST /auth/login': handleLogin,
   'POST /auth/refresh': handleRefresh,
   'GET /auth/me': handleMe,
+  'GET /oauth/callback': handleOAuthCallback,
 };
 
-// Main fetch handler for routing
-async function handleRequest(req: Request): Promise<Response> {
+// Main fetch handler for routing. Resolves to undefined only when the connection was upgraded to a WebSocket.
+async function handleRequest(req: Request, server: Server<WebSocketSession>): Promise<Response | undefined> {
   const startTime = Date.now();
   const origin = req.headers.get('Origin');
   const url = new URL(req.url);
   const method = req.method;
   const pathname = url.pathname;
 
+  // HTTP forward-proxy mode: absolute-form requests from HTTP_PROXY clients identify themselves with
+  // Proxy-Authorization (req.url already carries the upstream host). Bypasses all gateway routes.
+  if (req.headers.has('Proxy-Authorization') || method === 'CONNECT') {
+    const response = await handleForwardProxy(req);
+    logger.info(`${method} ${url.host}${pathname} ${response.status} (forward proxy, ${Date.now() - startTime}ms)`);
+    return response;
+  }
+
+  // Path-based proxy (/p/:serviceName/*) passes every method through, OPTIONS included
+  const transparentMatch = pathname.match(/^\/p\/([^/]+)(\/.*)?$/);
+
+  // WebSocket passthrough on /p/:serviceName/* — an upgraded connection has no Response to add CORS headers to
+  if (transparentMatch && isWebSocketUpgrade(req)) {
+    let serviceName: string;
+    try {
+      serviceName = decodeURIComponent(transparentMatch[1] as string);
+    } catch {
+      return errorResponse('Invalid service name encoding', 400);
+    }
+    const response = await handleWebSocketProxy(req, server, { serviceName, path: transparentMatch[2] ?? '' });
+    logger.info(`${method} ${pathname} ${response?.status ?? 101} (websocket, ${Date.now() - startTime}ms)`);
+    return response;
+  }
+
   // Handle CORS preflight — return 204 immediately with CORS headers
-  if (method === 'OPTIONS') {
+  if (method === 'OPTIONS' && !transparentMatch) {
     const preflightRes = new Response(null, { status: 204 });
     return addCorsHeaders(preflightRes, origin);
   }
@@ -80,12 +123,18 @@ async function handleRequest(req: Request): Promise<Response> {
       response = await handler(req);
     } else {
       // Try parameterized routes for /services
-      // Pattern: /services, /services/:id, /services/:id/credentials
+      // Pattern: /services, /services/import, /services/:id, /services/:id/credentials,
+      // /services/:id/oauth/authorize, /services/:id/docs[/:docId]
       if (pathname === '/services') {
         if (method === 'GET') response = await handleListServices(req);
         else if (method === 'POST') response = await handleCreateService(req);
       }
 
+      // Match /services/import
+      if (pathname === '/services/import' && method === 'POST' && !response!) {
+        response = await handleImportService(req);
+      }
+
       // Match /services/:id
       const serviceMatch = pathname.match(/^\/services\/(\d+)$/);
       if (serviceMatch && !response!) {
@@ -102,6 +151,30 @@ async function handleRequest(req: Request): Promise<Response> {
         if (method === 'POST') response = await handleUpsertCredentials(req, params);
       }
 
+      // Match /services/:id/oauth/authorize
+      const oauthMatch = pathname.match(/^\/services\/(\d+)\/oauth\/authorize$/);
+      if (oauthMatch && !response!) {
+        const params = { id: oauthMatch[1] as string };
+        if (method === 'POST') response = await handleStartOAuthConnect(req, params);
+      }
+
+      // Match /services/:id/docs
+      const docsMatch = pathname.match(/^\/services\/(\d+)\/docs$/);
+      if (docsMatch && !response!) {
+        const params = { id: docsMatch[1] as string };
+        if (method === 'GET') response = await handleListDocumentation(req, params);
+        else if (method === 'POST') response = await handleCreateDocumentation(req, params);
+      }
+
+      // Match /services/:id/docs/:docId
+      const docMatch = pathname.match(/^\/services\/(\d+)\/docs\/(\d+)$/);
+      if (docMatch && !response!) {
+        const params = { id: docMatch[1] as string, docId: docMatch[2] as string };
+        if (method === 'GET') response = await handleGetDocumentation(req, params);
+        else if (method === 'PUT') response = await handleUpdateDocumentation(req, params);
+        else if (method === 'DELETE') response = await handleDeleteDocumentation(req, params);
+      }
+
       // Try parameterized routes for /agents
       // Pattern: /agents, /agents/:id, /agents/:id/services
       if (pathname === '/agents' && !response!) {
@@ -130,6 +203,19 @@ async function handleRequest(req: Request): Promise<Response> {
         if (method === 'POST') response = await handleProxy(req);
       }
 
+      // ANY /p/:serviceName/* — path-based passthrough proxy (agent-facing)
+      if (transparentMatch && !response!) {
+        let serviceName: string | null = null;
+        try {
+          serviceName = decodeURIComponent(transparentMatch[1] as string);
+        } catch {
+          response = errorResponse('Invalid service name encoding', 400);
+        }
+        if (serviceName !== null) {
+          response = await handleTransparentProxy(req, { serviceName, path: transparentMatch[2] ?? '' });
+        }
+      }
+
       // GET /status/:actionId — agent polls for approval status
       const statusMatch = pathname.match(/^\/status\/([0-9a-f-]{36})$/);
       if (statusMatch && method === 'GET' && !response!) {
@@ -199,9 +285,10 @@ setInterval(() => {
 }, 5 * 60 * 1000); // Every 5 minutes
 
 // Start the server
-const server = Bun.serve({
+const server = Bun.serve<WebSocketSession>({
   port: env.PORT,
   fetch: handleRequest,
+  websocket: webSocketHandlers,
   error: handleError,
 });
 
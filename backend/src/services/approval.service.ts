@@ -1,16 +1,28 @@
 // Approval queue service: CRUD operations and state machine transitions
-// State machine: PENDING → APPROVED | DENIED; APPROVED → EXECUTED | EXPIRED
+// State machine: PENDING → APPROVED | DENIED; APPROVED → EXECUTING → EXECUTED | APPROVED (failed); APPROVED → EXPIRED
+// WebSocket sessions: APPROVED → EXECUTED once the upstream is connected
+// Withheld responses (content scanning): PENDING → EXECUTED (released) | DENIED
 
 import { db } from '@/config/db';
-import { approvalQueue, agents } from '@/db/schema';
+import {
+  approvalQueue,
+  agents,
+  type ProxyProtocol,
+  type RequestOperation,
+  type DlpMatch,
+  type ContentRisk,
+} from '@/db/schema';
 import { eq, and, lt, sql } from 'drizzle-orm';
 import { logger } from '@/utils/logger';
+import type { StoredBody, StoredRequestBody } from '@/utils/body';
 
 /**
- * Create a new approval queue entry for a risk-blocked request.
+ * Create a new approval queue entry for a risk-blocked request, or for an executed request
+ * whose response was withheld by content scanning (contentRisk + response set).
  *
  * Auth headers must be stripped from requestHeaders before calling this function.
  * Credentials are re-injected fresh from encrypted store at execution time.
+ * A withheld response is stored with the entry and released as-is, without re-executing.
  *
  * @returns actionId - UUID v4 string identifying this approval request
  */
@@ -20,10 +32,15 @@ export async function createApprovalQueueEntry(params: {
   method: string;
   targetUrl: string;
   requestHeaders: Record<string, string>; // auth headers already stripped
-  requestBody: string | null;
+  requestBody: StoredRequestBody;
   intent: string;
   riskScore: number;
   riskExplanation: string;
+  protocol?: ProxyProtocol; // 'websocket' for a blocked session open; default 'http'
+  operation?: RequestOperation | null; // parsed GraphQL operation / JSON-RPC calls, shown to the reviewer
+  dlpMatches?: DlpMatch[] | null;       // data-loss prevention findings, highlighted for the reviewer
+  contentRisk?: ContentRisk | null;     // prompt-injection scan result of a withheld response
+  response?: { status: number; headers: string; body: StoredBody }; // the withheld response
 }): Promise<string> {
   const actionId = crypto.randomUUID();
 
@@ -34,10 +51,19 @@ export async function createApprovalQueueEntry(params: {
     method: params.method,
     targetUrl: params.targetUrl,
     requestHeaders: JSON.stringify(params.requestHeaders),
-    requestBody: params.requestBody,
+    requestBody: params.requestBody.body,
+    requestBodyEncoding: params.requestBody.encoding,
     intent: params.intent,
     riskScore: params.riskScore,
     riskExplanation: params.riskExplanation,
+    protocol: params.protocol ?? 'http',
+    operation: params.operation ?? null,
+    dlpMatches: params.dlpMatches ?? null,
+    contentRisk: params.contentRisk ?? null,
+    responseStatus: params.response?.status ?? null,
+    responseHeaders: params.response?.headers ?? null,
+    responseBody: params.response?.body.body ?? null,
+    responseBodyEncoding: params.response?.body.encoding ?? null,
     status: 'PENDING',
   });
 
@@ -82,7 +108,8 @@ export async function transitionStatus(
     approvalExpiresAt?: Date;
     responseStatus?: number;
     responseHeaders?: string;
-    responseBody?: string;
+    responseBody?: string | null;
+    responseBodyEncoding?: string;
   }
 ): Promise<boolean> {
   const result = await db
@@ -152,8 +179,16 @@ export async function listPendingForUser(userId: number) {
       serviceId: approvalQueue.serviceId,
       method: approvalQueue.method,
       targetUrl: approvalQueue.targetUrl,
+      protocol: approvalQueue.protocol,
+      operation: approvalQueue.operation,
+      dlpMatches: approvalQueue.dlpMatches,
+      contentRisk: approvalQueue.contentRisk,
+      responseStatus: approvalQueue.responseStatus,
+      responseBody: approvalQueue.responseBody,
+      responseBodyEncoding: approvalQueue.responseBodyEncoding,
       requestHeaders: approvalQueue.requestHeaders,
       requestBody: approvalQueue.requestBody,
+      requestBodyEncoding: approvalQueue.requestBodyEncoding,
       intent: approvalQueue.intent,
       riskScore: approvalQueue.riskScore,
       riskExplanation: approvalQueue.riskExplanation,
@@ -173,6 +208,24 @@ export async function listPendingForUser(userId: number) {
   return rows;
 }
 
+/**
+ * Claim an APPROVED entry for execution (APPROVED → EXECUTING) before it is forwarded, so
+ * concurrent execute calls can't both send it.
+ *
+ * @returns true if this caller claimed it, false if it was no longer APPROVED
+ */
+export async function claimExecution(actionId: string): Promise<boolean> {
+  return transitionStatus(actionId, 'APPROVED', 'EXECUTING');
+}
+
+/**
+ * Hand a claimed entry back (EXECUTING → APPROVED) when forwarding failed without a response,
+ * so the agent can execute it again within the approval window.
+ */
+export async function releaseExecution(actionId: string): Promise<boolean> {
+  return transitionStatus(actionId, 'EXECUTING', 'APPROVED');
+}
+
 /**
  * Mark an approval queue entry as EXECUTED after the request was forwarded.
  *
@@ -182,19 +235,22 @@ export async function listPendingForUser(userId: number) {
  * @param actionId - The UUID of the approval queue entry
  * @param responseStatus - HTTP status code from the forwarded request
  * @param responseHeaders - JSON-serialized response headers
- * @param responseBody - Response body text
- * @returns true if the transition succeeded (was APPROVED), false if race condition
+ * @param responseBody - Encoded response body (encoding 'none' if it was too large to cache)
+ * @param fromStatus - EXECUTING for a claimed request (claimExecution); APPROVED for a WebSocket session
+ * @returns true if the transition succeeded (was fromStatus), false if race condition
  */
 export async function markExecuted(
   actionId: string,
   responseStatus: number,
   responseHeaders: string,
-  responseBody: string
+  responseBody: StoredBody,
+  fromStatus: 'APPROVED' | 'EXECUTING' = 'APPROVED'
 ): Promise<boolean> {
-  return transitionStatus(actionId, 'APPROVED', 'EXECUTED', {
+  return transitionStatus(actionId, fromStatus, 'EXECUTED', {
     executedAt: new Date(),
     responseStatus,
     responseHeaders,
-    responseBody,
+    responseBody: responseBody.body,
+    responseBodyEncoding: responseBody.encoding,
   });
 }
@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { env } from '@/config/env';
+import {
+  checkCircuit,
+  getCircuitStatus,
+  recordFailure,
+  recordSuccess,
+  releaseTrial,
+} from '@/services/circuit-breaker.service';
+
+const OPEN_MS = env.CIRCUIT_OPEN_SECONDS * 1000;
+const start = new Date('2026-01-01T00:00:00Z');
+
+// Circuits are per process: every test uses its own service id
+let nextServiceId = 1;
+
+function openCircuit(): number {
+  const serviceId = nextServiceId++;
+  for (let i = 0; i < env.CIRCUIT_FAILURE_THRESHOLD; i++) recordFailure(serviceId, 'HTTP 503');
+  return serviceId;
+}
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe('circuit breaker', () => {
+  test('services never called are closed', () => {
+    expect(checkCircuit(nextServiceId)).toBeNull();
+    expect(getCircuitStatus(nextServiceId++)).toEqual({
+      state: 'closed',
+      consecutiveFailures: 0,
+      openedAt: null,
+      retryAt: null,
+      lastFailure: null,
+    });
+  });
+
+  test('stays closed below the failure threshold', () => {
+    const serviceId = nextServiceId++;
+    for (let i = 0; i < env.CIRCUIT_FAILURE_THRESHOLD - 1; i++) recordFailure(serviceId, 'timeout');
+    expect(checkCircuit(serviceId)).toBeNull();
+    expect(getCircuitStatus(serviceId)).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: env.CIRCUIT_FAILURE_THRESHOLD - 1,
+      lastFailure: 'timeout',
+    });
+  });
+
+  test('a success resets the failure count', () => {
+    const serviceId = nextServiceId++;
+    for (let i = 0; i < env.CIRCUIT_FAILURE_THRESHOLD - 1; i++) recordFailure(serviceId, 'timeout');
+    recordSuccess(serviceId);
+    recordFailure(serviceId, 'timeout');
+    expect(getCircuitStatus(serviceId)).toMatchObject({ state: 'closed', consecutiveFailures: 1 });
+  });
+
+  test('opens at the threshold and fails fast until the cool-down ends', () => {
+    setSystemTime(start);
+    const serviceId = openCircuit();
+    expect(getCircuitStatus(serviceId)).toEqual({
+      state: 'open',
+      consecutiveFailures: env.CIRCUIT_FAILURE_THRESHOLD,
+      openedAt: start.toISOString(),
+      retryAt: new Date(start.getTime() + OPEN_MS).toISOString(),
+      lastFailure: 'HTTP 503',
+    });
+    expect(checkCircuit(serviceId)).toBe(OPEN_MS);
+
+    setSystemTime(new Date(start.getTime() + OPEN_MS - 1000));
+    expect(checkCircuit(serviceId)).toBe(1000);
+  });
+
+  test('admits one trial request once half-open', () => {
+    setSystemTime(start);
+    const serviceId = openCircuit();
+    setSystemTime(new Date(start.getTime() + OPEN_MS));
+
+    expect(getCircuitStatus(serviceId).state).toBe('half_open');
+    expect(checkCircuit(serviceId)).toBeNull();
+    expect(checkCircuit(serviceId)).toBe(OPEN_MS);
+  });
+
+  test('a successful trial closes the circuit', () => {
+    setSystemTime(start);
+    const serviceId = openCircuit();
+    setSystemTime(new Date(start.getTime() + OPEN_MS));
+    expect(checkCircuit(serviceId)).toBeNull();
+
+    recordSuccess(serviceId);
+    expect(getCircuitStatus(serviceId)).toMatchObject({ state: 'closed', consecutiveFailures: 0, openedAt: null });
+    expect(checkCircuit(serviceId)).toBeNull();
+    expect(checkCircuit(serviceId)).toBeNull();
+  });
+
+  test('a failed trial reopens the circuit at once', () => {
+    setSystemTime(start);
+    const serviceId = openCircuit();
+    const trialAt = new Date(start.getTime() + OPEN_MS);
+    setSystemTime(trialAt);
+    expect(checkCircuit(serviceId)).toBeNull();
+
+    recordFailure(serviceId, 'connection refused');
+    expect(getCircuitStatus(serviceId)).toMatchObject({
+      state: 'open',
+      openedAt: trialAt.toISOString(),
+      lastFailure: 'connection refused',
+    });
+    expect(checkCircuit(serviceId)).toBe(OPEN_MS);
+  });
+
+  test('a released trial lets the next request probe instead', () => {
+    setSystemTime(start);
+    const serviceId = openCircuit();
+    setSystemTime(new Date(start.getTime() + OPEN_MS));
+    expect(checkCircuit(serviceId)).toBeNull();
+
+    releaseTrial(serviceId);
+    expect(checkCircuit(serviceId)).toBeNull();
+    expect(checkCircuit(serviceId)).toBe(OPEN_MS);
+  });
+});
@@ -0,0 +1,134 @@
+// Per-service circuit breaker for upstream calls
+// Fails fast while a service is down instead of letting every agent request hit it
+
+import { env } from '@/config/env';
+import { logger } from '@/utils/logger';
+
+/**
+ * - closed: requests flow normally
+ * - open: requests fail fast until the cool-down ends
+ * - half_open: cool-down over; one trial request is let through to probe the service
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;    // ISO timestamp the circuit last opened
+  retryAt: string | null;     // ISO timestamp a trial request will be allowed (open only)
+  lastFailure: string | null; // reason for the most recent failure
+}
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  lastFailure: string | null;
+  trialInFlight: boolean;
+}
+
+// Breaker state per service id. In memory — each gateway process tracks its own view of upstream health.
+const circuits = new Map<number, Circuit>();
+
+function getCircuit(serviceId: number): Circuit {
+  let circuit = circuits.get(serviceId);
+  if (!circuit) {
+    circuit = { state: 'closed', consecutiveFailures: 0, openedAt: null, lastFailure: null, trialInFlight: false };
+    circuits.set(serviceId, circuit);
+  }
+  return circuit;
+}
+
+function openDurationMs(): number {
+  return env.CIRCUIT_OPEN_SECONDS * 1000;
+}
+
+/**
+ * Ask whether a request to the service may proceed.
+ * An open circuit whose cool-down has passed moves to half_open and admits exactly one trial request.
+ *
+ * @returns null if the request may proceed, otherwise milliseconds until a trial will be allowed
+ */
+export function checkCircuit(serviceId: number): number | null {
+  const circuit = getCircuit(serviceId);
+
+  if (circuit.state === 'open') {
+    const remaining = circuit.openedAt! + openDurationMs() - Date.now();
+    if (remaining > 0) return remaining;
+    circuit.state = 'half_open';
+    circuit.trialInFlight = false;
+    logger.info(`Circuit half-open for service ${serviceId}; allowing a trial request`);
+  }
+
+  if (circuit.state === 'half_open') {
+    if (circuit.trialInFlight) return openDurationMs();
+    circuit.trialInFlight = true;
+  }
+
+  return null;
+}
+
+/**
+ * Record a healthy upstream response. Closes a half-open circuit.
+ */
+export function recordSuccess(serviceId: number): void {
+  const circuit = getCircuit(serviceId);
+  if (circuit.state !== 'closed') {
+    logger.info(`Circuit closed for service ${serviceId}`);
+  }
+  circuit.state = 'closed';
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = null;
+  circuit.trialInFlight = false;
+}
+
+/**
+ * Record an upstream failure (network error, timeout, 5xx).
+ * Opens the circuit after CIRCUIT_FAILURE_THRESHOLD consecutive failures, or at once if the half-open trial failed.
+ */
+export function recordFailure(serviceId: number, reason: string): void {
+  const circuit = getCircuit(serviceId);
+  circuit.consecutiveFailures++;
+  circuit.lastFailure = reason;
+
+  if (circuit.state === 'half_open' || circuit.consecutiveFailures >= env.CIRCUIT_FAILURE_THRESHOLD) {
+    if (circuit.state !== 'open') {
+      logger.warn(
+        `Circuit opened for service ${serviceId} after ${circuit.consecutiveFailures} consecutive failures: ${reason}`
+      );
+    }
+    circuit.state = 'open';
+    circuit.openedAt = Date.now();
+    circuit.trialInFlight = false;
+  }
+}
+
+/**
+ * Give back a half-open trial slot when the request ended before reaching the upstream
+ * (blocked by validation, limits, ...), so it says nothing about upstream health.
+ */
+export function releaseTrial(serviceId: number): void {
+  const circuit = circuits.get(serviceId);
+  if (circuit?.state === 'half_open') circuit.trialInFlight = false;
+}
+
+/**
+ * Current breaker state for display. Services never called report closed.
+ */
+export function getCircuitStatus(serviceId: number): CircuitStatus {
+  const circuit = circuits.get(serviceId);
+  if (!circuit) {
+    return { state: 'closed', consecutiveFailures: 0, openedAt: null, retryAt: null, lastFailure: null };
+  }
+
+  // An open circuit past its cool-down admits a trial on the next request
+  const coolingDown = circuit.state === 'open' && circuit.openedAt! + openDurationMs() > Date.now();
+
+  return {
+    state: circuit.state === 'open' && !coolingDown ? 'half_open' : circuit.state,
+    consecutiveFailures: circuit.consecutiveFailures,
+    openedAt: circuit.openedAt ? new Date(circuit.openedAt).toISOString() : null,
+    retryAt: coolingDown ? new Date(circuit.openedAt! + openDurationMs()).toISOString() : null,
+    lastFailure: circuit.lastFailure,
+  };
+}
@@ -0,0 +1,491 @@
+// Service API documentation: CRUD with OpenAPI operation indexing, and lookup of the documented
+// operation for a proxied request
+
+import { z } from 'zod';
+import { db } from '@/config/db';
+import {
+  services,
+  credentials,
+  documentation,
+  documentationOperations,
+  type Service,
+  type Documentation,
+  type DocumentationOperation,
+  type OpenApiDocumentSummary,
+} from '@/db/schema';
+import { NotFoundError, credentialPlacementsSchema } from '@/services/service.service';
+import { encrypt } from '@/services/encryption.service';
+import { missingPlacementCredentials, DEFAULT_API_KEY_PLACEMENT } from '@/utils/credential-placement';
+import { eq, and } from 'drizzle-orm';
+import {
+  findDocumentedOperation,
+  parseOpenApiDocument,
+  type DocumentedOperation,
+  type IndexedOperation,
+  type OpenApiServiceSettings,
+} from '@/utils/api-docs';
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const MAX_DOCUMENT_CHARS = 10 * 1024 * 1024;
+
+/**
+ * Check a document's content against its type: OpenAPI must parse (JSON or YAML), URLs must be http(s).
+ */
+function refineContent(
+  doc: { type: Documentation['type']; content: string },
+  ctx: z.RefinementCtx
+): void {
+  if (doc.type === 'openapi') {
+    try {
+      parseOpenApiDocument(doc.content);
+    } catch (error) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['content'],
+        message: `Invalid OpenAPI document: ${error instanceof Error ? error.message : 'parse error'}`,
+      });
+    }
+  } else if (doc.type === 'url') {
+    let url: URL | null = null;
+    try {
+      url = new URL(doc.content.trim());
+    } catch {
+      // Reported below
+    }
+    if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:')) {
+      ctx.addIssue({ code: 'custom', path: ['content'], message: 'URL documentation must be an http(s) URL' });
+    }
+  }
+}
+
+export const createDocumentationSchema = z.object({
+  type: z.enum(['openapi', 'markdown', 'url']),
+  title: z.string().min(1).max(255).nullable().optional(),
+  content: z.string().min(1).max(MAX_DOCUMENT_CHARS),
+}).superRefine(refineContent);
+
+/**
+ * Schema for creating a service from an OpenAPI document. Settings the document doesn't provide
+ * (or that should be overridden) are given explicitly; credentials can be added later.
+ */
+export const importOpenApiSchema = z.object({
+  spec: z.string().min(1).max(MAX_DOCUMENT_CHARS),
+  name: z.string().min(1).max(255).optional(),
+  baseUrl: z.string().url().max(512).optional(),
+  authType: z.enum(['api_key', 'bearer', 'basic', 'oauth2', 'sigv4']).optional(),
+  credentials: z.record(z.string().min(1), z.string().min(1)).optional(),
+});
+
+/**
+ * Update schema: the type is fixed at creation; new content is re-validated and re-indexed
+ */
+export const updateDocumentationSchema = z.object({
+  title: z.string().min(1).max(255).nullable().optional(),
+  content: z.string().min(1).max(MAX_DOCUMENT_CHARS).optional(),
+}).refine(
+  (obj) => Object.keys(obj).length > 0,
+  { message: 'At least one field must be provided' }
+);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Error for updated content that doesn't validate against the document's type
+ */
+export class InvalidDocumentationError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidDocumentationError';
+  }
+}
+
+/**
+ * Documentation as returned by the API. OpenAPI documents expose their summary and
+ * (single-document reads only) their indexed operations instead of the raw spec.
+ */
+export interface DocumentationView {
+  id: number;
+  serviceId: number;
+  type: Documentation['type'];
+  title: string | null;
+  content: string | null;             // markdown text or URL; null for OpenAPI
+  openapi: OpenApiDocumentSummary | null;
+  operations?: Array<Omit<IndexedOperation, 'requestContract'>>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Result of importing an OpenAPI document as a new service
+ */
+export interface OpenApiImportResult {
+  service: Service;
+  credentialKeys: string[];
+  documentation: DocumentationView;
+  inferred: OpenApiServiceSettings; // what the document itself provided
+}
+
+/**
+ * Documentation found for a proxied request
+ */
+export interface OperationLookup {
+  documentation: DocumentedOperation | null;
+  cataloged: boolean; // the service has OpenAPI docs, so an unmatched request is an unknown operation
+}
+
+// ============================================================================
+// Service Functions
+// ============================================================================
+
+async function assertServiceOwner(serviceId: number, userId: number): Promise<void> {
+  const [service] = await db
+    .select({ id: services.id })
+    .from(services)
+    .where(and(eq(services.id, serviceId), eq(services.userId, userId)));
+
+  if (!service) {
+    throw new NotFoundError('Service not found');
+  }
+}
+
+function parseSummary(content: string): OpenApiDocumentSummary | null {
+  try {
+    return JSON.parse(content) as OpenApiDocumentSummary;
+  } catch {
+    return null;
+  }
+}
+
+function toView(row: Documentation, operations?: DocumentationOperation[]): DocumentationView {
+  const isOpenApi = row.type === 'openapi';
+  return {
+    id: row.id,
+    serviceId: row.serviceId,
+    type: row.type,
+    title: row.title,
+    content: isOpenApi ? null : row.content,
+    openapi: isOpenApi ? parseSummary(row.content) : null,
+    ...(operations
+      ? {
+          operations: operations.map((op) => ({
+            method: op.method,
+            path: op.path,
+            operationId: op.operationId,
+            summary: op.summary,
+            description: op.description,
+            deprecated: op.deprecated,
+            hints: op.hints,
+            tags: op.tags,
+            riskLevel: op.riskLevel,
+          })),
+        }
+      : {}),
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * What is stored for a document: OpenAPI specs are reduced to their summary plus one indexed row
+ * per operation; markdown and URLs are stored as-is.
+ */
+function prepareContent(
+  type: Documentation['type'],
+  content: string
+): { content: string; operations: IndexedOperation[] } {
+  if (type !== 'openapi') return { content: type === 'url' ? content.trim() : content, operations: [] };
+  const parsed = parseOpenApiDocument(content);
+  return { content: JSON.stringify(parsed.summary), operations: parsed.operations };
+}
+
+/**
+ * List a service's documentation (without OpenAPI operations)
+ *
+ * @throws NotFoundError if service doesn't exist or user doesn't own it
+ */
+export async function listDocumentation(serviceId: number, userId: number): Promise<DocumentationView[]> {
+  await assertServiceOwner(serviceId, userId);
+
+  const rows = await db
+    .select()
+    .from(documentation)
+    .where(eq(documentation.serviceId, serviceId))
+    .orderBy(documentation.createdAt);
+
+  return rows.map((row) => toView(row));
+}
+
+/**
+ * Get one document, with its indexed operations if it is an OpenAPI spec
+ *
+ * @throws NotFoundError if the service or document doesn't exist, or user doesn't own it
+ */
+export async function getDocumentation(serviceId: number, docId: number, userId: number): Promise<DocumentationView> {
+  await assertServiceOwner(serviceId, userId);
+
+  const [row] = await db
+    .select()
+    .from(documentation)
+    .where(and(eq(documentation.id, docId), eq(documentation.serviceId, serviceId)));
+
+  if (!row) {
+    throw new NotFoundError('Documentation not found');
+  }
+
+  if (row.type !== 'openapi') return toView(row);
+
+  const operations = await db
+    .select()
+    .from(documentationOperations)
+    .where(eq(documentationOperations.documentationId, row.id))
+    .orderBy(documentationOperations.path, documentationOperations.method);
+
+  return toView(row, operations);
+}
+
+/**
+ * Add documentation to a service. OpenAPI specs are indexed per operation in the same transaction.
+ *
+ * @throws NotFoundError if service doesn't exist or user doesn't own it
+ */
+export async function createDocumentation(
+  serviceId: number,
+  userId: number,
+  data: z.infer<typeof createDocumentationSchema>
+): Promise<DocumentationView> {
+  await assertServiceOwner(serviceId, userId);
+  const prepared = prepareContent(data.type, data.content);
+
+  const row = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(documentation)
+      .values({ serviceId, type: data.type, title: data.title ?? null, content: prepared.content })
+      .returning();
+
+    if (prepared.operations.length > 0) {
+      await tx.insert(documentationOperations).values(
+        prepared.operations.map((op) => ({ ...op, documentationId: created!.id, serviceId }))
+      );
+    }
+    return created!;
+  });
+
+  return toView(row);
+}
+
+/**
+ * Update a document's title and/or content. New OpenAPI content replaces the operation index.
+ *
+ * @throws NotFoundError if the service or document doesn't exist, or user doesn't own it
+ * @throws InvalidDocumentationError if new content doesn't validate against the document's type
+ */
+export async function updateDocumentation(
+  serviceId: number,
+  docId: number,
+  userId: number,
+  data: z.infer<typeof updateDocumentationSchema>
+): Promise<DocumentationView> {
+  await assertServiceOwner(serviceId, userId);
+
+  const [existing] = await db
+    .select()
+    .from(documentation)
+    .where(and(eq(documentation.id, docId), eq(documentation.serviceId, serviceId)));
+
+  if (!existing) {
+    throw new NotFoundError('Documentation not found');
+  }
+
+  let prepared: ReturnType<typeof prepareContent> | null = null;
+  if (data.content !== undefined) {
+    const issues = createDocumentationSchema.safeParse({ type: existing.type, content: data.content });
+    if (!issues.success) {
+      throw new InvalidDocumentationError(issues.error.issues[0]?.message ?? 'Invalid content');
+    }
+    prepared = prepareContent(existing.type, data.content);
+  }
+
+  const row = await db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(documentation)
+      .set({
+        ...(data.title !== undefined ? { title: data.title } : {}),
+        ...(prepared ? { content: prepared.content } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(documentation.id, docId))
+      .returning();
+
+    if (prepared && existing.type === 'openapi') {
+      await tx.delete(documentationOperations).where(eq(documentationOperations.documentationId, docId));
+      if (prepared.operations.length > 0) {
+        await tx.insert(documentationOperations).values(
+          prepared.operations.map((op) => ({ ...op, documentationId: docId, serviceId }))
+        );
+      }
+    }
+    return updated!;
+  });
+
+  return toView(row);
+}
+
+/**
+ * Delete a document (cascade deletes its indexed operations)
+ *
+ * @throws NotFoundError if the service or document doesn't exist, or user doesn't own it
+ */
+export async function deleteDocumentation(serviceId: number, docId: number, userId: number): Promise<{ deleted: true }> {
+  await assertServiceOwner(serviceId, userId);
+
+  const deleted = await db
+    .delete(documentation)
+    .where(and(eq(documentation.id, docId), eq(documentation.serviceId, serviceId)))
+    .returning({ id: documentation.id });
+
+  if (deleted.length === 0) {
+    throw new NotFoundError('Documentation not found');
+  }
+
+  return { deleted: true };
+}
+
+/**
+ * Create a service from an OpenAPI document: base URL from servers (or host/basePath), auth type
+ * from securitySchemes (with where an API key goes), the spec stored as documentation with its
+ * operation catalog. Service, credentials and catalog are written in one transaction.
+ *
+ * @throws InvalidDocumentationError if the document doesn't parse, or lacks a base URL, auth type
+ *   or title that wasn't given explicitly, or the credentials given lack the key an API key scheme places
+ */
+export async function importServiceFromOpenApi(
+  userId: number,
+  data: z.infer<typeof importOpenApiSchema>
+): Promise<OpenApiImportResult> {
+  let parsed: ReturnType<typeof parseOpenApiDocument>;
+  try {
+    parsed = parseOpenApiDocument(data.spec);
+  } catch (error) {
+    throw new InvalidDocumentationError(`Invalid OpenAPI document: ${error instanceof Error ? error.message : 'parse error'}`);
+  }
+
+  const name = data.name ?? parsed.summary.title;
+  const baseUrl = data.baseUrl ?? parsed.settings.baseUrl;
+  const authType = data.authType ?? parsed.settings.authType;
+  if (!name) {
+    throw new InvalidDocumentationError('The document has no info.title; provide a name');
+  }
+  if (!baseUrl) {
+    throw new InvalidDocumentationError('The document has no absolute http(s) server URL; provide a baseUrl');
+  }
+  if (!authType) {
+    throw new InvalidDocumentationError('The document has no supported security scheme; provide an authType');
+  }
+
+  // api_key services need a placement: the document's own if usable, else the key in X-API-Key
+  let credentialPlacements = null;
+  if (authType === 'api_key') {
+    const inferred = credentialPlacementsSchema.safeParse(parsed.settings.credentialPlacements ?? []);
+    credentialPlacements = inferred.success && inferred.data.length > 0 ? inferred.data : [DEFAULT_API_KEY_PLACEMENT];
+  }
+
+  const credentialEntries = Object.entries(data.credentials ?? {});
+  if (credentialPlacements && credentialEntries.length > 0) {
+    const missing = missingPlacementCredentials(credentialPlacements, credentialEntries.map(([key]) => key));
+    if (missing.length > 0) {
+      throw new InvalidDocumentationError(`The API key goes in credential ${missing.map((key) => `"${key}"`).join(', ')}; provide it`);
+    }
+  }
+
+  const result = await db.transaction(async (tx) => {
+    const [service] = await tx
+      .insert(services)
+      .values({ userId, name: name.substring(0, 255), baseUrl, authType, credentialPlacements })
+      .returning();
+
+    if (credentialEntries.length > 0) {
+      await tx.insert(credentials).values(
+        credentialEntries.map(([key, value]) => ({ serviceId: service!.id, key, encryptedValue: encrypt(value) }))
+      );
+    }
+
+    const [doc] = await tx
+      .insert(documentation)
+      .values({
+        serviceId: service!.id,
+        type: 'openapi',
+        title: parsed.summary.title?.substring(0, 255) ?? null,
+        content: JSON.stringify(parsed.summary),
+      })
+      .returning();
+
+    if (parsed.operations.length > 0) {
+      await tx.insert(documentationOperations).values(
+        parsed.operations.map((op) => ({ ...op, documentationId: doc!.id, serviceId: service!.id }))
+      );
+    }
+    return { service: service!, doc: doc! };
+  });
+
+  return {
+    service: result.service,
+    credentialKeys: credentialEntries.map(([key]) => key),
+    documentation: toView(result.doc),
+    inferred: parsed.settings,
+  };
+}
+
+/**
+ * Find the service's documentation for a request's method and path (indexed OpenAPI operation
+ * or markdown section), for request validation and the risk assessor.
+ *
+ * @param service - The resolved service (its baseUrl path prefix is stripped before matching)
+ * @param method - HTTP method of the request
+ * @param targetUrl - Full target URL
+ * @returns The matching documented operation (null if nothing documents it), and whether the
+ *   service has an OpenAPI operation catalog at all
+ */
+export async function findOperationDocumentation(
+  service: Pick<Service, 'id' | 'baseUrl'>,
+  method: string,
+  targetUrl: string
+): Promise<OperationLookup> {
+  const docs = await db
+    .select({ type: documentation.type, content: documentation.content })
+    .from(documentation)
+    .where(eq(documentation.serviceId, service.id));
+
+  const cataloged = docs.some((doc) => doc.type === 'openapi');
+  if (docs.length === 0) return { documentation: null, cataloged };
+
+  const operations = cataloged
+    ? await db
+        .select()
+        .from(documentationOperations)
+        .where(and(
+          eq(documentationOperations.serviceId, service.id),
+          eq(documentationOperations.method, method.toUpperCase())
+        ))
+    : [];
+
+  const match = findDocumentedOperation(
+    {
+      operations,
+      basePaths: docs
+        .filter((doc) => doc.type === 'openapi')
+        .flatMap((doc) => parseSummary(doc.content)?.basePaths ?? []),
+      markdown: docs.filter((doc) => doc.type === 'markdown').map((doc) => doc.content),
+    },
+    method,
+    targetUrl,
+    service.baseUrl
+  );
+  return { documentation: match, cataloged };
+}
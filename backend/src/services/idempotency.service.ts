@@ -4,6 +4,7 @@
 import { db } from '@/config/db';
 import { idempotencyKeys, type IdempotencyKey, type InsertIdempotencyKey } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
+import type { BodyEncoding, StoredBody } from '@/utils/body';
 
 /**
  * Result types for idempotency checks
@@ -11,7 +12,14 @@ import { eq, and } from 'drizzle-orm';
 export type IdempotencyResult =
   | { status: 'new'; idempotencyKeyId: number }
   | { status: 'processing' }
-  | { status: 'completed'; responseStatus: number; responseHeaders: string; responseBody: string };
+  | { status: 'withheld'; actionId: string }
+  | {
+      status: 'completed';
+      responseStatus: number;
+      responseHeaders: string;
+      responseBody: string | null;
+      responseBodyEncoding: BodyEncoding | null; // null for rows cached before encodings were tracked
+    };
 
 /**
  * Check idempotency status for a request
@@ -21,6 +29,7 @@ export type IdempotencyResult =
  * - If key not found: create new record with status='processing', return 'new'
  * - If found with status='processing': return 'processing' (409 to caller)
  * - If found with status='completed': return cached response
+ * - If found with status='withheld': return the approval action holding the response
  * - If found with status='failed': delete old record, create new one, return 'new' (retry)
  * 
  * @param agentId - The agent making the request
@@ -69,10 +78,16 @@ export async function checkIdempotency(
         status: 'completed',
         responseStatus: existing.responseStatus!,
         responseHeaders: existing.responseHeaders!,
-        responseBody: existing.responseBody!,
+        responseBody: existing.responseBody,
+        responseBodyEncoding: existing.responseBodyEncoding as BodyEncoding | null,
       };
     }
 
+    if (existing.status === 'withheld') {
+      // Request ran, its response is held in the approval queue
+      return { status: 'withheld', actionId: existing.withheldActionId! };
+    }
+
     // Status is 'failed', allow retry by deleting old record and creating new one
     await tx.delete(idempotencyKeys).where(eq(idempotencyKeys.id, existing.id));
 
@@ -97,13 +112,13 @@ export async function checkIdempotency(
  * @param id - The idempotency key record ID
  * @param responseStatus - HTTP status code
  * @param responseHeaders - Serialized response headers (JSON string)
- * @param responseBody - Response body text
+ * @param responseBody - Encoded response body (encoding 'none' if it was too large to cache)
  */
 export async function completeIdempotency(
   id: number,
   responseStatus: number,
   responseHeaders: string,
-  responseBody: string
+  responseBody: StoredBody
 ): Promise<void> {
   await db
     .update(idempotencyKeys)
@@ -111,7 +126,26 @@ export async function completeIdempotency(
       status: 'completed',
       responseStatus,
       responseHeaders,
-      responseBody,
+      responseBody: responseBody.body,
+      responseBodyEncoding: responseBody.encoding,
+      completedAt: new Date(),
+    })
+    .where(eq(idempotencyKeys.id, id));
+}
+
+/**
+ * Mark an idempotency key as withheld: the request ran, but content scanning parked its response
+ * in the approval queue. Never retried — a replay points at the approval action instead.
+ *
+ * @param id - The idempotency key record ID
+ * @param actionId - The approval action holding the response
+ */
+export async function withholdIdempotency(id: number, actionId: string): Promise<void> {
+  await db
+    .update(idempotencyKeys)
+    .set({
+      status: 'withheld',
+      withheldActionId: actionId,
       completedAt: new Date(),
     })
     .where(eq(idempotencyKeys.id, id));
@@ -0,0 +1,220 @@
+// OAuth 2.0 account connection: authorization-code flow with PKCE (RFC 7636) for user-delegated APIs
+// The dashboard sends the user to the provider; the callback exchanges the code and keeps the refresh token in the vault
+// Each flow is bound to the browser that started it by a cookie (bindingCookieName), checked by the callback
+
+import { createHash, randomBytes } from 'node:crypto';
+import { db } from '@/config/db';
+import { services, oauthAuthorizations } from '@/db/schema';
+import { eq, and, lt } from 'drizzle-orm';
+import { env } from '@/config/env';
+import { encrypt, decrypt } from '@/services/encryption.service';
+import {
+  ProxyError,
+  exchangeOAuthGrant,
+  storeOAuthToken,
+  loadServiceCredentials,
+  oauthGrantFor,
+} from '@/services/proxy.service';
+import { logger } from '@/utils/logger';
+
+/**
+ * How long the user has to complete the provider's consent screen.
+ */
+export const AUTHORIZATION_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Name of the cookie carrying a flow's browser binding. Derived from the state, so flows started
+ * side by side in one browser each keep their own.
+ */
+export function bindingCookieName(state: string): string {
+  return `gg_oauth_${createHash('sha256').update(state).digest('hex').slice(0, 16)}`;
+}
+
+function hashBinding(binding: string): string {
+  return createHash('sha256').update(binding).digest('hex');
+}
+
+/**
+ * Error in the connect flow. Carries the service id (when known) so the callback can return the
+ * user to that service's page with the message.
+ */
+export class OAuthConnectError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400,
+    public serviceId: number | null = null
+  ) {
+    super(message);
+    this.name = 'OAuthConnectError';
+  }
+}
+
+/**
+ * The service's credentials, checked for the authorization-code settings.
+ */
+async function connectCredentials(serviceId: number): Promise<Record<string, string>> {
+  let creds: Record<string, string>;
+  try {
+    creds = await loadServiceCredentials(serviceId);
+  } catch (error) {
+    if (!(error instanceof ProxyError)) throw error;
+    creds = {};
+  }
+  if (oauthGrantFor(creds) !== 'authorization_code') {
+    throw new OAuthConnectError(
+      'Save client_id, authorization_url and token_url credentials before connecting an account',
+      400,
+      serviceId
+    );
+  }
+  return creds;
+}
+
+/**
+ * Start connecting an account: record a pending authorization (state + PKCE verifier) and build the
+ * provider's authorization URL for the dashboard to send the user to. The returned binding goes into
+ * a cookie (bindingCookieName) in the user's browser; only its hash is stored, and the callback
+ * requires it, so a leaked state or authorization URL can't be completed from another browser.
+ *
+ * Sends response_type=code, client_id, redirect_uri (OAUTH_REDIRECT_URL), scope (credentials.scope),
+ * state and an S256 code challenge, plus any provider-specific parameters from
+ * credentials.authorization_params (e.g. "access_type=offline&prompt=consent" for Google refresh tokens).
+ *
+ * @param userId - The service owner
+ * @param serviceId - An oauth2 service with authorization-code credentials
+ * @returns The provider URL, the state and the browser binding
+ * @throws OAuthConnectError 404 if the service doesn't exist or isn't the user's, 400 if it can't connect
+ */
+export async function startAuthorization(
+  userId: number,
+  serviceId: number
+): Promise<{ authorizationUrl: string; state: string; binding: string }> {
+  const [service] = await db
+    .select()
+    .from(services)
+    .where(and(eq(services.id, serviceId), eq(services.userId, userId)))
+    .limit(1);
+
+  if (!service) {
+    throw new OAuthConnectError('Service not found', 404);
+  }
+  if (service.authType !== 'oauth2') {
+    throw new OAuthConnectError('Only oauth2 services can connect an account', 400, serviceId);
+  }
+
+  const creds = await connectCredentials(serviceId);
+  let authorizationUrl: URL;
+  try {
+    authorizationUrl = new URL(creds.authorization_url!);
+  } catch {
+    throw new OAuthConnectError('authorization_url is not a valid URL', 400, serviceId);
+  }
+  if (authorizationUrl.protocol !== 'https:' && authorizationUrl.protocol !== 'http:') {
+    throw new OAuthConnectError('authorization_url must be an http(s) URL', 400, serviceId);
+  }
+
+  const state = randomBytes(32).toString('base64url');
+  const binding = randomBytes(32).toString('base64url');
+  const codeVerifier = randomBytes(32).toString('base64url');
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+
+  // Abandoned flows are cleared out whenever a new one starts
+  await db.delete(oauthAuthorizations).where(lt(oauthAuthorizations.expiresAt, new Date()));
+  await db.insert(oauthAuthorizations).values({
+    state,
+    serviceId,
+    userId,
+    encryptedCodeVerifier: encrypt(codeVerifier),
+    bindingHash: hashBinding(binding),
+    redirectUri: env.OAUTH_REDIRECT_URL,
+    expiresAt: new Date(Date.now() + AUTHORIZATION_TTL_MS),
+  });
+
+  for (const [name, value] of new URLSearchParams(creds.authorization_params ?? '')) {
+    authorizationUrl.searchParams.set(name, value);
+  }
+  authorizationUrl.searchParams.set('response_type', 'code');
+  authorizationUrl.searchParams.set('client_id', creds.client_id!);
+  authorizationUrl.searchParams.set('redirect_uri', env.OAUTH_REDIRECT_URL);
+  if (creds.scope) authorizationUrl.searchParams.set('scope', creds.scope);
+  authorizationUrl.searchParams.set('state', state);
+  authorizationUrl.searchParams.set('code_challenge', codeChallenge);
+  authorizationUrl.searchParams.set('code_challenge_method', 'S256');
+
+  logger.info(`OAuth2 connect started for service ${serviceId} by user ${userId}`);
+  return { authorizationUrl: authorizationUrl.toString(), state, binding };
+}
+
+/**
+ * Finish connecting an account (the provider's redirect to the callback): claim the pending
+ * authorization by state and browser binding — once, race-safe — and exchange the code for tokens.
+ * The refresh token goes into the service's credentials, the access token into the token cache.
+ *
+ * @param params - Query parameters the provider sent: code and state, or error (and error_description);
+ *   binding is the value of the flow's binding cookie
+ * @returns The connected service
+ * @throws OAuthConnectError if the state is unknown, used, expired or bound to another browser, the
+ *   user denied consent, or the code exchange failed
+ */
+export async function completeAuthorization(params: {
+  state: string | null;
+  code: string | null;
+  error: string | null;
+  errorDescription: string | null;
+  binding: string | null;
+}): Promise<{ serviceId: number }> {
+  if (!params.state) {
+    throw new OAuthConnectError('Missing state parameter');
+  }
+  if (!params.binding) {
+    throw new OAuthConnectError('Authorization request was not started in this browser — start connecting again');
+  }
+
+  // Only the browser holding the binding can claim the request; anyone else leaves it pending
+  const [pending] = await db
+    .delete(oauthAuthorizations)
+    .where(and(
+      eq(oauthAuthorizations.state, params.state),
+      eq(oauthAuthorizations.bindingHash, hashBinding(params.binding))
+    ))
+    .returning();
+
+  if (!pending) {
+    throw new OAuthConnectError(
+      'Unknown or already used authorization request, or one started in another browser — start connecting again'
+    );
+  }
+  const serviceId = pending.serviceId;
+  if (pending.expiresAt.getTime() < Date.now()) {
+    throw new OAuthConnectError('Authorization request expired — start connecting again', 400, serviceId);
+  }
+  if (params.error) {
+    const detail = params.errorDescription ? `: ${params.errorDescription}` : '';
+    throw new OAuthConnectError(`Provider returned ${params.error}${detail}`, 400, serviceId);
+  }
+  if (!params.code) {
+    throw new OAuthConnectError('Provider returned no authorization code', 400, serviceId);
+  }
+
+  const creds = await connectCredentials(serviceId);
+  let token;
+  try {
+    ({ token } = await exchangeOAuthGrant(creds, {
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: pending.redirectUri,
+      code_verifier: decrypt(pending.encryptedCodeVerifier),
+    }));
+  } catch (error) {
+    if (!(error instanceof ProxyError)) throw error;
+    throw new OAuthConnectError(error.message, 502, serviceId);
+  }
+
+  if (!token.refresh_token) {
+    logger.warn(`OAuth2 provider for service ${serviceId} returned no refresh token; the account must be reconnected when the access token expires`);
+  }
+  await storeOAuthToken(serviceId, token, true);
+
+  logger.info(`OAuth2 account connected for service ${serviceId} by user ${pending.userId}`);
+  return { serviceId };
+}
@@ -3,14 +3,72 @@
 
 import { z } from 'zod';
 import { db } from '@/config/db';
-import { services, credentials, agentServices, proxyRequests } from '@/db/schema';
+import {
+  services,
+  credentials,
+  oauthTokens,
+  agentServices,
+  proxyRequests,
+  type Service,
+  type RedirectHop,
+  type ProxyProtocol,
+  type RequestOperation,
+  type ApiProtocol,
+  type DlpMatch,
+  type RedactionHit,
+  type SecurityIncident,
+  type ContentRisk,
+  type OAuthTokenFetch,
+  type HmacSigning,
+} from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
-import { decrypt } from '@/services/encryption.service';
-import { checkIdempotency, completeIdempotency, failIdempotency } from '@/services/idempotency.service';
-import { createHash } from 'node:crypto';
-import { assessRisk } from '@/services/risk.service';
-import { createApprovalQueueEntry } from '@/services/approval.service';
+import { encrypt, decrypt } from '@/services/encryption.service';
+import {
+  checkIdempotency,
+  completeIdempotency,
+  failIdempotency,
+  withholdIdempotency,
+} from '@/services/idempotency.service';
+import { createHash, randomBytes } from 'node:crypto';
+import { isIP } from 'node:net';
+import { checkServerIdentity, type PeerCertificate } from 'node:tls';
+import { assessRisk, assessContentRisk, jsonRpcMethodScore } from '@/services/risk.service';
+import { createApprovalQueueEntry, getApprovalQueueEntry } from '@/services/approval.service';
+import { findOperationDocumentation, type OperationLookup } from '@/services/documentation.service';
+import { checkCircuit, recordFailure, recordSuccess, releaseTrial } from '@/services/circuit-breaker.service';
+import { env } from '@/config/env';
 import { logger } from '@/utils/logger';
+import { ValidationError } from '@/middleware/validation';
+import { meterStream, type MeterResult } from '@/utils/stream';
+import { filterResponseHeaders } from '@/utils/headers';
+import { blockedRangeFor, resolveHost, stripBrackets } from '@/utils/ssrf';
+import { parseGraphQLRequest, isReadOnlyGraphQL } from '@/utils/graphql';
+import { parseJsonRpcRequest } from '@/utils/jsonrpc';
+import { matchOperationRules, requestOperationKeys } from '@/utils/operation-rules';
+import { validateRequestContract, type SchemaViolation } from '@/utils/openapi-validation';
+import { scanRequestBody, describeDlpMatches } from '@/utils/dlp';
+import { redactResponseBody, createEventStreamRedactor, isRedactableContentType } from '@/utils/redaction';
+import { secretVariants, scrubHeaders, createEchoScrubber } from '@/utils/credential-echo';
+import { formatContentRiskHeader, wrapUntrustedContent } from '@/utils/prompt-injection';
+import { signSigV4, hashPayload, EMPTY_PAYLOAD_HASH, type SigV4Credentials } from '@/utils/sigv4';
+import { signHmacRequest, usesPlaceholder } from '@/utils/hmac-signing';
+import {
+  placementReferences,
+  missingPlacementCredentials,
+  renderPlacement,
+  legacyApiKeyPlacement,
+} from '@/utils/credential-placement';
+import {
+  encodeBody,
+  decodeBody,
+  materializeRequestBody,
+  describeRequestBody,
+  requestBodyByteLength,
+  UNCACHED_BODY,
+  type StoredBody,
+  type StoredRequestBody,
+  type RequestBodyInit,
+} from '@/utils/body';
 
 /**
  * Custom error classes for proxy operations
@@ -53,43 +111,173 @@ export class RiskyRequestError extends Error {
   }
 }
 
+export class ContentWithheldError extends Error {
+  statusCode = 428;
+  constructor(
+    public actionId: string,
+    public contentRisk: ContentRisk
+  ) {
+    super('Response withheld pending human review');
+    this.name = 'ContentWithheldError';
+  }
+}
+
+export class SchemaValidationError extends Error {
+  statusCode = 422;
+  constructor(
+    message: string,
+    public operation: string | null, // operationId, or "METHOD /template"; null for an unknown operation
+    public violations: SchemaViolation[]
+  ) {
+    super(message);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Zod schema for one part of a multipart/form-data envelope
+ */
+const multipartPartSchema = z.object({
+  name: z.string().min(1).max(255),
+  value: z.string(),
+  encoding: z.enum(['utf8', 'base64']).optional(),
+  filename: z.string().min(1).max(255).optional(),
+  contentType: z.string().min(1).max(255).optional(),
+}).refine(
+  (part) => part.encoding !== 'base64' || BASE64_PATTERN.test(part.value),
+  { message: 'value must be valid base64 when encoding is base64' }
+);
+
 /**
  * Zod schema for proxy request validation
+ *
+ * Body forms (mutually exclusive):
+ * - body + bodyEncoding 'utf8' (default): text sent as-is
+ * - body + bodyEncoding 'base64': raw bytes, decoded before sending
+ * - multipart: array of parts sent as multipart/form-data (gateway sets the boundary)
+ *
+ * The idempotency key requirement depends on the service (GraphQL queries are exempt), so
+ * executeProxyRequest checks it once the service is resolved (assertIdempotencyKey).
  */
 export const proxyRequestSchema = z.object({
   targetUrl: z.string().url(),
   method: z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS']),
   headers: z.record(z.string(), z.string()).default({}),
   body: z.string().nullable().optional(),
+  bodyEncoding: z.enum(['utf8', 'base64']).default('utf8'),
+  multipart: z.array(multipartPartSchema).min(1).optional(),
   intent: z.string().min(1).max(500),
   idempotencyKey: z.string().min(1).max(255).optional(),
 }).refine(
-  (data) => {
-    // Idempotency key required for POST and PATCH
-    if ((data.method === 'POST' || data.method === 'PATCH') && !data.idempotencyKey) {
-      return false;
-    }
-    return true;
-  },
-  { message: 'idempotencyKey is required for POST and PATCH requests' }
+  (data) => !(data.multipart && data.body != null),
+  { message: 'body and multipart cannot both be provided' }
+).refine(
+  (data) => data.bodyEncoding !== 'base64' || data.body == null || BASE64_PATTERN.test(data.body),
+  { message: 'body must be valid base64 when bodyEncoding is base64' }
 );
 
 export type ProxyRequestData = z.infer<typeof proxyRequestSchema>;
 
+/**
+ * Parse the protocol-level operation a request carries, from text bodies only.
+ * JSON-RPC services get their calls extracted (each scored by method name); GraphQL services
+ * their operations. Requests to plain HTTP services are never parsed as either, so a body that
+ * merely looks like GraphQL can't pass itself off as a read.
+ *
+ * @param apiProtocol - The service's API protocol (null = plain HTTP)
+ * @returns The operation, or null if the request isn't recognized
+ */
+export function inspectRequestOperation(
+  request: { method: string; targetUrl: string; headers: Record<string, string> },
+  requestBody: StoredRequestBody,
+  apiProtocol: ApiProtocol | null = null
+): RequestOperation | null {
+  const body = requestBody.encoding === 'utf8' ? requestBody.body : null;
+
+  if (apiProtocol === 'jsonrpc') {
+    const parsed = parseJsonRpcRequest(body);
+    if (!parsed) return null;
+    const calls = parsed.calls.map((call) => ({ ...call, riskScore: jsonRpcMethodScore(call.method) }));
+    return { protocol: 'jsonrpc', batch: parsed.batch, calls };
+  }
+
+  if (apiProtocol === 'graphql') {
+    const operations = parseGraphQLRequest(request.method, request.targetUrl, body, getHeader(request.headers, 'Content-Type'));
+    return operations ? { protocol: 'graphql', operations } : null;
+  }
+  return null;
+}
+
+/**
+ * Whether an operation is GraphQL made up only of queries (see isReadOnlyGraphQL).
+ */
+function isGraphQLQuery(operation: RequestOperation | null): boolean {
+  return operation?.protocol === 'graphql' && isReadOnlyGraphQL(operation.operations);
+}
+
+/**
+ * Require an idempotency key on POST and PATCH — except GraphQL queries to a GraphQL service,
+ * which are reads sent as POST.
+ *
+ * @throws ValidationError if the key is missing
+ */
+function assertIdempotencyKey(data: ProxyRequestData, operation: RequestOperation | null): void {
+  if (data.idempotencyKey || (data.method !== 'POST' && data.method !== 'PATCH')) return;
+  if (data.method === 'POST' && isGraphQLQuery(operation)) return;
+  throw new ValidationError(
+    new z.ZodError([
+      { code: 'custom', message: 'idempotencyKey is required for POST and PATCH requests', path: ['idempotencyKey'] },
+    ])
+  );
+}
+
+/**
+ * Normalize the body fields of a proxy request into the form stored in the approval queue.
+ */
+export function toStoredRequestBody(data: ProxyRequestData): StoredRequestBody {
+  if (data.multipart) {
+    return { body: JSON.stringify(data.multipart), encoding: 'multipart' };
+  }
+  return { body: data.body ?? null, encoding: data.bodyEncoding };
+}
+
+/**
+ * Look up a header regardless of the casing the agent used.
+ */
+function getHeader(headers: Record<string, string>, name: string): string | undefined {
+  return Object.entries(headers).find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1];
+}
+
+/**
+ * Remove a header regardless of the casing the agent used.
+ */
+function deleteHeader(headers: Record<string, string>, name: string): void {
+  for (const key of Object.keys(headers)) {
+    if (key.toLowerCase() === name.toLowerCase()) delete headers[key];
+  }
+}
+
 /**
  * Validate target URL against service baseUrl to prevent SSRF
  * 
  * Checks:
- * - Target hostname matches service baseUrl hostname
- * - Target URL starts with service baseUrl path
- * - Block private IP ranges (127.x, 10.x, 172.16-31.x, 192.168.x, 169.254.x, ::1, fc00:, fe80:)
+ * - Target hostname matches service baseUrl hostname (unless requireServiceMatch is false)
+ * - Target URL starts with service baseUrl path (unless requireServiceMatch is false)
+ * - Block localhost and IP literals in private/reserved ranges (see utils/ssrf.ts for the table)
  * - Only allow http/https protocols
  * 
  * @param targetUrl - The URL the agent wants to call
  * @param serviceBaseUrl - The registered service baseUrl
+ * @param options - requireServiceMatch: false relaxes the service match (cross-origin redirect hops)
  * @throws ProxyError if validation fails
  */
-export function validateTargetUrl(targetUrl: string, serviceBaseUrl: string): void {
+export function validateTargetUrl(
+  targetUrl: string,
+  serviceBaseUrl: string,
+  options: { requireServiceMatch?: boolean } = {}
+): void {
   let target: URL;
   let base: URL;
 
@@ -105,56 +293,91 @@ export function validateTargetUrl(targetUrl: string, serviceBaseUrl: string): vo
     throw new ProxyError('Only HTTP and HTTPS protocols are allowed', 400);
   }
 
-  // Hostname must match
-  if (target.hostname !== base.hostname) {
-    logger.warn(`SSRF Prevention: Hostname mismatch: ${target.hostname} vs ${base.hostname}`);
-    throw new ProxyError(
-      `Target hostname (${target.hostname}) does not match service baseUrl (${base.hostname})`,
-      403
-    );
-  }
+  if (options.requireServiceMatch !== false) {
+    // Hostname must match
+    if (target.hostname !== base.hostname) {
+      logger.warn(`SSRF Prevention: Hostname mismatch: ${target.hostname} vs ${base.hostname}`);
+      throw new ProxyError(
+        `Target hostname (${target.hostname}) does not match service baseUrl (${base.hostname})`,
+        403
+      );
+    }
 
-  // Target path must start with base path
-  if (!target.pathname.startsWith(base.pathname)) {
-    logger.warn(`SSRF Prevention: Path mismatch: ${target.pathname} does not start with ${base.pathname}`);
-    throw new ProxyError(
-      `Target path must start with service baseUrl path (${base.pathname})`,
-      403
-    );
+    // Target path must start with base path
+    if (!target.pathname.startsWith(base.pathname)) {
+      logger.warn(`SSRF Prevention: Path mismatch: ${target.pathname} does not start with ${base.pathname}`);
+      throw new ProxyError(
+        `Target path must start with service baseUrl path (${base.pathname})`,
+        403
+      );
+    }
   }
 
-  // Block private IP ranges
-  const hostname = target.hostname.toLowerCase();
-
-  // IPv4 private ranges
-  if (
-    hostname.startsWith('127.') ||
-    hostname.startsWith('10.') ||
-    hostname.startsWith('192.168.') ||
-    hostname.startsWith('169.254.')
-  ) {
-    logger.warn(`SSRF Prevention: Private IP range blocked: ${hostname}`);
-    throw new ProxyError('Access to private IP ranges is forbidden', 403);
+  // Block localhost names (resolvers map these to loopback without asking DNS)
+  const hostname = stripBrackets(target.hostname.toLowerCase());
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+    throw new ProxyError('Access to localhost is forbidden', 403);
   }
 
-  // 172.16.0.0 - 172.31.255.255
-  const ipMatch = hostname.match(/^172\.(\d+)\./);
-  if (ipMatch && ipMatch[1]) {
-    const octet = parseInt(ipMatch[1], 10);
-    if (octet >= 16 && octet <= 31) {
+  // IP literals are checked here; the URL parser has already normalized decimal/hex/octal IPv4
+  // forms (http://2130706433/ → 127.0.0.1). Hostnames are checked after resolution in pinTarget.
+  if (isIP(hostname)) {
+    const blocked = blockedRangeFor(hostname);
+    if (blocked) {
+      logger.warn(`SSRF Prevention: ${blocked} address blocked: ${hostname}`);
       throw new ProxyError('Access to private IP ranges is forbidden', 403);
     }
   }
+}
+
+/**
+ * Where forwardRequest actually connects for a target URL.
+ */
+export interface PinnedTarget {
+  url: string;         // target URL with the hostname replaced by the vetted address
+  host: string;        // original Host header value (hostname[:port])
+  serverName: string;  // original hostname, for TLS SNI and certificate checks
+  address: string;     // the vetted address
+}
+
+/**
+ * Resolve the target hostname and pin the connection to a vetted address
+ *
+ * Every resolved address must be public — one private answer blocks the request, since
+ * a later lookup could return it. Connecting to the checked address (rather than letting
+ * fetch resolve again) closes the DNS-rebinding window between check and use.
+ *
+ * @param targetUrl - URL already accepted by validateTargetUrl
+ * @returns The pinned connection details
+ * @throws ProxyError 403 if any resolved address is private/reserved, 502 if resolution fails
+ */
+export async function pinTarget(targetUrl: string): Promise<PinnedTarget> {
+  const target = new URL(targetUrl);
+  const hostname = stripBrackets(target.hostname);
 
-  // IPv6 private ranges
-  if (hostname === '::1' || hostname.startsWith('fc00:') || hostname.startsWith('fe80:')) {
-    throw new ProxyError('Access to private IP ranges is forbidden', 403);
+  let addresses: string[];
+  try {
+    addresses = await resolveHost(hostname);
+  } catch (error: any) {
+    throw new ProxyError(`Failed to resolve ${hostname}: ${error.code || error.message || 'lookup failed'}`, 502);
+  }
+  if (addresses.length === 0) {
+    throw new ProxyError(`Failed to resolve ${hostname}: no addresses`, 502);
   }
 
-  // Block localhost
-  if (hostname === 'localhost') {
-    throw new ProxyError('Access to localhost is forbidden', 403);
+  for (const address of addresses) {
+    const blocked = blockedRangeFor(address);
+    if (blocked) {
+      logger.warn(`SSRF Prevention: ${hostname} resolved to ${blocked} address ${address}`);
+      throw new ProxyError(`Target ${hostname} resolves to a private or reserved address`, 403);
+    }
   }
+
+  const address = addresses[0]!;
+  const host = target.host;
+  target.hostname = isIP(address) === 6 ? `[${address}]` : address;
+
+  return { url: target.toString(), host, serverName: hostname, address };
 }
 
 /**
@@ -163,10 +386,11 @@ export function validateTargetUrl(targetUrl: string, serviceBaseUrl: string): vo
  * 
  * @param targetUrl - The URL the agent wants to call
  * @param agentId - The agent ID
+ * @param serviceName - Restrict the match to the service with this name (path-based proxy)
  * @returns Service record
  * @throws NotFoundError if no matching service or agent doesn't have access
  */
-export async function resolveService(targetUrl: string, agentId: number) {
+export async function resolveService(targetUrl: string, agentId: number, serviceName?: string) {
   const url = new URL(targetUrl);
   const origin = url.origin; // e.g., "https://api.github.com"
 
@@ -181,6 +405,7 @@ export async function resolveService(targetUrl: string, agentId: number) {
   // Filter in memory for baseUrl match (more flexible than SQL LIKE)
   const matchingService = result.find((row) => {
     const baseUrl = row.service.baseUrl;
+    if (serviceName !== undefined && row.service.name !== serviceName) return false;
     return targetUrl.startsWith(baseUrl);
   });
 
@@ -194,27 +419,346 @@ export async function resolveService(targetUrl: string, agentId: number) {
 }
 
 /**
- * Inject credentials into request headers based on authType
- * Retrieves and decrypts credentials for the service
- * 
- * AuthType handling:
- * - bearer: Authorization: Bearer {token}
- * - api_key: {header_name || 'X-API-Key'}: {api_key}
- * - basic: Authorization: Basic {base64(username:password)}
- * - oauth2: Authorization: Bearer {access_token}
- * 
- * @param headers - Existing headers (will be modified)
- * @param serviceId - The service ID
- * @param authType - The authentication type
- * @returns Modified headers object
- * @throws ProxyError if credentials not found or malformed
+ * Resolve one of the agent's services by name (path-based proxy: /p/:serviceName/*)
+ *
+ * @param serviceName - Exact service name
+ * @param agentId - The agent ID
+ * @returns Service record
+ * @throws NotFoundError if the agent has no service with that name
+ * @throws ProxyError 409 if the name is ambiguous among the agent's services
  */
-export async function injectCredentials(
-  headers: Record<string, string>,
+export async function resolveServiceByName(serviceName: string, agentId: number) {
+  const result = await db
+    .select({ service: services })
+    .from(services)
+    .innerJoin(agentServices, eq(agentServices.serviceId, services.id))
+    .where(and(eq(agentServices.agentId, agentId), eq(services.name, serviceName)))
+    .execute();
+
+  if (result.length === 0) {
+    throw new NotFoundError(`No service named "${serviceName}" or agent does not have access`);
+  }
+  if (result.length > 1) {
+    throw new ProxyError(`Service name "${serviceName}" is ambiguous; rename one of the services`, 409);
+  }
+
+  return result[0]!.service;
+}
+
+/**
+ * Resolve one of the agent's services by the host of an absolute-form request (HTTP forward-proxy mode)
+ *
+ * Matches on hostname and base path only — the scheme and port come from the registered service,
+ * so a plain-http proxy request to a service registered as https is sent upstream over https.
+ * The longest matching base path wins.
+ *
+ * @param requestUrl - Absolute URL the client asked the proxy for
+ * @param agentId - The agent ID
+ * @returns The service and the target URL rebuilt on the service's origin
+ * @throws NotFoundError if no agent service matches the host and path
+ */
+export async function resolveServiceByHost(requestUrl: URL, agentId: number) {
+  const result = await db
+    .select({ service: services })
+    .from(services)
+    .innerJoin(agentServices, eq(agentServices.serviceId, services.id))
+    .where(eq(agentServices.agentId, agentId))
+    .execute();
+
+  const candidates = result
+    .map((row) => ({ service: row.service, base: new URL(row.service.baseUrl) }))
+    .filter(({ base }) =>
+      base.hostname === requestUrl.hostname && requestUrl.pathname.startsWith(base.pathname)
+    )
+    .sort((a, b) => b.base.pathname.length - a.base.pathname.length);
+
+  const match = candidates[0];
+  if (!match) {
+    throw new NotFoundError(`No service registered for ${requestUrl.hostname} or agent does not have access`);
+  }
+
+  return {
+    service: match.service,
+    targetUrl: `${match.base.origin}${requestUrl.pathname}${requestUrl.search}`,
+  };
+}
+
+/**
+ * Minted OAuth tokens are replaced this long before they expire, so one can't lapse mid-request.
+ */
+const OAUTH_EXPIRY_MARGIN_MS = 60_000;
+const OAUTH_TOKEN_TIMEOUT_MS = 10_000;
+
+const oauthTokenResponseSchema = z.object({
+  access_token: z.string().min(1),
+  token_type: z.string().optional(),
+  expires_in: z.coerce.number().positive().optional(),
+  refresh_token: z.string().min(1).optional(),
+  scope: z.string().optional(),
+});
+
+export type OAuthTokenResponse = z.infer<typeof oauthTokenResponseSchema>;
+
+// Token requests in flight per service id, shared by concurrent proxy requests. Per process.
+const oauthTokenRequests = new Map<number, Promise<string>>();
+
+/**
+ * Per-request credential state, passed to injectCredentials. Reusing the same object for a second
+ * injectCredentials call (after the upstream answered 401) replaces the token it injected.
+ */
+export interface CredentialContext {
+  tokenFetches: OAuthTokenFetch[]; // token endpoint requests made, for the audit row
+  accessToken?: string;            // minted token injected last; unset for static access_token credentials
+  signer?: RequestSigner;          // sigv4, hmac: signs each outgoing request (ForwardOptions.signRequest)
+  query?: Array<[string, string]>; // query placements: parameters added to each outgoing request (ForwardOptions.credentialQuery)
+}
+
+/**
+ * Where an oauth2 service's access tokens come from:
+ * - authorization_code: a connected user account (client_id, authorization_url, token_url); the
+ *   refresh_token stored by the connect flow is exchanged for access tokens
+ * - client_credentials: client_id, client_secret and token_url; the gateway mints tokens itself
+ * - static: a pasted access_token
+ */
+export type OAuthGrant = 'authorization_code' | 'client_credentials' | 'static';
+
+export function oauthGrantFor(creds: Record<string, string>): OAuthGrant {
+  if (creds.client_id && creds.authorization_url && creds.token_url) return 'authorization_code';
+  if (creds.client_id && creds.client_secret && creds.token_url) return 'client_credentials';
+  return 'static';
+}
+
+/**
+ * Error from a service's OAuth2 token endpoint (or from reaching it). Carries the endpoint's
+ * HTTP status for the audit log; null if no response was received.
+ */
+export class OAuthTokenError extends ProxyError {
+  constructor(
+    message: string,
+    public tokenEndpointStatus: number | null,
+    statusCode: number = 502
+  ) {
+    super(message, statusCode);
+    this.name = 'OAuthTokenError';
+  }
+}
+
+/**
+ * POST a grant to the service's token endpoint (RFC 6749 §3.2) and parse the token response.
+ *
+ * The token URL goes through the same SSRF checks as proxied requests (validateTargetUrl, pinTarget)
+ * and redirects are not followed. The client authenticates with HTTP Basic, in the form body when
+ * credentials.token_auth_method is client_secret_post, or by client_id alone when there is no
+ * client_secret (public clients using PKCE).
+ *
+ * @param creds - The service's decrypted credentials (token_url, client_id, client_secret)
+ * @param grant - Grant parameters, e.g. { grant_type: 'client_credentials', scope: 'read' }
+ * @returns The token endpoint's status and token response
+ * @throws OAuthTokenError if no token was obtained (403 if the token URL is blocked, otherwise 502)
+ */
+export async function exchangeOAuthGrant(
+  creds: Record<string, string>,
+  grant: Record<string, string>
+): Promise<{ status: number; token: OAuthTokenResponse }> {
+  const tokenUrl = creds.token_url!;
+  let pinned: PinnedTarget;
+  try {
+    validateTargetUrl(tokenUrl, tokenUrl, { requireServiceMatch: false });
+    pinned = await pinTarget(tokenUrl);
+  } catch (error) {
+    if (!(error instanceof ProxyError)) throw error;
+    throw new OAuthTokenError(`OAuth2 token URL rejected: ${error.message}`, null, error.statusCode);
+  }
+
+  const form = new URLSearchParams(grant);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+    Host: pinned.host,
+  };
+  if (!creds.client_secret) {
+    form.set('client_id', creds.client_id!);
+  } else if (creds.token_auth_method === 'client_secret_post') {
+    form.set('client_id', creds.client_id!);
+    form.set('client_secret', creds.client_secret);
+  } else {
+    // RFC 6749 §2.3.1: both parts form-urlencoded before Basic encoding
+    const clientId = encodeURIComponent(creds.client_id!);
+    const clientSecret = encodeURIComponent(creds.client_secret);
+    headers['Authorization'] = `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`;
+  }
+
+  let response: Response;
+  let text: string;
+  try {
+    response = await fetch(pinned.url, {
+      method: 'POST',
+      headers,
+      body: form.toString(),
+      signal: AbortSignal.timeout(OAUTH_TOKEN_TIMEOUT_MS),
+      redirect: 'manual',
+      tls: {
+        serverName: pinned.serverName,
+        checkServerIdentity: (_host: string, cert: PeerCertificate) => checkServerIdentity(pinned.serverName, cert),
+      },
+    });
+    text = await response.text();
+  } catch (error: any) {
+    throw new OAuthTokenError(
+      error.name === 'TimeoutError'
+        ? `OAuth2 token endpoint did not respond within ${OAUTH_TOKEN_TIMEOUT_MS / 1000}s`
+        : `OAuth2 token request failed: ${error.message || 'Unknown error'}`,
+      null
+    );
+  }
+
+  let payload: unknown = null;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    // Reported below as an invalid token response
+  }
+  if (!response.ok) {
+    const code = payload && typeof payload === 'object' ? (payload as { error?: unknown }).error : undefined;
+    throw new OAuthTokenError(
+      `OAuth2 token endpoint returned ${response.status}${typeof code === 'string' ? ` (${code})` : ''}`,
+      response.status
+    );
+  }
+  const parsed = oauthTokenResponseSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new OAuthTokenError('OAuth2 token endpoint returned an invalid token response', response.status);
+  }
+  return { status: response.status, token: parsed.data };
+}
+
+/**
+ * Cache an access token, encrypted, in oauth_tokens. With keepRefreshToken, a refresh token in the
+ * response replaces the service's stored refresh_token credential (providers may rotate it on use).
+ */
+export async function storeOAuthToken(
   serviceId: number,
-  authType: string
-): Promise<Record<string, string>> {
-  // Fetch credentials for this service
+  token: OAuthTokenResponse,
+  keepRefreshToken: boolean
+): Promise<void> {
+  const stored = {
+    encryptedAccessToken: encrypt(token.access_token),
+    scope: token.scope ?? null,
+    expiresAt: token.expires_in !== undefined ? new Date(Date.now() + token.expires_in * 1000) : null,
+  };
+
+  await db.transaction(async (tx) => {
+    await tx.insert(oauthTokens)
+      .values({ serviceId, ...stored })
+      .onConflictDoUpdate({ target: oauthTokens.serviceId, set: { ...stored, updatedAt: new Date() } });
+
+    if (keepRefreshToken && token.refresh_token) {
+      await tx.delete(credentials)
+        .where(and(eq(credentials.serviceId, serviceId), eq(credentials.key, 'refresh_token')));
+      await tx.insert(credentials).values({
+        serviceId,
+        key: 'refresh_token',
+        encryptedValue: encrypt(token.refresh_token),
+      });
+    }
+  });
+}
+
+/**
+ * Obtain a new access token for the service (client credentials grant, RFC 6749 §4.4, or the stored
+ * refresh token, §6) and cache it. Optional scope and audience credentials are sent with client
+ * credentials; a refresh keeps the scope originally granted.
+ *
+ * @throws ProxyError (OAuthTokenError) 502 if no token was obtained
+ */
+async function requestOAuthToken(
+  serviceId: number,
+  creds: Record<string, string>,
+  reason: OAuthTokenFetch['reason'],
+  tokenFetches: OAuthTokenFetch[]
+): Promise<string> {
+  const refresh = oauthGrantFor(creds) === 'authorization_code';
+  const grant: Record<string, string> = refresh
+    ? { grant_type: 'refresh_token', refresh_token: creds.refresh_token! }
+    : { grant_type: 'client_credentials' };
+  if (!refresh && creds.scope) grant.scope = creds.scope;
+  if (!refresh && creds.audience) grant.audience = creds.audience;
+  const startedAt = Date.now();
+
+  try {
+    const { status, token } = await exchangeOAuthGrant(creds, grant);
+    await storeOAuthToken(serviceId, token, refresh);
+
+    const durationMs = Date.now() - startedAt;
+    tokenFetches.push({ reason, status, durationMs });
+    logger.info(`${refresh ? 'Refreshed' : 'Minted'} OAuth2 token for service ${serviceId} (${reason}, ${durationMs}ms)`);
+    return token.access_token;
+  } catch (error: any) {
+    const failure = error instanceof ProxyError
+      ? error
+      : new OAuthTokenError(`OAuth2 token request failed: ${error.message || 'Unknown error'}`, null);
+    tokenFetches.push({
+      reason,
+      status: failure instanceof OAuthTokenError ? failure.tokenEndpointStatus : null,
+      durationMs: Date.now() - startedAt,
+      error: failure.message,
+    });
+    logger.warn(`OAuth2 token request for service ${serviceId} failed: ${failure.message}`);
+    throw failure;
+  }
+}
+
+/**
+ * Access token for a service whose tokens the gateway obtains: the cached one while it has more than
+ * OAUTH_EXPIRY_MARGIN_MS left and isn't the token the upstream just rejected (oauth.accessToken),
+ * otherwise a new one. Concurrent callers share a single token request.
+ *
+ * @throws ProxyError 500 if a connected-account service has no refresh token (not connected yet)
+ */
+async function getOAuthAccessToken(
+  serviceId: number,
+  creds: Record<string, string>,
+  oauth: CredentialContext
+): Promise<string> {
+  const [cached] = await db
+    .select()
+    .from(oauthTokens)
+    .where(eq(oauthTokens.serviceId, serviceId))
+    .limit(1);
+
+  let reason: OAuthTokenFetch['reason'] = 'missing';
+  if (cached) {
+    let token: string | null = null;
+    try {
+      token = decrypt(cached.encryptedAccessToken);
+    } catch (error) {
+      logger.error(`Failed to decrypt cached OAuth2 token for service ${serviceId}:`, error);
+    }
+    const fresh = !cached.expiresAt || cached.expiresAt.getTime() - Date.now() > OAUTH_EXPIRY_MARGIN_MS;
+    if (token !== null && token === oauth.accessToken) reason = 'unauthorized';
+    else if (token !== null && fresh) return token;
+    else reason = 'expiring';
+  }
+
+  if (oauthGrantFor(creds) === 'authorization_code' && !creds.refresh_token) {
+    throw new ProxyError('OAuth2 account not connected (or its token expired without a refresh token) — connect it from the dashboard', 500);
+  }
+
+  const pending = oauthTokenRequests.get(serviceId);
+  if (pending) return pending;
+
+  const request = requestOAuthToken(serviceId, creds, reason, oauth.tokenFetches).finally(() => {
+    oauthTokenRequests.delete(serviceId);
+  });
+  oauthTokenRequests.set(serviceId, request);
+  return request;
+}
+
+/**
+ * Load and decrypt all of a service's credentials.
+ * @throws ProxyError 500 if there are none or one can't be decrypted
+ */
+export async function loadServiceCredentials(serviceId: number): Promise<Record<string, string>> {
   const creds = await db
     .select()
     .from(credentials)
@@ -225,7 +769,6 @@ export async function injectCredentials(
     throw new ProxyError('No credentials found for service', 500);
   }
 
-  // Decrypt credentials
   const decryptedCreds: Record<string, string> = {};
   for (const cred of creds) {
     try {
@@ -235,6 +778,61 @@ export async function injectCredentials(
       throw new ProxyError('Failed to decrypt credentials', 500);
     }
   }
+  return decryptedCreds;
+}
+
+/**
+ * Inject credentials into request headers based on authType
+ * Retrieves and decrypts credentials for the service
+ * 
+ * AuthType handling:
+ * - bearer: Authorization: Bearer {token}
+ * - api_key: placed by the service's credentialPlacements only (required for this type; services saved
+ *   before placements existed get legacyApiKeyPlacement)
+ * - basic: Authorization: Basic {base64(username:password)}
+ * - oauth2: Authorization: Bearer {access_token}; for connected accounts (authorization_url) and
+ *   client credentials (client_id, client_secret, token_url; optional scope, audience,
+ *   token_auth_method) the token is obtained and refreshed by the gateway instead (see oauthGrantFor)
+ * - sigv4: no headers here; context.signer signs each outgoing request once everything else is
+ *   final (access_key_id, secret_access_key, region, service; optional session_token)
+ * - hmac: likewise signed per outgoing request, with the service's hmacSigning template and
+ *   credentials.secret (optional key_id), so the timestamp is fresh whenever the request is sent
+ *
+ * Then, whatever the authType, each of the service's credentialPlacements is applied: a header
+ * (replacing the agent's), a cookie (merged into Cookie) or a query parameter (context.query, added
+ * when the request is sent).
+ * 
+ * @param headers - Existing headers (will be modified)
+ * @param serviceId - The service ID
+ * @param authType - The authentication type
+ * @param secrets - If given, receives every secret value injected (for credential echo scrubbing)
+ * @param context - If given, receives the token requests made, the minted token injected, the request signer
+ *   and the query parameters to add
+ * @returns Modified headers object
+ * @throws ProxyError if credentials not found or malformed, or no OAuth2 token could be obtained
+ */
+export async function injectCredentials(
+  headers: Record<string, string>,
+  serviceId: number,
+  authType: string,
+  secrets?: string[],
+  context: CredentialContext = { tokenFetches: [] }
+): Promise<Record<string, string>> {
+  // Fetch and decrypt credentials for this service
+  const decryptedCreds = await loadServiceCredentials(serviceId);
+  const [settings] = await db
+    .select({ hmacSigning: services.hmacSigning, credentialPlacements: services.credentialPlacements })
+    .from(services)
+    .where(eq(services.id, serviceId))
+    .limit(1);
+  let placements = settings?.credentialPlacements ?? [];
+  if (authType === 'api_key' && settings?.credentialPlacements === null) {
+    const legacy = legacyApiKeyPlacement(Object.keys(decryptedCreds));
+    if (!legacy) {
+      throw new ProxyError('API key not found in credentials', 500);
+    }
+    placements = [legacy];
+  }
 
   // Inject based on authType
   switch (authType) {
@@ -243,17 +841,14 @@ export async function injectCredentials(
         throw new ProxyError('Bearer token not found in credentials', 500);
       }
       headers['Authorization'] = `Bearer ${decryptedCreds.token}`;
+      secrets?.push(decryptedCreds.token);
       break;
 
     case 'api_key':
-      // Use credential key name as header name, or default to X-API-Key
-      const keyNames = Object.keys(decryptedCreds);
-      const apiKeyHeader = keyNames.find((k) => k !== 'api_key') || keyNames[0] || 'X-API-Key';
-      const apiKeyValue = decryptedCreds[apiKeyHeader] || decryptedCreds.api_key;
-      if (!apiKeyValue) {
-        throw new ProxyError('API key not found in credentials', 500);
+      // Placed below, like the extra placements of other auth types
+      if (placements.length === 0) {
+        throw new ProxyError('Credential placement not configured for api_key service', 500);
       }
-      headers[apiKeyHeader === 'api_key' ? 'X-API-Key' : apiKeyHeader] = apiKeyValue;
       break;
 
     case 'basic':
@@ -264,99 +859,1118 @@ export async function injectCredentials(
         `${decryptedCreds.username}:${decryptedCreds.password}`
       ).toString('base64');
       headers['Authorization'] = `Basic ${basicAuth}`;
+      secrets?.push(`${decryptedCreds.username}:${decryptedCreds.password}`, decryptedCreds.password);
       break;
 
     case 'oauth2':
+      if (oauthGrantFor(decryptedCreds) !== 'static') {
+        const accessToken = await getOAuthAccessToken(serviceId, decryptedCreds, context);
+        context.accessToken = accessToken;
+        headers['Authorization'] = `Bearer ${accessToken}`;
+        secrets?.push(
+          accessToken,
+          ...[decryptedCreds.client_secret, decryptedCreds.refresh_token].filter((value): value is string => !!value)
+        );
+        break;
+      }
       if (!decryptedCreds.access_token) {
-        throw new ProxyError('OAuth2 access_token not found in credentials', 500);
+        throw new ProxyError('OAuth2 access_token (or client_id, client_secret and token_url) not found in credentials', 500);
       }
       headers['Authorization'] = `Bearer ${decryptedCreds.access_token}`;
+      secrets?.push(decryptedCreds.access_token);
+      break;
+
+    case 'sigv4': {
+      const { access_key_id, secret_access_key, region, service, session_token } = decryptedCreds;
+      if (!access_key_id || !secret_access_key || !region || !service) {
+        throw new ProxyError('SigV4 access_key_id, secret_access_key, region or service not found in credentials', 500);
+      }
+      context.signer = createSigV4Signer({
+        accessKeyId: access_key_id,
+        secretAccessKey: secret_access_key,
+        sessionToken: session_token,
+        region,
+        service,
+      });
+      secrets?.push(secret_access_key, ...(session_token ? [session_token] : []));
+      break;
+    }
+
+    case 'hmac': {
+      const signing = settings?.hmacSigning;
+      if (!signing) {
+        throw new ProxyError('HMAC signing template not configured for service', 500);
+      }
+      if (!decryptedCreds.secret) {
+        throw new ProxyError('HMAC secret not found in credentials', 500);
+      }
+      const keyId = decryptedCreds.key_id ?? '';
+      if (!keyId && [signing.canonical, signing.signatureFormat ?? ''].some((t) => usesPlaceholder(t, 'key_id'))) {
+        throw new ProxyError('HMAC key_id not found in credentials', 500);
+      }
+      context.signer = createHmacSigner(signing, decryptedCreds.secret, keyId);
+      secrets?.push(decryptedCreds.secret);
       break;
+    }
 
     default:
       throw new ProxyError(`Unsupported authType: ${authType}`, 500);
   }
 
+  const missing = missingPlacementCredentials(placements, Object.keys(decryptedCreds));
+  if (missing.length > 0) {
+    throw new ProxyError(`Credential placement references missing credentials: ${missing.join(', ')}`, 500);
+  }
+  context.query = [];
+  for (const placement of placements) {
+    const value = renderPlacement(placement.value, decryptedCreds);
+    switch (placement.in) {
+      case 'header':
+        deleteHeader(headers, placement.name);
+        headers[placement.name] = value;
+        break;
+      case 'cookie':
+        setCookie(headers, placement.name, value);
+        break;
+      case 'query':
+        context.query.push([placement.name, value]);
+        break;
+    }
+    secrets?.push(value, ...placementReferences(placement.value).map((key) => decryptedCreds[key]!));
+  }
+
   return headers;
 }
 
 /**
- * Forward request to target service with timeout and size limits
- * 
- * Features:
- * - 30 second timeout
- * - 10MB response size limit
- * - Manual redirect handling (disabled)
- * 
- * @param targetUrl - The target URL
- * @param method - HTTP method
- * @param headers - Request headers (with credentials injected)
- * @param body - Request body (nullable)
- * @returns Object with status, headers, and body
- * @throws ProxyError on timeout, size limit, or fetch failure
+ * Set a cookie in the Cookie header, replacing any cookie of that name the agent sent.
  */
-export async function forwardRequest(
-  targetUrl: string,
+function setCookie(headers: Record<string, string>, name: string, value: string): void {
+  const existing = Object.entries(headers).find(([header]) => header.toLowerCase() === 'cookie')?.[1];
+  const others = (existing ?? '')
+    .split(';')
+    .map((pair) => pair.trim())
+    .filter((pair) => pair !== '' && pair.split('=')[0]!.trim() !== name);
+  deleteHeader(headers, 'Cookie');
+  headers['Cookie'] = [...others, `${name}=${value}`].join('; ');
+}
+
+/**
+ * Signs one outgoing request as sent: returns the headers to send (signature added) and the body,
+ * which may have been serialized for hashing.
+ */
+export type RequestSigner = (
+  url: string,
   method: string,
   headers: Record<string, string>,
-  body: string | null
-): Promise<{ status: number; headers: string; body: string }> {
-  // Create abort controller for timeout
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 30000); // 30s timeout
+  body: RequestBodyInit | null
+) => Promise<{ headers: Record<string, string>; body: RequestBodyInit | null }>;
 
-  try {
-    const response = await fetch(targetUrl, {
+/**
+ * The body as bytes a signature can cover. Multipart bodies are serialized here — fetch would
+ * otherwise pick its own boundary — and their boundary Content-Type set on headers.
+ */
+async function bodyForSigning(
+  headers: Record<string, string>,
+  body: RequestBodyInit | null
+): Promise<string | Uint8Array | null> {
+  if (!(body instanceof FormData)) return body;
+  const serialized = new Response(body);
+  deleteHeader(headers, 'Content-Type');
+  headers['Content-Type'] = serialized.headers.get('content-type')!;
+  return new Uint8Array(await serialized.arrayBuffer());
+}
+
+/**
+ * Request signer for sigv4 services. Any agent-supplied Authorization or signing headers are replaced.
+ */
+function createSigV4Signer(credentials: SigV4Credentials): RequestSigner {
+  return async (url, method, headers, body) => {
+    const signed = { ...headers };
+    for (const name of ['Authorization', 'X-Amz-Date', 'X-Amz-Security-Token', 'X-Amz-Content-Sha256']) {
+      deleteHeader(signed, name);
+    }
+
+    const bytes = await bodyForSigning(signed, body);
+    const payloadHash = bytes === null ? EMPTY_PAYLOAD_HASH : hashPayload(bytes);
+    signed['X-Amz-Content-Sha256'] = payloadHash;
+    Object.assign(signed, signSigV4({ method, url, headers: signed, payloadHash }, credentials));
+    return { headers: signed, body: bytes };
+  };
+}
+
+/**
+ * Request signer for hmac services: a new timestamp and nonce for every request sent. Agent-supplied
+ * headers of the same names as the signature, timestamp or nonce headers are replaced.
+ */
+function createHmacSigner(signing: HmacSigning, secret: string, keyId: string): RequestSigner {
+  return async (url, method, headers, body) => {
+    const signed = { ...headers };
+    const bytes = await bodyForSigning(signed, body);
+    const added = signHmacRequest(signing, secret, {
       method,
-      headers,
-      body: body || undefined,
-      signal: controller.signal,
-      redirect: 'manual', // Disable automatic redirects
+      url,
+      host: getHeader(signed, 'Host') ?? new URL(url).host,
+      body: bytes,
+      timestamp: new Date(),
+      nonce: randomBytes(16).toString('hex'),
+      keyId,
     });
+    for (const [name, value] of Object.entries(added)) {
+      deleteHeader(signed, name);
+      signed[name] = value;
+    }
+    return { headers: signed, body: bytes };
+  };
+}
+
+/**
+ * Outcome of one upstream exchange once its body (or session) has ended. Used for audit rows.
+ */
+export interface TransferSummary {
+  durationMs: number;      // from the start of the upstream call until the body ended
+  bytesReceived: number;   // response bytes passed through to the agent
+  error?: string;          // set if the body was cut short (limit, timeout, upstream or client disconnect)
+}
+
+/**
+ * Upstream response as returned by forwardRequest.
+ * The body is streamed byte-for-byte; it is never decoded as text — unless the service has
+ * response redaction rules or content scanning, in which case text bodies are buffered and
+ * rewritten or scanned first.
+ */
+export interface UpstreamResponse {
+  status: number;
+  headers: string; // JSON-serialized response headers
+  body: ReadableStream<Uint8Array> | null;
+  redirectChain: RedirectHop[]; // redirects followed before this response (empty if none)
+  protocol: Extract<ProxyProtocol, 'http' | 'sse'>; // 'sse' for text/event-stream responses
+  finished: Promise<TransferSummary>; // resolves when the body has ended; never rejects
+  redactions: RedactionHit[]; // redaction rules that fired; event streams add to it until `finished`
+  securityIncidents: SecurityIncident[]; // e.g. scrubbed credential echoes; complete once `finished` resolves
+  contentRisk: ContentRisk | null; // prompt-injection scan result; null if the body wasn't scanned
+  withheldBody: StoredBody | null; // flagged body held back for review (withholdFlaggedContent); body is null when set
+}
+
+/**
+ * Response handed back to the route layer. Cached (idempotency hit) responses carry
+ * a decoded body instead of a live stream.
+ */
+export interface ProxyResponse {
+  status: number;
+  headers: string; // JSON-serialized response headers
+  body: ReadableStream<Uint8Array> | Uint8Array | string | null;
+}
+
+/**
+ * Called once the upstream body has been fully streamed (or aborted), with the body
+ * encoded for storage. Bodies over PROXY_CACHE_MAX_BYTES arrive as UNCACHED_BODY; a body cut
+ * short (size limit, timeout, client disconnect) arrives as null — there is nothing to replay.
+ */
+export type OnBodyComplete = (result: { status: number; headers: string; body: StoredBody | null }) => void;
+
+/**
+ * Optional behaviour for forwardRequest.
+ */
+export interface ForwardOptions {
+  onBodyComplete?: OnBodyComplete;      // receive the encoded body for caching
+  service?: Service;                    // target service: header policy, redirect policy, origin
+  injectedHeaders?: Record<string, string>; // credential headers added by the gateway (never echoed back)
+  injectedSecrets?: string[];           // secret values injected (injectCredentials); default: injectedHeaders values
+  retryable?: boolean;                  // safe to re-send on transient failure (see isRetryableRequest)
+  withholdFlaggedContent?: boolean;     // 'withhold' content scanning holds a flagged body back; otherwise it is wrapped
+  reauthenticate?: () => Promise<Record<string, string>>; // on a 401: headers with fresh credentials, re-sent once (minted OAuth2 tokens)
+  signRequest?: RequestSigner;          // signs every hop on the service origin, last (sigv4 and hmac credentials)
+  credentialQuery?: Array<[string, string]>; // query parameters added to every hop on the service origin (credential placements)
+  onUpstreamAnswer?: (status: number) => void; // an upstream response shows the request was processed (any status but RETRYABLE_STATUSES)
+}
+
+/**
+ * Headers present in withCredentials that were added or changed by injectCredentials.
+ */
+export function injectedHeaderDiff(
+  original: Record<string, string>,
+  withCredentials: Record<string, string>
+): Record<string, string> {
+  const injected: Record<string, string> = {};
+  for (const [name, value] of Object.entries(withCredentials)) {
+    if (original[name] !== value) injected[name] = value;
+  }
+  return injected;
+}
+
+/**
+ * Error raised while following redirects. Carries the hops followed so far for the audit log.
+ */
+export class RedirectError extends ProxyError {
+  constructor(
+    message: string,
+    statusCode: number,
+    public redirectChain: RedirectHop[]
+  ) {
+    super(message, statusCode);
+    this.name = 'RedirectError';
+  }
+}
+
+/**
+ * Error raised without contacting the upstream while the service's circuit breaker is open.
+ */
+export class CircuitOpenError extends ProxyError {
+  constructor(
+    public serviceId: number,
+    public retryAfterSeconds: number
+  ) {
+    super(
+      `Service unavailable: circuit breaker open after repeated upstream failures (retry in ${retryAfterSeconds}s)`,
+      503
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 30000; // 30s
+const SSE_CONTENT_TYPE = 'text/event-stream';
+const DEFAULT_MAX_RESPONSE_BYTES = 10 * 1024 * 1024; // 10MB
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+const UPSTREAM_FAILURE_STATUSES = new Set([500, 502, 503, 504]); // count against the circuit breaker
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
 
-    // Check Content-Length header for size limit (10MB = 10 * 1024 * 1024 bytes)
-    const contentLength = response.headers.get('content-length');
-    if (contentLength && parseInt(contentLength, 10) > 10 * 1024 * 1024) {
-      throw new ProxyError('Response size exceeds 10MB limit', 413);
+/**
+ * Whether a request may be re-sent after a transient failure: idempotent methods always,
+ * POST/PATCH only when the agent supplied an idempotency key (the gateway's idempotency
+ * record keeps agent-side duplicates out while the retries run).
+ */
+export function isRetryableRequest(method: string, hasIdempotencyKey: boolean): boolean {
+  return IDEMPOTENT_METHODS.has(method) || hasIdempotencyKey;
+}
+
+/**
+ * Delay before retry number `attempt` (1-based).
+ * Honors Retry-After (seconds or HTTP date) when present; otherwise exponential backoff with full jitter.
+ *
+ * @returns Delay in ms, or null if Retry-After asks for longer than PROXY_RETRY_MAX_DELAY_MS
+ */
+function retryDelayMs(attempt: number, retryAfter: string | null): number | null {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const delay = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+    if (!Number.isNaN(delay)) {
+      return delay > env.PROXY_RETRY_MAX_DELAY_MS ? null : Math.max(0, delay);
     }
+  }
+  const ceiling = Math.min(env.PROXY_RETRY_MAX_DELAY_MS, env.PROXY_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
 
-    // Read response body as text
-    const responseBody = await response.text();
+/**
+ * Effective outbound limits for one request. Service settings override the gateway defaults.
+ */
+export interface OutboundLimits {
+  connectTimeoutMs: number;            // connect + response headers
+  timeoutMs: number;                   // whole exchange, including streaming the body
+  maxRequestBodyBytes: number | null;  // null = unlimited
+  maxResponseBodyBytes: number;
+  maxConcurrency: number | null;       // null = unlimited
+}
+
+/**
+ * Resolve a service's outbound limits, filling unset values with the defaults
+ * (30s timeout, connect bounded by the total timeout, 10MB response, no request/concurrency cap).
+ */
+export function resolveOutboundLimits(service?: Service): OutboundLimits {
+  const timeoutMs = service?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  return {
+    timeoutMs,
+    connectTimeoutMs: Math.min(service?.connectTimeoutMs ?? timeoutMs, timeoutMs),
+    maxRequestBodyBytes: service?.maxRequestBodyBytes ?? null,
+    maxResponseBodyBytes: service?.maxResponseBodyBytes ?? DEFAULT_MAX_RESPONSE_BYTES,
+    maxConcurrency: service?.maxConcurrency ?? null,
+  };
+}
 
-    // Enforce size limit on actual body (in case Content-Length was missing)
-    if (responseBody.length > 10 * 1024 * 1024) {
-      throw new ProxyError('Response size exceeds 10MB limit', 413);
+function formatBytes(bytes: number): string {
+  const mb = bytes / (1024 * 1024);
+  return Number.isInteger(mb) ? `${mb}MB` : `${bytes} byte`;
+}
+
+/**
+ * Reject a request body larger than the service allows.
+ * @throws ProxyError 413
+ */
+export function assertRequestBodyWithinLimit(body: RequestBodyInit | null, limits: OutboundLimits): void {
+  if (body === null || limits.maxRequestBodyBytes === null) return;
+  if (requestBodyByteLength(body) > limits.maxRequestBodyBytes) {
+    throw new ProxyError(`Request body exceeds ${formatBytes(limits.maxRequestBodyBytes)} limit`, 413);
+  }
+}
+
+// In-flight upstream requests per service id. Per process — each gateway instance enforces its own cap.
+const inFlightByService = new Map<number, number>();
+
+/**
+ * Take one of the service's concurrency slots for the duration of an upstream exchange
+ * (or, for WebSocket sessions, for as long as the session is open).
+ *
+ * @returns A release function (safe to call more than once)
+ * @throws ProxyError 429 if the service is already at its limit
+ */
+export function acquireConcurrencySlot(serviceId: number | undefined, limit: number | null): () => void {
+  if (serviceId === undefined) return () => {};
+
+  const current = inFlightByService.get(serviceId) ?? 0;
+  if (limit !== null && current >= limit) {
+    logger.warn(`Concurrency limit reached for service ${serviceId} (${limit} in flight)`);
+    throw new ProxyError(`Service concurrency limit reached (${limit} requests in flight)`, 429);
+  }
+  inFlightByService.set(serviceId, current + 1);
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const remaining = (inFlightByService.get(serviceId) ?? 1) - 1;
+    if (remaining > 0) inFlightByService.set(serviceId, remaining);
+    else inFlightByService.delete(serviceId);
+  };
+}
+
+/**
+ * Issue the request, following redirects when the service's redirect policy allows it.
+ *
+ * Each hop is re-validated with validateTargetUrl (service match relaxed only when the policy
+ * allows cross-origin hops) and re-resolved/pinned with pinTarget. Injected credentials are only re-sent while the hop stays on the
+ * service's own origin — options.credentialQuery included — and options.signRequest signs only those hops (each one afresh). 303 — and
+ * 301/302 after a POST — switch to GET without a body, as browsers do; 307/308 replay the method and body.
+ */
+async function fetchFollowingRedirects(
+  targetUrl: string,
+  method: string,
+  headers: Record<string, string>,
+  body: RequestBodyInit | null,
+  signal: AbortSignal,
+  options: ForwardOptions
+): Promise<{ response: Response; redirectChain: RedirectHop[] }> {
+  const policy = options.service?.redirectPolicy ?? null;
+  const serviceOrigin = options.service ? new URL(options.service.baseUrl).origin : null;
+  const redirectChain: RedirectHop[] = [];
+
+  // Agent headers without anything the gateway injected — used once a hop leaves the service origin
+  const headersWithoutCredentials = { ...headers };
+  for (const name of Object.keys(options.injectedHeaders ?? {})) {
+    deleteHeader(headersWithoutCredentials, name);
+  }
+
+  let currentUrl = targetUrl;
+  let currentMethod = method;
+  let currentBody = body;
+  let dropContentType = false;
+
+  while (true) {
+    const onServiceOrigin = serviceOrigin === null || new URL(currentUrl).origin === serviceOrigin;
+    let hopHeaders = { ...(onServiceOrigin ? headers : headersWithoutCredentials) };
+    if (dropContentType) deleteHeader(hopHeaders, 'Content-Type');
+
+    // Credential query parameters go on the URL sent, never on currentUrl (redirect chain, Location resolution)
+    let hopUrl = currentUrl;
+    if (onServiceOrigin && options.credentialQuery?.length) {
+      const withQuery = new URL(currentUrl);
+      for (const [name, value] of options.credentialQuery) withQuery.searchParams.set(name, value);
+      hopUrl = withQuery.toString();
+    }
+
+    let pinned: PinnedTarget;
+    try {
+      pinned = await pinTarget(hopUrl);
+    } catch (error) {
+      if (redirectChain.length === 0 || !(error instanceof ProxyError)) throw error;
+      throw new RedirectError(`Redirect blocked: ${error.message}`, error.statusCode, redirectChain);
     }
 
-    // Serialize response headers
-    const responseHeaders: Record<string, string> = {};
-    response.headers.forEach((value, key) => {
-      responseHeaders[key] = value;
+    // Connect to the vetted address; Host, SNI and certificate checks still use the real hostname
+    deleteHeader(hopHeaders, 'Host');
+    hopHeaders['Host'] = pinned.host;
+
+    // Signed last, over this hop's final URL, method, headers and body
+    let hopBody = currentBody;
+    if (onServiceOrigin && options.signRequest) {
+      ({ headers: hopHeaders, body: hopBody } = await options.signRequest(hopUrl, currentMethod, hopHeaders, currentBody));
+    }
+
+    const response = await fetch(pinned.url, {
+      method: currentMethod,
+      headers: hopHeaders,
+      body: hopBody ?? undefined,
+      signal,
+      redirect: 'manual', // Redirects are followed here, never by fetch itself
+      tls: {
+        serverName: pinned.serverName,
+        checkServerIdentity: (_host: string, cert: PeerCertificate) => checkServerIdentity(pinned.serverName, cert),
+      },
     });
+    if (!RETRYABLE_STATUSES.has(response.status)) options.onUpstreamAnswer?.(response.status);
 
-    return {
-      status: response.status,
-      headers: JSON.stringify(responseHeaders),
-      body: responseBody,
-    };
+    const location = response.headers.get('location');
+    if (!policy || !options.service || !REDIRECT_STATUSES.has(response.status) || !location) {
+      return { response, redirectChain };
+    }
+
+    response.body?.cancel().catch(() => {});
+
+    let nextUrl: string;
+    try {
+      nextUrl = new URL(location, currentUrl).toString();
+    } catch {
+      throw new RedirectError(`Upstream sent an invalid redirect Location: ${location}`, 502, redirectChain);
+    }
+    redirectChain.push({ status: response.status, url: nextUrl });
+
+    if (redirectChain.length > policy.maxHops) {
+      throw new RedirectError(`Too many redirects (limit ${policy.maxHops})`, 502, redirectChain);
+    }
+
+    try {
+      validateTargetUrl(nextUrl, options.service.baseUrl, { requireServiceMatch: !policy.allowCrossOrigin });
+    } catch (error) {
+      const statusCode = error instanceof ProxyError ? error.statusCode : 403;
+      logger.warn(`Redirect blocked for service ${options.service.id}: ${nextUrl}`);
+      throw new RedirectError(
+        `Redirect blocked: ${error instanceof Error ? error.message : 'invalid target'}`,
+        statusCode,
+        redirectChain
+      );
+    }
+
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && currentMethod === 'POST')) {
+      currentMethod = currentMethod === 'HEAD' ? 'HEAD' : 'GET';
+      currentBody = null;
+      dropContentType = true;
+    }
+    currentUrl = nextUrl;
+  }
+}
+
+/**
+ * Run fetchFollowingRedirects, retrying transient failures when options.retryable is set.
+ *
+ * Retried: network errors (connection refused/reset, DNS failure) and 429/502/503/504 responses,
+ * up to PROXY_RETRY_ATTEMPTS attempts in total, and only while the delay still fits before the
+ * total deadline. Timeouts and gateway-side rejections (SSRF, redirects) are never retried.
+ * The connect timeout is restarted for each attempt.
+ *
+ * A 401 is re-sent once, straight away and regardless of options.retryable, when options.reauthenticate
+ * is set: the upstream refused the credentials, so the request wasn't acted on.
+ */
+async function fetchWithRetries(
+  targetUrl: string,
+  method: string,
+  headers: Record<string, string>,
+  body: RequestBodyInit | null,
+  options: ForwardOptions,
+  connect: { timeoutMs: number; onTimeout: () => void },
+  signal: AbortSignal,
+  deadline: number
+): Promise<{ response: Response; redirectChain: RedirectHop[] }> {
+  const hostname = new URL(targetUrl).hostname;
+  let reauthenticate = options.reauthenticate;
+
+  for (let attempt = 1; ; attempt++) {
+    const canRetry = options.retryable === true && attempt < env.PROXY_RETRY_ATTEMPTS;
+    const connectTimeoutId = setTimeout(connect.onTimeout, connect.timeoutMs);
+    let delay: number | null;
+
+    try {
+      const result = await fetchFollowingRedirects(targetUrl, method, headers, body, signal, options);
+      clearTimeout(connectTimeoutId);
+
+      const { response } = result;
+      if (response.status === 401 && reauthenticate) {
+        response.body?.cancel().catch(() => {});
+        headers = await reauthenticate();
+        reauthenticate = undefined;
+        attempt--; // not a transient-failure retry
+        logger.info(`Upstream ${hostname} returned 401; re-sending ${method} with refreshed credentials`);
+        continue;
+      }
+      if (!canRetry || !RETRYABLE_STATUSES.has(response.status)) return result;
+      delay = retryDelayMs(attempt, response.headers.get('retry-after'));
+      if (delay === null || Date.now() + delay >= deadline) return result;
+
+      response.body?.cancel().catch(() => {});
+      logger.info(`Upstream ${hostname} returned ${response.status}; retry ${attempt} of ${method} in ${delay}ms`);
+    } catch (error: any) {
+      clearTimeout(connectTimeoutId);
+      if (!canRetry || signal.aborted || error instanceof ProxyError) throw error;
+      delay = retryDelayMs(attempt, null)!;
+      if (Date.now() + delay >= deadline) throw error;
+
+      logger.info(`Request to ${hostname} failed (${error.message}); retry ${attempt} of ${method} in ${delay}ms`);
+    }
+
+    await Bun.sleep(delay);
+  }
+}
+
+/**
+ * Forward request to target service with timeout and size limits
+ * 
+ * Features:
+ * - Per-service limits (resolveOutboundLimits): connect timeout (until response headers, across
+ *   redirects), total timeout (including the body transfer), request/response body size caps
+ *   (response counted on actual bytes while streaming) and a concurrency cap held until the body ends
+ * - Transient failures retried with jittered backoff when options.retryable (see fetchWithRetries)
+ * - Per-service circuit breaker: fails fast with CircuitOpenError (503) while the service is down
+ * - Body streamed through untouched (binary-safe), except for services with response redaction
+ *   rules: text bodies are buffered (within the size cap) and redacted before anything is returned
+ *   or cached; event streams are redacted line by line
+ * - Content scanning (service contentScanPolicy): text bodies are buffered and scanned for prompt
+ *   injection (assessContentRisk) after redaction. Every scanned response carries
+ *   X-GaiterGuard-Content-Risk; a flagged body is wrapped in an untrusted-content envelope, or —
+ *   in 'withhold' mode with options.withholdFlaggedContent — returned as withheldBody instead of
+ *   body and never passed to onBodyComplete. Event streams and binary bodies aren't scanned
+ * - Server-Sent Events (text/event-stream): the total timeout and response size cap give way to
+ *   PROXY_STREAM_MAX_SECONDS, since the stream is meant to stay open; it is never cached
+ * - Injected secrets echoed back by the upstream (raw, base64 or URL-encoded) are scrubbed from
+ *   header values and the body before anything else reads them, and reported as security incidents
+ * - Response headers filtered by the service passthrough policy (hop-by-hop, cookies and
+ *   credential echoes always removed) before they are returned or cached
+ * - Redirects returned unfollowed unless the service has a redirect policy (see fetchFollowingRedirects)
+ * - Connection pinned to a DNS-vetted public address on every hop (see pinTarget)
+ * 
+ * @param targetUrl - The target URL
+ * @param method - HTTP method
+ * @param headers - Request headers (with credentials injected)
+ * @param body - Request body (nullable; text, raw bytes, or FormData)
+ * @param options - Body-complete callback, target service and injected credential headers
+ * @returns Object with status, serialized (filtered) headers, body stream, redirects followed,
+ *   protocol and a promise that settles when the body has ended
+ * @throws ProxyError on timeout, size limit, concurrency limit, or fetch failure;
+ *   RedirectError on a rejected redirect; CircuitOpenError while the breaker is open
+ */
+export async function forwardRequest(
+  targetUrl: string,
+  method: string,
+  headers: Record<string, string>,
+  body: RequestBodyInit | null,
+  options: ForwardOptions = {}
+): Promise<UpstreamResponse> {
+  const { onBodyComplete } = options;
+  const limits = resolveOutboundLimits(options.service);
+  const serviceId = options.service?.id;
+  const startedAt = Date.now();
+
+  assertRequestBodyWithinLimit(body, limits);
+  const releaseSlot = acquireConcurrencySlot(serviceId, limits.maxConcurrency);
+
+  // Fail fast while the service's circuit breaker is open
+  if (serviceId !== undefined) {
+    const retryInMs = checkCircuit(serviceId);
+    if (retryInMs !== null) {
+      releaseSlot();
+      throw new CircuitOpenError(serviceId, Math.ceil(retryInMs / 1000));
+    }
+  }
+
+  // Abort on either deadline. The total timeout is cleared only once the body has finished streaming;
+  // the connect timeout (per attempt) as soon as response headers arrive.
+  const controller = new AbortController();
+  const deadline = Date.now() + limits.timeoutMs;
+  let timedOut: 'connect' | 'total' | null = null;
+  let timeoutId = setTimeout(() => {
+    timedOut = 'total';
+    controller.abort();
+  }, limits.timeoutMs);
+
+  let response: Response;
+  let redirectChain: RedirectHop[];
+  try {
+    ({ response, redirectChain } = await fetchWithRetries(
+      targetUrl,
+      method,
+      headers,
+      body,
+      options,
+      {
+        timeoutMs: limits.connectTimeoutMs,
+        onTimeout: () => {
+          timedOut = 'connect';
+          controller.abort();
+        },
+      },
+      controller.signal,
+      deadline
+    ));
   } catch (error: any) {
-    if (error.name === 'AbortError') {
-      logger.warn(`Forward request timeout to ${targetUrl}`);
-      throw new ProxyError('Request timeout (30s limit exceeded)', 504);
+    clearTimeout(timeoutId);
+    releaseSlot();
+    if (error.name === 'AbortError' || timedOut) {
+      logger.warn(`Forward request ${timedOut ?? 'total'} timeout to ${targetUrl}`);
+      if (serviceId !== undefined) recordFailure(serviceId, `${timedOut ?? 'total'} timeout`);
+      throw timedOut === 'connect'
+        ? new ProxyError(`Upstream did not respond within ${limits.connectTimeoutMs / 1000}s (connect timeout)`, 504)
+        : new ProxyError(`Request timeout (${limits.timeoutMs / 1000}s limit exceeded)`, 504);
     }
     if (error instanceof ProxyError) {
+      // Rejected by the gateway itself (SSRF, redirect policy) — says nothing about upstream health
+      if (serviceId !== undefined) releaseTrial(serviceId);
       throw error;
     }
     // Sanitize error message - include only safe information
     const url = new URL(targetUrl);
     logger.error(`Failed to forward request to ${url.hostname}:`, error);
+    if (serviceId !== undefined) recordFailure(serviceId, error.message || 'network error');
     throw new ProxyError(
       `Failed to forward request to ${url.hostname}: ${error.message || 'Unknown error'}`,
       502
     );
-  } finally {
+  }
+
+  if (serviceId !== undefined) {
+    if (UPSTREAM_FAILURE_STATUSES.has(response.status)) recordFailure(serviceId, `HTTP ${response.status}`);
+    else recordSuccess(serviceId);
+  }
+
+  const responseLimitMessage = `Response size exceeds ${formatBytes(limits.maxResponseBodyBytes)} limit`;
+  const isEventStream = (response.headers.get('content-type') ?? '').toLowerCase().startsWith(SSE_CONTENT_TYPE);
+
+  // An event stream stays open by design: swap the total timeout for the streaming session limit
+  if (isEventStream && response.body) {
     clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => controller.abort(), env.PROXY_STREAM_MAX_SECONDS * 1000);
+  }
+
+  // Check Content-Length header for size limit before streaming anything
+  const contentLength = response.headers.get('content-length');
+  if (!isEventStream && contentLength && parseInt(contentLength, 10) > limits.maxResponseBodyBytes) {
+    clearTimeout(timeoutId);
+    releaseSlot();
+    response.body?.cancel().catch(() => {});
+    throw new ProxyError(responseLimitMessage, 413);
+  }
+
+  // Scrub credential echoes, then filter and serialize response headers
+  const variants = secretVariants(options.injectedSecrets ?? Object.values(options.injectedHeaders ?? {}));
+  const securityIncidents: SecurityIncident[] = [];
+  const upstreamHeaders: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    upstreamHeaders[key] = value;
+  });
+  const scrubbedHeaders = scrubHeaders(upstreamHeaders, variants);
+  if (scrubbedHeaders.echoed.length > 0) {
+    logger.warn(`Upstream ${new URL(targetUrl).hostname} echoed injected credentials in headers: ${scrubbedHeaders.echoed.join(', ')}`);
+    securityIncidents.push({
+      type: 'credential_echo',
+      location: 'header',
+      detail: scrubbedHeaders.echoed.join(', '),
+      count: scrubbedHeaders.echoed.length,
+    });
+  }
+  const responseHeaders = filterResponseHeaders(
+    scrubbedHeaders.headers,
+    options.service?.responseHeaderPolicy ?? null,
+    options.injectedHeaders
+  );
+  let serializedHeaders = JSON.stringify(responseHeaders);
+  const protocol = isEventStream ? 'sse' : 'http';
+
+  let resolveFinished!: (summary: TransferSummary) => void;
+  const finished = new Promise<TransferSummary>((resolve) => {
+    resolveFinished = resolve;
+  });
+
+  // stored is null for a withheld body: it must not reach any cache (the caller settles it, e.g. executeProxyRequest step 7.5)
+  const complete = (stored: StoredBody | null, bytesReceived: number, error?: Error) => {
+    clearTimeout(timeoutId);
+    releaseSlot();
+    if (stored || error) onBodyComplete?.({ status: response.status, headers: serializedHeaders, body: error ? null : stored });
+    resolveFinished({ durationMs: Date.now() - startedAt, bytesReceived, error: error?.message });
+  };
+
+  const redactionRules = options.service?.responseRedactionRules ?? [];
+  const redactions: RedactionHit[] = [];
+  const contentScan = options.service?.contentScanPolicy ?? null;
+
+  if (!response.body) {
+    complete(encodeBody(new Uint8Array(0)), 0);
+    return {
+      status: response.status,
+      headers: serializedHeaders,
+      body: null,
+      redirectChain,
+      protocol,
+      finished,
+      redactions,
+      securityIncidents,
+      contentRisk: null,
+      withheldBody: null,
+    };
+  }
+
+  // Credential echoes are scrubbed first, so neither the agent nor any cache ever holds them
+  let upstreamBody = response.body;
+  if (variants.length > 0) {
+    let bodyIncident: SecurityIncident | null = null;
+    upstreamBody = upstreamBody.pipeThrough(createEchoScrubber(variants, (count) => {
+      if (!bodyIncident) {
+        logger.warn(`Upstream ${new URL(targetUrl).hostname} echoed injected credentials in the response body`);
+        bodyIncident = { type: 'credential_echo', location: 'body', detail: 'response body', count: 0 };
+        securityIncidents.push(bodyIncident);
+      }
+      bodyIncident.count += count;
+    }));
+  }
+
+  // Redaction and content scanning need the whole body: buffer it (still metered), redact, scan,
+  // then hand back the result
+  const contentType = response.headers.get('content-type');
+  if ((redactionRules.length > 0 || contentScan) && !isEventStream && isRedactableContentType(contentType)) {
+    const result = await new Promise<MeterResult>((resolve) => {
+      const metered = meterStream(upstreamBody, {
+        maxBytes: limits.maxResponseBodyBytes,
+        captureLimit: limits.maxResponseBodyBytes,
+        limitMessage: responseLimitMessage,
+        onFinish: resolve,
+      });
+      new Response(metered).arrayBuffer().catch(() => {});
+    });
+
+    if (result.error || !result.captured) {
+      const error = result.error ?? new Error('Response body could not be read');
+      clearTimeout(timeoutId);
+      releaseSlot();
+      if (timedOut) throw new ProxyError(`Request timeout (${limits.timeoutMs / 1000}s limit exceeded)`, 504);
+      throw new ProxyError(error.message, error.message === responseLimitMessage ? 413 : 502);
+    }
+
+    const redacted = redactResponseBody(result.captured, redactionRules);
+    redactions.push(...redacted.hits);
+    if (redacted.hits.length > 0) {
+      logger.info(`Redacted response from ${new URL(targetUrl).hostname}: ${redacted.hits.map((hit) => hit.rule).join(', ')}`);
+    }
+
+    let bytes = redacted.bytes;
+    let contentRisk: ContentRisk | null = null;
+    let withheldBody: StoredBody | null = null;
+    if (contentScan) {
+      const content = new TextDecoder().decode(bytes);
+      contentRisk = await assessContentRisk({ content, targetUrl, contentType }, contentScan.threshold);
+      responseHeaders['X-GaiterGuard-Content-Risk'] = formatContentRiskHeader(contentRisk);
+
+      if (contentRisk.flagged) {
+        logger.warn(`Response from ${new URL(targetUrl).hostname} flagged for prompt injection (score ${contentRisk.score.toFixed(2)})`);
+        securityIncidents.push({
+          type: 'prompt_injection',
+          location: 'body',
+          detail: contentRisk.explanation,
+          count: contentRisk.signals.length,
+          score: contentRisk.score,
+        });
+        if (contentScan.mode === 'withhold' && options.withholdFlaggedContent) {
+          withheldBody = encodeBody(bytes);
+        } else if (contentScan.mode !== 'annotate') {
+          // 'withhold' outside the approval flow (e.g. executing an approved request) degrades to 'wrap'
+          bytes = new TextEncoder().encode(wrapUntrustedContent(content, contentRisk, contentType));
+          for (const name of Object.keys(responseHeaders)) {
+            if (name.toLowerCase() === 'content-type') delete responseHeaders[name];
+          }
+          responseHeaders['content-type'] = 'application/json';
+        }
+      }
+      serializedHeaders = JSON.stringify(responseHeaders);
+    }
+
+    if (withheldBody) {
+      complete(null, result.bytes);
+    } else {
+      complete(
+        onBodyComplete && bytes.byteLength <= env.PROXY_CACHE_MAX_BYTES ? encodeBody(bytes) : UNCACHED_BODY,
+        result.bytes
+      );
+    }
+    return {
+      status: response.status,
+      headers: serializedHeaders,
+      body: withheldBody ? null : new Response(bytes).body,
+      redirectChain,
+      protocol,
+      finished,
+      redactions,
+      securityIncidents,
+      contentRisk,
+      withheldBody,
+    };
   }
+
+  // Enforce the size limit on actual bytes (Content-Length may be missing or compressed).
+  // Event streams are unbounded in size and never captured for replay.
+  const bodyStream = meterStream(upstreamBody, {
+    maxBytes: isEventStream ? Number.POSITIVE_INFINITY : limits.maxResponseBodyBytes,
+    captureLimit: onBodyComplete && !isEventStream ? env.PROXY_CACHE_MAX_BYTES : 0,
+    limitMessage: responseLimitMessage,
+    onFinish: (result) => {
+      if (result.error) {
+        logger.warn(`Response stream from ${new URL(targetUrl).hostname} ended early: ${result.error.message}`);
+      }
+      complete(result.captured ? encodeBody(result.captured) : UNCACHED_BODY, result.bytes, result.error);
+    },
+  });
+
+  return {
+    status: response.status,
+    headers: serializedHeaders,
+    body: isEventStream && redactionRules.length > 0
+      ? bodyStream.pipeThrough(createEventStreamRedactor(redactionRules, redactions))
+      : bodyStream,
+    redirectChain,
+    protocol,
+    finished,
+    redactions,
+    securityIncidents,
+    contentRisk: null,
+    withheldBody: null,
+  };
+}
+
+/**
+ * Copy of the agent's request headers without auth headers, for storing in the approval queue
+ * (pitfall #1 — never persist credentials)
+ */
+function stripAuthHeaders(headers: Record<string, string>): Record<string, string> {
+  const safeHeaders = { ...headers };
+  delete safeHeaders['Authorization'];
+  delete safeHeaders['authorization'];
+  delete safeHeaders['Agent-Key'];
+  delete safeHeaders['agent-key'];
+  return safeHeaders;
+}
+
+/**
+ * The request's documented operation — a failed lookup never blocks a request, it is treated as undocumented
+ */
+async function lookupOperation(service: Service, data: ProxyRequestData): Promise<OperationLookup> {
+  return findOperationDocumentation(service, data.method, data.targetUrl).catch((error) => {
+    logger.warn(`Documentation lookup failed for service ${service.id}:`, error instanceof Error ? error.message : error);
+    return { documentation: null, cataloged: false };
+  });
+}
+
+/**
+ * Validate a request against its cataloged OpenAPI operation, if the service has a schema
+ * validation policy and an operation catalog. Markdown-documented requests count as unknown.
+ *
+ * @returns true if the request matched no cataloged operation and the policy flags those for approval
+ * @throws SchemaValidationError if the request breaks its operation's contract, or is unknown and the policy blocks it
+ */
+function enforceRequestContract(
+  service: Service,
+  data: ProxyRequestData,
+  requestBody: StoredRequestBody,
+  lookup: OperationLookup
+): boolean {
+  const policy = service.schemaValidationPolicy;
+  if (!policy || !lookup.cataloged) return false;
+
+  const documented = lookup.documentation?.source === 'openapi' ? lookup.documentation : null;
+  if (!documented) {
+    if (policy.unknownOperations === 'block') {
+      const path = new URL(data.targetUrl).pathname;
+      throw new SchemaValidationError(`${data.method} ${path} matches no documented operation`, null, []);
+    }
+    return policy.unknownOperations === 'flag';
+  }
+  if (!documented.requestContract) return false;
+
+  const violations = validateRequestContract(documented.requestContract, documented.path, {
+    path: documented.requestPath,
+    query: new URL(data.targetUrl).searchParams,
+    headers: data.headers,
+    body: requestBody,
+    contentType: getHeader(data.headers, 'Content-Type') ?? null,
+  });
+  if (violations.length === 0) return false;
+
+  const name = documented.operationId ?? `${documented.method} ${documented.path}`;
+  logger.info(`Request to ${name} on service ${service.id} failed schema validation (${violations.length} violations)`);
+  throw new SchemaValidationError(`Request does not match the documented contract of ${name}`, name, violations);
+}
+
+/**
+ * Risk assessment gate shared by every proxy entry point (HTTP requests and WebSocket session opens)
+ *
+ * Steps:
+ * 1. Service operation rules, keyed by the parsed operation (GraphQL, JSON-RPC) or, for plain
+ *    HTTP, by the operationId of the cataloged OpenAPI operation: deny → 403,
+ *    allow (every operation) → pass without assessment, approve → always queued.
+ *    A cataloged operation with risk level 'high' is queued unless a rule names it.
+ *    DLP findings with the 'approve' action always queue the request, whatever the rules say,
+ *    as does an unknown operation on a service whose schema validation policy flags them
+ * 2. assessRisk — binary and multipart bodies are summarized, the assessor never sees raw bytes;
+ *    the service's documentation for the method and path, if any, goes into the prompt
+ * 3. A blocked request is parked in the approval queue, with auth headers stripped, for human review
+ *
+ * @param agentId - The agent making the request
+ * @param service - The resolved service
+ * @param data - Validated proxy request data
+ * @param requestBody - The request body in stored form (toStoredRequestBody)
+ * @param options - protocol: 'websocket' when the request opens a WebSocket session;
+ *   operation: parsed GraphQL operation or JSON-RPC calls (inspectRequestOperation) — a batch is
+ *   assessed, approved or denied as one request; dlpMatches: findings from scanRequestBody, recorded
+ *   on the approval entry; lookup: the request's documented operation, if already looked up;
+ *   unknownOperation: the request matched no cataloged operation and the service flags those
+ * @throws ForbiddenError if an operation rule denies the request
+ * @throws RiskyRequestError if the request needs human approval
+ */
+export async function enforceRiskGate(
+  agentId: number,
+  service: Service,
+  data: ProxyRequestData,
+  requestBody: StoredRequestBody,
+  options: {
+    protocol?: ProxyProtocol;
+    operation?: RequestOperation | null;
+    dlpMatches?: DlpMatch[];
+    lookup?: OperationLookup;
+    unknownOperation?: boolean;
+  } = {}
+): Promise<void> {
+  const operation = options.operation ?? null;
+  const dlpMatches = options.dlpMatches ?? [];
+  const dlpApprovals = dlpMatches.filter((match) => match.action === 'approve');
+
+  // The documented (cataloged) operation for this method and path
+  const { documentation } = options.lookup ?? await lookupOperation(service, data);
+
+  // Step 1: Service operation rules
+  const operationKeys = operation
+    ? requestOperationKeys(operation)
+    : documentation?.operationId ? [documentation.operationId] : [];
+  const decision = matchOperationRules(service.operationRules, operationKeys);
+  if (decision?.action === 'deny') {
+    logger.warn(`Operation ${decision.key} denied by rule "${decision.rule.match}" for service ${service.id}`);
+    throw new ForbiddenError(`Operation ${decision.key} is denied by the service's operation rules`);
+  }
+  if (decision?.action === 'allow' && dlpApprovals.length === 0 && !options.unknownOperation) {
+    logger.info(`Operation rules allow ${operationKeys.join(', ')} for service ${service.id}`);
+    return;
+  }
+
+  // Step 2: Risk assessment
+  const riskResult = await assessRisk({
+    intent: data.intent,
+    method: data.method,
+    targetUrl: data.targetUrl,
+    body: describeRequestBody(requestBody, getHeader(data.headers, 'Content-Type')),
+    operation,
+    documentation,
+  });
+
+  const requiredByRule = decision?.action === 'approve';
+  const requiredByCatalog = !decision && documentation?.riskLevel === 'high';
+  if (
+    !riskResult.blocked && !requiredByRule && !requiredByCatalog && !options.unknownOperation && dlpApprovals.length === 0
+  ) return;
+
+  let explanation = requiredByRule
+    ? `Service rule "${decision.rule.match}" requires approval for ${decision.key}. ${riskResult.explanation}`
+    : riskResult.explanation;
+  if (requiredByCatalog) {
+    const name = documentation.operationId ?? `${documentation.method} ${documentation.path}`;
+    explanation = `Operation ${name} is cataloged as high risk. ${explanation}`;
+  }
+  if (options.unknownOperation) {
+    explanation = `${data.method} ${new URL(data.targetUrl).pathname} matches no documented operation. ${explanation}`;
+  }
+  if (dlpApprovals.length > 0) {
+    explanation = `Request body contains ${describeDlpMatches(dlpApprovals)} (data-loss prevention). ${explanation}`;
+  }
+
+  const actionId = await createApprovalQueueEntry({
+    agentId,
+    serviceId: service.id,
+    method: data.method,
+    targetUrl: data.targetUrl,
+    requestHeaders: stripAuthHeaders(data.headers),
+    requestBody,
+    intent: data.intent,
+    riskScore: riskResult.score,
+    riskExplanation: explanation,
+    protocol: options.protocol,
+    operation,
+    dlpMatches: dlpMatches.length > 0 ? dlpMatches : null,
+  });
+  throw new RiskyRequestError(actionId, riskResult.score, explanation);
+}
+
+/**
+ * A forwarded request as recorded in proxy_requests.
+ */
+export interface AuditedRequest {
+  agentId: number;
+  serviceId: number;
+  idempotencyKeyId: number | null;
+  method: string;
+  targetUrl: string;
+  intent: string;
+  operation: RequestOperation | null;
+  tokenFetches: OAuthTokenFetch[]; // token endpoint requests made for the request (CredentialContext)
+}
+
+/**
+ * Write the audit row of an upstream response (fire-and-forget). Event streams are logged when
+ * they close, with the session's duration and size.
+ *
+ * @param outboundBody - The request body as sent, for the session's byte count
+ */
+export function logProxyResponse(
+  request: AuditedRequest,
+  response: UpstreamResponse,
+  outboundBody: RequestBodyInit | null
+): void {
+  const { tokenFetches, ...row } = request;
+  const auditReady = response.protocol === 'sse' ? response.finished : Promise.resolve(null);
+  auditReady
+    .then((summary) =>
+      db.insert(proxyRequests)
+        .values({
+          ...row,
+          tokenFetches: tokenFetches.length > 0 ? tokenFetches : null,
+          completedAt: new Date(),
+          statusCode: response.status,
+          errorMessage: summary?.error ?? null,
+          redirectChain: response.redirectChain.length > 0 ? response.redirectChain : null,
+          protocol: response.protocol,
+          durationMs: summary?.durationMs ?? null,
+          bytesSent: summary ? (outboundBody === null ? 0 : requestBodyByteLength(outboundBody)) : null,
+          bytesReceived: summary?.bytesReceived ?? null,
+          redactions: response.redactions.length > 0 ? response.redactions : null,
+          securityIncidents: response.securityIncidents.length > 0 ? response.securityIncidents : null,
+        })
+        .execute()
+    )
+    .catch((err) => {
+      logger.error('Failed to write audit log:', err);
+    }); // Ignore audit log failures
+}
+
+/**
+ * Write the audit row of a request that failed before or while it was forwarded (fire-and-forget).
+ */
+export function logProxyFailure(request: AuditedRequest, error: unknown): void {
+  const { tokenFetches, ...row } = request;
+  db.insert(proxyRequests)
+    .values({
+      ...row,
+      tokenFetches: tokenFetches.length > 0 ? tokenFetches : null,
+      completedAt: new Date(),
+      statusCode: null,
+      errorMessage: (error instanceof Error && error.message) || 'Unknown error',
+      redirectChain: error instanceof RedirectError ? error.redirectChain : null,
+    })
+    .execute()
+    .catch((err) => {
+      logger.error('Failed to write failure audit log:', err);
+    });
 }
 
 /**
@@ -364,71 +1978,104 @@ export async function forwardRequest(
  * 
  * Flow:
  * 1. Resolve service (validates agent access)
- * 2. Validate target URL (SSRF prevention)
+ * 2. Validate target URL (SSRF prevention), DLP scan of the body, OpenAPI request validation,
+ *    idempotency key requirement, risk gate
  * 3. Check idempotency (if key provided)
- * 4. Inject credentials
- * 5. Forward request
- * 6. Log to proxy_requests (fire-and-forget)
- * 7. Complete/fail idempotency (if key provided)
+ * 4. Inject credentials (minted OAuth2 tokens are refreshed and the request re-sent once on a 401)
+ * 5. Forward request (body streams back to the caller)
+ * 6. Log to proxy_requests (fire-and-forget; event streams once they close)
+ * 7. Complete idempotency once the body finishes streaming / fail on a body cut short or an error before
+ *    the upstream answered (if key provided) — once it has answered, the request is never run again
+ * 7.5. A response withheld by content scanning is parked in the approval queue (ContentWithheldError);
+ *    its idempotency key replays the same approval action
  * 8. Return response
  * 
  * @param agentId - The agent making the request
  * @param userId - The user ID (owner of agent)
  * @param data - Validated proxy request data
- * @returns Response object with status, headers, body
+ * @param options - serviceName pins resolution to a named service (path-based proxy)
+ * @returns Response object with status, headers, body (stream, or decoded cached body)
+ * @throws ValidationError if a POST or PATCH that needs an idempotency key has none
+ * @throws SchemaValidationError if the service validates requests and this one breaks its OpenAPI contract
+ * @throws ContentWithheldError if the response was flagged and the service withholds flagged content
  */
 export async function executeProxyRequest(
   agentId: number,
   userId: number,
-  data: ProxyRequestData
-): Promise<{ status: number; headers: string; body: string }> {
+  data: ProxyRequestData,
+  options: { serviceName?: string } = {}
+): Promise<ProxyResponse> {
   let idempotencyKeyId: number | undefined;
   let serviceId: number;
+  let operation: RequestOperation | null = null;
+  let answeredStatus: number | null = null; // set once the upstream has processed the request
+  const auth: CredentialContext = { tokenFetches: [] };
+  const auditedRequest = (): AuditedRequest => ({
+    agentId,
+    serviceId,
+    idempotencyKeyId: idempotencyKeyId || null,
+    method: data.method,
+    targetUrl: data.targetUrl,
+    intent: data.intent,
+    operation,
+    tokenFetches: auth.tokenFetches,
+  });
+
+  let requestBody = toStoredRequestBody(data);
+  let outboundBody = materializeRequestBody(requestBody);
+  if (requestBody.encoding === 'multipart') {
+    // fetch sets multipart Content-Type with its own boundary; an agent-supplied one would mismatch
+    deleteHeader(data.headers, 'Content-Type');
+  }
 
   try {
     // Step 1: Resolve service (validates agent access + finds service)
-    const service = await resolveService(data.targetUrl, agentId);
+    const service = await resolveService(data.targetUrl, agentId, options.serviceName);
     serviceId = service.id;
 
-    // Step 2: Validate target URL (SSRF check)
+    // Step 2: Validate target URL (SSRF check) and the service's request body limit
     validateTargetUrl(data.targetUrl, service.baseUrl);
+    assertRequestBodyWithinLimit(outboundBody, resolveOutboundLimits(service));
+
+    // Step 2.4: Data-loss prevention — block, or redact before anything else sees the body
+    const dlp = scanRequestBody(requestBody, service.dlpPolicy);
+    const dlpBlocks = dlp.matches.filter((match) => match.action === 'block');
+    if (dlpBlocks.length > 0) {
+      logger.warn(`DLP blocked request from agent ${agentId} to service ${service.id}: ${describeDlpMatches(dlpBlocks)}`);
+      throw new ForbiddenError(
+        `Request body contains ${describeDlpMatches(dlpBlocks)}, which the service's data-loss prevention policy blocks`
+      );
+    }
+    if (dlp.matches.some((match) => match.action === 'redact')) {
+      requestBody = dlp.body;
+      outboundBody = materializeRequestBody(requestBody);
+    }
+
+    // Step 2.45: OpenAPI request validation (service schema validation policy) — malformed requests
+    // get a 422 before they reach the risk assessor or the approval queue
+    const lookup = await lookupOperation(service, data);
+    const unknownOperation = enforceRequestContract(service, data, requestBody, lookup);
 
     // Step 2.5: Risk assessment gate
     // Runs after URL validation, before idempotency — risky requests are blocked
     // regardless of caching (per research Pattern 1)
-    const riskResult = await assessRisk({
-      intent: data.intent,
-      method: data.method,
-      targetUrl: data.targetUrl,
-      body: data.body ?? null,
+    operation = inspectRequestOperation(data, requestBody, service.apiProtocol);
+    assertIdempotencyKey(data, operation);
+    await enforceRiskGate(agentId, service, data, requestBody, {
+      operation,
+      dlpMatches: dlp.matches,
+      lookup,
+      unknownOperation,
     });
 
-    if (riskResult.blocked) {
-      // Strip auth-related headers before storing (pitfall #1 — never persist credentials)
-      const safeHeaders = { ...data.headers };
-      delete safeHeaders['Authorization'];
-      delete safeHeaders['authorization'];
-      delete safeHeaders['Agent-Key'];
-      delete safeHeaders['agent-key'];
-
-      const actionId = await createApprovalQueueEntry({
-        agentId,
-        serviceId: service.id,
-        method: data.method,
-        targetUrl: data.targetUrl,
-        requestHeaders: safeHeaders,
-        requestBody: data.body ?? null,
-        intent: data.intent,
-        riskScore: riskResult.score,
-        riskExplanation: riskResult.explanation,
-      });
-      throw new RiskyRequestError(actionId, riskResult.score, riskResult.explanation);
-    }
-
     // Step 3: Check idempotency (if key provided)
     if (data.idempotencyKey) {
+      // Non-text bodies include their encoding so the same string in a different encoding hashes differently
+      const bodyKey = requestBody.encoding === 'utf8'
+        ? requestBody.body || ''
+        : `${requestBody.encoding}:${requestBody.body || ''}`;
       const requestHash = createHash('sha256')
-        .update(`${data.method}:${data.targetUrl}:${data.body || ''}`)
+        .update(`${data.method}:${data.targetUrl}:${bodyKey}`)
         .digest('hex');
 
       const idempotencyResult = await checkIdempotency(agentId, data.idempotencyKey, requestHash);
@@ -436,13 +2083,31 @@ export async function executeProxyRequest(
       if (idempotencyResult.status === 'completed') {
         // Return cached response
         logger.info(`Idempotency HIT for agent ${agentId}: ${data.idempotencyKey}`);
+        if (idempotencyResult.responseBodyEncoding === 'none') {
+          // The request ran, but its body wasn't kept (too large, or the exchange failed after the
+          // upstream answered) — never replay it as an empty body
+          throw new ProxyError(
+            `Request with this idempotency key already completed with status ${idempotencyResult.responseStatus}; ` +
+              'its response body was not kept and cannot be replayed',
+            409
+          );
+        }
         return {
           status: idempotencyResult.responseStatus,
           headers: idempotencyResult.responseHeaders,
-          body: idempotencyResult.responseBody,
+          body: decodeBody(idempotencyResult.responseBody, idempotencyResult.responseBodyEncoding),
         };
       }
 
+      if (idempotencyResult.status === 'withheld') {
+        // The request ran and its response awaits review: point the agent at the same approval action
+        const entry = await getApprovalQueueEntry(idempotencyResult.actionId);
+        if (!entry?.contentRisk) {
+          throw new ProxyError('Request with this idempotency key already ran; its response was withheld for review', 409);
+        }
+        throw new ContentWithheldError(entry.actionId, entry.contentRisk);
+      }
+
       if (idempotencyResult.status === 'processing') {
         // Request already in flight
         throw new ProxyError('Request with this idempotency key is already being processed', 409);
@@ -452,71 +2117,89 @@ export async function executeProxyRequest(
       idempotencyKeyId = idempotencyResult.idempotencyKeyId;
     }
 
-    // Step 4: Inject credentials
-    const headersWithCreds = await injectCredentials({ ...data.headers }, service.id, service.authType);
+    // Step 4: Inject credentials (minting an OAuth2 token if the cached one is missing or expiring)
+    const injectedSecrets: string[] = [];
+    const headersWithCreds = await injectCredentials({ ...data.headers }, service.id, service.authType, injectedSecrets, auth);
+    const injectedHeaders = injectedHeaderDiff(data.headers, headersWithCreds);
 
     // Step 5: Forward request
+    // Step 7 (deferred): the idempotency record is completed once the body has streamed through
+    const keyId = idempotencyKeyId;
     const response = await forwardRequest(
       data.targetUrl,
       data.method,
       headersWithCreds,
-      data.body || null
+      outboundBody,
+      {
+        service,
+        injectedHeaders,
+        injectedSecrets,
+        // GraphQL queries are reads: as safe to re-send as a GET
+        retryable: isRetryableRequest(data.method, keyId !== undefined) || isGraphQLQuery(operation),
+        withholdFlaggedContent: true,
+        reauthenticate: auth.accessToken
+          ? () => injectCredentials({ ...data.headers }, service.id, service.authType, injectedSecrets, auth)
+          : undefined,
+        signRequest: auth.signer,
+        credentialQuery: auth.query,
+        onUpstreamAnswer: (status) => {
+          answeredStatus = status;
+        },
+        onBodyComplete: keyId
+          ? (result) => {
+              // A body cut short can't be replayed; release the key rather than cache a partial response
+              const settled = result.body
+                ? completeIdempotency(keyId, result.status, result.headers, result.body)
+                : failIdempotency(keyId, 'Response body ended early');
+              settled.catch((err) => {
+                logger.error('Failed to settle idempotency record:', err);
+              });
+            }
+          : undefined,
+      }
     );
 
-    // Step 6: Log to proxy_requests (fire-and-forget)
-    db.insert(proxyRequests)
-      .values({
+    // Step 6: Log to proxy_requests (fire-and-forget; event streams once they close)
+    logProxyResponse(auditedRequest(), response, outboundBody);
+
+    // Step 7.5: Withheld response — the human reviewer releases it (PENDING → EXECUTED) or denies it
+    if (response.withheldBody && response.contentRisk) {
+      const contentActionId = await createApprovalQueueEntry({
         agentId,
         serviceId: service.id,
-        idempotencyKeyId: idempotencyKeyId || null,
         method: data.method,
         targetUrl: data.targetUrl,
+        requestHeaders: stripAuthHeaders(data.headers),
+        requestBody,
         intent: data.intent,
-        completedAt: new Date(),
-        statusCode: response.status,
-        errorMessage: null,
-      })
-      .execute()
-      .catch((err) => {
-        logger.error('Failed to write audit log:', err);
-      }); // Ignore audit log failures
-
-    // Step 7: Complete idempotency (if key provided)
-    if (idempotencyKeyId) {
-      await completeIdempotency(
-        idempotencyKeyId,
-        response.status,
-        response.headers,
-        response.body
-      );
+        riskScore: response.contentRisk.score,
+        riskExplanation: `Response content flagged for prompt injection. ${response.contentRisk.explanation}`,
+        operation,
+        contentRisk: response.contentRisk,
+        response: { status: response.status, headers: response.headers, body: response.withheldBody },
+      });
+      if (idempotencyKeyId) {
+        await withholdIdempotency(idempotencyKeyId, contentActionId);
+      }
+      throw new ContentWithheldError(contentActionId, response.contentRisk);
     }
 
     // Step 8: Return response
     return response;
   } catch (error: any) {
-    // Log failure to audit log (fire-and-forget)
-    if (serviceId!) {
-      db.insert(proxyRequests)
-        .values({
-          agentId,
-          serviceId: serviceId!,
-          idempotencyKeyId: idempotencyKeyId || null,
-          method: data.method,
-          targetUrl: data.targetUrl,
-          intent: data.intent,
-          completedAt: new Date(),
-          statusCode: null,
-          errorMessage: error.message || 'Unknown error',
-        })
-        .execute()
-        .catch((err) => {
-          logger.error('Failed to write failure audit log:', err);
-        });
+    // Log failure to audit log (fire-and-forget); a withheld response was already logged as completed
+    if (serviceId! && !(error instanceof ContentWithheldError)) {
+      logProxyFailure(auditedRequest(), error);
     }
 
-    // Fail idempotency (if key provided)
-    if (idempotencyKeyId) {
-      await failIdempotency(idempotencyKeyId, error.message || 'Unknown error');
+    // Settle idempotency (if key provided; a withheld response already has): the key is released for a
+    // retry only if the upstream never answered — a request it processed must not run twice
+    if (idempotencyKeyId && !(error instanceof ContentWithheldError)) {
+      if (answeredStatus === null) {
+        await failIdempotency(idempotencyKeyId, error.message || 'Unknown error');
+      } else {
+        await completeIdempotency(idempotencyKeyId, answeredStatus, '{}', UNCACHED_BODY);
+      }
     }
 
     // Re-throw the error to caller
@@ -2,25 +2,211 @@
 
 import { z } from 'zod';
 import { db } from '@/config/db';
-import { services, credentials, type Service, type InsertService, type InsertCredential } from '@/db/schema';
+import {
+  services,
+  credentials,
+  oauthTokens,
+  type Service,
+  type InsertService,
+  type InsertCredential,
+  type CredentialPlacement,
+} from '@/db/schema';
 import { encrypt } from '@/services/encryption.service';
+import { parseJsonPath } from '@/utils/redaction';
+import { HMAC_PLACEHOLDERS, unknownPlaceholders } from '@/utils/hmac-signing';
+import { placementReferences, missingPlacementCredentials } from '@/utils/credential-placement';
+import { ValidationError } from '@/middleware/validation';
 import { eq, and } from 'drizzle-orm';
 
 // ============================================================================
 // Validation Schemas
 // ============================================================================
 
+const headerNameSchema = z.string().min(1).max(255).regex(/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/, 'Invalid header name');
+
+/**
+ * Schema for a service's response header passthrough policy
+ */
+export const headerPolicySchema = z.object({
+  mode: z.enum(['denylist', 'allowlist']),
+  headers: z.array(headerNameSchema).max(100),
+});
+
+/**
+ * Schema for a service's redirect-following policy (null/absent = return 3xx to the agent)
+ */
+export const redirectPolicySchema = z.object({
+  maxHops: z.number().int().min(1).max(10),
+  allowCrossOrigin: z.boolean().default(false),
+});
+
+/**
+ * Schema for a service's operation rules (null/absent = no rules, every request is risk-assessed)
+ */
+export const operationRulesSchema = z.array(z.object({
+  match: z.string().min(1).max(255),
+  action: z.enum(['allow', 'approve', 'deny']),
+})).max(200);
+
+function isValidRegex(source: string): boolean {
+  try {
+    new RegExp(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const dlpActionSchema = z.enum(['block', 'redact', 'approve']);
+
+/**
+ * Schema for a service's data-loss prevention policy (null/absent = built-in defaults)
+ */
+export const dlpPolicySchema = z.object({
+  detectors: z.partialRecord(
+    z.enum(['api_key', 'private_key', 'credit_card', 'email', 'phone']),
+    z.union([dlpActionSchema, z.literal('off')])
+  ).optional(),
+  customPatterns: z.array(z.object({
+    name: z.string().min(1).max(64).regex(/^[A-Za-z0-9_-]+$/, 'Pattern names may use letters, digits, _ and -'),
+    pattern: z.string().min(1).max(500).refine(isValidRegex, { message: 'Invalid regular expression' }),
+    action: dlpActionSchema,
+  })).max(50).optional(),
+});
+
+function isValidJsonPath(path: string): boolean {
+  try {
+    parseJsonPath(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Schema for a service's response redaction rules (null/absent = responses returned unmodified)
+ */
+export const responseRedactionRulesSchema = z.array(z.object({
+  name: z.string().min(1).max(64),
+  type: z.enum(['json_path', 'field', 'regex']),
+  pattern: z.string().min(1).max(500),
+  replacement: z.string().max(100).optional(),
+}).refine(
+  (rule) => rule.type !== 'json_path' || isValidJsonPath(rule.pattern),
+  { message: "Invalid JSONPath (supported: $, .name, ['name'], [0], [*], .*, ..name)" }
+).refine(
+  (rule) => rule.type !== 'regex' || isValidRegex(rule.pattern),
+  { message: 'Invalid regular expression' }
+)).max(100);
+
+/**
+ * Schema for a service's response content scanning policy (null/absent = responses aren't scanned)
+ */
+export const contentScanPolicySchema = z.object({
+  mode: z.enum(['annotate', 'wrap', 'withhold']),
+  threshold: z.number().min(0).max(1).optional(),
+});
+
+/**
+ * Schema for a service's OpenAPI request validation policy (null/absent = requests aren't validated)
+ */
+export const schemaValidationPolicySchema = z.object({
+  unknownOperations: z.enum(['block', 'flag', 'allow']),
+});
+
+/**
+ * Schema for an hmac service's request signing template
+ */
+export const hmacSigningSchema = z.object({
+  algorithm: z.enum(['sha256', 'sha512', 'sha1']),
+  canonical: z.string().min(1).max(2000).refine(
+    (template) => unknownPlaceholders(template, HMAC_PLACEHOLDERS.filter((name) => name !== 'signature')).length === 0,
+    { message: `Unknown placeholder; use ${HMAC_PLACEHOLDERS.filter((name) => name !== 'signature').map((name) => `{${name}}`).join(' ')}` }
+  ),
+  signatureHeader: headerNameSchema,
+  signatureFormat: z.string().min(1).max(500)
+    .refine((template) => template.includes('{signature}'), { message: 'signatureFormat must contain {signature}' })
+    .refine(
+      (template) => unknownPlaceholders(template, HMAC_PLACEHOLDERS.filter((name) => name !== 'body')).length === 0,
+      { message: 'Unknown placeholder in signatureFormat ({body} can only be signed, not sent)' }
+    )
+    .optional(),
+  encoding: z.enum(['hex', 'base64']).optional(),
+  secretEncoding: z.enum(['utf8', 'hex', 'base64']).optional(),
+  timestampHeader: headerNameSchema.nullable().optional(),
+  timestampFormat: z.enum(['unix', 'unix_ms', 'iso8601']).optional(),
+  nonceHeader: headerNameSchema.nullable().optional(),
+});
+
+/**
+ * Schema for a service's credential placements: header, query parameter or cookie, each value a
+ * template referencing credential keys. Names are unique per location (headers case-insensitively).
+ */
+export const credentialPlacementsSchema = z.array(z.object({
+  in: z.enum(['header', 'query', 'cookie']),
+  name: z.string().min(1).max(255),
+  value: z.string().min(1).max(1000).refine(
+    (template) => placementReferences(template).length > 0,
+    { message: 'Value must reference at least one credential, e.g. {api_key}' }
+  ),
+}).refine(
+  (placement) => placement.in === 'query' || headerNameSchema.safeParse(placement.name).success,
+  { message: 'Invalid header or cookie name' }
+)).max(20).refine(
+  (placements) => {
+    const names = placements.map((p) => `${p.in}:${p.in === 'header' ? p.name.toLowerCase() : p.name}`);
+    return new Set(names).size === names.length;
+  },
+  { message: 'Each header, query parameter and cookie can only be placed once' }
+);
+
+/**
+ * Per-service outbound limits; null/absent = gateway default
+ */
+const MAX_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+const MAX_BODY_BYTES = 1024 * 1024 * 1024; // 1GB
+
+export const outboundLimitsSchema = z.object({
+  connectTimeoutMs: z.number().int().min(100).max(MAX_TIMEOUT_MS).nullable().optional(),
+  timeoutMs: z.number().int().min(1000).max(MAX_TIMEOUT_MS).nullable().optional(),
+  maxRequestBodyBytes: z.number().int().min(1).max(MAX_BODY_BYTES).nullable().optional(),
+  maxResponseBodyBytes: z.number().int().min(1).max(MAX_BODY_BYTES).nullable().optional(),
+  maxConcurrency: z.number().int().min(1).max(1000).nullable().optional(),
+});
+
 /**
  * Schema for creating a new service
  */
 export const createServiceSchema = z.object({
   name: z.string().min(1).max(255),
   baseUrl: z.string().url().max(512),
-  authType: z.enum(['api_key', 'bearer', 'basic', 'oauth2']),
+  authType: z.enum(['api_key', 'bearer', 'basic', 'oauth2', 'sigv4', 'hmac']),
+  apiProtocol: z.enum(['graphql', 'jsonrpc']).nullable().optional(),
+  responseHeaderPolicy: headerPolicySchema.nullable().optional(),
+  redirectPolicy: redirectPolicySchema.nullable().optional(),
+  operationRules: operationRulesSchema.nullable().optional(),
+  dlpPolicy: dlpPolicySchema.nullable().optional(),
+  responseRedactionRules: responseRedactionRulesSchema.nullable().optional(),
+  contentScanPolicy: contentScanPolicySchema.nullable().optional(),
+  schemaValidationPolicy: schemaValidationPolicySchema.nullable().optional(),
+  hmacSigning: hmacSigningSchema.nullable().optional(),
+  credentialPlacements: credentialPlacementsSchema.nullable().optional(),
+  ...outboundLimitsSchema.shape,
   credentials: z.record(z.string().min(1), z.string().min(1)).refine(
     (obj) => Object.keys(obj).length > 0,
     { message: 'At least one credential is required' }
   ),
+}).refine(
+  (obj) => obj.authType !== 'hmac' || obj.hmacSigning,
+  { message: 'hmac services need an hmacSigning template', path: ['hmacSigning'] }
+).refine(
+  (obj) => obj.authType !== 'api_key' || (obj.credentialPlacements?.length ?? 0) > 0,
+  { message: 'api_key services need at least one credential placement', path: ['credentialPlacements'] }
+).superRefine((obj, ctx) => {
+  const missing = missingPlacementCredentials(obj.credentialPlacements ?? [], Object.keys(obj.credentials));
+  if (missing.length > 0) {
+    ctx.addIssue({ code: 'custom', message: missingCredentialsMessage(missing), path: ['credentialPlacements'] });
+  }
 });
 
 /**
@@ -30,7 +216,18 @@ export const createServiceSchema = z.object({
 export const updateServiceSchema = z.object({
   name: z.string().min(1).max(255).optional(),
   baseUrl: z.string().url().max(512).optional(),
-  authType: z.enum(['api_key', 'bearer', 'basic', 'oauth2']).optional(),
+  authType: z.enum(['api_key', 'bearer', 'basic', 'oauth2', 'sigv4', 'hmac']).optional(),
+  apiProtocol: z.enum(['graphql', 'jsonrpc']).nullable().optional(),
+  responseHeaderPolicy: headerPolicySchema.nullable().optional(),
+  redirectPolicy: redirectPolicySchema.nullable().optional(),
+  operationRules: operationRulesSchema.nullable().optional(),
+  dlpPolicy: dlpPolicySchema.nullable().optional(),
+  responseRedactionRules: responseRedactionRulesSchema.nullable().optional(),
+  contentScanPolicy: contentScanPolicySchema.nullable().optional(),
+  schemaValidationPolicy: schemaValidationPolicySchema.nullable().optional(),
+  hmacSigning: hmacSigningSchema.nullable().optional(),
+  credentialPlacements: credentialPlacementsSchema.nullable().optional(),
+  ...outboundLimitsSchema.shape,
 }).refine(
   (obj) => Object.keys(obj).length > 0,
   { message: 'At least one field must be provided for update' }
@@ -44,6 +241,25 @@ export const credentialsSchema = z.record(z.string().min(1), z.string().min(1)).
   { message: 'At least one credential is required' }
 );
 
+function missingCredentialsMessage(missing: string[]): string {
+  return `Credential placements reference ${missing.map((key) => `{${key}}`).join(', ')}, ` +
+    `but the service has no such credential${missing.length > 1 ? 's' : ''}`;
+}
+
+/**
+ * Reject placements that reference credentials the service doesn't have (or won't have after an update).
+ *
+ * @throws ValidationError (400)
+ */
+function assertPlacementsResolve(placements: CredentialPlacement[] | null, credentialKeys: string[]): void {
+  const missing = missingPlacementCredentials(placements ?? [], credentialKeys);
+  if (missing.length > 0) {
+    throw new ValidationError(new z.ZodError([
+      { code: 'custom', message: missingCredentialsMessage(missing), path: ['credentialPlacements'] },
+    ]));
+  }
+}
+
 // ============================================================================
 // Custom Errors
 // ============================================================================
@@ -82,6 +298,21 @@ export async function createService(
       name: data.name,
       baseUrl: data.baseUrl,
       authType: data.authType,
+      apiProtocol: data.apiProtocol ?? null,
+      responseHeaderPolicy: data.responseHeaderPolicy ?? null,
+      redirectPolicy: data.redirectPolicy ?? null,
+      operationRules: data.operationRules ?? null,
+      dlpPolicy: data.dlpPolicy ?? null,
+      responseRedactionRules: data.responseRedactionRules ?? null,
+      contentScanPolicy: data.contentScanPolicy ?? null,
+      schemaValidationPolicy: data.schemaValidationPolicy ?? null,
+      hmacSigning: data.hmacSigning ?? null,
+      credentialPlacements: data.credentialPlacements ?? null,
+      connectTimeoutMs: data.connectTimeoutMs ?? null,
+      timeoutMs: data.timeoutMs ?? null,
+      maxRequestBodyBytes: data.maxRequestBodyBytes ?? null,
+      maxResponseBodyBytes: data.maxResponseBodyBytes ?? null,
+      maxConcurrency: data.maxConcurrency ?? null,
     }).returning();
 
     // Insert encrypted credentials
@@ -169,6 +400,8 @@ export async function getServiceById(
  * @param data - Updated service fields
  * @returns Updated service
  * @throws NotFoundError if service doesn't exist or user doesn't own it
+ * @throws ValidationError if the result would leave an api_key service without placements or an
+ *   hmac service without a signing template
  */
 export async function updateService(
   serviceId: number,
@@ -185,6 +418,30 @@ export async function updateService(
     throw new NotFoundError('Service not found');
   }
 
+  const authType = data.authType ?? existingService.authType;
+  const placements = data.credentialPlacements !== undefined ? data.credentialPlacements : existingService.credentialPlacements;
+  // An api_key service saved before placements existed (null) keeps its legacy placement until one is set
+  const legacyApiKey = existingService.authType === 'api_key' && existingService.credentialPlacements === null &&
+    data.credentialPlacements === undefined;
+  if (authType === 'api_key' && !placements?.length && !legacyApiKey) {
+    throw new ValidationError(new z.ZodError([
+      { code: 'custom', message: 'api_key services need at least one credential placement', path: ['credentialPlacements'] },
+    ]));
+  }
+  const hmacSigning = data.hmacSigning !== undefined ? data.hmacSigning : existingService.hmacSigning;
+  if (authType === 'hmac' && !hmacSigning) {
+    throw new ValidationError(new z.ZodError([
+      { code: 'custom', message: 'hmac services need an hmacSigning template', path: ['hmacSigning'] },
+    ]));
+  }
+  if (data.credentialPlacements) {
+    const serviceCreds = await db
+      .select({ key: credentials.key })
+      .from(credentials)
+      .where(eq(credentials.serviceId, serviceId));
+    assertPlacementsResolve(data.credentialPlacements, serviceCreds.map((c) => c.key));
+  }
+
   // Update service
   const [updatedService] = await db
     .update(services)
@@ -228,13 +485,15 @@ export async function deleteService(
 
 /**
  * Upsert (replace) all credentials for a service
- * Deletes existing credentials and inserts new ones
+ * Deletes existing credentials and inserts new ones; a cached OAuth2 token minted with the old ones is dropped
+ * The new credentials must include every key the service's credential placements reference
  *
  * @param serviceId - The service ID
  * @param userId - The user ID (for ownership verification)
  * @param credentialsData - New credentials to store (replaces all existing)
  * @returns Metadata about stored credentials (no values)
  * @throws NotFoundError if service doesn't exist or user doesn't own it
+ * @throws ValidationError if a credential placement references a key that isn't in the new credentials
  */
 export async function upsertCredentials(
   serviceId: number,
@@ -250,11 +509,13 @@ export async function upsertCredentials(
   if (!existingService) {
     throw new NotFoundError('Service not found');
   }
+  assertPlacementsResolve(existingService.credentialPlacements, Object.keys(credentialsData));
 
   // Replace credentials in transaction
   return await db.transaction(async (tx) => {
-    // Delete all existing credentials
+    // Delete all existing credentials, and any token minted with them
     await tx.delete(credentials).where(eq(credentials.serviceId, serviceId));
+    await tx.delete(oauthTokens).where(eq(oauthTokens.serviceId, serviceId));
 
     // Insert new credentials (encrypted)
     const credentialEntries = Object.entries(credentialsData).map(([key, value]) => ({
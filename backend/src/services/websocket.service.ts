@@ -0,0 +1,403 @@
+// WebSocket session proxying: opens the upstream socket with injected credentials and relays frames both ways
+// A session open is risk-gated like a request; upstream messages get the response filters (credential echo
+// scrubbing, redaction rules); each session is written to proxy_requests when it closes
+
+import type { ServerWebSocket, WebSocketHandler } from 'bun';
+import { db } from '@/config/db';
+import {
+  proxyRequests,
+  type OAuthTokenFetch,
+  type RedactionHit,
+  type ResponseRedactionRule,
+  type SecurityIncident,
+} from '@/db/schema';
+import { env } from '@/config/env';
+import { logger } from '@/utils/logger';
+import { UNCACHED_BODY } from '@/utils/body';
+import { secretVariants, scrubText } from '@/utils/credential-echo';
+import { redactResponseBody } from '@/utils/redaction';
+import { openPinnedTunnel, type PinnedTunnel } from '@/utils/pinned-tunnel';
+import { markExecuted } from '@/services/approval.service';
+import { checkCircuit, recordFailure, recordSuccess, releaseTrial } from '@/services/circuit-breaker.service';
+import {
+  ProxyError,
+  CircuitOpenError,
+  resolveService,
+  validateTargetUrl,
+  enforceRiskGate,
+  injectCredentials,
+  pinTarget,
+  resolveOutboundLimits,
+  acquireConcurrencySlot,
+  type CredentialContext,
+  type ProxyRequestData,
+} from '@/services/proxy.service';
+
+/**
+ * State of one proxied session, attached to the agent's socket (ServerWebSocket.data)
+ */
+export interface WebSocketSession {
+  agentId: number;
+  serviceId: number;
+  targetUrl: string;    // http(s) form, as matched against the service baseUrl
+  intent: string;
+  upstream: WebSocket;
+  agent: ServerWebSocket<WebSocketSession> | null; // set once the agent's socket is open
+  pending: Array<string | ArrayBuffer>; // upstream messages that arrived before the agent's socket opened
+  pendingBytes: number;  // size of pending, capped at MAX_PENDING_BYTES
+  startedAt: number;
+  bytesSent: number;     // agent → upstream
+  bytesReceived: number; // upstream → agent
+  error: string | null;
+  tokenFetches: OAuthTokenFetch[]; // OAuth token requests made to open the session
+  echoVariants: string[];          // forms of the injected secrets scrubbed from upstream messages
+  redactionRules: ResponseRedactionRule[];
+  redactions: RedactionHit[];      // redaction rules that fired, summed over the session
+  securityIncidents: SecurityIncident[];
+  ended: boolean;
+  release: () => void;   // gives back the service concurrency slot
+  timeoutId: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Upstream socket ready to be bridged to the agent.
+ */
+export interface OpenedSession {
+  session: WebSocketSession;
+  protocol: string; // subprotocol the upstream selected ('' if none) — echoed in the agent's handshake
+}
+
+/**
+ * Most bytes of upstream messages held while the agent's socket finishes opening; an upstream that
+ * sends more ends the session.
+ */
+const MAX_PENDING_BYTES = 1024 * 1024;
+
+function messageSize(message: string | ArrayBuffer | Uint8Array): number {
+  return typeof message === 'string' ? Buffer.byteLength(message) : message.byteLength;
+}
+
+/**
+ * Apply the response filters to one upstream message: injected secrets echoed back are scrubbed,
+ * then the service's redaction rules run (JSON messages get every rule, other text regex rules).
+ * Binary messages are matched byte for byte and stay binary.
+ */
+function filterUpstreamMessage(session: WebSocketSession, message: string | ArrayBuffer): string | ArrayBuffer {
+  if (session.echoVariants.length === 0 && session.redactionRules.length === 0) return message;
+
+  // latin1 maps bytes 1:1 to characters, so binary frames are scrubbed on their exact bytes
+  const isText = typeof message === 'string';
+  const latin1Variants = isText ? session.echoVariants : session.echoVariants.map((v) => Buffer.from(v).toString('latin1'));
+  const scrubbed = scrubText(isText ? message : Buffer.from(message).toString('latin1'), latin1Variants);
+  if (scrubbed.count > 0) {
+    let incident = session.securityIncidents.find((i) => i.type === 'credential_echo');
+    if (!incident) {
+      logger.warn(`Upstream of WebSocket session to ${session.targetUrl} echoed injected credentials`);
+      incident = { type: 'credential_echo', location: 'body', detail: 'websocket messages', count: 0 };
+      session.securityIncidents.push(incident);
+    }
+    incident.count += scrubbed.count;
+  }
+  const bytes = Buffer.from(scrubbed.text, isText ? 'utf8' : 'latin1');
+
+  const redacted = redactResponseBody(bytes, session.redactionRules);
+  for (const hit of redacted.hits) {
+    const existing = session.redactions.find((r) => r.rule === hit.rule);
+    if (existing) existing.count += hit.count;
+    else session.redactions.push({ ...hit });
+  }
+
+  if (scrubbed.count === 0 && redacted.hits.length === 0) return message;
+  if (isText) return Buffer.from(redacted.bytes).toString('utf8');
+  return redacted.bytes.buffer.slice(redacted.bytes.byteOffset, redacted.bytes.byteOffset + redacted.bytes.byteLength) as ArrayBuffer;
+}
+
+/**
+ * Close code that may be sent on to the other side. 1005/1006/1015 are reserved for reporting
+ * and can't be sent; the WebSocket client API only sends 1000 and 3000–4999.
+ */
+function relayableCloseCode(code: number, toUpstream: boolean): number {
+  if (toUpstream) return code === 1000 || (code >= 3000 && code <= 4999) ? code : 1000;
+  if (code === 1005) return 1000;
+  if (code === 1006 || code === 1015) return 1011;
+  return code;
+}
+
+/**
+ * http(s) target → ws(s) URL for the WebSocket client.
+ */
+function toWebSocketUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.protocol = parsed.protocol === 'https:' ? 'wss:' : 'ws:';
+  return parsed.toString();
+}
+
+/**
+ * Open the upstream socket and wait for the handshake to finish.
+ *
+ * @param tunnel - wss:// only: the pinned tunnel the connection goes through
+ * @throws ProxyError 504 if the upstream doesn't complete the handshake within timeoutMs, 502 if it fails
+ */
+function connectUpstream(
+  url: string,
+  headers: Record<string, string>,
+  protocols: string[],
+  timeoutMs: number,
+  tunnel: PinnedTunnel | null
+): Promise<WebSocket> {
+  const hostname = new URL(url).hostname;
+
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url, { headers, protocols, ...(tunnel ? { proxy: tunnel.proxy } : {}) });
+    socket.binaryType = 'arraybuffer';
+
+    const timeoutId = setTimeout(() => {
+      socket.close();
+      reject(new ProxyError(`Upstream did not accept the WebSocket within ${timeoutMs / 1000}s (connect timeout)`, 504));
+    }, timeoutMs);
+
+    socket.addEventListener('open', () => {
+      clearTimeout(timeoutId);
+      resolve(socket);
+    }, { once: true });
+
+    socket.addEventListener('error', (event) => {
+      clearTimeout(timeoutId);
+      const message = (event as ErrorEvent).message || 'handshake failed';
+      reject(new ProxyError(`WebSocket connection to ${hostname} failed: ${message}`, 502));
+    }, { once: true });
+  });
+}
+
+/**
+ * Finish a session once: stop the session timer, free the concurrency slot and write the audit row.
+ */
+function endSession(session: WebSocketSession): void {
+  if (session.ended) return;
+  session.ended = true;
+  if (session.timeoutId) clearTimeout(session.timeoutId);
+  session.release();
+
+  const durationMs = Date.now() - session.startedAt;
+  logger.info(
+    `WebSocket session for agent ${session.agentId} to ${session.targetUrl} closed after ${durationMs}ms ` +
+    `(${session.bytesSent} bytes sent, ${session.bytesReceived} received)`
+  );
+
+  db.insert(proxyRequests)
+    .values({
+      agentId: session.agentId,
+      serviceId: session.serviceId,
+      method: 'GET',
+      targetUrl: session.targetUrl,
+      intent: session.intent,
+      completedAt: new Date(),
+      statusCode: 101,
+      errorMessage: session.error,
+      protocol: 'websocket',
+      durationMs,
+      bytesSent: session.bytesSent,
+      bytesReceived: session.bytesReceived,
+      tokenFetches: session.tokenFetches.length > 0 ? session.tokenFetches : null,
+      redactions: session.redactions.length > 0 ? session.redactions : null,
+      securityIncidents: session.securityIncidents.length > 0 ? session.securityIncidents : null,
+    })
+    .execute()
+    .catch((err) => {
+      logger.error('Failed to write WebSocket session audit log:', err);
+    });
+}
+
+/**
+ * Open a proxied WebSocket session (the agent's socket is upgraded afterwards by the route)
+ *
+ * Flow:
+ * 1. Resolve service (validates agent access) and validate the target URL (SSRF prevention)
+ * 2. Risk assessment of the open, as a GET with the agent's intent — skipped when reopening an approved action
+ * 3. Concurrency slot (held for the whole session) and circuit breaker check
+ * 4. Inject credentials into the upgrade request
+ * 5. Vet the resolved addresses and connect pinned to the vetted address: ws:// directly, like HTTP
+ *    requests; wss:// through a loopback tunnel (openPinnedTunnel), so TLS still checks the hostname
+ * 6. Mark an approved action EXECUTED (race-safe — an approval opens one session)
+ * 7. Wire up the upstream half of the relay and the PROXY_STREAM_MAX_SECONDS session limit
+ *
+ * @param agentId - The agent opening the session
+ * @param data - Validated proxy request data (method GET, http(s) targetUrl)
+ * @param options - serviceName pins resolution to the named service; protocols are the agent's
+ *   requested subprotocols; approvedActionId reopens an APPROVED websocket action
+ * @returns The session and the subprotocol the upstream selected
+ * @throws RiskyRequestError if the open needs human approval; ProxyError/NotFoundError as for requests
+ */
+export async function openWebSocketSession(
+  agentId: number,
+  data: ProxyRequestData,
+  options: { serviceName?: string; protocols?: string[]; approvedActionId?: string } = {}
+): Promise<OpenedSession> {
+  // Step 1: Resolve service and validate target
+  const service = await resolveService(data.targetUrl, agentId, options.serviceName);
+  validateTargetUrl(data.targetUrl, service.baseUrl);
+
+  // Step 2: Risk gate (a blocked open is queued as a 'websocket' action)
+  if (!options.approvedActionId) {
+    await enforceRiskGate(agentId, service, data, { body: null, encoding: 'utf8' }, { protocol: 'websocket' });
+  }
+
+  // Step 3: Limits and circuit breaker
+  const limits = resolveOutboundLimits(service);
+  const release = acquireConcurrencySlot(service.id, limits.maxConcurrency);
+  const retryInMs = checkCircuit(service.id);
+  if (retryInMs !== null) {
+    release();
+    throw new CircuitOpenError(service.id, Math.ceil(retryInMs / 1000));
+  }
+
+  let upstream: WebSocket;
+  const auth: CredentialContext = { tokenFetches: [] };
+  const injectedSecrets: string[] = [];
+  try {
+    // Step 4: Credentials on the upgrade request
+    let headers = await injectCredentials({ ...data.headers }, service.id, service.authType, injectedSecrets, auth);
+
+    // Credential query placements go on the URL connected to only, not the session's targetUrl
+    const requestUrl = new URL(data.targetUrl);
+    for (const [name, value] of auth.query ?? []) requestUrl.searchParams.set(name, value);
+    const targetUrl = requestUrl.toString();
+
+    // Step 5: Vet and connect
+    const pinned = await pinTarget(targetUrl);
+    let connectUrl = toWebSocketUrl(targetUrl);
+    let tunnel: PinnedTunnel | null = null;
+    if (requestUrl.protocol === 'http:') {
+      connectUrl = toWebSocketUrl(pinned.url);
+      headers['Host'] = pinned.host;
+    }
+    if (auth.signer) {
+      ({ headers } = await auth.signer(targetUrl, 'GET', headers, null));
+    }
+    if (requestUrl.protocol === 'https:') {
+      tunnel = openPinnedTunnel(pinned.address, Number(requestUrl.port || 443));
+    }
+
+    try {
+      upstream = await connectUpstream(connectUrl, headers, options.protocols ?? [], limits.connectTimeoutMs, tunnel);
+    } catch (error: any) {
+      recordFailure(service.id, error.message || 'WebSocket connect failed');
+      throw error;
+    } finally {
+      tunnel?.close();
+    }
+    recordSuccess(service.id);
+  } catch (error) {
+    release();
+    // Gateway-side rejections (SSRF, missing credentials) say nothing about upstream health
+    if (!(error instanceof ProxyError) || error.statusCode < 502) releaseTrial(service.id);
+    throw error;
+  }
+
+  // Step 6: One session per approval
+  if (options.approvedActionId) {
+    const claimed = await markExecuted(options.approvedActionId, 101, '{}', UNCACHED_BODY).catch(() => false);
+    if (!claimed) {
+      upstream.close();
+      release();
+      throw new ProxyError('Action has already been executed or is no longer approved', 409);
+    }
+  }
+
+  // Step 7: Upstream half of the relay
+  const session: WebSocketSession = {
+    agentId,
+    serviceId: service.id,
+    targetUrl: data.targetUrl,
+    intent: data.intent,
+    upstream,
+    agent: null,
+    pending: [],
+    pendingBytes: 0,
+    startedAt: Date.now(),
+    bytesSent: 0,
+    bytesReceived: 0,
+    error: null,
+    tokenFetches: auth.tokenFetches,
+    echoVariants: secretVariants(injectedSecrets),
+    redactionRules: service.responseRedactionRules ?? [],
+    redactions: [],
+    securityIncidents: [],
+    ended: false,
+    release,
+    timeoutId: null,
+  };
+
+  upstream.addEventListener('message', (event) => {
+    if (session.ended) return;
+    const received = event.data as string | ArrayBuffer;
+    session.bytesReceived += messageSize(received);
+    const message = filterUpstreamMessage(session, received);
+    if (session.agent) {
+      session.agent.send(message);
+      return;
+    }
+    session.pendingBytes += messageSize(message);
+    if (session.pendingBytes > MAX_PENDING_BYTES) {
+      session.error = `Upstream sent more than ${MAX_PENDING_BYTES} bytes before the agent's socket opened`;
+      session.pending = [];
+      upstream.close(1000, 'Agent not ready');
+      endSession(session);
+      return;
+    }
+    session.pending.push(message);
+  });
+
+  upstream.addEventListener('error', () => {
+    session.error ??= 'Upstream WebSocket error';
+  });
+
+  upstream.addEventListener('close', (event) => {
+    if (!event.wasClean) session.error ??= `Upstream connection lost (code ${event.code})`;
+    session.agent?.close(relayableCloseCode(event.code, false), event.reason);
+    endSession(session);
+  });
+
+  session.timeoutId = setTimeout(() => {
+    session.error = `Session time limit reached (${env.PROXY_STREAM_MAX_SECONDS}s)`;
+    session.agent?.close(1001, 'Session time limit reached');
+    upstream.close(1000, 'Session time limit reached');
+    endSession(session);
+  }, env.PROXY_STREAM_MAX_SECONDS * 1000);
+
+  logger.info(`WebSocket session opened for agent ${agentId} to ${data.targetUrl}`);
+  return { session, protocol: upstream.protocol };
+}
+
+/**
+ * Bun.serve websocket handlers: the agent half of the relay.
+ * Agent messages are passed through unchanged (text stays text, binary stays binary).
+ */
+export const webSocketHandlers: WebSocketHandler<WebSocketSession> = {
+  open(ws) {
+    const session = ws.data;
+    if (session.ended) {
+      ws.close(1011, session.error ?? 'Upstream closed the connection');
+      return;
+    }
+    session.agent = ws;
+    for (const message of session.pending) ws.send(message);
+    session.pending = [];
+    session.pendingBytes = 0;
+  },
+
+  message(ws, message) {
+    const session = ws.data;
+    session.bytesSent += messageSize(message);
+    if (session.upstream.readyState === WebSocket.OPEN) session.upstream.send(message);
+  },
+
+  close(ws, code, reason) {
+    const session = ws.data;
+    session.agent = null;
+    if (session.upstream.readyState === WebSocket.OPEN || session.upstream.readyState === WebSocket.CONNECTING) {
+      session.upstream.close(relayableCloseCode(code, true), reason);
+    }
+    endSession(session);
+  },
+};
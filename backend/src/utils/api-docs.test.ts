@@ -0,0 +1,157 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  findDocumentedOperation,
+  formatDocumentedOperation,
+  parseOpenApiDocument,
+  type DocumentationSources,
+  type DocumentedOperation,
+} from '@/utils/api-docs';
+
+const spec = JSON.stringify({
+  openapi: '3.0.3',
+  info: { title: 'Repos', version: '1' },
+  servers: [{ url: 'https://api.example.com/v1' }],
+  paths: {
+    '/repos/{owner}/{repo}': {
+      get: { operationId: 'getRepo', summary: 'Get a repository' },
+      delete: {
+        operationId: 'deleteRepo',
+        summary: 'Delete a repository',
+        description: 'Permanently deletes the repository. This cannot be undone.',
+      },
+    },
+    '/repos/{owner}/settings': {
+      get: { operationId: 'getOwnerSettings', deprecated: true },
+    },
+    '/files/{name}.json': {
+      get: { operationId: 'getFile' },
+    },
+  },
+});
+
+const markdown = [
+  '# Cache API',
+  '',
+  '## `DELETE /cache` — Clear the cache',
+  'Removes every cached entry.',
+  '',
+  '### Notes',
+  'Safe to call at any time.',
+  '',
+  '## GET /cache/{key}',
+  'Reads one entry.',
+].join('\n');
+
+function sources(overrides: Partial<DocumentationSources> = {}): DocumentationSources {
+  const { summary, operations } = parseOpenApiDocument(spec);
+  return { operations, basePaths: summary.basePaths, markdown: [], ...overrides };
+}
+
+describe('findDocumentedOperation', () => {
+  test('matches an OpenAPI operation under the spec base path', () => {
+    const doc = findDocumentedOperation(sources(), 'DELETE', 'https://api.example.com/v1/repos/acme/widgets', 'https://api.example.com');
+    expect(doc).toMatchObject({
+      source: 'openapi',
+      method: 'DELETE',
+      path: '/repos/{owner}/{repo}',
+      operationId: 'deleteRepo',
+      riskLevel: 'high',
+      summary: 'Delete a repository',
+      requestPath: '/repos/acme/widgets',
+    });
+    expect(doc!.hints).toEqual(['destructive wording: "permanently", "cannot be undone", "deletes"']);
+  });
+
+  test('matches under the service base URL path', () => {
+    const doc = findDocumentedOperation(
+      sources({ basePaths: [] }),
+      'get',
+      'https://api.example.com/v1/repos/acme/widgets/',
+      'https://api.example.com/v1'
+    );
+    expect(doc).toMatchObject({ operationId: 'getRepo', requestPath: '/repos/acme/widgets/' });
+  });
+
+  test('prefers the template with more literal segments', () => {
+    const doc = findDocumentedOperation(sources(), 'GET', 'https://api.example.com/v1/repos/acme/settings', 'https://api.example.com');
+    expect(doc).toMatchObject({ operationId: 'getOwnerSettings', summary: 'getOwnerSettings', hints: ['deprecated'] });
+  });
+
+  test('matches parameters inside a segment', () => {
+    const doc = findDocumentedOperation(sources(), 'GET', 'https://api.example.com/v1/files/report.json', 'https://api.example.com');
+    expect(doc?.operationId).toBe('getFile');
+    expect(findDocumentedOperation(sources(), 'GET', 'https://api.example.com/v1/files/a/b.json', 'https://api.example.com')).toBeNull();
+  });
+
+  test('matches a markdown section by its heading, up to the next heading of the same level', () => {
+    const doc = findDocumentedOperation(
+      sources({ operations: [], markdown: [markdown] }),
+      'DELETE',
+      'https://cache.example.com/cache',
+      'https://cache.example.com'
+    );
+    expect(doc).toMatchObject({
+      source: 'markdown',
+      method: 'DELETE',
+      path: '/cache',
+      summary: 'DELETE /cache — Clear the cache',
+      description: 'Removes every cached entry.\n\n### Notes\nSafe to call at any time.',
+      hints: ['destructive wording: "removes"', 'limited-effect wording: "cache"'],
+      requestPath: '/cache',
+    });
+  });
+
+  test('prefers OpenAPI operations over markdown', () => {
+    const doc = findDocumentedOperation(
+      sources({ markdown: ['## DELETE /repos/{owner}/{repo}\nGone.'] }),
+      'DELETE',
+      'https://api.example.com/v1/repos/acme/widgets',
+      'https://api.example.com'
+    );
+    expect(doc?.source).toBe('openapi');
+  });
+
+  test('returns null when nothing documents the method and path', () => {
+    expect(findDocumentedOperation(sources(), 'POST', 'https://api.example.com/v1/repos/acme/widgets', 'https://api.example.com')).toBeNull();
+    expect(findDocumentedOperation(sources(), 'GET', 'not a url', 'https://api.example.com')).toBeNull();
+  });
+});
+
+describe('formatDocumentedOperation', () => {
+  const doc: DocumentedOperation = {
+    source: 'openapi',
+    method: 'DELETE',
+    path: '/repos/{owner}/{repo}',
+    operationId: 'deleteRepo',
+    riskLevel: 'high',
+    summary: 'Delete a repository',
+    description: 'Permanently deletes the repository.',
+    hints: ['destructive wording: "permanently"'],
+    requestContract: null,
+    requestPath: '/repos/acme/widgets',
+  };
+
+  test('lists the summary, risk level, hints and description', () => {
+    expect(formatDocumentedOperation(doc)).toBe(
+      [
+        'API documentation for DELETE /repos/{owner}/{repo} (openapi):',
+        'Summary: Delete a repository',
+        'Catalog risk level: high',
+        'Hints: destructive wording: "permanently"',
+        'Description: Permanently deletes the repository.',
+      ].join('\n')
+    );
+  });
+
+  test('trims the description first to fit', () => {
+    const long = { ...doc, description: 'x'.repeat(500) };
+    const text = formatDocumentedOperation(long, 300);
+    expect(text).toHaveLength(300);
+    expect(text).toStartWith(formatDocumentedOperation({ ...doc, description: null }));
+    expect(text).toEndWith('x...');
+  });
+
+  test('cuts the header when there is no room for a description', () => {
+    expect(formatDocumentedOperation(doc, 40)).toHaveLength(40);
+  });
+});
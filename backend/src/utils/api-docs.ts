@@ -0,0 +1,486 @@
+// API documentation parsing and lookup for risk assessment
+// OpenAPI documents are indexed per operation; requests are matched to an operation or markdown section by method and path
+
+import { YAML } from 'bun';
+import type { OpenApiDocumentSummary, OperationRiskLevel, OperationRequestContract, CredentialPlacement } from '@/db/schema';
+import { extractRequestContract, asObject, asStringArray, type OpenApiObject } from '@/utils/openapi-validation';
+
+/**
+ * Documentation for one endpoint, as shown to the risk assessor.
+ */
+export interface DocumentedOperation {
+  source: 'openapi' | 'markdown';
+  method: string;
+  path: string;               // documented path template, e.g. /repos/{owner}/{repo}
+  operationId: string | null; // OpenAPI only
+  riskLevel: OperationRiskLevel | null; // catalog default (OpenAPI only)
+  summary: string | null;
+  description: string | null;
+  hints: string[];            // destructive-ness hints, e.g. 'deprecated', 'mentions "permanently"'
+  requestContract: OperationRequestContract | null; // OpenAPI only, for request validation
+  requestPath: string;        // the request path as matched against `path` (service/spec base path stripped)
+}
+
+/**
+ * One OpenAPI operation as stored in documentation_operations.
+ */
+export interface IndexedOperation {
+  method: string;             // uppercase
+  path: string;               // path template
+  operationId: string | null;
+  summary: string | null;
+  description: string | null;
+  deprecated: boolean;
+  hints: string[];
+  tags: string[];
+  riskLevel: OperationRiskLevel;
+  requestContract: OperationRequestContract | null;
+}
+
+/**
+ * Service settings read from an OpenAPI document, for creating a service from it.
+ */
+export interface OpenApiServiceSettings {
+  baseUrl: string | null;           // first absolute http(s) server URL
+  authType: 'api_key' | 'bearer' | 'basic' | 'oauth2' | 'sigv4' | null; // first security scheme the gateway can inject
+  credentialPlacements: CredentialPlacement[] | null; // where api_key schemes put the key ({api_key})
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * Most operations indexed from one document.
+ */
+const MAX_INDEXED_OPERATIONS = 5000;
+
+/**
+ * Wording in operation docs that marks an endpoint as destructive or irreversible.
+ */
+const DESTRUCTIVE_PHRASES = [
+  'permanently',
+  'irreversible',
+  'cannot be undone',
+  'can not be undone',
+  'destroys',
+  'deletes',
+  'removes',
+  'purges',
+  'wipes',
+  'all data',
+  'cascade',
+];
+
+/**
+ * Wording that marks an endpoint as safe to repeat or limited in effect.
+ */
+const BENIGN_PHRASES = ['idempotent', 'read-only', 'dry run', 'dry-run', 'no side effects', 'cache'];
+
+/**
+ * OpenAPI vendor extensions some specs use to flag operations.
+ */
+const DESTRUCTIVE_EXTENSIONS = ['x-destructive', 'x-irreversible', 'x-dangerous'];
+
+/**
+ * Tags that mark an operation as touching money, access control or administration.
+ */
+const SENSITIVE_TAG_PATTERN = /admin|billing|payment|charge|refund|payout|transfer|invoice|auth|permission|security|secret|key/i;
+
+const RISK_LEVELS: OperationRiskLevel[] = ['low', 'medium', 'high'];
+
+/**
+ * Characters of documentation included in the risk prompt (~400 tokens).
+ */
+export const DOC_CONTEXT_MAX_CHARS = 1600;
+
+/**
+ * Compile a documented path template to a regex. Both OpenAPI ({id}) and
+ * colon (:id) parameters match exactly one path segment.
+ */
+function pathTemplateToRegExp(template: string): RegExp {
+  const pattern = template
+    .replace(/\/+$/, '')
+    .split('/')
+    .map((segment) =>
+      /^\{[^}]+\}$/.test(segment) || /^:\w+$/.test(segment)
+        ? '[^/]+'
+        : segment.replace(/\{[^}]+\}/g, '\u0000').replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\u0000/g, '[^/]+')
+    )
+    .join('/');
+  return new RegExp(`^${pattern}/?$`);
+}
+
+/**
+ * Literal (non-parameter) segments in a template — more literal segments = more specific match,
+ * so /repos/{owner}/settings wins over /repos/{owner}/{repo}.
+ */
+function literalSegments(template: string): number {
+  return template.split('/').filter((segment) => segment && !segment.includes('{') && !segment.startsWith(':')).length;
+}
+
+function stripPrefix(path: string, prefix: string): string | null {
+  const base = prefix.replace(/\/+$/, '');
+  if (!base) return path;
+  if (path === base) return '/';
+  return path.startsWith(`${base}/`) ? path.slice(base.length) : null;
+}
+
+/**
+ * Paths the request may be documented under: as sent, relative to the service base URL,
+ * and relative to the spec's own base path (OpenAPI servers / Swagger basePath).
+ */
+function candidatePaths(requestPath: string, prefixes: string[]): string[] {
+  const paths = new Set([requestPath]);
+  for (const prefix of prefixes) {
+    const stripped = stripPrefix(requestPath, prefix);
+    if (stripped) paths.add(stripped);
+  }
+  return [...paths];
+}
+
+/**
+ * The document's server objects that have a URL.
+ */
+function specServers(spec: OpenApiObject): Array<OpenApiObject & { url: string }> {
+  return (Array.isArray(spec.servers) ? spec.servers : [])
+    .map(asObject)
+    .filter((server): server is OpenApiObject & { url: string } => typeof server?.url === 'string');
+}
+
+function specBasePaths(spec: OpenApiObject): string[] {
+  const bases: string[] = [];
+  if (typeof spec.basePath === 'string') bases.push(spec.basePath);
+  for (const server of specServers(spec)) {
+    try {
+      bases.push(new URL(server.url, 'http://placeholder').pathname);
+    } catch {
+      // Templated or malformed server URL — ignore
+    }
+  }
+  return bases;
+}
+
+/**
+ * Destructive-ness hints from the documented text and flags.
+ */
+function collectHints(text: string, flags: { extensions?: string[] } = {}): string[] {
+  const lower = text.toLowerCase();
+  const hints: string[] = [];
+  for (const extension of flags.extensions ?? []) hints.push(`flagged ${extension}`);
+  const destructive = DESTRUCTIVE_PHRASES.filter((phrase) => lower.includes(phrase));
+  if (destructive.length > 0) hints.push(`destructive wording: ${destructive.map((p) => `"${p}"`).join(', ')}`);
+  const benign = BENIGN_PHRASES.filter((phrase) => lower.includes(phrase));
+  if (benign.length > 0) hints.push(`limited-effect wording: ${benign.map((p) => `"${p}"`).join(', ')}`);
+  return hints;
+}
+
+/**
+ * Default risk of an operation: reads are low, writes medium, deletes high. A sensitive tag
+ * raises it one level; a destructive vendor extension makes it high.
+ */
+export function inferRiskLevel(method: string, tags: string[], destructiveExtensions: string[] = []): OperationRiskLevel {
+  if (destructiveExtensions.length > 0) return 'high';
+  const upper = method.toUpperCase();
+  let level = upper === 'DELETE' ? 2 : ['GET', 'HEAD', 'OPTIONS', 'TRACE'].includes(upper) ? 0 : 1;
+  if (tags.some((tag) => SENSITIVE_TAG_PATTERN.test(tag))) level = Math.min(level + 1, 2);
+  return RISK_LEVELS[level]!;
+}
+
+/**
+ * Substitute server variables ({region}) with their defaults.
+ */
+function expandServerUrl(server: OpenApiObject & { url: string }): string {
+  const variables = asObject(server.variables) ?? {};
+  return server.url.replace(/\{([^}]+)\}/g, (placeholder, name: string) => {
+    const fallback = asObject(variables[name])?.default;
+    return typeof fallback === 'string' ? fallback : placeholder;
+  });
+}
+
+function specBaseUrl(spec: OpenApiObject): string | null {
+  const candidates = specServers(spec).map(expandServerUrl);
+  if (typeof spec.host === 'string') {
+    const schemes = asStringArray(spec.schemes) ?? ['https'];
+    const scheme = schemes.includes('https') ? 'https' : schemes[0];
+    candidates.push(`${scheme}://${spec.host}${typeof spec.basePath === 'string' ? spec.basePath : ''}`);
+  }
+  for (const candidate of candidates) {
+    try {
+      const url = new URL(candidate);
+      if (url.protocol === 'https:' || url.protocol === 'http:') return url.toString().replace(/\/+$/, '');
+    } catch {
+      // Relative or still-templated URL — not usable as a base URL
+    }
+  }
+  return null;
+}
+
+const API_KEY_LOCATIONS = ['header', 'query', 'cookie'] as const;
+
+/**
+ * The document's security schemes (OpenAPI 3 components.securitySchemes, Swagger 2.0 securityDefinitions).
+ */
+function specSecuritySchemes(spec: OpenApiObject): OpenApiObject {
+  return asObject(asObject(spec.components)?.securitySchemes) ?? asObject(spec.securityDefinitions) ?? {};
+}
+
+/**
+ * The first security scheme the gateway can inject, preferring those the document requires globally.
+ * API keys (header, query or cookie) come with the placement of the key.
+ */
+function specAuth(spec: OpenApiObject): Pick<OpenApiServiceSettings, 'authType' | 'credentialPlacements'> {
+  const none = { credentialPlacements: null };
+  const schemes = specSecuritySchemes(spec);
+  const required = (Array.isArray(spec.security) ? spec.security : [])
+    .flatMap((requirement: unknown) => Object.keys(asObject(requirement) ?? {}));
+  const names = [...new Set<string>([...required, ...Object.keys(schemes)])];
+
+  for (const name of names) {
+    const scheme = asObject(schemes[name]);
+    if (!scheme) continue;
+    const httpScheme = typeof scheme.scheme === 'string' ? scheme.scheme.toLowerCase() : '';
+    if (scheme.type === 'http' && httpScheme === 'bearer') return { authType: 'bearer', ...none };
+    if ((scheme.type === 'http' && httpScheme === 'basic') || scheme.type === 'basic') return { authType: 'basic', ...none };
+    // API Gateway exports describe IAM auth as an apiKey scheme on the Authorization header
+    if (scheme['x-amazon-apigateway-authtype'] === 'awsSigv4') return { authType: 'sigv4', ...none };
+    const location = API_KEY_LOCATIONS.find((value) => value === scheme.in);
+    if (scheme.type === 'apiKey' && location && typeof scheme.name === 'string' && scheme.name) {
+      return { authType: 'api_key', credentialPlacements: [{ in: location, name: scheme.name, value: '{api_key}' }] };
+    }
+    if (scheme.type === 'oauth2' || scheme.type === 'openIdConnect') return { authType: 'oauth2', ...none };
+  }
+  return { authType: null, ...none };
+}
+
+/**
+ * Header names of the document's apiKey security schemes — injected by the gateway, so a
+ * header parameter of the same name isn't expected from the agent.
+ */
+function specCredentialHeaders(spec: OpenApiObject): string[] {
+  return Object.values(specSecuritySchemes(spec))
+    .map(asObject)
+    .filter((scheme) => scheme?.type === 'apiKey' && scheme.in === 'header')
+    .map((scheme) => scheme!.name)
+    .filter((name): name is string => typeof name === 'string');
+}
+
+/**
+ * Parse and validate an OpenAPI 3.x or Swagger 2.0 document (JSON or YAML) and index its operations.
+ *
+ * @throws Error with a user-facing message if the text isn't a usable OpenAPI document
+ */
+export function parseOpenApiDocument(text: string): {
+  summary: OpenApiDocumentSummary;
+  operations: IndexedOperation[];
+  settings: OpenApiServiceSettings;
+} {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    try {
+      parsed = YAML.parse(text);
+    } catch (error) {
+      throw new Error(`Not valid JSON or YAML: ${error instanceof Error ? error.message : 'parse error'}`);
+    }
+  }
+
+  const spec = asObject(parsed);
+  if (!spec) {
+    throw new Error('OpenAPI document must be an object');
+  }
+  const specVersion = typeof spec.openapi === 'string' ? spec.openapi : spec.swagger === '2.0' ? '2.0' : null;
+  if (!specVersion || (specVersion !== '2.0' && !specVersion.startsWith('3.'))) {
+    throw new Error('Missing or unsupported version: expected "openapi: 3.x" or "swagger: 2.0"');
+  }
+  const paths = asObject(spec.paths);
+  if (!paths) {
+    throw new Error('OpenAPI document has no paths object');
+  }
+
+  const credentialHeaders = specCredentialHeaders(spec);
+  const operations: IndexedOperation[] = [];
+  for (const [path, value] of Object.entries(paths)) {
+    const item = asObject(value);
+    if (!path.startsWith('/') || !item) continue;
+    for (const method of HTTP_METHODS) {
+      const operation = asObject(item[method]);
+      if (!operation) continue;
+      if (operations.length >= MAX_INDEXED_OPERATIONS) {
+        throw new Error(`OpenAPI document has more than ${MAX_INDEXED_OPERATIONS} operations`);
+      }
+
+      const operationId = typeof operation.operationId === 'string' ? operation.operationId.substring(0, 255) : null;
+      const summary = typeof operation.summary === 'string' ? operation.summary : null;
+      const description = typeof operation.description === 'string' ? operation.description : null;
+      const deprecated = operation.deprecated === true;
+      const tags = asStringArray(operation.tags) ?? [];
+      const extensions = DESTRUCTIVE_EXTENSIONS.filter((name) => operation[name] === true);
+      operations.push({
+        method: method.toUpperCase(),
+        path,
+        operationId,
+        summary,
+        description,
+        deprecated,
+        hints: collectHints(`${operationId ?? ''} ${summary ?? ''} ${description ?? ''}`, { extensions }),
+        tags,
+        riskLevel: inferRiskLevel(method, tags, extensions),
+        requestContract: extractRequestContract(spec, item, operation, credentialHeaders),
+      });
+    }
+  }
+
+  const info = asObject(spec.info);
+  return {
+    summary: {
+      specVersion,
+      title: typeof info?.title === 'string' ? info.title : null,
+      apiVersion: typeof info?.version === 'string' ? info.version : null,
+      basePaths: specBasePaths(spec),
+      operationCount: operations.length,
+    },
+    operations,
+    settings: { baseUrl: specBaseUrl(spec), ...specAuth(spec) },
+  };
+}
+
+/**
+ * The most specific indexed operation matching the request's method and path.
+ */
+function findInOperations(operations: IndexedOperation[], method: string, paths: string[]): DocumentedOperation | null {
+  let best: IndexedOperation | null = null;
+  let bestPath = '';
+  for (const operation of operations) {
+    if (operation.method !== method.toUpperCase()) continue;
+    const regex = pathTemplateToRegExp(operation.path);
+    const matched = paths.find((path) => regex.test(path));
+    if (matched === undefined) continue;
+    if (!best || literalSegments(operation.path) > literalSegments(best.path)) {
+      best = operation;
+      bestPath = matched;
+    }
+  }
+  if (!best) return null;
+
+  return {
+    source: 'openapi',
+    method: best.method,
+    path: best.path,
+    operationId: best.operationId,
+    riskLevel: best.riskLevel,
+    summary: best.summary ?? best.operationId,
+    description: best.description,
+    hints: best.deprecated ? ['deprecated', ...best.hints] : best.hints,
+    requestContract: best.requestContract,
+    requestPath: bestPath,
+  };
+}
+
+/**
+ * Markdown sections whose heading names an endpoint, e.g. "## DELETE /repos/{owner}/{repo}"
+ * or "### `DELETE /cache` — Clear the cache". The section runs until the next heading of the
+ * same or a higher level.
+ */
+function findInMarkdown(markdown: string, method: string, paths: string[]): DocumentedOperation | null {
+  const lines = markdown.split('\n');
+  const headingPattern = /^(#{1,6})\s+(.*)$/;
+  const endpointPattern = /\b(GET|PUT|POST|DELETE|PATCH|HEAD|OPTIONS)\s+`?(\/[^\s`]*)/i;
+
+  let best: { template: string; matched: string; title: string; level: number; start: number } | null = null;
+  for (const [index, line] of lines.entries()) {
+    const heading = line.match(headingPattern);
+    const endpoint = heading?.[2]!.match(endpointPattern);
+    if (!heading || !endpoint || endpoint[1]!.toUpperCase() !== method.toUpperCase()) continue;
+    const template = endpoint[2]!;
+    const matched = paths.find((path) => pathTemplateToRegExp(template).test(path));
+    if (matched === undefined) continue;
+    if (!best || literalSegments(template) > literalSegments(best.template)) {
+      best = { template, matched, title: heading[2]!.replace(/`/g, '').trim(), level: heading[1]!.length, start: index };
+    }
+  }
+  if (!best) return null;
+
+  const { template, matched, title, level, start } = best;
+  const body: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    const heading = line.match(headingPattern);
+    if (heading && heading[1]!.length <= level) break;
+    body.push(line);
+  }
+  const description = body.join('\n').trim() || null;
+  return {
+    source: 'markdown',
+    method: method.toUpperCase(),
+    path: template,
+    operationId: null,
+    riskLevel: null,
+    summary: title,
+    description,
+    hints: collectHints(`${title} ${description ?? ''}`),
+    requestContract: null,
+    requestPath: matched,
+  };
+}
+
+/**
+ * A service's documentation, as needed for matching requests.
+ */
+export interface DocumentationSources {
+  operations: IndexedOperation[]; // indexed OpenAPI operations
+  basePaths: string[];            // base paths of the service's OpenAPI documents
+  markdown: string[];             // markdown documents
+}
+
+/**
+ * Find the documented operation matching a request among a service's documentation.
+ * OpenAPI operations are preferred over markdown sections; URL-type docs (not fetched) aren't used.
+ *
+ * @param sources - The service's indexed operations and markdown documents
+ * @param method - HTTP method of the request
+ * @param targetUrl - Full target URL
+ * @param baseUrl - Service base URL (its path prefix is stripped before matching)
+ * @returns The best match, or null if nothing documents this method and path
+ */
+export function findDocumentedOperation(
+  sources: DocumentationSources,
+  method: string,
+  targetUrl: string,
+  baseUrl: string
+): DocumentedOperation | null {
+  let requestPath: string;
+  let basePath: string;
+  try {
+    requestPath = decodeURI(new URL(targetUrl).pathname);
+    basePath = new URL(baseUrl).pathname;
+  } catch {
+    return null;
+  }
+
+  const openApiMatch = findInOperations(sources.operations, method, candidatePaths(requestPath, [basePath, ...sources.basePaths]));
+  if (openApiMatch) return openApiMatch;
+
+  const markdownPaths = candidatePaths(requestPath, [basePath]);
+  for (const markdown of sources.markdown) {
+    const match = findInMarkdown(markdown, method, markdownPaths);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Documentation block for the risk prompt, cut to maxChars (the description is trimmed first).
+ */
+export function formatDocumentedOperation(doc: DocumentedOperation, maxChars: number = DOC_CONTEXT_MAX_CHARS): string {
+  const head = [
+    `API documentation for ${doc.method} ${doc.path} (${doc.source}):`,
+    doc.summary ? `Summary: ${doc.summary}` : null,
+    doc.riskLevel ? `Catalog risk level: ${doc.riskLevel}` : null,
+    doc.hints.length > 0 ? `Hints: ${doc.hints.join('; ')}` : null,
+  ].filter(Boolean).join('\n');
+  if (!doc.description) return head.substring(0, maxChars);
+
+  const room = maxChars - head.length - '\nDescription: '.length;
+  if (room <= 0) return head.substring(0, maxChars);
+  const description = doc.description.length > room ? `${doc.description.substring(0, room - 3)}...` : doc.description;
+  return `${head}\nDescription: ${description}`;
+}
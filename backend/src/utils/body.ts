@@ -0,0 +1,177 @@
+// Binary-safe body encoding for proxied request and response bodies
+// Bodies are stored in text columns, so non-UTF-8 payloads are base64-encoded
+
+/**
+ * How a stored body is encoded in its text column.
+ * - utf8: body is the literal response text
+ * - base64: body is base64 of the raw bytes (binary payloads)
+ * - none: body was not cacheable (too large or stream aborted) — column is null
+ */
+export type BodyEncoding = 'utf8' | 'base64' | 'none';
+
+export interface StoredBody {
+  body: string | null;
+  encoding: BodyEncoding;
+}
+
+const strictUtf8 = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Encode raw body bytes for storage.
+ * Valid UTF-8 is stored as text (readable in the dashboard); anything else as base64.
+ */
+export function encodeBody(bytes: Uint8Array): StoredBody {
+  try {
+    return { body: strictUtf8.decode(bytes), encoding: 'utf8' };
+  } catch {
+    return { body: Buffer.from(bytes).toString('base64'), encoding: 'base64' };
+  }
+}
+
+/**
+ * Marker for a body that was deliberately not stored.
+ */
+export const UNCACHED_BODY: StoredBody = { body: null, encoding: 'none' };
+
+/**
+ * Decode a stored body back into something a Response can be built from.
+ * Rows written before encodings were tracked have a null encoding and are plain text.
+ */
+export function decodeBody(body: string | null, encoding: string | null): Uint8Array | string | null {
+  if (body === null || encoding === 'none') return null;
+  if (encoding === 'base64') return new Uint8Array(Buffer.from(body, 'base64'));
+  return body;
+}
+
+// ============================================================================
+// Request bodies
+// ============================================================================
+
+/**
+ * How an agent-supplied request body is encoded.
+ * - utf8: body is sent as-is
+ * - base64: body is base64 of raw bytes (binary uploads)
+ * - multipart: body is a JSON array of MultipartPart, sent as multipart/form-data
+ */
+export type RequestBodyEncoding = 'utf8' | 'base64' | 'multipart';
+
+export interface MultipartPart {
+  name: string;
+  value: string;
+  encoding?: 'utf8' | 'base64'; // encoding of value (default utf8)
+  filename?: string;
+  contentType?: string;
+}
+
+export interface StoredRequestBody {
+  body: string | null; // text, base64, or JSON-serialized MultipartPart[]
+  encoding: RequestBodyEncoding;
+}
+
+/**
+ * Summary of a non-text body for risk assessment and the dashboard — never the raw bytes.
+ */
+export interface RequestBodySummary {
+  size: number;
+  parts?: Array<{ name: string; filename: string | null; contentType: string | null; size: number }>;
+}
+
+function partBytes(part: MultipartPart): Uint8Array {
+  return part.encoding === 'base64'
+    ? new Uint8Array(Buffer.from(part.value, 'base64'))
+    : new TextEncoder().encode(part.value);
+}
+
+/**
+ * Parse the multipart envelope stored for a request. Throws on malformed JSON.
+ */
+export function parseMultipartParts(body: string): MultipartPart[] {
+  return JSON.parse(body) as MultipartPart[];
+}
+
+export type RequestBodyInit = string | Uint8Array | FormData;
+
+/**
+ * Turn a stored request body into something fetch can send.
+ * Multipart bodies become FormData — fetch generates the boundary and Content-Type.
+ */
+export function materializeRequestBody(stored: StoredRequestBody): RequestBodyInit | null {
+  if (stored.body === null) return null;
+
+  switch (stored.encoding) {
+    case 'base64':
+      return new Uint8Array(Buffer.from(stored.body, 'base64'));
+    case 'multipart': {
+      const form = new FormData();
+      for (const part of parseMultipartParts(stored.body)) {
+        if (part.filename !== undefined || part.encoding === 'base64' || part.contentType) {
+          const blob = new Blob([partBytes(part)], { type: part.contentType ?? 'application/octet-stream' });
+          form.append(part.name, blob, part.filename ?? part.name);
+        } else {
+          form.append(part.name, part.value);
+        }
+      }
+      return form;
+    }
+    default:
+      return stored.body;
+  }
+}
+
+/**
+ * Size of an outgoing request body in bytes. Multipart bodies count part contents only,
+ * not the boundary framing fetch adds.
+ */
+export function requestBodyByteLength(body: RequestBodyInit): number {
+  if (typeof body === 'string') return Buffer.byteLength(body);
+  if (body instanceof Uint8Array) return body.byteLength;
+
+  let total = 0;
+  body.forEach((value) => {
+    total += typeof value === 'string' ? Buffer.byteLength(value) : value.size;
+  });
+  return total;
+}
+
+/**
+ * Summarize a stored request body (sizes, filenames, content types). Returns null for text bodies,
+ * which are shown verbatim.
+ */
+export function summarizeRequestBody(stored: StoredRequestBody): RequestBodySummary | null {
+  if (stored.body === null || stored.encoding === 'utf8') return null;
+
+  if (stored.encoding === 'base64') {
+    return { size: Buffer.from(stored.body, 'base64').byteLength };
+  }
+
+  const parts = parseMultipartParts(stored.body).map((part) => ({
+    name: part.name,
+    filename: part.filename ?? null,
+    contentType: part.contentType ?? null,
+    size: partBytes(part).byteLength,
+  }));
+  return { size: parts.reduce((sum, p) => sum + p.size, 0), parts };
+}
+
+/**
+ * Describe a stored request body as text for the LLM risk prompt.
+ * Text bodies pass through; binary bodies are summarized; multipart text fields keep their
+ * values (they are usually form inputs), file parts are summarized.
+ */
+export function describeRequestBody(stored: StoredRequestBody, contentType?: string): string | null {
+  if (stored.body === null || stored.encoding === 'utf8') return stored.body;
+
+  if (stored.encoding === 'base64') {
+    const summary = summarizeRequestBody(stored)!;
+    return `(binary body, ${summary.size} bytes${contentType ? `, ${contentType}` : ''})`;
+  }
+
+  const lines = parseMultipartParts(stored.body).map((part) => {
+    if (part.filename === undefined && part.encoding !== 'base64') {
+      return `- field "${part.name}": ${part.value.substring(0, 200)}`;
+    }
+    return `- file "${part.name}": filename=${part.filename ?? '(none)'}, ` +
+      `type=${part.contentType ?? 'application/octet-stream'}, ${partBytes(part).byteLength} bytes`;
+  });
+  return `multipart/form-data with ${lines.length} part(s):\n${lines.join('\n')}`;
+}
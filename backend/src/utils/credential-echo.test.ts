@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'bun:test';
+import { createEchoScrubber, scrubText, secretVariants } from '@/utils/credential-echo';
+
+const SECRET = 'sk_live_abcdef123456';
+
+/**
+ * Run chunks through a scrubber; returns the output text and the per-chunk scrub counts.
+ */
+async function scrubChunks(variants: string[], chunks: string[]): Promise<{ text: string; counts: number[] }> {
+  const counts: number[] = [];
+  const encoder = new TextEncoder();
+  const input = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  const text = await new Response(input.pipeThrough(createEchoScrubber(variants, (count) => counts.push(count)))).text();
+  return { text, counts };
+}
+
+/**
+ * Split text into chunks at the given offsets.
+ */
+function splitAt(text: string, offsets: number[]): string[] {
+  return [0, ...offsets].map((start, i) => text.slice(start, offsets[i] ?? text.length));
+}
+
+describe('secretVariants', () => {
+  test('covers raw, base64 and URL-encoded forms, longest first', () => {
+    const variants = secretVariants(['p@ss word+/?']);
+    expect(variants).toContain('p@ss word+/?');
+    expect(variants).toContain(Buffer.from('p@ss word+/?').toString('base64').replace(/=+$/, ''));
+    expect(variants).toContain(encodeURIComponent('p@ss word+/?'));
+    expect(variants).toContain('p%40ss+word%2B%2F%3F');
+    expect(variants.map((variant) => variant.length)).toEqual(
+      [...variants].map((variant) => variant.length).sort((a, b) => b - a)
+    );
+  });
+
+  test('skips short secrets', () => {
+    expect(secretVariants(['admin'])).toEqual([]);
+  });
+});
+
+describe('scrubText', () => {
+  test('replaces every occurrence of every variant', () => {
+    const encoded = Buffer.from(SECRET).toString('base64').replace(/=+$/, '');
+    const result = scrubText(`key=${SECRET} again=${SECRET} b64=${encoded}`, secretVariants([SECRET]));
+    expect(result).toEqual({ text: 'key=[REDACTED] again=[REDACTED] b64=[REDACTED]', count: 3 });
+  });
+});
+
+describe('createEchoScrubber', () => {
+  const body = `{"echo":"${SECRET}","ok":true}`;
+  const start = body.indexOf(SECRET);
+
+  test('scrubs a secret within one chunk', async () => {
+    const result = await scrubChunks(secretVariants([SECRET]), [body]);
+    expect(result.text).toBe('{"echo":"[REDACTED]","ok":true}');
+    expect(result.counts).toEqual([1]);
+  });
+
+  test('scrubs a secret split across two chunks', async () => {
+    for (let split = start + 1; split < start + SECRET.length; split++) {
+      const result = await scrubChunks(secretVariants([SECRET]), splitAt(body, [split]));
+      expect(result.text).toBe('{"echo":"[REDACTED]","ok":true}');
+      expect(result.counts).toEqual([1]);
+    }
+  });
+
+  test('scrubs a secret spread over many small chunks', async () => {
+    const chunks = splitAt(body, Array.from({ length: body.length - 1 }, (_, i) => i + 1));
+    const result = await scrubChunks(secretVariants([SECRET]), chunks);
+    expect(result.text).toBe('{"echo":"[REDACTED]","ok":true}');
+    expect(result.counts).toEqual([1]);
+  });
+
+  test('scrubs encoded echoes and repeated secrets across chunks', async () => {
+    const encoded = Buffer.from(SECRET).toString('base64').replace(/=+$/, '');
+    const text = `a=${SECRET}&b=${encoded}&c=${SECRET}`;
+    const result = await scrubChunks(secretVariants([SECRET]), splitAt(text, [10, 30, 45]));
+    expect(result.text).toBe('a=[REDACTED]&b=[REDACTED]&c=[REDACTED]');
+    expect(result.counts.reduce((sum, count) => sum + count, 0)).toBe(3);
+  });
+
+  test('passes through text without secrets, including a held-back partial match', async () => {
+    const text = `no secret here, just ${SECRET.slice(0, -1)}`;
+    const result = await scrubChunks(secretVariants([SECRET]), splitAt(text, [5, 20]));
+    expect(result.text).toBe(text);
+    expect(result.counts).toEqual([]);
+  });
+});
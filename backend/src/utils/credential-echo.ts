@@ -0,0 +1,113 @@
+// Credential echo protection: scrubs the secrets the gateway injected from upstream responses
+// Covers raw values and their base64 / URL-encoded forms, in headers and (streamed) bodies
+
+const REPLACEMENT = '[REDACTED]';
+
+/**
+ * Secrets shorter than this aren't scrubbed from bodies — a short password like "admin" would
+ * corrupt unrelated response text. Their header echoes are still caught by the Authorization value.
+ */
+const MIN_SECRET_LENGTH = 6;
+
+/**
+ * Every form in which an injected secret could be echoed back: raw, base64 (standard and URL-safe,
+ * padding dropped so both padded and unpadded echoes match), percent-encoded and form-encoded.
+ */
+export function secretVariants(secrets: string[]): string[] {
+  const variants = new Set<string>();
+  for (const secret of secrets) {
+    if (secret.length < MIN_SECRET_LENGTH) continue;
+    const base64 = Buffer.from(secret).toString('base64').replace(/=+$/, '');
+    variants.add(secret);
+    variants.add(base64);
+    variants.add(base64.replace(/\+/g, '-').replace(/\//g, '_'));
+    variants.add(encodeURIComponent(secret));
+    variants.add(encodeURIComponent(secret).replace(/%20/g, '+'));
+  }
+  // Longest first, so a longer form wins over a shorter one it contains
+  return [...variants].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Replace every variant occurring in a header or other short text.
+ */
+export function scrubText(text: string, variants: string[]): { text: string; count: number } {
+  let count = 0;
+  for (const variant of variants) {
+    const parts = text.split(variant);
+    if (parts.length > 1) {
+      count += parts.length - 1;
+      text = parts.join(REPLACEMENT);
+    }
+  }
+  return { text, count };
+}
+
+/**
+ * Scrub response header values. Returns the scrubbed headers and the names of headers that echoed a secret.
+ */
+export function scrubHeaders(
+  headers: Record<string, string>,
+  variants: string[]
+): { headers: Record<string, string>; echoed: string[] } {
+  const result: Record<string, string> = {};
+  const echoed: string[] = [];
+  for (const [name, value] of Object.entries(headers)) {
+    const scrubbed = scrubText(value, variants);
+    if (scrubbed.count > 0) echoed.push(name);
+    result[name] = scrubbed.text;
+  }
+  return { headers: result, echoed };
+}
+
+/**
+ * Byte stream transform that replaces every variant in a body, including occurrences split across
+ * chunks: the last (longest variant − 1) bytes of each chunk are held back until the next one arrives.
+ *
+ * @param onScrub - Called with the number of occurrences replaced in each chunk
+ */
+export function createEchoScrubber(
+  variants: string[],
+  onScrub: (count: number) => void
+): TransformStream<Uint8Array, Uint8Array> {
+  const patterns = variants.map((variant) => Buffer.from(variant));
+  const replacement = Buffer.from(REPLACEMENT);
+  const holdBack = Math.max(0, ...patterns.map((pattern) => pattern.length - 1));
+  let tail = Buffer.alloc(0);
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      const buffer = Buffer.concat([tail, chunk]);
+      const output: Buffer[] = [];
+      let position = 0;
+      let count = 0;
+
+      for (;;) {
+        let matchAt = -1;
+        let matchLength = 0;
+        for (const pattern of patterns) {
+          const index = buffer.indexOf(pattern, position);
+          if (index !== -1 && (matchAt === -1 || index < matchAt)) {
+            matchAt = index;
+            matchLength = pattern.length;
+          }
+        }
+        if (matchAt === -1) break;
+        output.push(buffer.subarray(position, matchAt), replacement);
+        position = matchAt + matchLength;
+        count++;
+      }
+
+      const keepFrom = Math.max(position, buffer.length - holdBack);
+      output.push(buffer.subarray(position, keepFrom));
+      tail = Buffer.from(buffer.subarray(keepFrom));
+
+      if (count > 0) onScrub(count);
+      const out = Buffer.concat(output);
+      if (out.length > 0) controller.enqueue(new Uint8Array(out));
+    },
+    flush(controller) {
+      if (tail.length > 0) controller.enqueue(new Uint8Array(tail));
+    },
+  });
+}
@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'bun:test';
+import type { CredentialPlacement } from '@/db/schema';
+import {
+  DEFAULT_API_KEY_PLACEMENT,
+  legacyApiKeyPlacement,
+  missingPlacementCredentials,
+  placementReferences,
+  renderPlacement,
+} from '@/utils/credential-placement';
+
+const placements: CredentialPlacement[] = [
+  { in: 'header', name: 'Authorization', value: 'Token {token}' },
+  { in: 'query', name: 'sig', value: '{account}:{secret}' },
+  { in: 'cookie', name: 'session', value: '{token}' },
+];
+
+describe('placementReferences', () => {
+  test('lists the credential keys a template references', () => {
+    expect(placementReferences('Token {token}')).toEqual(['token']);
+    expect(placementReferences('{account}:{secret}')).toEqual(['account', 'secret']);
+    expect(placementReferences('static value')).toEqual([]);
+  });
+});
+
+describe('missingPlacementCredentials', () => {
+  test('is empty when every reference resolves', () => {
+    expect(missingPlacementCredentials(placements, ['token', 'account', 'secret'])).toEqual([]);
+  });
+
+  test('reports unresolved keys once, in order', () => {
+    expect(missingPlacementCredentials(placements, ['account'])).toEqual(['token', 'secret']);
+  });
+
+  test('the default api_key placement needs api_key', () => {
+    expect(missingPlacementCredentials([DEFAULT_API_KEY_PLACEMENT], [])).toEqual(['api_key']);
+    expect(missingPlacementCredentials([DEFAULT_API_KEY_PLACEMENT], ['api_key'])).toEqual([]);
+  });
+});
+
+describe('renderPlacement', () => {
+  test('fills every reference with its credential value', () => {
+    const creds = { token: 'tok_123', account: 'acme', secret: 's3cr3t' };
+    expect(placements.map((placement) => renderPlacement(placement.value, creds))).toEqual([
+      'Token tok_123',
+      'acme:s3cr3t',
+      'tok_123',
+    ]);
+  });
+
+  test('inserts values literally', () => {
+    expect(renderPlacement('{key}', { key: '$& {key} $1' })).toBe('$& {key} $1');
+  });
+});
+
+describe('legacyApiKeyPlacement', () => {
+  test('a lone api_key goes in X-API-Key', () => {
+    expect(legacyApiKeyPlacement(['api_key'])).toEqual({ in: 'header', name: 'X-API-Key', value: '{api_key}' });
+  });
+
+  test('another credential key names the header', () => {
+    expect(legacyApiKeyPlacement(['api_key', 'X-Custom-Key'])).toEqual({
+      in: 'header',
+      name: 'X-Custom-Key',
+      value: '{X-Custom-Key}',
+    });
+  });
+
+  test('is null without credentials', () => {
+    expect(legacyApiKeyPlacement([])).toBeNull();
+  });
+});
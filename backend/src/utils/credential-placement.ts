@@ -0,0 +1,53 @@
+// Credential placement templates: where a service's credentials go on the outgoing request
+// (header, query parameter or cookie) and how their values are built from credential keys
+
+import type { CredentialPlacement } from '@/db/schema';
+
+const REFERENCE_PATTERN = /\{([^{}]+)\}/g;
+
+/**
+ * Credential keys a value template references, e.g. "Token {token}" → ["token"].
+ */
+export function placementReferences(template: string): string[] {
+  return [...template.matchAll(REFERENCE_PATTERN)].map((match) => match[1]!);
+}
+
+/**
+ * Credential keys the placements reference that aren't among keys (deduplicated, in order).
+ */
+export function missingPlacementCredentials(placements: CredentialPlacement[], keys: string[]): string[] {
+  const available = new Set(keys);
+  const missing = placements
+    .flatMap((placement) => placementReferences(placement.value))
+    .filter((key) => !available.has(key));
+  return [...new Set(missing)];
+}
+
+/**
+ * Fill a value template with credential values. Every reference must resolve (see missingPlacementCredentials).
+ */
+export function renderPlacement(template: string, creds: Record<string, string>): string {
+  return template.replace(REFERENCE_PATTERN, (_match, key: string) => creds[key]!);
+}
+
+/**
+ * Default placement for api_key services created without one: the key in X-API-Key.
+ */
+export const DEFAULT_API_KEY_PLACEMENT: CredentialPlacement = {
+  in: 'header',
+  name: 'X-API-Key',
+  value: '{api_key}',
+};
+
+/**
+ * Placement of an api_key service saved before placements existed (credentialPlacements null),
+ * matching how those were sent and what migration 0023 backfills: the first credential key other
+ * than api_key names the header, and a lone api_key goes in X-API-Key.
+ *
+ * @returns The placement, or null if the service has no credentials
+ */
+export function legacyApiKeyPlacement(keys: string[]): CredentialPlacement | null {
+  const key = keys.find((k) => k !== 'api_key') ?? keys[0];
+  if (key === undefined) return null;
+  return { in: 'header', name: key === 'api_key' ? 'X-API-Key' : key, value: `{${key}}` };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'bun:test';
+import { scanRequestBody, UNSCANNABLE_DETECTOR } from '@/utils/dlp';
+
+function cardMatches(text: string) {
+  return scanRequestBody({ body: text, encoding: 'utf8' }, null).matches.filter(
+    (match) => match.detector === 'credit_card'
+  );
+}
+
+describe('credit card detection', () => {
+  test.each([
+    ['4111111111111111'],          // Visa test number
+    ['4111 1111 1111 1111'],
+    ['4111-1111-1111-1111'],
+    ['378282246310005'],           // Amex, 15 digits
+    ['6011000990139424'],          // Discover
+    ['4222222222222'],             // 13 digits
+  ])('flags %s', (card) => {
+    const matches = cardMatches(`{"card":"${card}"}`);
+    expect(matches).toHaveLength(1);
+    expect(matches[0]!.action).toBe('approve');
+    expect(matches[0]!.preview).toBe(`${card.slice(0, 4)}…${card.slice(-4)}`);
+  });
+
+  test.each([
+    ['4111111111111112', 'fails the Luhn check'],
+    ['411111111111', 'is too short'],
+    ['41111111111111111111', 'is too long'],
+    ['1.4111111111111111', 'is the fraction of a decimal'],
+  ])('ignores %s, which %s', (value) => {
+    expect(cardMatches(`amount=${value}`)).toEqual([]);
+  });
+
+  test('reports spans in body order', () => {
+    const body = 'first 4111111111111111 then 5555555555554444';
+    const matches = cardMatches(body);
+    expect(matches.map((match) => body.slice(match.start, match.end))).toEqual([
+      '4111111111111111',
+      '5555555555554444',
+    ]);
+  });
+
+  test('redacts when the policy says so', () => {
+    const result = scanRequestBody(
+      { body: 'card 4111111111111111 ok', encoding: 'utf8' },
+      { detectors: { credit_card: 'redact' } }
+    );
+    expect(result.body.body).toBe('card [REDACTED:credit_card] ok');
+    const match = result.matches[0]!;
+    expect(result.body.body!.slice(match.start, match.end)).toBe('[REDACTED:credit_card]');
+  });
+
+  test('is skipped when turned off', () => {
+    const result = scanRequestBody(
+      { body: '4111111111111111', encoding: 'utf8' },
+      { detectors: { credit_card: 'off' } }
+    );
+    expect(result.matches).toEqual([]);
+  });
+
+  test('scans text sent as base64 and re-encodes redactions', () => {
+    const encoded = Buffer.from('card=4111111111111111').toString('base64');
+    const result = scanRequestBody({ body: encoded, encoding: 'base64' }, { detectors: { credit_card: 'redact' } });
+    expect(result.matches.map((match) => match.detector)).toEqual(['credit_card']);
+    expect(Buffer.from(result.body.body!, 'base64').toString()).toBe('card=[REDACTED:credit_card]');
+  });
+
+  test('flags binary base64 content as unscannable', () => {
+    const encoded = Buffer.from([0xff, 0xfe, 0x00, 0x80]).toString('base64');
+    const result = scanRequestBody({ body: encoded, encoding: 'base64' }, null);
+    expect(result.matches.map((match) => [match.detector, match.action])).toEqual([
+      [UNSCANNABLE_DETECTOR, 'approve'],
+    ]);
+  });
+});
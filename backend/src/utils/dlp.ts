@@ -0,0 +1,264 @@
+// Data-loss prevention scanning of outbound request bodies
+// Built-in detectors (API keys, private keys, card numbers, emails, phones) plus per-service custom patterns
+
+import type { DlpAction, DlpDetector, DlpMatch, DlpPolicy } from '@/db/schema';
+import { parseMultipartParts, type StoredRequestBody } from '@/utils/body';
+
+/**
+ * Action of each built-in detector when the service policy doesn't set one.
+ * Emails and phone numbers are everyday request content, so they are opt-in.
+ */
+export const DEFAULT_DLP_ACTIONS: Record<DlpDetector, DlpAction | 'off'> = {
+  private_key: 'block',
+  api_key: 'approve',
+  credit_card: 'approve',
+  email: 'off',
+  phone: 'off',
+};
+
+export const DLP_DETECTOR_LABELS: Record<DlpDetector, string> = {
+  private_key: 'private key',
+  api_key: 'API key',
+  credit_card: 'credit card number',
+  email: 'email address',
+  phone: 'phone number',
+};
+
+/**
+ * Well-known credential formats. Generic high-entropy strings are not flagged — too many false positives.
+ */
+const API_KEY_PATTERNS = [
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,                         // AWS access key ID
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,                         // GitHub tokens
+  /\bgithub_pat_[A-Za-z0-9_]{22,}\b/g,                       // GitHub fine-grained PAT
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g,                      // Slack tokens
+  /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g,               // Stripe keys
+  /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g,                 // OpenAI / Anthropic keys
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,                              // Google API key
+  /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g, // JWT
+];
+
+const PRIVATE_KEY_PATTERN =
+  /-----BEGIN [A-Z ]*PRIVATE KEY(?: BLOCK)?-----(?:[\s\S]*?-----END [A-Z ]*PRIVATE KEY(?: BLOCK)?-----)?/g;
+const CARD_PATTERN = /(?<![\d.-])\d(?:[ -]?\d){12,18}(?![\d])/g;
+const EMAIL_PATTERN = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g;
+const PHONE_PATTERNS = [
+  /(?<![\w+])\+[1-9]\d{7,14}\b/g,                                              // E.164
+  /(?<![\w+])(?:\+\d{1,3}[ .-]?)?\(?\d{2,4}\)?[ .-]\d{3,4}[ .-]\d{3,4}(?!\w)/g, // formatted
+];
+
+/**
+ * Luhn checksum — filters random digit runs (order IDs, timestamps) out of card matches.
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+type Span = { start: number; end: number };
+
+function findAll(text: string, pattern: RegExp, accept: (value: string) => boolean = () => true): Span[] {
+  const spans: Span[] = [];
+  for (const match of text.matchAll(pattern)) {
+    if (match[0].length === 0 || !accept(match[0])) continue;
+    spans.push({ start: match.index!, end: match.index! + match[0].length });
+  }
+  return spans;
+}
+
+const BUILT_IN_DETECTORS: Record<DlpDetector, (text: string) => Span[]> = {
+  private_key: (text) => findAll(text, PRIVATE_KEY_PATTERN),
+  api_key: (text) => API_KEY_PATTERNS.flatMap((pattern) => findAll(text, pattern)),
+  credit_card: (text) =>
+    findAll(text, CARD_PATTERN, (value) => {
+      const digits = value.replace(/[ -]/g, '');
+      return digits.length >= 13 && digits.length <= 19 && passesLuhn(digits);
+    }),
+  email: (text) => findAll(text, EMAIL_PATTERN),
+  phone: (text) =>
+    PHONE_PATTERNS.flatMap((pattern) =>
+      findAll(text, pattern, (value) => {
+        const digits = value.replace(/\D/g, '').length;
+        return digits >= 8 && digits <= 15;
+      })
+    ),
+};
+
+/**
+ * Masked excerpt of a matched value for the reviewer — enough to recognize it, not to use it.
+ */
+function maskValue(value: string): string {
+  if (value.startsWith('-----BEGIN')) return `${value.slice(0, value.indexOf('-----', 5) + 5)}…`;
+  if (value.length <= 8) return '•'.repeat(value.length);
+  return `${value.slice(0, 4)}…${value.slice(-4)}`;
+}
+
+interface Detector {
+  name: string;
+  action: DlpAction;
+  find: (text: string) => Span[];
+}
+
+/**
+ * Detectors active under a policy, in precedence order: built-ins first, then custom patterns.
+ * Where matches overlap, the earlier detector wins.
+ */
+function activeDetectors(policy: DlpPolicy | null): Detector[] {
+  const detectors: Detector[] = [];
+  for (const name of Object.keys(DEFAULT_DLP_ACTIONS) as DlpDetector[]) {
+    const action = policy?.detectors?.[name] ?? DEFAULT_DLP_ACTIONS[name];
+    if (action !== 'off') detectors.push({ name, action, find: BUILT_IN_DETECTORS[name] });
+  }
+  for (const custom of policy?.customPatterns ?? []) {
+    const pattern = new RegExp(custom.pattern, 'g');
+    detectors.push({ name: custom.name, action: custom.action, find: (text) => findAll(text, pattern) });
+  }
+  return detectors;
+}
+
+/**
+ * Scan one text and apply redactions.
+ *
+ * @returns The text with 'redact' matches replaced by [REDACTED:detector], and every finding
+ *   with its span in the returned text
+ */
+function scanText(text: string, detectors: Detector[], part?: string): { text: string; matches: DlpMatch[] } {
+  const found: Array<Span & { detector: Detector }> = [];
+  for (const detector of detectors) {
+    for (const span of detector.find(text)) {
+      if (found.some((other) => span.start < other.end && other.start < span.end)) continue;
+      found.push({ ...span, detector });
+    }
+  }
+  found.sort((a, b) => a.start - b.start);
+
+  let output = '';
+  let cursor = 0;
+  const matches: DlpMatch[] = [];
+  for (const { start, end, detector } of found) {
+    output += text.slice(cursor, start);
+    const value = text.slice(start, end);
+    const replacement = detector.action === 'redact' ? `[REDACTED:${detector.name}]` : value;
+    matches.push({
+      detector: detector.name,
+      action: detector.action,
+      preview: maskValue(value),
+      ...(part !== undefined ? { part } : {}),
+      start: output.length,
+      end: output.length + replacement.length,
+    });
+    output += replacement;
+    cursor = end;
+  }
+  output += text.slice(cursor);
+
+  return { text: output, matches };
+}
+
+/**
+ * Scan a request body for sensitive data and apply the service's redactions.
+ *
+ * Text bodies and parts are scanned, including text sent as base64. Base64 content that isn't
+ * UTF-8 text can't be scanned: it gets an 'approve' finding (UNSCANNABLE_DETECTOR) so a human
+ * looks at it before it leaves.
+ *
+ * @param requestBody - The request body in stored form (toStoredRequestBody)
+ * @param policy - The service's DLP policy (null = defaults)
+ * @returns The body to send (redactions applied) and every finding, in body order
+ */
+export function scanRequestBody(
+  requestBody: StoredRequestBody,
+  policy: DlpPolicy | null
+): { body: StoredRequestBody; matches: DlpMatch[] } {
+  if (requestBody.body === null) return { body: requestBody, matches: [] };
+
+  const detectors = activeDetectors(policy);
+  if (detectors.length === 0) return { body: requestBody, matches: [] };
+
+  if (requestBody.encoding === 'utf8') {
+    const result = scanText(requestBody.body, detectors);
+    return { body: { body: result.text, encoding: 'utf8' }, matches: result.matches };
+  }
+  if (requestBody.encoding === 'base64') {
+    const result = scanBase64(requestBody.body, detectors);
+    return { body: { body: result.value, encoding: 'base64' }, matches: result.matches };
+  }
+
+  const matches: DlpMatch[] = [];
+  const parts = parseMultipartParts(requestBody.body).map((part) => {
+    if (part.encoding === 'base64') {
+      const result = scanBase64(part.value, detectors, part.name);
+      matches.push(...result.matches);
+      return { ...part, value: result.value };
+    }
+    const result = scanText(part.value, detectors, part.name);
+    matches.push(...result.matches);
+    return { ...part, value: result.text };
+  });
+  return { body: { body: JSON.stringify(parts), encoding: 'multipart' }, matches };
+}
+
+/**
+ * Detector name of the finding recorded for content that isn't text and so can't be scanned.
+ */
+export const UNSCANNABLE_DETECTOR = 'unscannable';
+
+// ignoreBOM keeps a leading BOM in the text, so redacted content re-encodes byte for byte
+const strictUtf8 = new TextDecoder('utf-8', { fatal: true, ignoreBOM: true });
+
+/**
+ * Decode base64 content as text, or null if its bytes aren't valid UTF-8.
+ */
+function decodeBase64Text(value: string): string | null {
+  try {
+    return strictUtf8.decode(Buffer.from(value, 'base64'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Scan base64 content. Text sent as base64 is decoded and scanned like any other text (redactions
+ * are re-encoded); binary content can't be scanned, so it is held for approval instead.
+ *
+ * @returns The base64 content to send and the findings (spans in the decoded text)
+ */
+function scanBase64(value: string, detectors: Detector[], part?: string): { value: string; matches: DlpMatch[] } {
+  const text = decodeBase64Text(value);
+  if (text === null) {
+    const match: DlpMatch = {
+      detector: UNSCANNABLE_DETECTOR,
+      action: 'approve',
+      preview: 'binary content',
+      ...(part !== undefined ? { part } : {}),
+      start: 0,
+      end: 0,
+    };
+    return { value, matches: [match] };
+  }
+
+  const result = scanText(text, detectors, part);
+  const redacted = result.matches.some((match) => match.action === 'redact');
+  return { value: redacted ? Buffer.from(result.text).toString('base64') : value, matches: result.matches };
+}
+
+/**
+ * Human-readable list of the detectors behind a set of findings, e.g. "API key, credit card number".
+ */
+export function describeDlpMatches(matches: DlpMatch[]): string {
+  const names = [...new Set(matches.map((match) => match.detector))];
+  return names
+    .map((name) => {
+      if (name === UNSCANNABLE_DETECTOR) return 'binary content that can\'t be scanned';
+      return DLP_DETECTOR_LABELS[name as DlpDetector] ?? `"${name}" pattern`;
+    })
+    .join(', ');
+}
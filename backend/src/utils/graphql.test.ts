@@ -0,0 +1,117 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  graphQLOperationKeys,
+  isReadOnlyGraphQL,
+  parseGraphQLRequest,
+  summarizeGraphQLOperation,
+} from '@/utils/graphql';
+
+describe('summarizeGraphQLOperation', () => {
+  test('reads the type, name and top-level fields', () => {
+    const query = `
+      # list then delete
+      mutation Cleanup($id: ID!) {
+        removed: deleteUser(id: $id, reason: "spam, \\"bot\\"") { id }
+        audit { entries(first: 10) { id } }
+      }`;
+    expect(summarizeGraphQLOperation(query)).toEqual({
+      type: 'mutation',
+      name: 'Cleanup',
+      fields: ['deleteUser', 'audit'],
+    });
+  });
+
+  test('treats a bare selection set as an anonymous query', () => {
+    expect(summarizeGraphQLOperation('{ viewer { login } }')).toEqual({ type: 'query', name: null, fields: ['viewer'] });
+  });
+
+  test('follows fragment spreads and inline fragments', () => {
+    const query = `
+      query Q { ...Top ... on Query { search(q: "x") { id } } }
+      fragment Top on Query { viewer { id } ...Top }`;
+    expect(summarizeGraphQLOperation(query)?.fields).toEqual(['viewer', 'search']);
+  });
+
+  test('picks the named operation from a document with several', () => {
+    const query = 'query A { a } mutation B { b }';
+    expect(summarizeGraphQLOperation(query, 'B')).toEqual({ type: 'mutation', name: 'B', fields: ['b'] });
+    expect(summarizeGraphQLOperation(query)).toBeNull();
+    expect(summarizeGraphQLOperation(query, 'C')).toBeNull();
+  });
+
+  test.each(['', 'not graphql', '{ unterminated', 'query { a(s: "open) }', 'mutation X'])(
+    'rejects %p',
+    (query) => {
+      expect(summarizeGraphQLOperation(query)).toBeNull();
+    }
+  );
+});
+
+describe('parseGraphQLRequest', () => {
+  const url = 'https://api.example.com/graphql';
+
+  test('reads a JSON body', () => {
+    const body = JSON.stringify({ query: 'mutation M { createIssue { id } }', variables: {} });
+    expect(parseGraphQLRequest('POST', url, body, 'application/json')).toEqual([
+      { type: 'mutation', name: 'M', fields: ['createIssue'] },
+    ]);
+  });
+
+  test('reads every entry of a batch, honouring operationName', () => {
+    const body = JSON.stringify([
+      { query: '{ viewer { id } }' },
+      { query: 'query A { a } mutation B { b }', operationName: 'B' },
+    ]);
+    expect(parseGraphQLRequest('POST', url, body, 'application/json')).toEqual([
+      { type: 'query', name: null, fields: ['viewer'] },
+      { type: 'mutation', name: 'B', fields: ['b'] },
+    ]);
+  });
+
+  test('reads an application/graphql body', () => {
+    expect(parseGraphQLRequest('POST', url, 'subscription { onEvent }', 'application/graphql; charset=utf-8')).toEqual([
+      { type: 'subscription', name: null, fields: ['onEvent'] },
+    ]);
+  });
+
+  test('reads a GET query string', () => {
+    const target = `${url}?query=${encodeURIComponent('query Q { a } query R { b }')}&operationName=R`;
+    expect(parseGraphQLRequest('GET', target, null, undefined)).toEqual([{ type: 'query', name: 'R', fields: ['b'] }]);
+  });
+
+  test.each([
+    ['a non-JSON body', 'query { a }'],
+    ['a body without a query', JSON.stringify({ operationName: 'A' })],
+    ['a non-string query', JSON.stringify({ query: 42 })],
+    ['an empty batch', '[]'],
+    ['a batch with one bad entry', JSON.stringify([{ query: '{ a }' }, { query: '{' }])],
+  ])('rejects %s', (_name, body) => {
+    expect(parseGraphQLRequest('POST', url, body, 'application/json')).toBeNull();
+  });
+
+  test('rejects a GET without a query and a POST without a body', () => {
+    expect(parseGraphQLRequest('GET', url, null, undefined)).toBeNull();
+    expect(parseGraphQLRequest('POST', url, null, 'application/json')).toBeNull();
+  });
+});
+
+describe('operation keys', () => {
+  const operations = [
+    { type: 'query' as const, name: null, fields: ['viewer', 'search'] },
+    { type: 'mutation' as const, name: 'M', fields: ['deleteRepo', 'viewer'] },
+  ];
+
+  test('keys each top-level field by operation type, without duplicates', () => {
+    expect(graphQLOperationKeys([...operations, operations[0]!])).toEqual([
+      'query.viewer',
+      'query.search',
+      'mutation.deleteRepo',
+      'mutation.viewer',
+    ]);
+  });
+
+  test('only queries are read-only', () => {
+    expect(isReadOnlyGraphQL([operations[0]!])).toBe(true);
+    expect(isReadOnlyGraphQL(operations)).toBe(false);
+  });
+});
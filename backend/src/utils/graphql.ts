@@ -0,0 +1,332 @@
+// GraphQL request inspection for risk assessment and policy matching
+// Extracts operation type, name and top-level fields without executing or validating the document
+
+import type { GraphQLOperationSummary } from '@/db/schema';
+
+type Token = { kind: 'punct' | 'name' | 'value'; text: string };
+
+const PUNCTUATORS = new Set(['{', '}', '(', ')', '[', ']', ':', '=', '@', '$', '!', '|', '&']);
+
+/**
+ * Split a GraphQL document into tokens. Strings and numbers become opaque 'value' tokens;
+ * whitespace, commas and comments are dropped.
+ *
+ * @returns The tokens, or null if the text can't be a GraphQL document
+ */
+function tokenize(source: string): Token[] | null {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i]!;
+
+    if (char === ' ' || char === '\t' || char === '\n' || char === '\r' || char === ',' || char === '\uFEFF') {
+      i++;
+    } else if (char === '#') {
+      while (i < source.length && source[i] !== '\n' && source[i] !== '\r') i++;
+    } else if (source.startsWith('...', i)) {
+      tokens.push({ kind: 'punct', text: '...' });
+      i += 3;
+    } else if (PUNCTUATORS.has(char)) {
+      tokens.push({ kind: 'punct', text: char });
+      i++;
+    } else if (source.startsWith('"""', i)) {
+      const end = source.indexOf('"""', i + 3);
+      if (end === -1) return null;
+      tokens.push({ kind: 'value', text: '""' });
+      i = end + 3;
+    } else if (char === '"') {
+      i++;
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === '\n') return null;
+        i += source[i] === '\\' ? 2 : 1;
+      }
+      if (i >= source.length) return null;
+      tokens.push({ kind: 'value', text: '""' });
+      i++;
+    } else if (/[_A-Za-z]/.test(char)) {
+      const match = source.slice(i).match(/^[_A-Za-z][_0-9A-Za-z]*/)!;
+      tokens.push({ kind: 'name', text: match[0] });
+      i += match[0].length;
+    } else if (/[-0-9]/.test(char)) {
+      const match = source.slice(i).match(/^-?\d+(\.\d+)?([eE][+-]?\d+)?/);
+      if (!match) return null;
+      tokens.push({ kind: 'value', text: match[0] });
+      i += match[0].length;
+    } else {
+      return null;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Minimal recursive-descent reader over the token list. Only the structure needed to find
+ * operations and their top-level fields is interpreted; everything else is skipped by bracket matching.
+ */
+class DocumentReader {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  done(): boolean {
+    return this.pos >= this.tokens.length;
+  }
+
+  peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  next(): Token {
+    const token = this.tokens[this.pos++];
+    if (!token) throw new SyntaxError('Unexpected end of document');
+    return token;
+  }
+
+  isPunct(text: string): boolean {
+    const token = this.peek();
+    return token?.kind === 'punct' && token.text === text;
+  }
+
+  expectPunct(text: string): void {
+    const token = this.next();
+    if (token.kind !== 'punct' || token.text !== text) throw new SyntaxError(`Expected "${text}"`);
+  }
+
+  expectName(): string {
+    const token = this.next();
+    if (token.kind !== 'name') throw new SyntaxError('Expected a name');
+    return token.text;
+  }
+
+  /** Skip a balanced (...), [...] or {...} group starting at the current token. */
+  skipGroup(open: string, close: string): void {
+    this.expectPunct(open);
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.kind !== 'punct') continue;
+      if (token.text === open) depth++;
+      else if (token.text === close) depth--;
+    }
+  }
+
+  skipDirectives(): void {
+    while (this.isPunct('@')) {
+      this.next();
+      this.expectName();
+      if (this.isPunct('(')) this.skipGroup('(', ')');
+    }
+  }
+}
+
+/**
+ * One top-level selection: a field, a named fragment spread, or an inline fragment's own selections.
+ */
+type Selection = { field: string } | { spread: string } | { inline: Selection[] };
+
+function readSelectionSet(reader: DocumentReader): Selection[] {
+  const selections: Selection[] = [];
+  reader.expectPunct('{');
+
+  while (!reader.isPunct('}')) {
+    if (reader.isPunct('...')) {
+      reader.next();
+      const token = reader.peek();
+      if (token?.kind === 'name' && token.text !== 'on') {
+        selections.push({ spread: reader.expectName() });
+        reader.skipDirectives();
+        continue;
+      }
+      if (token?.kind === 'name' && token.text === 'on') {
+        reader.next();
+        reader.expectName();
+      }
+      reader.skipDirectives();
+      selections.push({ inline: readSelectionSet(reader) });
+      continue;
+    }
+
+    // alias: field  |  field
+    let field = reader.expectName();
+    if (reader.isPunct(':')) {
+      reader.next();
+      field = reader.expectName();
+    }
+    if (reader.isPunct('(')) reader.skipGroup('(', ')');
+    reader.skipDirectives();
+    if (reader.isPunct('{')) reader.skipGroup('{', '}');
+    selections.push({ field });
+  }
+
+  reader.expectPunct('}');
+  return selections;
+}
+
+interface ParsedOperation {
+  type: GraphQLOperationSummary['type'];
+  name: string | null;
+  selections: Selection[];
+}
+
+/**
+ * Read the operations and fragments of a document.
+ * @throws SyntaxError if the document is malformed
+ */
+function readDocument(source: string): { operations: ParsedOperation[]; fragments: Map<string, Selection[]> } {
+  const tokens = tokenize(source);
+  if (!tokens || tokens.length === 0) throw new SyntaxError('Not a GraphQL document');
+
+  const reader = new DocumentReader(tokens);
+  const operations: ParsedOperation[] = [];
+  const fragments = new Map<string, Selection[]>();
+
+  while (!reader.done()) {
+    if (reader.isPunct('{')) {
+      operations.push({ type: 'query', name: null, selections: readSelectionSet(reader) });
+      continue;
+    }
+
+    const keyword = reader.expectName();
+    if (keyword === 'fragment') {
+      const name = reader.expectName();
+      if (reader.expectName() !== 'on') throw new SyntaxError('Expected "on"');
+      reader.expectName();
+      reader.skipDirectives();
+      fragments.set(name, readSelectionSet(reader));
+      continue;
+    }
+    if (keyword !== 'query' && keyword !== 'mutation' && keyword !== 'subscription') {
+      throw new SyntaxError(`Unsupported definition "${keyword}"`);
+    }
+
+    const name = reader.peek()?.kind === 'name' ? reader.expectName() : null;
+    if (reader.isPunct('(')) reader.skipGroup('(', ')');
+    reader.skipDirectives();
+    operations.push({ type: keyword, name, selections: readSelectionSet(reader) });
+  }
+
+  return { operations, fragments };
+}
+
+/**
+ * Flatten selections to field names, following fragment spreads (cycles are ignored).
+ */
+function topLevelFields(
+  selections: Selection[],
+  fragments: Map<string, Selection[]>,
+  seen: Set<string> = new Set()
+): string[] {
+  const fields: string[] = [];
+  for (const selection of selections) {
+    if ('field' in selection) {
+      fields.push(selection.field);
+    } else if ('inline' in selection) {
+      fields.push(...topLevelFields(selection.inline, fragments, seen));
+    } else if (!seen.has(selection.spread)) {
+      seen.add(selection.spread);
+      fields.push(...topLevelFields(fragments.get(selection.spread) ?? [], fragments, seen));
+    }
+  }
+  return [...new Set(fields)];
+}
+
+/**
+ * Summarize the operation a GraphQL request will execute.
+ *
+ * @param query - The GraphQL document
+ * @param operationName - Which operation to run when the document defines several
+ * @returns The operation summary, or null if the document isn't valid GraphQL or names no runnable operation
+ */
+export function summarizeGraphQLOperation(query: string, operationName?: string | null): GraphQLOperationSummary | null {
+  let document: ReturnType<typeof readDocument>;
+  try {
+    document = readDocument(query);
+  } catch {
+    return null;
+  }
+
+  const operation = operationName
+    ? document.operations.find((op) => op.name === operationName)
+    : document.operations.length === 1 ? document.operations[0] : undefined;
+  if (!operation) return null;
+
+  return {
+    type: operation.type,
+    name: operation.name,
+    fields: topLevelFields(operation.selections, document.fragments),
+  };
+}
+
+/**
+ * Detect a GraphQL request and summarize each operation it carries.
+ *
+ * Recognized forms:
+ * - POST JSON body { query, operationName?, variables? } or an array of them (batched)
+ * - POST with Content-Type application/graphql (the body is the document)
+ * - GET with ?query=...&operationName=...
+ *
+ * @param method - HTTP method
+ * @param targetUrl - Target URL (for GET query parameters)
+ * @param body - Request body as text (null for none or non-text bodies)
+ * @param contentType - Request Content-Type header
+ * @returns One summary per operation, or null if the request isn't GraphQL
+ */
+export function parseGraphQLRequest(
+  method: string,
+  targetUrl: string,
+  body: string | null,
+  contentType: string | undefined
+): GraphQLOperationSummary[] | null {
+  if (method === 'GET') {
+    const params = new URL(targetUrl).searchParams;
+    const query = params.get('query');
+    if (!query) return null;
+    const summary = summarizeGraphQLOperation(query, params.get('operationName'));
+    return summary ? [summary] : null;
+  }
+
+  if (!body) return null;
+
+  if ((contentType ?? '').toLowerCase().startsWith('application/graphql')) {
+    const summary = summarizeGraphQLOperation(body);
+    return summary ? [summary] : null;
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return null;
+  }
+
+  const entries = Array.isArray(payload) ? payload : [payload];
+  if (entries.length === 0) return null;
+
+  const summaries: GraphQLOperationSummary[] = [];
+  for (const entry of entries) {
+    if (typeof entry !== 'object' || entry === null) return null;
+    const { query, operationName } = entry as { query?: unknown; operationName?: unknown };
+    if (typeof query !== 'string') return null;
+    const summary = summarizeGraphQLOperation(query, typeof operationName === 'string' ? operationName : null);
+    if (!summary) return null;
+    summaries.push(summary);
+  }
+  return summaries;
+}
+
+/**
+ * Whether every operation is a read — queries have no side effects, so they get GET semantics
+ * (low base risk, safe to retry, no idempotency key required).
+ */
+export function isReadOnlyGraphQL(operations: GraphQLOperationSummary[]): boolean {
+  return operations.every((operation) => operation.type === 'query');
+}
+
+/**
+ * Keys matched against service operation rules: "{type}.{field}" for each top-level field.
+ */
+export function graphQLOperationKeys(operations: GraphQLOperationSummary[]): string[] {
+  return [...new Set(operations.flatMap((op) => op.fields.map((field) => `${op.type}.${field}`)))];
+}
@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'bun:test';
+import { filterResponseHeaders, stripUnsafeResponseHeaders } from '@/utils/headers';
+
+const upstream = {
+  'content-type': 'application/json',
+  'content-length': '42',
+  'content-encoding': 'gzip',
+  'set-cookie': 'session=abc',
+  'connection': 'keep-alive, x-hop',
+  'keep-alive': 'timeout=5',
+  'transfer-encoding': 'chunked',
+  'x-hop': 'per-connection',
+  'x-request-id': 'req-1',
+  'x-ratelimit-remaining': '99',
+};
+
+describe('stripUnsafeResponseHeaders', () => {
+  test('removes hop-by-hop, framing and cookie headers, and headers named in Connection', () => {
+    expect(stripUnsafeResponseHeaders(upstream)).toEqual({
+      'content-type': 'application/json',
+      'x-request-id': 'req-1',
+      'x-ratelimit-remaining': '99',
+    });
+  });
+
+  test('matches names case-insensitively', () => {
+    expect(stripUnsafeResponseHeaders({ 'Set-Cookie': 'a=b', Authorization: 'Bearer x', ETag: '"1"' })).toEqual({
+      ETag: '"1"',
+    });
+  });
+
+  test('is idempotent', () => {
+    const once = stripUnsafeResponseHeaders(upstream);
+    expect(stripUnsafeResponseHeaders(once)).toEqual(once);
+  });
+});
+
+describe('filterResponseHeaders', () => {
+  test('forwards everything that passes the safety rules without a policy', () => {
+    expect(filterResponseHeaders(upstream, null)).toEqual(stripUnsafeResponseHeaders(upstream));
+  });
+
+  test('allowlist keeps the listed headers and content-type', () => {
+    expect(filterResponseHeaders(upstream, { mode: 'allowlist', headers: ['X-Request-Id'] })).toEqual({
+      'content-type': 'application/json',
+      'x-request-id': 'req-1',
+    });
+  });
+
+  test('allowlist cannot bring back a stripped header', () => {
+    expect(filterResponseHeaders(upstream, { mode: 'allowlist', headers: ['set-cookie'] })).toEqual({
+      'content-type': 'application/json',
+    });
+  });
+
+  test('denylist drops the listed headers', () => {
+    expect(filterResponseHeaders(upstream, { mode: 'denylist', headers: ['X-RateLimit-Remaining'] })).toEqual({
+      'content-type': 'application/json',
+      'x-request-id': 'req-1',
+    });
+  });
+
+  test('drops headers named like or echoing an injected credential', () => {
+    const headers = {
+      'content-type': 'text/plain',
+      'x-api-key': 'whatever',
+      'x-debug': 'received key sk_live_123456',
+      'x-request-id': 'req-1',
+    };
+    expect(filterResponseHeaders(headers, null, { 'X-API-Key': 'sk_live_123456' })).toEqual({
+      'content-type': 'text/plain',
+      'x-request-id': 'req-1',
+    });
+  });
+
+  test('ignores empty injected values', () => {
+    expect(filterResponseHeaders({ 'x-request-id': 'req-1' }, null, { 'X-Empty': '' })).toEqual({
+      'x-request-id': 'req-1',
+    });
+  });
+});
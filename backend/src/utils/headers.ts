@@ -0,0 +1,90 @@
+// Upstream response header filtering for proxied responses
+// Applies the per-service passthrough policy on top of fixed safety rules
+
+import type { HeaderPolicy } from '@/db/schema';
+
+/**
+ * Hop-by-hop headers (RFC 9110 §7.6.1) — describe a single connection, never forwarded.
+ */
+const HOP_BY_HOP_HEADERS = [
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+];
+
+/**
+ * Headers that are always removed regardless of policy:
+ * - content-length / content-encoding: fetch already decoded the body, so upstream framing no longer applies
+ * - set-cookie: an upstream session cookie is a credential the agent must never hold
+ * - authorization: never legitimate in a response; only appears when upstream echoes the request
+ */
+const ALWAYS_STRIPPED_HEADERS = [
+  'content-length',
+  'content-encoding',
+  'set-cookie',
+  'set-cookie2',
+  'authorization',
+];
+
+/**
+ * Remove headers that must never be forwarded to the agent, independent of service policy.
+ * Safe to apply more than once.
+ */
+export function stripUnsafeResponseHeaders(headers: Record<string, string>): Record<string, string> {
+  // Headers named in Connection are hop-by-hop for this message too
+  const connectionTokens = (headers['connection'] ?? '')
+    .split(',')
+    .map((token) => token.trim().toLowerCase())
+    .filter(Boolean);
+
+  const blocked = new Set([...HOP_BY_HOP_HEADERS, ...ALWAYS_STRIPPED_HEADERS, ...connectionTokens]);
+
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (!blocked.has(name.toLowerCase())) result[name] = value;
+  }
+  return result;
+}
+
+/**
+ * Filter upstream response headers for return to the agent.
+ *
+ * Order of rules:
+ * 1. Fixed safety rules (hop-by-hop, framing, cookies)
+ * 2. Credential echo protection — drop any header named like an injected credential header,
+ *    or whose value contains an injected credential value
+ * 3. Service policy (allowlist/denylist); null policy forwards everything that survived 1-2
+ *
+ * @param headers - Upstream response headers (lowercase names, as produced by fetch)
+ * @param policy - The service's passthrough policy (names matched case-insensitively), or null for the default
+ * @param injectedHeaders - Headers the gateway injected for this request (name → value)
+ */
+export function filterResponseHeaders(
+  headers: Record<string, string>,
+  policy: HeaderPolicy | null,
+  injectedHeaders: Record<string, string> = {}
+): Record<string, string> {
+  const injectedNames = new Set(Object.keys(injectedHeaders).map((name) => name.toLowerCase()));
+  const injectedValues = Object.values(injectedHeaders).filter((value) => value.length > 0);
+  const listed = new Set((policy?.headers ?? []).map((name) => name.toLowerCase()));
+
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(stripUnsafeResponseHeaders(headers))) {
+    const lower = name.toLowerCase();
+
+    if (injectedNames.has(lower)) continue;
+    if (injectedValues.some((secret) => value.includes(secret))) continue;
+
+    if (policy?.mode === 'allowlist' && !listed.has(lower) && lower !== 'content-type') continue;
+    if (policy?.mode === 'denylist' && listed.has(lower)) continue;
+
+    result[name] = value;
+  }
+  return result;
+}
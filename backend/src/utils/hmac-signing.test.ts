@@ -0,0 +1,134 @@
+import { describe, expect, test } from 'bun:test';
+import { createHash, createHmac } from 'node:crypto';
+import type { HmacSigning } from '@/db/schema';
+import { signHmacRequest, unknownPlaceholders, usesPlaceholder, type HmacSigningRequest } from '@/utils/hmac-signing';
+
+const request: HmacSigningRequest = {
+  method: 'post',
+  url: 'https://api.example.com/v1/orders?page=2&sort=desc',
+  host: 'api.example.com',
+  body: '{"qty":1}',
+  timestamp: new Date('2026-01-02T03:04:05.678Z'),
+  nonce: 'n-123',
+  keyId: 'key-1',
+};
+
+describe('signHmacRequest', () => {
+  test("matches Slack's request-signing example", () => {
+    const body =
+      'token=xyzz0WbapA4vBCDEFasx0q6G&team_id=T1DC2JH3J&team_domain=testteamnow&channel_id=G8PSS9T3V' +
+      '&channel_name=foobar&user_id=U2CERLKJA&user_name=roadrunner&command=%2Fwebhook-collect&text=' +
+      '&response_url=https%3A%2F%2Fhooks.slack.com%2Fcommands%2FT1DC2JH3J%2F397700885554%2F96rGlfmibIGlgcZRskXaIFfN' +
+      '&trigger_id=398738663015.47445629121.803a0bc887a14d10d2c447fce8b6703c';
+    const signing: HmacSigning = {
+      algorithm: 'sha256',
+      canonical: 'v0:{timestamp}:{body}',
+      signatureHeader: 'X-Slack-Signature',
+      signatureFormat: 'v0={signature}',
+      timestampHeader: 'X-Slack-Request-Timestamp',
+    };
+    const headers = signHmacRequest(signing, '8f742231b10e8888abcd99yyyzzz85a5', {
+      ...request,
+      body,
+      timestamp: new Date(1531420618 * 1000),
+    });
+    expect(headers).toEqual({
+      'X-Slack-Signature': 'v0=a2114d57b48eac39b9ad189dd8316235a7b4a8d21a10bd27519666489c69b503',
+      'X-Slack-Request-Timestamp': '1531420618',
+    });
+  });
+
+  test('fills every placeholder of the canonical string', () => {
+    const signing: HmacSigning = {
+      algorithm: 'sha512',
+      canonical: '{method}\n{path}\n{query}\n{host}\n{timestamp}\n{nonce}\n{key_id}\n{body_sha256}',
+      signatureHeader: 'X-Signature',
+      encoding: 'base64',
+      timestampFormat: 'iso8601',
+      nonceHeader: 'X-Nonce',
+    };
+    const canonical = [
+      'POST',
+      '/v1/orders',
+      'page=2&sort=desc',
+      'api.example.com',
+      '2026-01-02T03:04:05.678Z',
+      'n-123',
+      'key-1',
+      createHash('sha256').update('{"qty":1}').digest('hex'),
+    ].join('\n');
+    expect(signHmacRequest(signing, 'shh', request)).toEqual({
+      'X-Signature': createHmac('sha512', 'shh').update(canonical).digest('base64'),
+      'X-Nonce': 'n-123',
+    });
+  });
+
+  test.each([
+    ['unix', '1767323045'],
+    ['unix_ms', '1767323045678'],
+    ['iso8601', '2026-01-02T03:04:05.678Z'],
+  ] as const)('formats %s timestamps', (timestampFormat, expected) => {
+    const signing: HmacSigning = {
+      algorithm: 'sha256',
+      canonical: '{timestamp}',
+      signatureHeader: 'X-Signature',
+      timestampHeader: 'X-Timestamp',
+      timestampFormat,
+    };
+    expect(signHmacRequest(signing, 'shh', request)).toEqual({
+      'X-Signature': createHmac('sha256', 'shh').update(expected).digest('hex'),
+      'X-Timestamp': expected,
+    });
+  });
+
+  test('signs binary bodies byte for byte', () => {
+    const body = new Uint8Array([0xff, 0x00, 0x80, 0x7f]);
+    const signing: HmacSigning = { algorithm: 'sha256', canonical: '{method}:{body}', signatureHeader: 'X-Signature' };
+    const expected = createHmac('sha256', 'shh')
+      .update(Buffer.concat([Buffer.from('POST:'), Buffer.from(body)]))
+      .digest('hex');
+    expect(signHmacRequest(signing, 'shh', { ...request, body })['X-Signature']).toBe(expected);
+  });
+
+  test('signs an empty body when there is none', () => {
+    const signing: HmacSigning = { algorithm: 'sha1', canonical: '{method}|{body}|{body_sha256}', signatureHeader: 'X-Signature' };
+    const expected = createHmac('sha1', 'shh')
+      .update(`POST||${createHash('sha256').update('').digest('hex')}`)
+      .digest('hex');
+    expect(signHmacRequest(signing, 'shh', { ...request, body: null })['X-Signature']).toBe(expected);
+  });
+
+  test('decodes the secret per secretEncoding', () => {
+    const signing: HmacSigning = {
+      algorithm: 'sha256',
+      canonical: '{method}',
+      signatureHeader: 'X-Signature',
+      secretEncoding: 'hex',
+    };
+    const expected = createHmac('sha256', Buffer.from('00ff10', 'hex')).update('POST').digest('hex');
+    expect(signHmacRequest(signing, '00ff10', request)['X-Signature']).toBe(expected);
+  });
+
+  test('formats the signature header with the key id', () => {
+    const signing: HmacSigning = {
+      algorithm: 'sha256',
+      canonical: '{method}',
+      signatureHeader: 'Authorization',
+      signatureFormat: 'HMAC {key_id}:{signature}',
+    };
+    const signature = createHmac('sha256', 'shh').update('POST').digest('hex');
+    expect(signHmacRequest(signing, 'shh', request)).toEqual({ Authorization: `HMAC key-1:${signature}` });
+  });
+});
+
+describe('template placeholders', () => {
+  test('reports placeholders that are not known', () => {
+    expect(unknownPlaceholders('{timestamp}.{method}.{secret}.{Body}')).toEqual(['secret']);
+    expect(unknownPlaceholders('{signature}', ['timestamp'])).toEqual(['signature']);
+  });
+
+  test('detects a placeholder in a template', () => {
+    expect(usesPlaceholder('{timestamp}:{body}', 'body')).toBe(true);
+    expect(usesPlaceholder('{timestamp}:{body_sha256}', 'body')).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+// Generic HMAC request signing for hmac services (partner and internal APIs with their own schemes)
+// The service's HmacSigning template says what is signed and how the signature is sent; no I/O
+
+import { createHash, createHmac } from 'node:crypto';
+import type { HmacSigning } from '@/db/schema';
+
+/**
+ * Placeholders a canonical string or signature header template may use.
+ * - timestamp: signing time in timestampFormat
+ * - method: upper-case HTTP method
+ * - path: URL path as sent (percent-encoded), query: query string without "?", host: Host header
+ * - body: raw body bytes (empty if none), body_sha256: hex SHA-256 of the body
+ * - nonce: random per request, key_id: credentials.key_id
+ * - signature: the encoded signature (header template only)
+ */
+export const HMAC_PLACEHOLDERS = [
+  'timestamp',
+  'method',
+  'path',
+  'query',
+  'host',
+  'body',
+  'body_sha256',
+  'nonce',
+  'key_id',
+  'signature',
+] as const;
+
+const PLACEHOLDER_PATTERN = /\{([a-z0-9_]+)\}/g;
+
+/**
+ * Placeholders used in a template that aren't in HMAC_PLACEHOLDERS (or allowed).
+ */
+export function unknownPlaceholders(
+  template: string,
+  allowed: readonly string[] = HMAC_PLACEHOLDERS
+): string[] {
+  return [...template.matchAll(PLACEHOLDER_PATTERN)]
+    .map((match) => match[1]!)
+    .filter((name) => !allowed.includes(name));
+}
+
+/**
+ * Whether a template uses a placeholder.
+ */
+export function usesPlaceholder(template: string, name: string): boolean {
+  return template.includes(`{${name}}`);
+}
+
+export interface HmacSigningRequest {
+  method: string;
+  url: string;
+  host: string;
+  body: string | Uint8Array | null; // bytes as sent
+  timestamp: Date;
+  nonce: string;
+  keyId: string;
+}
+
+function formatTimestamp(timestamp: Date, format: HmacSigning['timestampFormat']): string {
+  switch (format) {
+    case 'unix_ms':
+      return String(timestamp.getTime());
+    case 'iso8601':
+      return timestamp.toISOString();
+    default:
+      return String(Math.floor(timestamp.getTime() / 1000));
+  }
+}
+
+/**
+ * Fill a template. Text placeholders become UTF-8; {body} is spliced in as raw bytes so binary
+ * bodies are signed exactly.
+ */
+function fillTemplate(template: string, values: Record<string, string>, body: Uint8Array): Buffer {
+  const parts: Buffer[] = [];
+  let last = 0;
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1]!;
+    if (name !== 'body' && values[name] === undefined) continue;
+    parts.push(Buffer.from(template.slice(last, match.index)));
+    parts.push(name === 'body' ? Buffer.from(body) : Buffer.from(values[name]!));
+    last = match.index! + match[0].length;
+  }
+  parts.push(Buffer.from(template.slice(last)));
+  return Buffer.concat(parts);
+}
+
+/**
+ * Sign a request with the service's HMAC scheme.
+ *
+ * @param signing - The service's signing template
+ * @param secret - The shared secret (credentials.secret), decoded per signing.secretEncoding
+ * @param request - The request as it will be sent, with its signing time and nonce
+ * @returns Headers to set: the signature header and, if configured, the timestamp and nonce headers
+ */
+export function signHmacRequest(
+  signing: HmacSigning,
+  secret: string,
+  request: HmacSigningRequest
+): Record<string, string> {
+  const url = new URL(request.url);
+  const body = typeof request.body === 'string' ? new TextEncoder().encode(request.body) : request.body ?? new Uint8Array();
+  const timestamp = formatTimestamp(request.timestamp, signing.timestampFormat);
+
+  const values: Record<string, string> = {
+    timestamp,
+    method: request.method.toUpperCase(),
+    path: url.pathname,
+    query: url.search.replace(/^\?/, ''),
+    host: request.host,
+    body_sha256: createHash('sha256').update(body).digest('hex'),
+    nonce: request.nonce,
+    key_id: request.keyId,
+  };
+
+  const key = Buffer.from(secret, signing.secretEncoding ?? 'utf8');
+  values.signature = createHmac(signing.algorithm, key)
+    .update(fillTemplate(signing.canonical, values, body))
+    .digest(signing.encoding ?? 'hex');
+
+  const headers: Record<string, string> = {
+    [signing.signatureHeader]: fillTemplate(signing.signatureFormat ?? '{signature}', values, new Uint8Array()).toString(),
+  };
+  if (signing.timestampHeader) headers[signing.timestampHeader] = timestamp;
+  if (signing.nonceHeader) headers[signing.nonceHeader] = request.nonce;
+  return headers;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'bun:test';
+import { jsonRpcOperationKeys, parseJsonRpcRequest } from '@/utils/jsonrpc';
+
+describe('parseJsonRpcRequest', () => {
+  test('reads a single call', () => {
+    const body = JSON.stringify({ jsonrpc: '2.0', method: 'eth_getBalance', params: ['0xabc', 'latest'], id: 1 });
+    expect(parseJsonRpcRequest(body)).toEqual({
+      batch: false,
+      calls: [{ method: 'eth_getBalance', id: 1, params: '["0xabc","latest"]' }],
+    });
+  });
+
+  test('reads a batch, including notifications', () => {
+    const body = JSON.stringify([
+      { jsonrpc: '2.0', method: 'eth_sendTransaction', params: [{ to: '0x1' }], id: 'a' },
+      { jsonrpc: '2.0', method: 'log_event' },
+    ]);
+    expect(parseJsonRpcRequest(body)).toEqual({
+      batch: true,
+      calls: [
+        { method: 'eth_sendTransaction', id: 'a', params: '[{"to":"0x1"}]' },
+        { method: 'log_event', id: null, params: null },
+      ],
+    });
+  });
+
+  test('truncates long params for display', () => {
+    const body = JSON.stringify({ jsonrpc: '2.0', method: 'upload', params: ['x'.repeat(500)], id: 1 });
+    const params = parseJsonRpcRequest(body)!.calls[0]!.params!;
+    expect(params).toHaveLength(201);
+    expect(params).toEndWith('…');
+  });
+
+  test.each([
+    ['no body', null],
+    ['a non-JSON body', 'method=eth_call'],
+    ['a JSON-RPC 1.0 call', JSON.stringify({ method: 'eth_call', id: 1 })],
+    ['a call without a method', JSON.stringify({ jsonrpc: '2.0', id: 1 })],
+    ['an empty method', JSON.stringify({ jsonrpc: '2.0', method: '', id: 1 })],
+    ['an empty batch', '[]'],
+    ['a batch with one bad entry', JSON.stringify([{ jsonrpc: '2.0', method: 'a' }, 42])],
+  ])('rejects %s', (_name, body) => {
+    expect(parseJsonRpcRequest(body)).toBeNull();
+  });
+});
+
+describe('jsonRpcOperationKeys', () => {
+  test('keys calls by method, without duplicates', () => {
+    expect(jsonRpcOperationKeys([{ method: 'eth_call' }, { method: 'eth_send' }, { method: 'eth_call' }])).toEqual([
+      'eth_call',
+      'eth_send',
+    ]);
+  });
+});
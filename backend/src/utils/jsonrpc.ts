@@ -0,0 +1,64 @@
+// JSON-RPC 2.0 request inspection for risk assessment and policy matching
+// Extracts the method (and id/params for review) of each call, single or batched
+
+import type { JsonRpcCallSummary } from '@/db/schema';
+
+const MAX_PARAMS_LENGTH = 200;
+
+/**
+ * A parsed JSON-RPC request, before risk scores are attached to its calls.
+ */
+export interface ParsedJsonRpcRequest {
+  batch: boolean;
+  calls: Array<Omit<JsonRpcCallSummary, 'riskScore'>>;
+}
+
+function summarizeParams(params: unknown): string | null {
+  if (params === undefined) return null;
+  const text = JSON.stringify(params);
+  return text.length > MAX_PARAMS_LENGTH ? `${text.slice(0, MAX_PARAMS_LENGTH)}…` : text;
+}
+
+/**
+ * Parse a JSON-RPC 2.0 request body.
+ *
+ * Every entry must be an object with `"jsonrpc": "2.0"` and a string `method`; anything else
+ * (including an empty batch) means the body isn't a JSON-RPC request the gateway can describe.
+ *
+ * @param body - Request body as text (null for none or non-text bodies)
+ * @returns The calls in order, or null if the body isn't a JSON-RPC request
+ */
+export function parseJsonRpcRequest(body: string | null): ParsedJsonRpcRequest | null {
+  if (!body) return null;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return null;
+  }
+
+  const batch = Array.isArray(payload);
+  const entries: unknown[] = Array.isArray(payload) ? payload : [payload];
+  if (entries.length === 0) return null;
+
+  const calls: ParsedJsonRpcRequest['calls'] = [];
+  for (const entry of entries) {
+    if (typeof entry !== 'object' || entry === null) return null;
+    const { jsonrpc, method, id, params } = entry as Record<string, unknown>;
+    if (jsonrpc !== '2.0' || typeof method !== 'string' || method.length === 0) return null;
+    calls.push({
+      method,
+      id: typeof id === 'string' || typeof id === 'number' ? id : null,
+      params: summarizeParams(params),
+    });
+  }
+  return { batch, calls };
+}
+
+/**
+ * Keys matched against service operation rules: the method name of each call.
+ */
+export function jsonRpcOperationKeys(calls: Array<{ method: string }>): string[] {
+  return [...new Set(calls.map((call) => call.method))];
+}
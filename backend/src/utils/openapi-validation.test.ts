@@ -0,0 +1,156 @@
+import { describe, expect, test } from 'bun:test';
+import { findDocumentedOperation, parseOpenApiDocument } from '@/utils/api-docs';
+import { validateRequestContract, type SchemaViolation } from '@/utils/openapi-validation';
+import type { StoredRequestBody } from '@/utils/body';
+
+const spec = JSON.stringify({
+  openapi: '3.0.3',
+  info: { title: 'Pets', version: '1' },
+  servers: [{ url: 'https://pets.example.com/api' }],
+  components: {
+    securitySchemes: { key: { type: 'apiKey', in: 'header', name: 'X-Api-Key' } },
+    schemas: {
+      Pet: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          kind: { type: 'string', enum: ['cat', 'dog'] },
+          owner: { $ref: '#/components/schemas/Owner' },
+        },
+      },
+      Owner: { type: 'object', required: ['id'], properties: { id: { type: 'integer' } } },
+    },
+  },
+  security: [{ key: [] }],
+  paths: {
+    '/pets/{petId}': {
+      parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'integer' } }],
+      get: {
+        operationId: 'getPet',
+        parameters: [
+          { name: 'fields', in: 'query', schema: { type: 'array', items: { type: 'string' } } },
+          { name: 'X-Trace', in: 'header', required: true, schema: { type: 'string' } },
+          { name: 'X-Api-Key', in: 'header', required: true, schema: { type: 'string' } },
+        ],
+      },
+    },
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer', maximum: 100 } }],
+      },
+      post: {
+        operationId: 'createPet',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+        },
+      },
+    },
+  },
+});
+
+const { summary, operations } = parseOpenApiDocument(spec);
+
+/**
+ * Match a request to its documented operation and validate it, the way the proxy does before risk assessment.
+ */
+function validate(
+  method: string,
+  targetUrl: string,
+  options: { headers?: Record<string, string>; body?: StoredRequestBody; contentType?: string } = {}
+): SchemaViolation[] {
+  const documented = findDocumentedOperation(
+    { operations, basePaths: summary.basePaths, markdown: [] },
+    method,
+    targetUrl,
+    'https://pets.example.com'
+  );
+  if (!documented?.requestContract) throw new Error(`No documented operation for ${method} ${targetUrl}`);
+  return validateRequestContract(documented.requestContract, documented.path, {
+    path: documented.requestPath,
+    query: new URL(targetUrl).searchParams,
+    headers: options.headers ?? {},
+    body: options.body ?? { body: null, encoding: 'utf8' },
+    contentType: options.contentType ?? null,
+  });
+}
+
+const json = (value: unknown): StoredRequestBody => ({ body: JSON.stringify(value), encoding: 'utf8' });
+
+describe('path parameters', () => {
+  test('a conforming request has no violations', () => {
+    expect(validate('GET', 'https://pets.example.com/api/pets/42?fields=name&fields=kind', { headers: { 'x-trace': 't' } })).toEqual([]);
+  });
+
+  test('checks path parameters against their schema', () => {
+    expect(validate('GET', 'https://pets.example.com/api/pets/rex', { headers: { 'X-Trace': 't' } })).toEqual([
+      { location: 'path', path: 'petId', message: expect.any(String) },
+    ]);
+  });
+
+  test('reports malformed percent-encoding', () => {
+    const getPet = operations.find((operation) => operation.operationId === 'getPet')!;
+    const violations = validateRequestContract(getPet.requestContract!, getPet.path, {
+      path: '/pets/%E0%A4%A',
+      query: new URLSearchParams(),
+      headers: { 'X-Trace': 't' },
+      body: { body: null, encoding: 'utf8' },
+      contentType: null,
+    });
+    expect(violations).toEqual([{ location: 'path', path: 'petId', message: 'Value is not valid percent-encoding' }]);
+  });
+});
+
+describe('query and header parameters', () => {
+  test('reports missing required headers, but not injected credential headers', () => {
+    expect(validate('GET', 'https://pets.example.com/api/pets/42')).toEqual([
+      { location: 'header', path: 'X-Trace', message: 'Required parameter is missing' },
+    ]);
+  });
+
+  test('coerces query values before checking them', () => {
+    expect(validate('GET', 'https://pets.example.com/api/pets?limit=50')).toEqual([]);
+    expect(validate('GET', 'https://pets.example.com/api/pets?limit=500')).toEqual([
+      { location: 'query', path: 'limit', message: expect.any(String) },
+    ]);
+    expect(validate('GET', 'https://pets.example.com/api/pets?limit=many')).toEqual([
+      { location: 'query', path: 'limit', message: expect.any(String) },
+    ]);
+  });
+});
+
+describe('request body', () => {
+  const url = 'https://pets.example.com/api/pets';
+
+  test('accepts a body matching the schema, with $refs resolved', () => {
+    expect(validate('POST', url, { body: json({ name: 'Rex', kind: 'dog', owner: { id: 7 } }), contentType: 'application/json' })).toEqual([]);
+  });
+
+  test('reports each body issue at its JSON path', () => {
+    const violations = validate('POST', url, { body: json({ kind: 'fish', owner: { id: 'seven' } }), contentType: 'application/json' });
+    expect(violations.map(({ location, path }) => ({ location, path }))).toEqual([
+      { location: 'body', path: 'name' },
+      { location: 'body', path: 'kind' },
+      { location: 'body', path: 'owner.id' },
+    ]);
+  });
+
+  test('requires a required body', () => {
+    expect(validate('POST', url)).toEqual([{ location: 'body', path: '', message: 'Request body is required' }]);
+  });
+
+  test('rejects undeclared content types and invalid JSON', () => {
+    expect(validate('POST', url, { body: { body: 'name=Rex', encoding: 'utf8' }, contentType: 'application/x-www-form-urlencoded' })).toEqual([
+      {
+        location: 'body',
+        path: '',
+        message: 'Content type application/x-www-form-urlencoded is not accepted (expected application/json)',
+      },
+    ]);
+    expect(validate('POST', url, { body: { body: '{"name":', encoding: 'utf8' }, contentType: 'application/json' })).toEqual([
+      { location: 'body', path: '', message: 'Request body is not valid JSON' },
+    ]);
+  });
+});
@@ -0,0 +1,356 @@
+// OpenAPI request contracts: extracted per operation when a document is indexed, and checked
+// against agent requests (path params, query, headers, JSON body) before risk assessment
+
+import { z } from 'zod';
+import type { OperationParameterContract, OperationRequestContract } from '@/db/schema';
+import type { StoredRequestBody } from '@/utils/body';
+
+/**
+ * One way a request breaks its operation's contract, as returned to the agent in the 422.
+ */
+export interface SchemaViolation {
+  location: 'path' | 'query' | 'header' | 'body';
+  path: string;    // parameter name, or dotted JSON path into the body ('' = the body itself)
+  message: string;
+}
+
+/**
+ * Nested $ref resolutions followed before a schema is cut off (recursive schemas accept anything below).
+ */
+const MAX_REF_DEPTH = 16;
+
+/**
+ * Largest stored contract (serialized); above this the body schema is dropped and only parameters are checked.
+ */
+const MAX_CONTRACT_CHARS = 256 * 1024;
+
+/**
+ * Headers the gateway or HTTP itself controls; OpenAPI ignores header parameters with these names.
+ */
+const IGNORED_HEADER_PARAMETERS = new Set(['accept', 'content-type', 'authorization']);
+
+/**
+ * Schema keywords of a Swagger 2.0 non-body parameter (declared inline on the parameter).
+ */
+const SWAGGER_PARAMETER_KEYWORDS = [
+  'type', 'format', 'items', 'enum', 'default', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum',
+  'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems', 'uniqueItems', 'multipleOf',
+];
+
+const MAX_VIOLATIONS = 20;
+
+// ============================================================================
+// Contract extraction
+// ============================================================================
+
+/**
+ * An object in a parsed OpenAPI document. Documents are untrusted input: every field is checked
+ * before use.
+ */
+export type OpenApiObject = Record<string, unknown>;
+
+/**
+ * The value as an object (not an array), or null.
+ */
+export function asObject(value: unknown): OpenApiObject | null {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as OpenApiObject) : null;
+}
+
+/**
+ * The value's string items if it is an array, or null.
+ */
+export function asStringArray(value: unknown): string[] | null {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : null;
+}
+
+/**
+ * decodeURIComponent, or null for malformed percent-encoding.
+ */
+function safeDecode(value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+function resolvePointer(spec: OpenApiObject, ref: string): unknown {
+  if (!ref.startsWith('#/')) return undefined; // external references aren't fetched
+  let node: unknown = spec;
+  for (const raw of ref.slice(2).split('/')) {
+    const key = safeDecode(raw)?.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (key === undefined || !node || typeof node !== 'object') return undefined;
+    node = (node as Record<string, unknown>)[key]; // arrays too: "0" indexes them like 0
+  }
+  return node;
+}
+
+/**
+ * Copy of a schema (or parameter / request body) with local $refs replaced by their targets.
+ * Recursive and unresolvable references become {} (any value).
+ */
+function inlineRefs(node: unknown, spec: OpenApiObject, stack: string[] = []): unknown {
+  if (Array.isArray(node)) return node.map((item) => inlineRefs(item, spec, stack));
+  if (!node || typeof node !== 'object') return node;
+
+  const ref = (node as Record<string, unknown>).$ref;
+  if (typeof ref === 'string') {
+    if (stack.includes(ref) || stack.length >= MAX_REF_DEPTH) return {};
+    const target = resolvePointer(spec, ref);
+    return target === undefined ? {} : inlineRefs(target, spec, [...stack, ref]);
+  }
+
+  const copy: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (key.startsWith('x-') || key === 'example' || key === 'examples') continue;
+    copy[key] = inlineRefs(value, spec, stack);
+  }
+  return copy;
+}
+
+function parameterSchema(parameter: OpenApiObject): Record<string, unknown> | null {
+  const schema = asObject(parameter.schema);
+  if (schema) return schema;
+  const inline = Object.fromEntries(
+    SWAGGER_PARAMETER_KEYWORDS.filter((key) => parameter[key] !== undefined).map((key) => [key, parameter[key]])
+  );
+  return Object.keys(inline).length > 0 ? inline : null;
+}
+
+function isJsonMediaType(mediaType: string): boolean {
+  const base = mediaType.split(';')[0]!.trim().toLowerCase();
+  return base === 'application/json' || base.endsWith('+json');
+}
+
+/**
+ * The request contract of one operation: path-item and operation parameters (the operation's win),
+ * and the request body (OpenAPI 3 requestBody, or a Swagger 2.0 body / formData parameter).
+ *
+ * @param spec - The whole document (for $ref resolution and Swagger's global consumes)
+ * @param pathItem - The operation's path item
+ * @param operation - The operation object
+ * @param credentialHeaders - Header names the gateway injects (apiKey schemes); not required from the agent
+ */
+export function extractRequestContract(
+  spec: OpenApiObject,
+  pathItem: OpenApiObject,
+  operation: OpenApiObject,
+  credentialHeaders: string[] = []
+): OperationRequestContract {
+  const skippedHeaders = new Set([...IGNORED_HEADER_PARAMETERS, ...credentialHeaders.map((name) => name.toLowerCase())]);
+  const declared = [
+    ...(Array.isArray(pathItem.parameters) ? pathItem.parameters : []),
+    ...(Array.isArray(operation.parameters) ? operation.parameters : []),
+  ].map((parameter) => asObject(inlineRefs(parameter, spec)));
+
+  const byKey = new Map<string, OperationParameterContract>();
+  let body: OperationRequestContract['body'] = null;
+  const consumes = asStringArray(operation.consumes) ?? asStringArray(spec.consumes) ?? ['application/json'];
+
+  for (const parameter of declared) {
+    const name = parameter?.name;
+    if (!parameter || typeof name !== 'string') continue;
+    const location = parameter.in;
+    if (location === 'body') {
+      body = { required: parameter.required === true, contentTypes: consumes, schema: asObject(parameter.schema) };
+      continue;
+    }
+    if (location === 'formData') {
+      body = { required: body?.required || parameter.required === true, contentTypes: consumes, schema: null };
+      continue;
+    }
+    if (location !== 'path' && location !== 'query' && location !== 'header') continue;
+    if (location === 'header' && skippedHeaders.has(name.toLowerCase())) continue;
+    byKey.set(`${location}:${name}`, {
+      name,
+      in: location,
+      required: location === 'path' || parameter.required === true,
+      schema: parameterSchema(parameter),
+    });
+  }
+
+  const requestBody = asObject(inlineRefs(operation.requestBody, spec));
+  const content = asObject(requestBody?.content);
+  if (requestBody && content) {
+    const contentTypes = Object.keys(content);
+    const jsonType = contentTypes.find(isJsonMediaType);
+    body = {
+      required: requestBody.required === true,
+      contentTypes,
+      schema: jsonType ? asObject(asObject(content[jsonType])?.schema) : null,
+    };
+  }
+
+  const contract: OperationRequestContract = { parameters: [...byKey.values()], body };
+  if (body?.schema && JSON.stringify(contract).length > MAX_CONTRACT_CHARS) {
+    contract.body = { ...body, schema: null };
+  }
+  return contract;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const compiledSchemas = new Map<string, z.ZodType | null>();
+
+/**
+ * Zod schema for a JSON Schema, cached by its text. Null if the schema uses constructs Zod can't
+ * express (e.g. `not`) — that part of the contract is skipped rather than failing every request.
+ */
+function compileSchema(schema: Record<string, unknown>): z.ZodType | null {
+  const key = JSON.stringify(schema);
+  if (compiledSchemas.has(key)) return compiledSchemas.get(key)!;
+  let compiled: z.ZodType | null;
+  try {
+    compiled = z.fromJSONSchema(schema as Parameters<typeof z.fromJSONSchema>[0], { defaultTarget: 'openapi-3.0' });
+  } catch {
+    compiled = null;
+  }
+  if (compiledSchemas.size >= 1000) compiledSchemas.clear();
+  compiledSchemas.set(key, compiled);
+  return compiled;
+}
+
+/**
+ * Parameter values arrive as strings; convert them to the type the schema declares
+ * (anything unconvertible stays a string and fails validation with a type error).
+ */
+function coerceParameter(values: string[], schema: Record<string, unknown>): unknown {
+  const type = schema.type;
+  if (type === 'array') {
+    const items = values.length === 1 ? values[0]!.split(',') : values;
+    const itemSchema = schema.items && typeof schema.items === 'object' ? (schema.items as Record<string, unknown>) : {};
+    return items.map((item) => coerceParameter([item], itemSchema));
+  }
+  const value = values[0]!;
+  if ((type === 'integer' || type === 'number') && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  if (type === 'boolean' && (value === 'true' || value === 'false')) return value === 'true';
+  return value;
+}
+
+function formatIssuePath(path: PropertyKey[]): string {
+  return path.map(String).join('.');
+}
+
+function mediaTypeMatches(requestType: string, declared: string): boolean {
+  const [type, subtype] = declared.split(';')[0]!.trim().toLowerCase().split('/');
+  const [requestMain, requestSub] = requestType.split('/');
+  return (type === '*' || type === requestMain) && (subtype === '*' || subtype === requestSub);
+}
+
+/**
+ * Path parameter values, by matching the request path against the operation's template.
+ */
+function extractPathParameters(template: string, requestPath: string): Record<string, string> {
+  const names: string[] = [];
+  const pattern = template
+    .replace(/\/+$/, '')
+    .split('/')
+    .map((segment) =>
+      segment
+        .replace(/[.*+?^$()|[\]\\]/g, '\\$&')
+        .replace(/\{([^}]+)\}/g, (_match, name: string) => {
+          names.push(name);
+          return '([^/]+)';
+        })
+    )
+    .join('/');
+  const match = requestPath.match(new RegExp(`^${pattern}/?$`));
+  if (!match) return {};
+  return Object.fromEntries(names.map((name, index) => [name, match[index + 1]!]));
+}
+
+/**
+ * A request as seen by contract validation.
+ */
+export interface ValidatedRequest {
+  path: string;                    // request path relative to the spec (the one that matched the template)
+  query: URLSearchParams;
+  headers: Record<string, string>;
+  body: StoredRequestBody;
+  contentType: string | null;
+}
+
+/**
+ * Check a request against its operation's contract.
+ *
+ * @param contract - The cataloged operation's request contract
+ * @param template - The operation's path template, e.g. /pets/{petId}
+ * @param request - The agent's request
+ * @returns Violations found (at most MAX_VIOLATIONS); empty if the request conforms
+ */
+export function validateRequestContract(
+  contract: OperationRequestContract,
+  template: string,
+  request: ValidatedRequest
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const pathParameters = extractPathParameters(template, request.path);
+  const headers = new Map(Object.entries(request.headers).map(([name, value]) => [name.toLowerCase(), value]));
+
+  for (const parameter of contract.parameters) {
+    let values: string[];
+    if (parameter.in === 'path') {
+      const value = pathParameters[parameter.name];
+      const decoded = value !== undefined ? safeDecode(value) : undefined;
+      if (decoded === null) {
+        violations.push({ location: 'path', path: parameter.name, message: 'Value is not valid percent-encoding' });
+        continue;
+      }
+      values = decoded !== undefined ? [decoded] : [];
+    } else if (parameter.in === 'query') {
+      values = request.query.getAll(parameter.name);
+    } else {
+      const value = headers.get(parameter.name.toLowerCase());
+      values = value !== undefined ? [value] : [];
+    }
+
+    if (values.length === 0) {
+      if (parameter.required) {
+        violations.push({ location: parameter.in, path: parameter.name, message: 'Required parameter is missing' });
+      }
+      continue;
+    }
+    if (!parameter.schema) continue;
+    const schema = compileSchema(parameter.schema);
+    const result = schema?.safeParse(coerceParameter(values, parameter.schema));
+    if (result && !result.success) {
+      violations.push({ location: parameter.in, path: parameter.name, message: result.error.issues[0]!.message });
+    }
+  }
+
+  const body = contract.body;
+  const hasBody = request.body.body !== null && request.body.body !== '';
+  if (body && !hasBody && body.required) {
+    violations.push({ location: 'body', path: '', message: 'Request body is required' });
+  }
+  if (body && hasBody) {
+    const mediaType = request.body.encoding === 'multipart'
+      ? 'multipart/form-data'
+      : (request.contentType ?? 'application/json').split(';')[0]!.trim().toLowerCase();
+    if (body.contentTypes.length > 0 && !body.contentTypes.some((declared) => mediaTypeMatches(mediaType, declared))) {
+      violations.push({
+        location: 'body',
+        path: '',
+        message: `Content type ${mediaType} is not accepted (expected ${body.contentTypes.join(', ')})`,
+      });
+    } else if (body.schema && isJsonMediaType(mediaType) && request.body.encoding === 'utf8') {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(request.body.body!);
+      } catch {
+        violations.push({ location: 'body', path: '', message: 'Request body is not valid JSON' });
+        return violations;
+      }
+      const result = compileSchema(body.schema)?.safeParse(parsed);
+      if (result && !result.success) {
+        for (const issue of result.error.issues) {
+          violations.push({ location: 'body', path: formatIssuePath(issue.path), message: issue.message });
+        }
+      }
+    }
+  }
+
+  return violations.slice(0, MAX_VIOLATIONS);
+}
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import type { OperationRule } from '@/db/schema';
+import { matchOperationRules, requestOperationKeys } from '@/utils/operation-rules';
+
+const rules: OperationRule[] = [
+  { match: 'mutation.deleteRepo', action: 'deny' },
+  { match: 'mutation.delete*', action: 'approve' },
+  { match: 'query.*', action: 'allow' },
+  { match: 'eth_send*', action: 'approve' },
+  { match: 'eth_*', action: 'allow' },
+];
+
+describe('requestOperationKeys', () => {
+  test('keys GraphQL operations by type and field', () => {
+    expect(
+      requestOperationKeys({
+        protocol: 'graphql',
+        operations: [{ type: 'mutation', name: null, fields: ['deleteIssue', 'addLabel'] }],
+      })
+    ).toEqual(['mutation.deleteIssue', 'mutation.addLabel']);
+  });
+
+  test('keys JSON-RPC calls by method', () => {
+    expect(
+      requestOperationKeys({
+        protocol: 'jsonrpc',
+        batch: true,
+        calls: [
+          { method: 'eth_call', id: 1, params: null, riskScore: 0 },
+          { method: 'eth_call', id: 2, params: null, riskScore: 0 },
+        ],
+      })
+    ).toEqual(['eth_call']);
+  });
+
+  test('has no keys for plain HTTP', () => {
+    expect(requestOperationKeys(null)).toEqual([]);
+  });
+});
+
+describe('matchOperationRules', () => {
+  test('the first matching rule decides a key', () => {
+    expect(matchOperationRules(rules, ['mutation.deleteRepo'])).toEqual({
+      action: 'deny',
+      key: 'mutation.deleteRepo',
+      rule: rules[0]!,
+    });
+    expect(matchOperationRules(rules, ['mutation.deleteIssue'])?.action).toBe('approve');
+  });
+
+  test('* matches any run of characters, including none', () => {
+    expect(matchOperationRules(rules, ['query.'])?.action).toBe('allow');
+    expect(matchOperationRules(rules, ['eth_sendRawTransaction'])?.action).toBe('approve');
+  });
+
+  test('other regex characters are literal', () => {
+    expect(matchOperationRules([{ match: 'a.b', action: 'deny' }], ['axb'])).toBeNull();
+    expect(matchOperationRules([{ match: 'a.b', action: 'deny' }], ['a.b'])?.action).toBe('deny');
+  });
+
+  test('deny beats approve beats allow across keys', () => {
+    expect(matchOperationRules(rules, ['query.viewer', 'mutation.deleteIssue', 'mutation.deleteRepo'])).toMatchObject({
+      action: 'deny',
+      key: 'mutation.deleteRepo',
+    });
+    expect(matchOperationRules(rules, ['eth_call', 'eth_sendTransaction'])).toMatchObject({
+      action: 'approve',
+      key: 'eth_sendTransaction',
+    });
+  });
+
+  test('allows only if every key was allowed', () => {
+    expect(matchOperationRules(rules, ['query.viewer', 'query.search'])).toMatchObject({
+      action: 'allow',
+      key: 'query.viewer',
+    });
+    expect(matchOperationRules(rules, ['query.viewer', 'mutation.addLabel'])).toBeNull();
+  });
+
+  test('an unmatched key still lets a deny or approve through', () => {
+    expect(matchOperationRules(rules, ['mutation.addLabel', 'mutation.deleteIssue'])?.action).toBe('approve');
+  });
+
+  test('no rules or no keys settle nothing', () => {
+    expect(matchOperationRules(null, ['query.viewer'])).toBeNull();
+    expect(matchOperationRules([], ['query.viewer'])).toBeNull();
+    expect(matchOperationRules(rules, [])).toBeNull();
+  });
+});
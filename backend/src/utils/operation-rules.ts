@@ -0,0 +1,58 @@
+// Service operation rules: allow / approve / deny decisions for protocol-level operations
+// Keys come from the request's parsed operation (GraphQL "mutation.deleteUser", JSON-RPC method "eth_sendTransaction")
+
+import type { OperationRule, RequestOperation } from '@/db/schema';
+import { graphQLOperationKeys } from '@/utils/graphql';
+import { jsonRpcOperationKeys } from '@/utils/jsonrpc';
+
+/**
+ * Outcome of matching a request against its service's rules.
+ * `key` and `rule` identify the deciding match (for deny/approve: the first key that triggered it).
+ */
+export interface OperationDecision {
+  action: OperationRule['action'];
+  key: string;
+  rule: OperationRule;
+}
+
+/**
+ * Operation keys of a request, in the form matched by operation rules.
+ */
+export function requestOperationKeys(operation: RequestOperation | null): string[] {
+  if (!operation) return [];
+  if (operation.protocol === 'jsonrpc') return jsonRpcOperationKeys(operation.calls);
+  return graphQLOperationKeys(operation.operations);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`);
+}
+
+/**
+ * Decide what the service's rules say about a request.
+ *
+ * Each key takes the first rule whose pattern matches it. The strictest outcome wins:
+ * any deny → deny; otherwise any approve → approve; allow only if every key was allowed.
+ * A batched request is decided as a unit: one denied call rejects the whole batch.
+ *
+ * @returns The decision, or null if the rules don't settle it (normal risk assessment applies)
+ */
+export function matchOperationRules(rules: OperationRule[] | null, keys: string[]): OperationDecision | null {
+  if (!rules || rules.length === 0 || keys.length === 0) return null;
+
+  const compiled = rules.map((rule) => ({ rule, pattern: globToRegExp(rule.match) }));
+  const decisions: OperationDecision[] = [];
+  let unmatched = false;
+  for (const key of keys) {
+    const match = compiled.find(({ pattern }) => pattern.test(key));
+    if (match) decisions.push({ action: match.rule.action, key, rule: match.rule });
+    else unmatched = true;
+  }
+
+  return (
+    decisions.find((d) => d.action === 'deny') ??
+    decisions.find((d) => d.action === 'approve') ??
+    (unmatched ? null : decisions[0]!)
+  );
+}
@@ -0,0 +1,142 @@
+// Loopback CONNECT tunnel to a vetted address, for clients that resolve hostnames themselves
+// Bun's WebSocket client takes no address or lookup option: routed through this one-shot proxy, TLS
+// (SNI, certificate checks) still runs against the URL's hostname while TCP goes to the pinned address
+
+import type { Socket } from 'bun';
+import { randomBytes } from 'node:crypto';
+
+/**
+ * Most bytes of CONNECT request head read before the tunnel gives up on the client.
+ */
+const MAX_HEAD_BYTES = 8 * 1024;
+
+/**
+ * A listening tunnel. Pass proxy as the WebSocket client's proxy option; close once the client has
+ * connected (or failed) — an established tunnel outlives close.
+ */
+export interface PinnedTunnel {
+  proxy: { url: string; headers: Record<string, string> };
+  close: () => void;
+}
+
+/**
+ * Write queued chunks until the socket stops accepting; the rest waits for its drain event.
+ */
+function flush(socket: Socket<undefined>, queue: Uint8Array[]): void {
+  while (queue.length > 0) {
+    const chunk = queue[0]!;
+    const written = socket.write(chunk);
+    if (written < chunk.byteLength) {
+      queue[0] = chunk.subarray(Math.max(written, 0));
+      return;
+    }
+    queue.shift();
+  }
+}
+
+/**
+ * Open a single-use CONNECT proxy on 127.0.0.1 that tunnels to address:port, whatever host the
+ * CONNECT names. Only the first connection carrying the tunnel's random token is served.
+ *
+ * @param address - The vetted address (pinTarget)
+ * @param port - The target port
+ */
+export function openPinnedTunnel(address: string, port: number): PinnedTunnel {
+  const token = randomBytes(24).toString('hex');
+  const toUpstream: Uint8Array[] = [];
+  const toClient: Uint8Array[] = [];
+  let head: Buffer | null = Buffer.alloc(0);
+  let claimed = false;
+  let upstream: Socket<undefined> | null = null;
+
+  async function connect(client: Socket<undefined>, requestHead: string): Promise<void> {
+    const lines = requestHead.split('\r\n');
+    const authorized = lines.slice(1).some((line) => {
+      const separator = line.indexOf(':');
+      return line.slice(0, separator).trim().toLowerCase() === 'proxy-authorization' &&
+        line.slice(separator + 1).trim() === `Bearer ${token}`;
+    });
+    if (!lines[0]!.startsWith('CONNECT ') || !authorized) {
+      client.end('HTTP/1.1 407 Proxy Authentication Required\r\n\r\n');
+      return;
+    }
+
+    try {
+      upstream = await Bun.connect({
+        hostname: address,
+        port,
+        socket: {
+          data(_socket, chunk) {
+            toClient.push(chunk);
+            flush(client, toClient);
+          },
+          drain(socket) {
+            flush(socket, toUpstream);
+          },
+          close() {
+            client.end();
+          },
+          error() {
+            client.end();
+          },
+        },
+      });
+    } catch {
+      client.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+      return;
+    }
+    client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+    flush(upstream, toUpstream);
+  }
+
+  const listener = Bun.listen({
+    hostname: '127.0.0.1',
+    port: 0,
+    socket: {
+      open(client) {
+        if (claimed) {
+          client.end();
+          return;
+        }
+        claimed = true;
+        listener.stop();
+      },
+      data(client, chunk) {
+        if (head === null) {
+          // Tunnel established (or being established): pass bytes through
+          toUpstream.push(chunk);
+          if (upstream) flush(upstream, toUpstream);
+          return;
+        }
+        head = Buffer.concat([head, chunk]);
+        const end = head.indexOf('\r\n\r\n');
+        if (end === -1) {
+          if (head.byteLength > MAX_HEAD_BYTES) client.end('HTTP/1.1 431 Request Header Fields Too Large\r\n\r\n');
+          return;
+        }
+        const requestHead = head.subarray(0, end).toString('latin1');
+        const rest = head.subarray(end + 4);
+        head = null;
+        if (rest.byteLength > 0) toUpstream.push(rest);
+        connect(client, requestHead).catch(() => client.end());
+      },
+      drain(client) {
+        flush(client, toClient);
+      },
+      close() {
+        upstream?.end();
+      },
+      error() {
+        upstream?.end();
+      },
+    },
+  });
+
+  return {
+    proxy: {
+      url: `http://127.0.0.1:${listener.port}`,
+      headers: { 'Proxy-Authorization': `Bearer ${token}` },
+    },
+    close: () => listener.stop(),
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import type { ResponseRedactionRule } from '@/db/schema';
+import { parseJsonPath, redactResponseBody } from '@/utils/redaction';
+
+function redact(body: unknown, rules: ResponseRedactionRule[]) {
+  const result = redactResponseBody(new TextEncoder().encode(JSON.stringify(body)), rules);
+  return { body: JSON.parse(new TextDecoder().decode(result.bytes)), hits: result.hits };
+}
+
+function jsonPath(pattern: string): ResponseRedactionRule {
+  return { name: pattern, type: 'json_path', pattern };
+}
+
+describe('parseJsonPath', () => {
+  test('parses the supported subset', () => {
+    expect(parseJsonPath("$.user['full name'][0][*].*..card..*[-1]")).toEqual([
+      { kind: 'child', name: 'user' },
+      { kind: 'child', name: 'full name' },
+      { kind: 'index', index: 0 },
+      { kind: 'wildcard' },
+      { kind: 'wildcard' },
+      { kind: 'descendant', name: 'card' },
+      { kind: 'descendant', name: null },
+      { kind: 'index', index: -1 },
+    ]);
+  });
+
+  test.each(['user.ssn', '$.items[?(@.secret)]', '$.items[0:2]', "$['a','b']", '$.'])(
+    'rejects %s',
+    (path) => {
+      expect(() => parseJsonPath(path)).toThrow(SyntaxError);
+    }
+  );
+});
+
+describe('JSONPath redaction', () => {
+  test('redacts a child path', () => {
+    const result = redact({ user: { name: 'Ada', ssn: '123-45-6789' } }, [jsonPath('$.user.ssn')]);
+    expect(result.body).toEqual({ user: { name: 'Ada', ssn: '[REDACTED]' } });
+    expect(result.hits).toEqual([{ rule: '$.user.ssn', count: 1 }]);
+  });
+
+  test('redacts every descendant with a name', () => {
+    const result = redact(
+      { card: '4111', orders: [{ card: '5555' }, { payment: { card: '3782' } }] },
+      [jsonPath('$..card')]
+    );
+    expect(result.body).toEqual({
+      card: '[REDACTED]',
+      orders: [{ card: '[REDACTED]' }, { payment: { card: '[REDACTED]' } }],
+    });
+    expect(result.hits).toEqual([{ rule: '$..card', count: 3 }]);
+  });
+
+  test('redacts array elements by index and wildcard', () => {
+    expect(redact({ tokens: ['a', 'b', 'c'] }, [jsonPath('$.tokens[-1]')]).body).toEqual({
+      tokens: ['a', 'b', '[REDACTED]'],
+    });
+    expect(redact({ users: [{ key: 'x' }, { key: 'y' }] }, [jsonPath('$.users[*].key')]).body).toEqual({
+      users: [{ key: '[REDACTED]' }, { key: '[REDACTED]' }],
+    });
+  });
+
+  test('uses the rule replacement', () => {
+    const result = redact({ secret: 's3cr3t' }, [{ ...jsonPath('$.secret'), replacement: '***' }]);
+    expect(result.body).toEqual({ secret: '***' });
+  });
+
+  test('leaves the body untouched when nothing matches', () => {
+    const bytes = new TextEncoder().encode('{ "user": { "name": "Ada" } }');
+    const result = redactResponseBody(bytes, [jsonPath('$.user.ssn')]);
+    expect(result.bytes).toBe(bytes);
+    expect(result.hits).toEqual([]);
+  });
+
+  test('combines with field and regex rules', () => {
+    const result = redact({ token: 'abc', note: 'call 555-1234', a: { ssn: '1' } }, [
+      jsonPath('$.a.ssn'),
+      { name: 'token', type: 'field', pattern: 'token' },
+      { name: 'phone', type: 'regex', pattern: '\\d{3}-\\d{4}' },
+    ]);
+    expect(result.body).toEqual({ token: '[REDACTED]', note: 'call [REDACTED]', a: { ssn: '[REDACTED]' } });
+    expect(result.hits).toEqual([
+      { rule: '$.a.ssn', count: 1 },
+      { rule: 'token', count: 1 },
+      { rule: 'phone', count: 1 },
+    ]);
+  });
+});
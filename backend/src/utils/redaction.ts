@@ -0,0 +1,317 @@
+// Response redaction: removes fields and patterns from upstream responses before they reach the agent
+// JSON bodies are rewritten structurally; other text bodies and event-stream lines get regex rules only
+
+import type { ResponseRedactionRule, RedactionHit } from '@/db/schema';
+
+const DEFAULT_REPLACEMENT = '[REDACTED]';
+
+type PathSegment =
+  | { kind: 'child'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'descendant'; name: string | null }; // null = ..*
+
+/**
+ * Parse the JSONPath subset used by redaction rules:
+ * `$`, `.name`, `['name']`, `[0]`, `[-1]`, `[*]`, `.*`, `..name`, `..*`.
+ *
+ * @throws SyntaxError if the path uses anything else (filters, slices, unions)
+ */
+export function parseJsonPath(path: string): PathSegment[] {
+  if (!path.startsWith('$')) throw new SyntaxError('JSONPath must start with $');
+
+  const segments: PathSegment[] = [];
+  let i = 1;
+  const readName = (): string => {
+    const match = path.slice(i).match(/^[A-Za-z_$][\w$-]*/);
+    if (!match) throw new SyntaxError(`Expected a field name at position ${i}`);
+    i += match[0].length;
+    return match[0];
+  };
+
+  while (i < path.length) {
+    if (path.startsWith('..', i)) {
+      i += 2;
+      if (path[i] === '*') {
+        i++;
+        segments.push({ kind: 'descendant', name: null });
+      } else {
+        segments.push({ kind: 'descendant', name: readName() });
+      }
+    } else if (path[i] === '.') {
+      i++;
+      if (path[i] === '*') {
+        i++;
+        segments.push({ kind: 'wildcard' });
+      } else {
+        segments.push({ kind: 'child', name: readName() });
+      }
+    } else if (path[i] === '[') {
+      const match = path.slice(i).match(/^\[(?:\*|(-?\d+)|'([^']*)'|"([^"]*)")\]/);
+      if (!match) throw new SyntaxError(`Unsupported bracket expression at position ${i}`);
+      i += match[0].length;
+      if (match[1] !== undefined) segments.push({ kind: 'index', index: Number(match[1]) });
+      else if (match[2] !== undefined || match[3] !== undefined) segments.push({ kind: 'child', name: (match[2] ?? match[3])! });
+      else segments.push({ kind: 'wildcard' });
+    } else {
+      throw new SyntaxError(`Unexpected "${path[i]}" at position ${i}`);
+    }
+  }
+  return segments;
+}
+
+type Container = Record<string, unknown> | unknown[];
+type Slot = [Container, string | number];
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Value held in a slot.
+ */
+function readSlot([container, key]: Slot): unknown {
+  return (container as Record<string | number, unknown>)[key];
+}
+
+function writeSlot([container, key]: Slot, value: unknown): void {
+  (container as Record<string | number, unknown>)[key] = value;
+}
+
+function childSlots(node: Container): Slot[] {
+  return Array.isArray(node)
+    ? node.map((_, index) => [node, index] as Slot)
+    : Object.keys(node).map((key) => [node, key] as Slot);
+}
+
+/**
+ * Collect the slots (parent + key) a path selects, starting from slot.
+ */
+function selectSlots(slot: Slot, segments: PathSegment[], index: number, out: Slot[]): void {
+  if (index === segments.length) {
+    out.push(slot);
+    return;
+  }
+  const node = readSlot(slot);
+  if (!isContainer(node)) return;
+
+  const segment = segments[index]!;
+  switch (segment.kind) {
+    case 'child':
+      if (!Array.isArray(node) && Object.hasOwn(node, segment.name)) selectSlots([node, segment.name], segments, index + 1, out);
+      break;
+    case 'index':
+      if (Array.isArray(node)) {
+        const position = segment.index < 0 ? node.length + segment.index : segment.index;
+        if (position >= 0 && position < node.length) selectSlots([node, position], segments, index + 1, out);
+      }
+      break;
+    case 'wildcard':
+      for (const child of childSlots(node)) selectSlots(child, segments, index + 1, out);
+      break;
+    case 'descendant': {
+      const visit = (container: Container) => {
+        for (const child of childSlots(container)) {
+          if (segment.name === null || child[1] === segment.name) selectSlots(child, segments, index + 1, out);
+          const value = readSlot(child);
+          if (isContainer(value)) visit(value);
+        }
+      };
+      visit(node);
+      break;
+    }
+  }
+}
+
+function replaceSlots(slots: Slot[], replacement: string): number {
+  let count = 0;
+  for (const slot of slots) {
+    if (readSlot(slot) === replacement) continue; // selected twice (e.g. by ..*)
+    writeSlot(slot, replacement);
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Replace every value stored under a key (case-insensitive) at any depth. Replaced subtrees aren't searched.
+ */
+function redactField(node: unknown, field: string, replacement: string): number {
+  if (!isContainer(node)) return 0;
+  let count = 0;
+  for (const slot of childSlots(node)) {
+    const key = slot[1];
+    if (typeof key === 'string' && key.toLowerCase() === field) {
+      writeSlot(slot, replacement);
+      count++;
+    } else {
+      count += redactField(readSlot(slot), field, replacement);
+    }
+  }
+  return count;
+}
+
+function redactText(text: string, pattern: RegExp, replacement: string): { text: string; count: number } {
+  let count = 0;
+  const result = text.replace(pattern, () => {
+    count++;
+    return replacement;
+  });
+  return { text: result, count };
+}
+
+/**
+ * Apply regex rules to the string and number leaves of a JSON value, so JSON structure is never broken.
+ */
+function redactLeaves(node: unknown, pattern: RegExp, replacement: string): number {
+  if (!isContainer(node)) return 0;
+  let count = 0;
+  for (const slot of childSlots(node)) {
+    const value = readSlot(slot);
+    if (typeof value === 'string' || typeof value === 'number') {
+      const result = redactText(String(value), pattern, replacement);
+      if (result.count > 0) {
+        writeSlot(slot, result.text);
+        count += result.count;
+      }
+    } else {
+      count += redactLeaves(value, pattern, replacement);
+    }
+  }
+  return count;
+}
+
+function recordHit(hits: RedactionHit[], rule: string, count: number): void {
+  if (count === 0) return;
+  const existing = hits.find((hit) => hit.rule === rule);
+  if (existing) existing.count += count;
+  else hits.push({ rule, count });
+}
+
+/**
+ * Apply every rule to a parsed JSON document (structural rules first, then regex rules).
+ *
+ * @returns The redacted document (the input may be modified in place)
+ */
+function redactJson(document: unknown, rules: ResponseRedactionRule[], hits: RedactionHit[]): unknown {
+  const root: Container = [document];
+  for (const rule of rules) {
+    const replacement = rule.replacement ?? DEFAULT_REPLACEMENT;
+    if (rule.type === 'json_path') {
+      const slots: Slot[] = [];
+      selectSlots([root, 0], parseJsonPath(rule.pattern), 0, slots);
+      recordHit(hits, rule.name, replaceSlots(slots, replacement));
+    } else if (rule.type === 'field') {
+      recordHit(hits, rule.name, redactField(root, rule.pattern.toLowerCase(), replacement));
+    }
+  }
+  for (const rule of rules) {
+    if (rule.type === 'regex') {
+      recordHit(hits, rule.name, redactLeaves(root, new RegExp(rule.pattern, 'g'), rule.replacement ?? DEFAULT_REPLACEMENT));
+    }
+  }
+  return root[0];
+}
+
+function redactPlainText(text: string, rules: ResponseRedactionRule[], hits: RedactionHit[]): string {
+  for (const rule of rules) {
+    if (rule.type !== 'regex') continue;
+    const result = redactText(text, new RegExp(rule.pattern, 'g'), rule.replacement ?? DEFAULT_REPLACEMENT);
+    recordHit(hits, rule.name, result.count);
+    text = result.text;
+  }
+  return text;
+}
+
+function tryParseJson(text: string): { value: unknown } | null {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a response body is text the redaction rules can read. Binary media is passed through untouched.
+ */
+export function isRedactableContentType(contentType: string | null): boolean {
+  const type = (contentType ?? '').split(';')[0]!.trim().toLowerCase();
+  return (
+    type === '' ||
+    type.startsWith('text/') ||
+    type.includes('json') ||
+    type.includes('xml') ||
+    type === 'application/javascript' ||
+    type === 'application/x-www-form-urlencoded'
+  );
+}
+
+const strictUtf8 = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Redact a buffered response body.
+ *
+ * @param bytes - The full response body
+ * @param rules - The service's redaction rules
+ * @returns The body to return (the original bytes if nothing fired) and the rules that fired
+ */
+export function redactResponseBody(
+  bytes: Uint8Array,
+  rules: ResponseRedactionRule[]
+): { bytes: Uint8Array; hits: RedactionHit[] } {
+  let text: string;
+  try {
+    text = strictUtf8.decode(bytes);
+  } catch {
+    return { bytes, hits: [] };
+  }
+
+  const hits: RedactionHit[] = [];
+  const parsed = tryParseJson(text);
+  const output = parsed
+    ? JSON.stringify(redactJson(parsed.value, rules, hits))
+    : redactPlainText(text, rules, hits);
+
+  return hits.length > 0 ? { bytes: new TextEncoder().encode(output), hits } : { bytes, hits };
+}
+
+/**
+ * Redact a Server-Sent Events stream line by line. `data:` lines holding JSON get every rule;
+ * other lines get regex rules. Hits are accumulated into `hits` as the stream flows.
+ */
+export function createEventStreamRedactor(
+  rules: ResponseRedactionRule[],
+  hits: RedactionHit[]
+): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let pending = '';
+
+  const redactLine = (line: string): string => {
+    if (line.startsWith('data:')) {
+      const parsed = tryParseJson(line.slice(5));
+      if (parsed) {
+        const before = hits.reduce((sum, hit) => sum + hit.count, 0);
+        const redacted = redactJson(parsed.value, rules, hits);
+        const changed = hits.reduce((sum, hit) => sum + hit.count, 0) > before;
+        return changed ? `data: ${JSON.stringify(redacted)}` : line;
+      }
+    }
+    return redactPlainText(line, rules, hits);
+  };
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      pending += decoder.decode(chunk, { stream: true });
+      const lines = pending.split('\n');
+      pending = lines.pop()!;
+      if (lines.length > 0) {
+        controller.enqueue(encoder.encode(lines.map(redactLine).join('\n') + '\n'));
+      }
+    },
+    flush(controller) {
+      pending += decoder.decode();
+      if (pending) controller.enqueue(encoder.encode(redactLine(pending)));
+    },
+  });
+}
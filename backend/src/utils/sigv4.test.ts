@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import { EMPTY_PAYLOAD_HASH, hashPayload, signSigV4, type SigV4Credentials } from '@/utils/sigv4';
+
+// AWS SigV4 test suite (aws-sig-v4-test-suite): fixed credentials, region, service and time
+const credentials: SigV4Credentials = {
+  accessKeyId: 'AKIDEXAMPLE',
+  secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+  region: 'us-east-1',
+  service: 'service',
+};
+const now = new Date('2015-08-30T12:36:00Z');
+
+function sign(method: string, path: string, headers: Record<string, string> = {}, body = '') {
+  return signSigV4(
+    {
+      method,
+      url: `https://example.amazonaws.com${path}`,
+      headers: { Host: 'example.amazonaws.com', ...headers },
+      payloadHash: body ? hashPayload(body) : EMPTY_PAYLOAD_HASH,
+    },
+    credentials,
+    now
+  );
+}
+
+describe('signSigV4', () => {
+  test('get-vanilla', () => {
+    const headers = sign('GET', '/');
+    expect(headers['X-Amz-Date']).toBe('20150830T123600Z');
+    expect(headers.Authorization).toBe(
+      'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, ' +
+        'SignedHeaders=host;x-amz-date, ' +
+        'Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31'
+    );
+  });
+
+  test.each([
+    ['query-order-key-case', 'GET', '/?Param2=value2&Param1=value1', 'b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500'],
+    ['get-vanilla-empty-query-key', 'GET', '/?Param1=value1', 'a67d582fa61cc504c4bae71f336f98b97f1ea3c7a6bfe1b6e45aec72011b9aeb'],
+    ['post-vanilla', 'POST', '/', '5da7c1a2acd57cee7505fc6676e4e544621c30862966e37dddb68e92efbe5d6b'],
+  ])('%s', (_name, method, path, signature) => {
+    const headers = sign(method, path);
+    expect(headers.Authorization).toContain('SignedHeaders=host;x-amz-date,');
+    expect(headers.Authorization).toEndWith(`Signature=${signature}`);
+  });
+
+  test('post-x-www-form-urlencoded', () => {
+    const headers = sign('POST', '/', { 'Content-Type': 'application/x-www-form-urlencoded' }, 'Param1=value1');
+    expect(headers.Authorization).toContain('SignedHeaders=content-type;host;x-amz-date,');
+    expect(headers.Authorization).toEndWith(
+      'Signature=ff11897932ad3f4e8b18135d722051e5ac45fc38421b1da7b9d196a0fe09473a'
+    );
+  });
+
+  test('temporary credentials add a signed security token', () => {
+    const headers = signSigV4(
+      { method: 'GET', url: 'https://example.amazonaws.com/', headers: {}, payloadHash: EMPTY_PAYLOAD_HASH },
+      { ...credentials, sessionToken: 'session-token' },
+      now
+    );
+    expect(headers['X-Amz-Security-Token']).toBe('session-token');
+    expect(headers.Authorization).toContain('x-amz-security-token');
+  });
+});
@@ -0,0 +1,162 @@
+// AWS Signature Version 4 request signing (S3-compatible storage, API Gateway and other SigV4 APIs)
+// Pure signing over method, canonical path/query, selected headers and payload hash; no I/O
+
+import { createHash, createHmac } from 'node:crypto';
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+
+/**
+ * Hex SHA-256 of an empty payload — the payload hash of bodiless requests.
+ */
+export const EMPTY_PAYLOAD_HASH = createHash('sha256').update('').digest('hex');
+
+export interface SigV4Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string; // temporary (STS) credentials; sent as X-Amz-Security-Token
+  region: string;        // e.g. us-east-1 (MinIO: its configured region, us-east-1 by default)
+  service: string;       // signing name, e.g. s3, execute-api, sqs
+}
+
+export interface SigV4Request {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  payloadHash: string; // hex SHA-256 of the body as sent, or UNSIGNED-PAYLOAD
+}
+
+/**
+ * Hex SHA-256 of a request payload.
+ */
+export function hashPayload(payload: string | Uint8Array): string {
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+/**
+ * RFC 3986 percent-encoding: everything but unreserved characters (A-Z a-z 0-9 - _ . ~).
+ */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Canonical URI: each segment of the path as sent, re-encoded to RFC 3986. Every service but S3
+ * encodes the path a second time.
+ */
+function canonicalPath(pathname: string, service: string): string {
+  const segments = pathname.split('/').map((segment) => uriEncode(safeDecode(segment)));
+  const path = (service === 's3' ? segments : segments.map(uriEncode)).join('/');
+  return path.startsWith('/') ? path : `/${path}`;
+}
+
+/**
+ * Canonical query string: name=value pairs RFC 3986-encoded and sorted by name, then value.
+ */
+function canonicalQuery(search: string): string {
+  const pairs = search
+    .replace(/^\?/, '')
+    .split('&')
+    .filter((part) => part !== '')
+    .map((part) => {
+      const separator = part.indexOf('=');
+      const name = separator === -1 ? part : part.slice(0, separator);
+      const value = separator === -1 ? '' : part.slice(separator + 1);
+      return [uriEncode(safeDecode(name)), uriEncode(safeDecode(value))] as const;
+    });
+  pairs.sort(([nameA, valueA], [nameB, valueB]) =>
+    nameA !== nameB ? (nameA < nameB ? -1 : 1) : valueA < valueB ? -1 : valueA > valueB ? 1 : 0
+  );
+  return pairs.map(([name, value]) => `${name}=${value}`).join('&');
+}
+
+/**
+ * Headers covered by the signature: host, content-type, content-md5 and every x-amz-* header.
+ * Others (user-agent, accept-encoding, ...) are left unsigned so the HTTP client may set them.
+ */
+function isSignedHeader(name: string): boolean {
+  return name === 'host' || name === 'content-type' || name === 'content-md5' || name.startsWith('x-amz-');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Sign a request with AWS Signature Version 4 (Authorization header form).
+ *
+ * Signs the method, canonical path and query of url, the selected headers (see isSignedHeader;
+ * host falls back to the URL's host) and payloadHash. The caller sends X-Amz-Content-Sha256
+ * itself where the service needs it (S3 does).
+ *
+ * @param request - The request as it will be sent
+ * @param credentials - Access key, secret, region and service
+ * @param now - Signing time (default: now)
+ * @returns Headers to set on the request: Authorization, X-Amz-Date and, for temporary
+ *   credentials, X-Amz-Security-Token
+ */
+export function signSigV4(
+  request: SigV4Request,
+  credentials: SigV4Credentials,
+  now: Date = new Date()
+): Record<string, string> {
+  const url = new URL(request.url);
+  const amzDate = now.toISOString().replace(/[-:]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+
+  const added: Record<string, string> = { 'X-Amz-Date': amzDate };
+  if (credentials.sessionToken) added['X-Amz-Security-Token'] = credentials.sessionToken;
+
+  // Signing headers replace any the request already carries, whatever their case
+  const replaced = new Set(Object.keys(added).map((name) => name.toLowerCase()));
+  const canonical = new Map<string, string[]>();
+  for (const [name, value] of [
+    ...Object.entries(request.headers).filter(([name]) => !replaced.has(name.toLowerCase())),
+    ...Object.entries(added),
+  ]) {
+    const lower = name.toLowerCase();
+    if (!isSignedHeader(lower)) continue;
+    canonical.set(lower, [...(canonical.get(lower) ?? []), value.trim().replace(/\s+/g, ' ')]);
+  }
+  if (!canonical.has('host')) canonical.set('host', [url.host]);
+
+  const signedHeaders = [...canonical.keys()].sort();
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalPath(url.pathname, credentials.service),
+    canonicalQuery(url.search),
+    ...signedHeaders.map((name) => `${name}:${canonical.get(name)!.join(',')}`),
+    '',
+    signedHeaders.join(';'),
+    request.payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${credentials.region}/${credentials.service}/aws4_request`;
+  const stringToSign = [
+    ALGORITHM,
+    amzDate,
+    scope,
+    createHash('sha256').update(canonicalRequest).digest('hex'),
+  ].join('\n');
+
+  let signingKey = hmac(`AWS4${credentials.secretAccessKey}`, dateStamp);
+  for (const part of [credentials.region, credentials.service, 'aws4_request']) {
+    signingKey = hmac(signingKey, part);
+  }
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  added['Authorization'] =
+    `${ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`;
+  return added;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test';
+import { blockedRangeFor } from '@/utils/ssrf';
+
+describe('blockedRangeFor', () => {
+  test.each([
+    ['0.1.2.3', 'this-network'],
+    ['10.20.30.40', 'private'],
+    ['100.64.0.1', 'carrier-grade NAT'],
+    ['100.127.255.255', 'carrier-grade NAT'],
+    ['127.0.0.1', 'loopback'],
+    ['169.254.169.254', 'link-local'],
+    ['172.16.0.1', 'private'],
+    ['172.31.255.255', 'private'],
+    ['192.0.0.8', 'IETF protocol assignments'],
+    ['192.0.2.1', 'documentation'],
+    ['192.88.99.1', '6to4 relay anycast'],
+    ['192.168.1.1', 'private'],
+    ['198.19.0.1', 'benchmarking'],
+    ['198.51.100.7', 'documentation'],
+    ['203.0.113.9', 'documentation'],
+    ['224.0.0.251', 'multicast'],
+    ['255.255.255.255', 'reserved'],
+  ])('IPv4 %s is %s', (address, label) => {
+    expect(blockedRangeFor(address)).toBe(label);
+  });
+
+  test.each(['1.1.1.1', '8.8.8.8', '100.128.0.1', '172.32.0.1', '192.169.0.1', '198.20.0.1'])(
+    'public IPv4 %s is allowed',
+    (address) => {
+      expect(blockedRangeFor(address)).toBeNull();
+    }
+  );
+
+  test.each([
+    ['::', 'unspecified'],
+    ['::1', 'loopback'],
+    ['::a00:1', 'IPv4-compatible'],
+    ['64:ff9b:1::1', 'local-use NAT64'],
+    ['100::1', 'discard-only'],
+    ['2001:db8::1', 'documentation'],
+    ['2001::1', 'IETF protocol assignments'],
+    ['3fff::1', 'documentation'],
+    ['fd12:3456::1', 'unique local'],
+    ['fe80::1', 'link-local'],
+    ['fec0::1', 'site-local'],
+    ['ff02::1', 'multicast'],
+  ])('IPv6 %s is %s', (address, label) => {
+    expect(blockedRangeFor(address)).toBe(label);
+  });
+
+  test.each([
+    ['::ffff:127.0.0.1', 'IPv4-mapped loopback'],
+    ['::ffff:a9fe:a9fe', 'IPv4-mapped link-local'],
+    ['64:ff9b::10.0.0.1', 'NAT64 private'],
+    ['2002:7f00:1::', '6to4 loopback'],
+  ])('embedded IPv4 %s is %s', (address, label) => {
+    expect(blockedRangeFor(address)).toBe(label);
+  });
+
+  test.each(['2606:4700:4700::1111', '::ffff:8.8.8.8', '64:ff9b::808:808', '2002:808:808::'])(
+    'public IPv6 %s is allowed',
+    (address) => {
+      expect(blockedRangeFor(address)).toBeNull();
+    }
+  );
+
+  test('tolerates brackets and zone ids', () => {
+    expect(blockedRangeFor('[::1]')).toBe('loopback');
+    expect(blockedRangeFor('fe80::1%eth0')).toBe('link-local');
+  });
+
+  test('reports non-IP input', () => {
+    expect(blockedRangeFor('example.com')).toBe('invalid address');
+    expect(blockedRangeFor('')).toBe('invalid address');
+  });
+});
@@ -0,0 +1,194 @@
+// Address classification and DNS resolution for SSRF protection
+// Every address the gateway connects to is checked against the special-purpose range table below
+
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import { env } from '@/config/env';
+
+/**
+ * Resolves a hostname to every address it currently maps to.
+ * Swappable (see setHostResolver) so SSRF behaviour can be exercised against a local stub.
+ */
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+const systemResolver: HostResolver = async (hostname) => {
+  const results = await lookup(hostname, { all: true, verbatim: true });
+  return results.map((result) => result.address);
+};
+
+let activeResolver: HostResolver = systemResolver;
+
+/**
+ * Replace the resolver used for outbound requests. Pass null to restore the system resolver.
+ */
+export function setHostResolver(resolver: HostResolver | null): void {
+  activeResolver = resolver ?? systemResolver;
+}
+
+/**
+ * Resolve a hostname with the active resolver. IP literals resolve to themselves.
+ */
+export async function resolveHost(hostname: string): Promise<string[]> {
+  const bare = stripBrackets(hostname);
+  if (isIP(bare)) return [bare];
+  return activeResolver(bare);
+}
+
+// ============================================================================
+// Address parsing
+// ============================================================================
+
+/**
+ * URL hostnames keep IPv6 literals in brackets ("[::1]"); addresses elsewhere do not.
+ */
+export function stripBrackets(hostname: string): string {
+  return hostname.startsWith('[') && hostname.endsWith(']') ? hostname.slice(1, -1) : hostname;
+}
+
+function ipv4ToBytes(address: string): number[] {
+  return address.split('.').map((octet) => parseInt(octet, 10));
+}
+
+function ipv6ToBytes(address: string): number[] {
+  let text = address.split('%')[0]!.toLowerCase(); // drop zone id (fe80::1%eth0)
+
+  // Trailing dotted IPv4 (::ffff:127.0.0.1) becomes two hex groups
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = ipv4ToBytes(dotted[2]!);
+    text = `${dotted[1]}${((a! << 8) | b!).toString(16)}:${((c! << 8) | d!).toString(16)}`;
+  }
+
+  const [head, tail] = text.includes('::') ? text.split('::') : [text, undefined];
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const zeros = tail === undefined ? [] : new Array(8 - headGroups.length - tailGroups.length).fill('0');
+
+  const bytes: number[] = [];
+  for (const group of [...headGroups, ...zeros, ...tailGroups]) {
+    const value = parseInt(group, 16);
+    bytes.push(value >> 8, value & 0xff);
+  }
+  return bytes;
+}
+
+// ============================================================================
+// Special-purpose range table
+// ============================================================================
+
+interface AddressRange {
+  bytes: number[];
+  prefix: number;
+  label: string;
+}
+
+function range(cidr: string, label: string): AddressRange {
+  const [address, prefix] = cidr.split('/') as [string, string];
+  const bytes = isIP(address) === 4 ? ipv4ToBytes(address) : ipv6ToBytes(address);
+  return { bytes, prefix: parseInt(prefix, 10), label };
+}
+
+/**
+ * IPv4 ranges that must never be reached through the gateway (IANA special-purpose registry).
+ */
+const BLOCKED_IPV4_RANGES: AddressRange[] = [
+  range('0.0.0.0/8', 'this-network'),
+  range('10.0.0.0/8', 'private'),
+  range('100.64.0.0/10', 'carrier-grade NAT'),
+  range('127.0.0.0/8', 'loopback'),
+  range('169.254.0.0/16', 'link-local'),
+  range('172.16.0.0/12', 'private'),
+  range('192.0.0.0/24', 'IETF protocol assignments'),
+  range('192.0.2.0/24', 'documentation'),
+  range('192.88.99.0/24', '6to4 relay anycast'),
+  range('192.168.0.0/16', 'private'),
+  range('198.18.0.0/15', 'benchmarking'),
+  range('198.51.100.0/24', 'documentation'),
+  range('203.0.113.0/24', 'documentation'),
+  range('224.0.0.0/4', 'multicast'),
+  range('240.0.0.0/4', 'reserved'),
+];
+
+/**
+ * IPv6 ranges blocked outright. First match wins, so the narrower entries come first.
+ */
+const BLOCKED_IPV6_RANGES: AddressRange[] = [
+  range('::/128', 'unspecified'),
+  range('::1/128', 'loopback'),
+  range('::/96', 'IPv4-compatible'),
+  range('64:ff9b:1::/48', 'local-use NAT64'),
+  range('100::/64', 'discard-only'),
+  range('2001:db8::/32', 'documentation'),
+  range('2001::/23', 'IETF protocol assignments'),
+  range('3fff::/20', 'documentation'),
+  range('fc00::/7', 'unique local'),
+  range('fe80::/10', 'link-local'),
+  range('fec0::/10', 'site-local'),
+  range('ff00::/8', 'multicast'),
+];
+
+/**
+ * IPv6 ranges that carry an IPv4 address; the embedded address is checked against the IPv4 table.
+ */
+const EMBEDDED_IPV4_RANGES: Array<AddressRange & { offset: number }> = [
+  { ...range('::ffff:0:0/96', 'IPv4-mapped'), offset: 12 },
+  { ...range('64:ff9b::/96', 'NAT64'), offset: 12 },
+  { ...range('2002::/16', '6to4'), offset: 2 },
+];
+
+/**
+ * Operator exemptions (SSRF_ALLOWED_CIDRS), e.g. a loopback range for local development upstreams.
+ */
+const ALLOWED_RANGES: AddressRange[] = env.SSRF_ALLOWED_CIDRS.map((cidr) => {
+  const [address, prefix] = cidr.split('/');
+  const version = isIP(address ?? '');
+  const bits = prefix === undefined ? (version === 4 ? 32 : 128) : parseInt(prefix, 10);
+  if (!version || isNaN(bits) || bits < 0 || bits > (version === 4 ? 32 : 128)) {
+    throw new Error(`SSRF_ALLOWED_CIDRS contains an invalid CIDR: ${cidr}`);
+  }
+  return range(`${address}/${bits}`, 'allowed');
+});
+
+function inRange(bytes: number[], entry: AddressRange): boolean {
+  if (bytes.length !== entry.bytes.length) return false; // IPv4 vs IPv6
+  let remaining = entry.prefix;
+  for (let i = 0; remaining > 0; i++, remaining -= 8) {
+    const mask = remaining >= 8 ? 0xff : (0xff << (8 - remaining)) & 0xff;
+    if ((bytes[i]! & mask) !== (entry.bytes[i]! & mask)) return false;
+  }
+  return true;
+}
+
+function isExempt(bytes: number[]): boolean {
+  return ALLOWED_RANGES.some((entry) => inRange(bytes, entry));
+}
+
+function matchIpv4(bytes: number[]): string | null {
+  if (isExempt(bytes)) return null;
+  return BLOCKED_IPV4_RANGES.find((entry) => inRange(bytes, entry))?.label ?? null;
+}
+
+/**
+ * Classify an IP address.
+ *
+ * @param address - IPv4 or IPv6 address (brackets and zone ids tolerated)
+ * @returns The name of the blocked range it falls in, or null if it is publicly routable
+ *   (or exempted via SSRF_ALLOWED_CIDRS). Non-IP input is reported as 'invalid address'.
+ */
+export function blockedRangeFor(address: string): string | null {
+  const bare = stripBrackets(address);
+  const version = isIP(bare.split('%')[0]!);
+
+  if (version === 4) return matchIpv4(ipv4ToBytes(bare));
+  if (version !== 6) return 'invalid address';
+
+  const bytes = ipv6ToBytes(bare);
+  if (isExempt(bytes)) return null;
+  for (const entry of EMBEDDED_IPV4_RANGES) {
+    if (inRange(bytes, entry)) {
+      const embedded = matchIpv4(bytes.slice(entry.offset, entry.offset + 4));
+      return embedded ? `${entry.label} ${embedded}` : null;
+    }
+  }
+  return BLOCKED_IPV6_RANGES.find((entry) => inRange(bytes, entry))?.label ?? null;
+}
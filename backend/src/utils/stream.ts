@@ -0,0 +1,90 @@
+// Byte-counting stream wrapper for proxied bodies
+// Enforces size limits on the actual bytes and optionally captures a copy for caching
+
+export interface MeterResult {
+  bytes: number;                // total bytes that passed through
+  captured: Uint8Array | null;  // full body copy, or null if over captureLimit / not captured / errored
+  error?: Error;                // set if the stream errored, hit the limit, or was cancelled
+}
+
+export interface MeterOptions {
+  maxBytes: number;       // hard limit — stream errors once exceeded
+  captureLimit?: number;  // capture a copy of the body if it fits in this many bytes (0 = no capture)
+  limitMessage?: string;  // error message used when maxBytes is exceeded
+  onFinish?: (result: MeterResult) => void; // called exactly once, on close, error, or cancel
+}
+
+function concatChunks(chunks: Uint8Array[], total: number): Uint8Array {
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return out;
+}
+
+/**
+ * Wrap a byte stream so bytes pass through unchanged while being counted.
+ *
+ * Once more than maxBytes have been read the upstream reader is cancelled and the
+ * returned stream errors — the consumer sees a truncated body rather than an
+ * unbounded one. Client disconnects cancel the upstream reader as well.
+ */
+export function meterStream(
+  source: ReadableStream<Uint8Array>,
+  options: MeterOptions
+): ReadableStream<Uint8Array> {
+  const reader = source.getReader();
+  const captureLimit = options.captureLimit ?? 0;
+  let chunks: Uint8Array[] | null = captureLimit > 0 ? [] : null;
+  let total = 0;
+  let finished = false;
+
+  const finish = (error?: Error) => {
+    if (finished) return;
+    finished = true;
+    options.onFinish?.({
+      bytes: total,
+      captured: !error && chunks ? concatChunks(chunks, total) : null,
+      error,
+    });
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          finish();
+          return;
+        }
+
+        total += value.byteLength;
+        if (total > options.maxBytes) {
+          const error = new Error(options.limitMessage ?? `Body exceeds ${options.maxBytes} byte limit`);
+          reader.cancel(error).catch(() => {});
+          controller.error(error);
+          finish(error);
+          return;
+        }
+
+        if (chunks) {
+          if (total <= captureLimit) chunks.push(value);
+          else chunks = null; // too large to cache — stop buffering, keep streaming
+        }
+
+        controller.enqueue(value);
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error(String(error));
+        controller.error(err);
+        finish(err);
+      }
+    },
+    cancel(reason) {
+      reader.cancel(reason).catch(() => {});
+      finish(new Error('Stream cancelled by consumer'));
+    },
+  });
+}
@@ -93,6 +93,17 @@ export const api = {
     return res.json();
   },
 
+  importService: async (data: OpenApiImportPayload): Promise<OpenApiImportResult> => {
+    const res = await authedFetch('/services/import', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    const body = await res.json();
+    // Surface what the spec was missing (base URL, auth type) to the form
+    if (!res.ok) throw new Error(body.error ?? 'Failed to import service');
+    return body;
+  },
+
   deleteService: async (id: number) => {
     return authedFetch(`/services/${id}`, { method: 'DELETE' });
   },
@@ -102,9 +113,47 @@ export const api = {
       method: 'POST',
       body: JSON.stringify(data),
     });
+    const body = await res.json();
+    // Surface credentials the service's placements still need to the form
+    if (!res.ok) throw new Error(body.error ?? 'Failed to save credentials');
+    return body;
+  },
+
+  // OAuth 2.0 account connection: returns the provider URL to send the browser to.
+  // Sent with credentials so the browser keeps the cookie the callback checks
+  startOAuthConnect: async (serviceId: number): Promise<{ authorizationUrl: string }> => {
+    const res = await authedFetch(`/services/${serviceId}/oauth/authorize`, { method: 'POST', credentials: 'include' });
+    const body = await res.json();
+    if (!res.ok) throw new Error(body.error ?? 'Failed to start account connection');
+    return body;
+  },
+
+  // Service documentation
+  listDocumentation: async (serviceId: number): Promise<DocumentationType[]> => {
+    const res = await authedFetch(`/services/${serviceId}/docs`);
     return res.json();
   },
 
+  getDocumentation: async (serviceId: number, docId: number): Promise<DocumentationType> => {
+    const res = await authedFetch(`/services/${serviceId}/docs/${docId}`);
+    return res.json();
+  },
+
+  createDocumentation: async (serviceId: number, data: DocumentationPayload): Promise<DocumentationType> => {
+    const res = await authedFetch(`/services/${serviceId}/docs`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    const body = await res.json();
+    // Surface validation errors (e.g. an unparseable OpenAPI spec) to the form
+    if (!res.ok) throw new Error(body.error ?? 'Failed to add documentation');
+    return body;
+  },
+
+  deleteDocumentation: async (serviceId: number, docId: number) => {
+    return authedFetch(`/services/${serviceId}/docs/${docId}`, { method: 'DELETE' });
+  },
+
   // Agents
   listAgents: async (): Promise<AgentType[]> => {
     const res = await authedFetch('/agents');
@@ -157,6 +206,68 @@ export interface AgentType {
   services: Array<{ id: number; name: string }>;
 }
 
+// Service documentation matching backend response (OpenAPI specs are returned as a summary,
+// plus their indexed operations when fetched individually)
+export interface DocumentationOperationType {
+  method: string;
+  path: string;
+  operationId: string | null;
+  summary: string | null;
+  description: string | null;
+  deprecated: boolean;
+  hints: string[];
+  tags: string[];
+  riskLevel: 'low' | 'medium' | 'high';
+}
+
+export interface DocumentationType {
+  id: number;
+  serviceId: number;
+  type: 'openapi' | 'markdown' | 'url';
+  title: string | null;
+  content: string | null;
+  openapi: {
+    specVersion: string;
+    title: string | null;
+    apiVersion: string | null;
+    basePaths: string[];
+    operationCount: number;
+  } | null;
+  operations?: DocumentationOperationType[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DocumentationPayload {
+  type: DocumentationType['type'];
+  title?: string | null;
+  content: string;
+}
+
+export interface OpenApiImportPayload {
+  spec: string;
+  name?: string;
+  baseUrl?: string;
+  authType?: 'api_key' | 'bearer' | 'basic' | 'oauth2' | 'sigv4';
+  credentials?: Record<string, string>;
+}
+
+export interface OpenApiImportResult {
+  service: { id: number; name: string; baseUrl: string; authType: string };
+  documentation: DocumentationType;
+  inferred: {
+    baseUrl: string | null;
+    authType: OpenApiImportPayload['authType'] | null;
+    credentialPlacements: Array<{ in: 'header' | 'query' | 'cookie'; name: string; value: string }> | null;
+  };
+}
+
+// Size/filename/content-type summary of a binary or multipart request body (raw bytes are never sent)
+export interface RequestBodySummary {
+  size: number;
+  parts?: Array<{ name: string; filename: string | null; contentType: string | null; size: number }>;
+}
+
 // Type for pending approval entries from the dashboard API
 export interface PendingApproval {
   action_id: string;
@@ -168,6 +279,8 @@ export interface PendingApproval {
   risk_score: number;
   risk_explanation: string;
   request_headers: Record<string, string>;
-  request_body: string | null;
+  request_body: string | null; // null for binary/multipart bodies — see request_body_summary
+  request_body_encoding: 'utf8' | 'base64' | 'multipart';
+  request_body_summary: RequestBodySummary | null;
   created_at: string;
 }
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import type { PendingAction } from '@/hooks/useApprovalQueue';
+import type { PendingAction, DlpMatch } from '@/hooks/useApprovalQueue';
 import { Badge } from '@/components/primitives/Badge';
 import { Button } from '@/components/primitives/Button';
 
@@ -24,16 +24,64 @@ function methodVariant(method: string): 'danger' | 'warning' | 'info' {
   return 'info';
 }
 
+function operationVariant(type: string): 'danger' | 'warning' | 'info' {
+  return type === 'mutation' ? 'warning' : 'info';
+}
+
+function dlpVariant(action: DlpMatch['action']): 'danger' | 'warning' | 'info' {
+  if (action === 'block') return 'danger';
+  if (action === 'approve') return 'warning';
+  return 'info';
+}
+
+/**
+ * Request body with DLP match spans wrapped in <mark>.
+ */
+function highlightBody(body: string, matches: DlpMatch[]): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const match of [...matches].sort((a, b) => a.start - b.start)) {
+    if (match.start < cursor || match.end > body.length) continue;
+    nodes.push(body.slice(cursor, match.start));
+    nodes.push(
+      <mark
+        key={match.start}
+        title={`${match.detector} (${match.action})`}
+        style={{ background: match.action === 'approve' ? '#5c3d00' : '#1a2f4a', color: '#ededed', borderRadius: 2 }}
+      >
+        {body.slice(match.start, match.end)}
+      </mark>
+    );
+    cursor = match.end;
+  }
+  nodes.push(body.slice(cursor));
+  return nodes;
+}
+
+function formatBytes(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 /**
  * ActionCard — the content displayed inside a SwipeCard.
  *
- * Shows: agent intent (prominent), risk score badge, HTTP method badge,
- * target URL, and an expandable section with headers, body, and risk explanation.
+ * Shows: agent intent (prominent), risk score badge, HTTP method badge (plus a WebSocket
+ * badge when approving opens a session), target URL, the parsed GraphQL operations (type, name and
+ * top-level fields) or JSON-RPC calls (method, risk, params — a batch is approved as a whole),
+ * data-loss prevention findings, and an expandable section with headers, body (DLP matches
+ * highlighted; a part summary for binary/multipart uploads), and risk explanation.
+ * For a withheld response (content scanning) the request already ran: the card shows the matched
+ * prompt-injection signals and the response body, and approving releases the response to the agent.
  * Includes approve/deny buttons as desktop fallback.
  */
 export function ActionCard({ action, onApprove, onDeny, isApproving, isDenying }: ActionCardProps) {
   const [expanded, setExpanded] = useState(false);
 
+  const dlpMatches = action.dlp_matches ?? [];
+  const bodyMatches = dlpMatches.filter((match) => match.part === undefined);
+
   const headersText = Object.keys(action.request_headers).length > 0
     ? JSON.stringify(action.request_headers, null, 2)
     : '(none)';
@@ -77,6 +125,12 @@ export function ActionCard({ action, onApprove, onDeny, isApproving, isDenying }
             <Badge variant={methodVariant(action.method)}>
               {action.method}
             </Badge>
+            {action.protocol === 'websocket' && (
+              <Badge variant="warning">WebSocket session</Badge>
+            )}
+            {action.content_risk && (
+              <Badge variant="danger">Withheld response</Badge>
+            )}
             <span style={{ color: '#555', fontSize: '0.75rem' }}>
               {action.agent_name}
             </span>
@@ -98,8 +152,82 @@ export function ActionCard({ action, onApprove, onDeny, isApproving, isDenying }
         >
           {action.target_url}
         </p>
+        {action.operation?.protocol === 'graphql' && (
+          <ul style={{ margin: '0.5rem 0 0', padding: 0, listStyle: 'none', display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+            {action.operation.operations.map((op, index) => (
+              <li key={index} style={{ display: 'flex', gap: '0.5rem', alignItems: 'baseline', flexWrap: 'wrap' }}>
+                <Badge variant={operationVariant(op.type)}>{op.type}</Badge>
+                {op.name && <span style={{ color: '#ededed', fontSize: '0.8rem' }}>{op.name}</span>}
+                <span style={{ color: '#aaa', fontSize: '0.75rem', fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                  {op.fields.join(', ')}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {action.operation?.protocol === 'jsonrpc' && (
+          <>
+            {action.operation.batch && (
+              <p style={{ margin: '0.5rem 0 0', color: '#888', fontSize: '0.75rem' }}>
+                Batch of {action.operation.calls.length} calls — approving runs all of them
+              </p>
+            )}
+            <ul style={{ margin: '0.5rem 0 0', padding: 0, listStyle: 'none', display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+              {action.operation.calls.map((call, index) => (
+                <li key={index} style={{ display: 'flex', gap: '0.5rem', alignItems: 'baseline', flexWrap: 'wrap' }}>
+                  <Badge variant={riskVariant(call.riskScore)}>{(call.riskScore * 100).toFixed(0)}%</Badge>
+                  <span style={{ color: '#ededed', fontSize: '0.8rem', fontFamily: 'monospace' }}>{call.method}</span>
+                  {call.params && (
+                    <span style={{ color: '#aaa', fontSize: '0.75rem', fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                      {call.params}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
       </div>
 
+      {/* Data-loss prevention findings */}
+      {dlpMatches.length > 0 && (
+        <div style={{ padding: '0 1.25rem 0.75rem' }}>
+          <p style={{ margin: '0 0 0.35rem', color: '#888', fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+            Sensitive data in request
+          </p>
+          <ul style={{ margin: 0, padding: 0, listStyle: 'none', display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+            {dlpMatches.map((match, index) => (
+              <li key={index} style={{ display: 'flex', gap: '0.5rem', alignItems: 'baseline', flexWrap: 'wrap' }}>
+                <Badge variant={dlpVariant(match.action)}>{match.detector}</Badge>
+                <span style={{ color: '#aaa', fontSize: '0.75rem', fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                  {match.preview}
+                </span>
+                <span style={{ color: '#555', fontSize: '0.75rem' }}>
+                  {match.action === 'redact' ? 'redacted' : 'needs approval'}
+                  {match.part && ` · part ${match.part}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Prompt-injection signals in a withheld response */}
+      {action.content_risk && (
+        <div style={{ padding: '0 1.25rem 0.75rem' }}>
+          <p style={{ margin: '0 0 0.35rem', color: '#888', fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+            Response withheld{action.response_status !== null && ` (HTTP ${action.response_status})`} — approving releases it to the agent
+          </p>
+          {action.content_risk.signals.length > 0 && (
+            <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+              {action.content_risk.signals.map((signal) => (
+                <Badge key={signal} variant="danger">{signal}</Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Expandable details */}
       <div style={{ padding: '0 1.25rem' }}>
         <button
@@ -176,10 +304,69 @@ export function ActionCard({ action, onApprove, onDeny, isApproving, isDenying }
                     wordBreak: 'break-all',
                   }}
                 >
-                  {action.request_body}
+                  {bodyMatches.length > 0 ? highlightBody(action.request_body, bodyMatches) : action.request_body}
+                </pre>
+              </div>
+            )}
+
+            {/* Withheld response body */}
+            {action.content_risk && action.response_body !== null && (
+              <div style={{ marginBottom: '0.75rem' }}>
+                <p style={{ margin: '0 0 0.35rem', color: '#888', fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+                  Withheld response body
+                </p>
+                <pre
+                  style={{
+                    margin: 0,
+                    background: '#111',
+                    border: '1px solid #1a1a1a',
+                    borderRadius: 6,
+                    padding: '0.75rem',
+                    fontSize: '0.75rem',
+                    color: '#aaa',
+                    overflowX: 'auto',
+                    whiteSpace: 'pre-wrap',
+                    wordBreak: 'break-all',
+                  }}
+                >
+                  {action.response_body}
                 </pre>
               </div>
             )}
+
+            {/* Binary / multipart body summary (raw bytes are never shown) */}
+            {action.request_body_summary && (
+              <div>
+                <p style={{ margin: '0 0 0.35rem', color: '#888', fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+                  Request body ({action.request_body_encoding === 'multipart' ? 'multipart' : 'binary'}, {formatBytes(action.request_body_summary.size)})
+                </p>
+                {action.request_body_summary.parts && (
+                  <ul
+                    style={{
+                      margin: 0,
+                      padding: '0.75rem',
+                      listStyle: 'none',
+                      background: '#111',
+                      border: '1px solid #1a1a1a',
+                      borderRadius: 6,
+                      fontSize: '0.75rem',
+                      color: '#aaa',
+                      fontFamily: 'monospace',
+                    }}
+                  >
+                    {action.request_body_summary.parts.map((part, index) => (
+                      <li key={index} style={{ overflowWrap: 'break-word', wordBreak: 'break-all' }}>
+                        {part.name}
+                        {part.filename && <span style={{ color: '#ededed' }}> — {part.filename}</span>}
+                        <span style={{ color: '#555' }}>
+                          {' '}({part.contentType ?? 'text'}, {formatBytes(part.size)})
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -208,7 +395,7 @@ export function ActionCard({ action, onApprove, onDeny, isApproving, isDenying }
           loading={isApproving}
           disabled={isApproving || isDenying}
         >
-          Approve
+          {action.content_risk ? 'Release' : 'Approve'}
         </Button>
       </footer>
     </article>
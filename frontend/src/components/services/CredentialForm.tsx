@@ -1,14 +1,17 @@
 // CredentialForm — dynamic credential management for a service
-// Fields adapt based on authType: api_key, bearer, basic, oauth2
+// Fields adapt based on authType: api_key, bearer, basic, oauth2 (static token, client credentials or connected account), sigv4, hmac
+// Credentials the service's credential placements reference are asked for as well (for api_key, they are the only fields)
 // Vercel-style dark aesthetic with oat.ink semantic HTML
 
 import React, { useState } from 'react';
 import { useUpsertCredentials } from '@/hooks/useServices';
+import type { CredentialPlacement } from '@/hooks/useServices';
 import { Button } from '@/components/primitives/Button';
 
 interface CredentialFormProps {
   serviceId: number;
   authType: string;
+  placements?: CredentialPlacement[] | null;
 }
 
 // Define field config for each auth type
@@ -16,15 +19,30 @@ interface FieldConfig {
   key: string;
   label: string;
   sensitive?: boolean;
+  optional?: boolean;
 }
 
-function getFields(authType: string): FieldConfig[] {
+// OAuth 2.0: a fixed access token, client credentials the gateway exchanges for tokens itself,
+// or a user account connected through the provider's consent screen (authorization code + PKCE)
+type OAuthGrant = 'access_token' | 'client_credentials' | 'authorization_code';
+
+// Credential keys a placement value references, e.g. "Token {api_key}" → ["api_key"]
+function placementKeys(placements: CredentialPlacement[]): string[] {
+  return [...new Set(placements.flatMap((p) => [...p.value.matchAll(/\{([^{}]+)\}/g)].map((m) => m[1])))];
+}
+
+function getFields(authType: string, oauthGrant: OAuthGrant, placements: CredentialPlacement[]): FieldConfig[] {
+  const fields = getAuthFields(authType, oauthGrant);
+  const referenced = placementKeys(placements)
+    .filter((key) => !fields.some((f) => f.key === key))
+    .map((key) => ({ key, label: key === 'api_key' ? 'API Key' : key, sensitive: true }));
+  return [...fields, ...referenced];
+}
+
+function getAuthFields(authType: string, oauthGrant: OAuthGrant): FieldConfig[] {
   switch (authType) {
     case 'api_key':
-      return [
-        { key: 'header_name', label: 'Header Name', sensitive: false },
-        { key: 'api_key_value', label: 'API Key Value', sensitive: true },
-      ];
+      return []; // placed by the service's credential placements
     case 'bearer':
       return [{ key: 'token', label: 'Bearer Token', sensitive: true }];
     case 'basic':
@@ -33,18 +51,47 @@ function getFields(authType: string): FieldConfig[] {
         { key: 'password', label: 'Password', sensitive: true },
       ];
     case 'oauth2':
+      if (oauthGrant === 'authorization_code') {
+        return [
+          { key: 'client_id', label: 'Client ID', sensitive: false },
+          { key: 'client_secret', label: 'Client Secret', sensitive: true, optional: true },
+          { key: 'authorization_url', label: 'Authorization URL', sensitive: false },
+          { key: 'token_url', label: 'Token URL', sensitive: false },
+          { key: 'scope', label: 'Scope', sensitive: false, optional: true },
+        ];
+      }
+      if (oauthGrant === 'client_credentials') {
+        return [
+          { key: 'client_id', label: 'Client ID', sensitive: false },
+          { key: 'client_secret', label: 'Client Secret', sensitive: true },
+          { key: 'token_url', label: 'Token URL', sensitive: false },
+          { key: 'scope', label: 'Scope', sensitive: false, optional: true },
+        ];
+      }
       return [{ key: 'access_token', label: 'Access Token', sensitive: true }];
+    case 'sigv4':
+      return [
+        { key: 'access_key_id', label: 'Access Key ID', sensitive: false },
+        { key: 'secret_access_key', label: 'Secret Access Key', sensitive: true },
+        { key: 'region', label: 'Region', sensitive: false },
+        { key: 'service', label: 'Service', sensitive: false },
+        { key: 'session_token', label: 'Session Token', sensitive: true, optional: true },
+      ];
+    case 'hmac':
+      return [
+        { key: 'secret', label: 'Signing Secret', sensitive: true },
+        { key: 'key_id', label: 'Key ID', sensitive: false, optional: true },
+      ];
     default:
       return [];
   }
 }
 
-export function CredentialForm({ serviceId, authType }: CredentialFormProps) {
-  const fields = getFields(authType);
+export function CredentialForm({ serviceId, authType, placements }: CredentialFormProps) {
+  const [oauthGrant, setOauthGrant] = useState<OAuthGrant>('client_credentials');
+  const fields = getFields(authType, oauthGrant, placements ?? []);
   const [values, setValues] = useState<Record<string, string>>(
-    Object.fromEntries(
-      fields.map((f) => [f.key, f.key === 'header_name' ? 'X-API-Key' : ''])
-    )
+    Object.fromEntries(fields.map((f) => [f.key, '']))
   );
   const [customCredentials, setCustomCredentials] = useState<Array<{ key: string; value: string }>>([]);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -78,9 +125,16 @@ export function CredentialForm({ serviceId, authType }: CredentialFormProps) {
     setErrorMessage(null);
 
     // Validate all fields are filled
-    const hasEmpty = fields.some((f) => !values[f.key]?.trim());
+    const hasEmpty = fields.some((f) => !f.optional && !values[f.key]?.trim());
     if (hasEmpty) {
-      setErrorMessage('All credential fields are required.');
+      setErrorMessage('All required credential fields must be filled in.');
+      return;
+    }
+    const invalidUrl = fields.find(
+      (f) => f.key.endsWith('_url') && !/^https?:\/\//.test(values[f.key]?.trim() ?? '')
+    );
+    if (invalidUrl) {
+      setErrorMessage(`${invalidUrl.label} must start with https:// or http://`);
       return;
     }
 
@@ -96,13 +150,9 @@ export function CredentialForm({ serviceId, authType }: CredentialFormProps) {
 
     // Build credentials object: { key: value, ... }
     const credentials: Record<string, string> = {};
-    if (authType === 'api_key') {
-      const headerName = values.header_name.trim() || 'X-API-Key';
-      credentials[headerName] = values.api_key_value.trim();
-    } else {
-      for (const field of fields) {
-        credentials[field.key] = values[field.key].trim();
-      }
+    for (const field of fields) {
+      const value = values[field.key]?.trim();
+      if (value) credentials[field.key] = value;
     }
 
     for (const pair of customCredentials) {
@@ -117,15 +167,11 @@ export function CredentialForm({ serviceId, authType }: CredentialFormProps) {
         onSuccess: () => {
           setSuccessMessage('Credentials saved successfully.');
           // Clear form values after save
-          setValues(
-            Object.fromEntries(
-              fields.map((f) => [f.key, f.key === 'header_name' ? 'X-API-Key' : ''])
-            )
-          );
+          setValues(Object.fromEntries(fields.map((f) => [f.key, ''])));
           setCustomCredentials([]);
         },
-        onError: () => {
-          setErrorMessage('Failed to save credentials. Please try again.');
+        onError: (error) => {
+          setErrorMessage(error instanceof Error ? error.message : 'Failed to save credentials. Please try again.');
         },
       }
     );
@@ -155,6 +201,35 @@ export function CredentialForm({ serviceId, authType }: CredentialFormProps) {
         Credentials are encrypted at rest. Values cannot be retrieved after saving.
       </div>
 
+      {authType === 'oauth2' && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+          <label
+            htmlFor="cred-oauth-grant"
+            style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}
+          >
+            Token Source
+          </label>
+          <select
+            id="cred-oauth-grant"
+            value={oauthGrant}
+            onChange={(e) => {
+              setOauthGrant(e.target.value as OAuthGrant);
+              setSuccessMessage(null);
+              setErrorMessage(null);
+            }}
+          >
+            <option value="client_credentials">Client credentials (gateway fetches and refreshes tokens)</option>
+            <option value="authorization_code">Connected account (authorization code)</option>
+            <option value="access_token">Static access token</option>
+          </select>
+          {oauthGrant === 'authorization_code' && (
+            <span style={{ fontSize: '0.75rem', color: '#555' }}>
+              Save, then use Connect account. Saving credentials again disconnects the account.
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Dynamic fields by auth type */}
       {fields.map((field) => (
         <div key={field.key} style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
@@ -162,7 +237,7 @@ export function CredentialForm({ serviceId, authType }: CredentialFormProps) {
             htmlFor={`cred-${field.key}`}
             style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}
           >
-            {field.label} <span style={{ color: '#e53935' }}>*</span>
+            {field.label} {!field.optional && <span style={{ color: '#e53935' }}>*</span>}
           </label>
           <input
             id={`cred-${field.key}`}
@@ -170,7 +245,7 @@ export function CredentialForm({ serviceId, authType }: CredentialFormProps) {
             value={values[field.key] ?? ''}
             onChange={(e) => handleChange(field.key, e.target.value)}
             placeholder={`Enter ${field.label.toLowerCase()}`}
-            required
+            required={!field.optional}
             autoComplete={field.sensitive === false ? 'off' : 'new-password'}
           />
         </div>
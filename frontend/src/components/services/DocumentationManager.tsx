@@ -0,0 +1,290 @@
+// DocumentationManager — upload, list, preview and delete a service's API documentation
+// OpenAPI specs (JSON or YAML) are previewed as their operation catalog with risk levels; markdown as text
+// Vercel-style dark aesthetic with oat.ink semantic HTML
+
+import React, { useState } from 'react';
+import type { DocumentationType, DocumentationOperationType, DocumentationPayload } from '@/api/endpoints';
+import {
+  useDocumentation,
+  useDocumentationDetail,
+  useCreateDocumentation,
+  useDeleteDocumentation,
+} from '@/hooks/useDocumentation';
+import { Button } from '@/components/primitives/Button';
+import { Skeleton } from '@/components/primitives/Skeleton';
+
+interface DocumentationManagerProps {
+  serviceId: number;
+}
+
+const TYPE_LABELS: Record<DocumentationType['type'], string> = {
+  openapi: 'OpenAPI',
+  markdown: 'Markdown',
+  url: 'URL',
+};
+
+const METHOD_COLORS: Record<string, string> = {
+  GET: '#29b6f6',
+  POST: '#4caf50',
+  PUT: '#ffa726',
+  PATCH: '#ffa726',
+  DELETE: '#ef5350',
+};
+
+const RISK_COLORS: Record<DocumentationOperationType['riskLevel'], string> = {
+  low: '#4caf50',
+  medium: '#ffa726',
+  high: '#ef5350',
+};
+
+function describe(doc: DocumentationType): string {
+  if (doc.type === 'openapi' && doc.openapi) {
+    const version = doc.openapi.apiVersion ? ` v${doc.openapi.apiVersion}` : '';
+    return `${doc.openapi.title ?? 'Untitled spec'}${version} · ${doc.openapi.operationCount} operations`;
+  }
+  if (doc.type === 'url') return doc.content ?? '';
+  return `${(doc.content ?? '').length.toLocaleString()} characters`;
+}
+
+function DocumentationPreview({ serviceId, docId }: { serviceId: number; docId: number }) {
+  const { data: doc, isPending, isError } = useDocumentationDetail(serviceId, docId);
+
+  if (isPending) return <Skeleton lines={3} />;
+  if (isError || !doc) {
+    return <p style={{ color: '#ef5350', fontSize: '0.8125rem', margin: 0 }}>Failed to load preview.</p>;
+  }
+
+  if (doc.type === 'openapi') {
+    const operations = doc.operations ?? [];
+    return (
+      <div style={{ maxHeight: 320, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+        {operations.length === 0 && (
+          <p style={{ color: '#555', fontSize: '0.8125rem', margin: 0 }}>No operations in this spec.</p>
+        )}
+        {operations.map((op) => (
+          <div
+            key={`${op.method} ${op.path}`}
+            style={{ display: 'flex', gap: '0.5rem', alignItems: 'baseline', fontSize: '0.8125rem' }}
+          >
+            <code style={{ minWidth: 56, fontWeight: 600, color: METHOD_COLORS[op.method] ?? '#888' }}>
+              {op.method}
+            </code>
+            <code
+              style={{
+                color: '#ededed',
+                textDecoration: op.deprecated ? 'line-through' : undefined,
+              }}
+            >
+              {op.path}
+            </code>
+            {op.summary && <span style={{ color: '#888' }}>{op.summary}</span>}
+            <span style={{ marginLeft: 'auto', fontSize: '0.75rem', color: RISK_COLORS[op.riskLevel] }}>
+              {op.riskLevel}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (doc.type === 'url') {
+    return (
+      <a href={doc.content ?? '#'} target="_blank" rel="noreferrer" style={{ fontSize: '0.8125rem' }}>
+        {doc.content}
+      </a>
+    );
+  }
+
+  return (
+    <pre
+      style={{
+        maxHeight: 320,
+        overflow: 'auto',
+        margin: 0,
+        fontSize: '0.75rem',
+        whiteSpace: 'pre-wrap',
+        color: '#aaa',
+      }}
+    >
+      {doc.content}
+    </pre>
+  );
+}
+
+export function DocumentationManager({ serviceId }: DocumentationManagerProps) {
+  const { data: docs, isPending } = useDocumentation(serviceId);
+  const createDoc = useCreateDocumentation(serviceId);
+  const deleteDoc = useDeleteDocumentation(serviceId);
+
+  const [type, setType] = useState<DocumentationType['type']>('openapi');
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [previewId, setPreviewId] = useState<number | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setContent(await file.text());
+    if (!title) setTitle(file.name);
+    if (/\.(md|markdown)$/i.test(file.name)) setType('markdown');
+    else if (/\.(json|ya?ml)$/i.test(file.name)) setType('openapi');
+    setErrorMessage(null);
+  }
+
+  function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setErrorMessage(null);
+
+    if (!content.trim()) {
+      setErrorMessage(type === 'url' ? 'Enter a documentation URL.' : 'Paste or upload the document.');
+      return;
+    }
+
+    const payload: DocumentationPayload = { type, content, title: title.trim() || null };
+    createDoc.mutate(payload, {
+      onSuccess: (doc) => {
+        setTitle('');
+        setContent('');
+        setPreviewId(doc.id);
+      },
+      onError: (error) => {
+        setErrorMessage(error instanceof Error ? error.message : 'Failed to add documentation.');
+      },
+    });
+  }
+
+  function handleDelete(doc: DocumentationType) {
+    if (!window.confirm(`Delete "${doc.title ?? TYPE_LABELS[doc.type]}"?`)) return;
+    if (previewId === doc.id) setPreviewId(null);
+    deleteDoc.mutate(doc.id);
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1.25rem' }}>
+      {/* Existing documents */}
+      {isPending ? (
+        <Skeleton lines={2} />
+      ) : docs && docs.length > 0 ? (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+          {docs.map((doc) => (
+            <div
+              key={doc.id}
+              style={{ border: '1px solid #222', borderRadius: 6, padding: '0.75rem 1rem' }}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>
+                    {doc.title ?? TYPE_LABELS[doc.type]}
+                  </div>
+                  <div
+                    style={{
+                      fontSize: '0.75rem',
+                      color: '#555',
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    {TYPE_LABELS[doc.type]} · {describe(doc)}
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => setPreviewId(previewId === doc.id ? null : doc.id)}
+                >
+                  {previewId === doc.id ? 'Hide' : 'Preview'}
+                </Button>
+                <Button type="button" variant="danger" onClick={() => handleDelete(doc)}>
+                  Delete
+                </Button>
+              </div>
+              {previewId === doc.id && (
+                <div style={{ marginTop: '0.75rem', borderTop: '1px solid #222', paddingTop: '0.75rem' }}>
+                  <DocumentationPreview serviceId={serviceId} docId={doc.id} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p style={{ color: '#555', fontSize: '0.875rem', margin: 0 }}>
+          No documentation yet. Risk assessment uses it to judge what an endpoint does.
+        </p>
+      )}
+
+      {/* Add document */}
+      <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as DocumentationType['type'])}
+            style={{ flex: '0 0 140px' }}
+          >
+            <option value="openapi">OpenAPI</option>
+            <option value="markdown">Markdown</option>
+            <option value="url">URL</option>
+          </select>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Title (optional)"
+            maxLength={255}
+          />
+        </div>
+
+        {type === 'url' ? (
+          <input
+            type="url"
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            placeholder="https://docs.example.com/api"
+          />
+        ) : (
+          <>
+            <input
+              type="file"
+              accept={type === 'openapi' ? '.json,.yaml,.yml' : '.md,.markdown,.txt'}
+              onChange={(e) => void handleFile(e)}
+            />
+            <textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              placeholder={type === 'openapi' ? 'Or paste an OpenAPI 3.x / Swagger 2.0 spec (JSON or YAML)' : 'Or paste markdown'}
+              rows={8}
+              style={{ fontFamily: 'monospace', fontSize: '0.75rem' }}
+            />
+          </>
+        )}
+
+        {errorMessage && (
+          <div
+            style={{
+              background: 'rgba(229, 57, 53, 0.1)',
+              border: '1px solid rgba(229, 57, 53, 0.3)',
+              borderRadius: 6,
+              padding: '0.75rem 1rem',
+              fontSize: '0.875rem',
+              color: '#ef5350',
+            }}
+          >
+            {errorMessage}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <Button
+            type="submit"
+            variant="primary"
+            loading={createDoc.isPending}
+            disabled={createDoc.isPending}
+          >
+            {createDoc.isPending ? 'Uploading...' : 'Add Documentation'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+// OAuthConnect — connect a user account to an oauth2 service (authorization code + PKCE)
+// Sends the browser to the provider; the gateway's callback returns to the edit page with ?oauth=connected|error
+// Vercel-style dark aesthetic with oat.ink semantic HTML
+
+import React, { useState } from 'react';
+import type { ServiceType } from '@/hooks/useServices';
+import { useStartOAuthConnect } from '@/hooks/useServices';
+import { Button } from '@/components/primitives/Button';
+
+interface OAuthConnectProps {
+  service: ServiceType;
+  result?: { status: 'connected' | 'error'; message?: string };
+}
+
+export function OAuthConnect({ service, result }: OAuthConnectProps) {
+  const startConnect = useStartOAuthConnect();
+  const [errorMessage, setErrorMessage] = useState<string | null>(
+    result?.status === 'error' ? result.message ?? 'Failed to connect account.' : null
+  );
+
+  const keys = service.credentials.keys;
+  const configured = keys.includes('authorization_url');
+  const connected = configured && keys.includes('refresh_token');
+
+  function handleConnect() {
+    setErrorMessage(null);
+    startConnect.mutate(service.id, {
+      onSuccess: ({ authorizationUrl }) => {
+        window.location.assign(authorizationUrl);
+      },
+      onError: (error) => {
+        setErrorMessage(error instanceof Error ? error.message : 'Failed to start account connection.');
+      },
+    });
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+        <div style={{ flex: 1, fontSize: '0.875rem', color: connected ? '#4caf50' : '#888' }}>
+          {connected
+            ? 'Account connected — the gateway refreshes access tokens automatically.'
+            : configured
+              ? 'No account connected yet.'
+              : 'Save credentials with the "Connected account" token source to connect an account.'}
+        </div>
+        <Button
+          type="button"
+          variant={connected ? 'ghost' : 'primary'}
+          onClick={handleConnect}
+          loading={startConnect.isPending}
+          disabled={!configured || startConnect.isPending}
+        >
+          {connected ? 'Reconnect' : 'Connect account'}
+        </Button>
+      </div>
+
+      {result?.status === 'connected' && !errorMessage && (
+        <div
+          style={{
+            background: 'rgba(0, 200, 83, 0.1)',
+            border: '1px solid rgba(0, 200, 83, 0.3)',
+            borderRadius: 6,
+            padding: '0.75rem 1rem',
+            fontSize: '0.875rem',
+            color: '#4caf50',
+          }}
+        >
+          Account connected.
+        </div>
+      )}
+
+      {errorMessage && (
+        <div
+          style={{
+            background: 'rgba(229, 57, 53, 0.1)',
+            border: '1px solid rgba(229, 57, 53, 0.3)',
+            borderRadius: 6,
+            padding: '0.75rem 1rem',
+            fontSize: '0.875rem',
+            color: '#ef5350',
+          }}
+        >
+          {errorMessage}
+        </div>
+      )}
+    </div>
+  );
+}
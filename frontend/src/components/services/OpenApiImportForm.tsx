@@ -0,0 +1,109 @@
+// OpenApiImportForm — create a service from an OpenAPI 3 / Swagger 2 document
+// Base URL and auth type come from the spec unless overridden; credentials are added afterwards
+// Vercel-style dark aesthetic with oat.ink semantic HTML
+
+import React, { useState } from 'react';
+import type { OpenApiImportPayload, OpenApiImportResult } from '@/api/endpoints';
+import { useImportService } from '@/hooks/useServices';
+import { Button } from '@/components/primitives/Button';
+
+interface OpenApiImportFormProps {
+  onImported: (result: OpenApiImportResult) => void;
+}
+
+export function OpenApiImportForm({ onImported }: OpenApiImportFormProps) {
+  const importService = useImportService();
+  const [spec, setSpec] = useState('');
+  const [name, setName] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [authType, setAuthType] = useState<OpenApiImportPayload['authType'] | ''>('');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setSpec(await file.text());
+    setErrorMessage(null);
+  }
+
+  function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setErrorMessage(null);
+
+    if (!spec.trim()) {
+      setErrorMessage('Paste or upload an OpenAPI document.');
+      return;
+    }
+
+    importService.mutate(
+      {
+        spec,
+        ...(name.trim() ? { name: name.trim() } : {}),
+        ...(baseUrl.trim() ? { baseUrl: baseUrl.trim() } : {}),
+        ...(authType ? { authType } : {}),
+      },
+      {
+        onSuccess: onImported,
+        onError: (error) => {
+          setErrorMessage(error instanceof Error ? error.message : 'Failed to import service.');
+        },
+      }
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+      <input type="file" accept=".json,.yaml,.yml" onChange={(e) => void handleFile(e)} />
+      <textarea
+        value={spec}
+        onChange={(e) => setSpec(e.target.value)}
+        placeholder="Or paste an OpenAPI 3.x / Swagger 2.0 document (JSON or YAML)"
+        rows={8}
+        style={{ fontFamily: 'monospace', fontSize: '0.75rem' }}
+      />
+
+      <div style={{ fontSize: '0.8125rem', color: '#888' }}>
+        Optional overrides — leave blank to use the document's title, servers and security schemes.
+      </div>
+      <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" maxLength={255} />
+      <input type="url" value={baseUrl} onChange={(e) => setBaseUrl(e.target.value)} placeholder="Base URL" />
+      <select
+        value={authType}
+        onChange={(e) => setAuthType(e.target.value as OpenApiImportPayload['authType'] | '')}
+      >
+        <option value="">Auth type from document</option>
+        <option value="api_key">API Key</option>
+        <option value="bearer">Bearer Token</option>
+        <option value="basic">Basic Auth (Username &amp; Password)</option>
+        <option value="oauth2">OAuth 2.0</option>
+        <option value="sigv4">AWS Signature V4</option>
+      </select>
+
+      {errorMessage && (
+        <div
+          style={{
+            background: 'rgba(229, 57, 53, 0.1)',
+            border: '1px solid rgba(229, 57, 53, 0.3)',
+            borderRadius: 6,
+            padding: '0.75rem 1rem',
+            fontSize: '0.875rem',
+            color: '#ef5350',
+          }}
+        >
+          {errorMessage}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+        <Button
+          type="submit"
+          variant="primary"
+          loading={importService.isPending}
+          disabled={importService.isPending}
+        >
+          {importService.isPending ? 'Importing...' : 'Import Service'}
+        </Button>
+      </div>
+    </form>
+  );
+}
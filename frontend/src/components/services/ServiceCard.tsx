@@ -25,6 +25,9 @@ function authTypeBadgeVariant(
       return 'danger';
     case 'oauth2':
       return 'success';
+    case 'sigv4':
+    case 'hmac':
+      return 'warning';
     default:
       return 'info';
   }
@@ -41,11 +44,35 @@ function authTypeLabel(authType: string): string {
       return 'Basic';
     case 'oauth2':
       return 'OAuth 2';
+    case 'sigv4':
+      return 'AWS SigV4';
+    case 'hmac':
+      return 'HMAC';
     default:
       return authType;
   }
 }
 
+// Badge for a tripped circuit breaker; nothing is shown while closed
+function circuitBadge(service: ServiceType): React.ReactNode {
+  const breaker = service.circuitBreaker;
+  if (!breaker || breaker.state === 'closed') return null;
+
+  const label = breaker.state === 'open' ? 'Circuit open' : 'Circuit half-open';
+  const detail = [
+    `${breaker.consecutiveFailures} consecutive failure${breaker.consecutiveFailures !== 1 ? 's' : ''}`,
+    breaker.lastFailure ? `last: ${breaker.lastFailure}` : null,
+    breaker.retryAt ? `retrying after ${new Date(breaker.retryAt).toLocaleTimeString()}` : null,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' }}>
+      <Badge variant={breaker.state === 'open' ? 'danger' : 'warning'}>{label}</Badge>
+      <span style={{ fontSize: '0.75rem', color: '#888' }}>{detail}</span>
+    </div>
+  );
+}
+
 export function ServiceCard({ service, onEdit, onDelete }: ServiceCardProps) {
   const createdDate = new Date(service.createdAt).toLocaleDateString('en-US', {
     year: 'numeric',
@@ -101,6 +128,9 @@ export function ServiceCard({ service, onEdit, onDelete }: ServiceCardProps) {
         </p>
       </div>
 
+      {/* Circuit breaker state (only when tripped) */}
+      {circuitBadge(service)}
+
       {/* Credentials info */}
       {service.credentials.count > 0 && (
         <p style={{ margin: 0, fontSize: '0.75rem', color: '#555' }}>
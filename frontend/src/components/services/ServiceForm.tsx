@@ -1,9 +1,25 @@
 // ServiceForm — reusable form for creating and editing services
 // Vercel-style dark aesthetic with oat.ink semantic HTML
-// Handles all 4 auth types: api_key, bearer, basic, oauth2
+// Handles all auth types: api_key, bearer, basic, oauth2, sigv4, hmac (with its signing template)
+// Credential placement says where credentials go on each request (required for api_key)
 
 import React, { useState } from 'react';
-import type { ServiceType, ServicePayload } from '@/hooks/useServices';
+import type {
+  ServiceType,
+  ServicePayload,
+  HeaderPolicy,
+  RedirectPolicy,
+  OperationRule,
+  ApiProtocol,
+  DlpPolicy,
+  DlpAction,
+  DlpDetector,
+  ResponseRedactionRule,
+  ContentScanPolicy,
+  SchemaValidationPolicy,
+  HmacSigning,
+  CredentialPlacement,
+} from '@/hooks/useServices';
 import { Button } from '@/components/primitives/Button';
 
 interface ServiceFormProps {
@@ -16,6 +32,146 @@ interface FormErrors {
   name?: string;
   baseUrl?: string;
   credentials?: string;
+  redirectMaxHops?: string;
+  limits?: string;
+  operationRules?: string;
+  dlpPatterns?: string;
+  redactionRules?: string;
+  contentScanThreshold?: string;
+  hmacSigning?: string;
+  credentialPlacements?: string;
+}
+
+const RULE_ACTIONS = ['allow', 'approve', 'deny'] as const;
+
+// Operation rules are edited one per line as "<action> <pattern>"
+function rulesToText(rules: OperationRule[] | null | undefined): string {
+  return (rules ?? []).map((rule) => `${rule.action} ${rule.match}`).join('\n');
+}
+
+function parseRules(text: string): OperationRule[] | string {
+  const rules: OperationRule[] = [];
+  for (const [index, raw] of text.split('\n').entries()) {
+    const line = raw.trim();
+    if (!line) continue;
+    const [action, match, ...rest] = line.split(/\s+/);
+    if (!RULE_ACTIONS.includes(action as OperationRule['action']) || !match || rest.length > 0) {
+      return `Line ${index + 1}: use "<allow|approve|deny> <pattern>", e.g. "approve mutation.*".`;
+    }
+    rules.push({ action: action as OperationRule['action'], match });
+  }
+  return rules;
+}
+
+// Built-in DLP detectors with the gateway's default action for each
+const DLP_DETECTORS: Array<{ id: DlpDetector; label: string; defaultAction: DlpAction | 'off' }> = [
+  { id: 'private_key', label: 'Private keys (PEM)', defaultAction: 'block' },
+  { id: 'api_key', label: 'API keys and tokens', defaultAction: 'approve' },
+  { id: 'credit_card', label: 'Credit card numbers', defaultAction: 'approve' },
+  { id: 'email', label: 'Email addresses', defaultAction: 'off' },
+  { id: 'phone', label: 'Phone numbers', defaultAction: 'off' },
+];
+
+const DLP_ACTIONS = ['block', 'redact', 'approve'] as const;
+
+type DlpPattern = NonNullable<DlpPolicy['customPatterns']>[number];
+
+// Custom DLP patterns are edited one per line as "<action> <name> <regex>"
+function patternsToText(patterns: DlpPattern[] | undefined): string {
+  return (patterns ?? []).map((p) => `${p.action} ${p.name} ${p.pattern}`).join('\n');
+}
+
+function parsePatterns(text: string): DlpPattern[] | string {
+  const patterns: DlpPattern[] = [];
+  for (const [index, raw] of text.split('\n').entries()) {
+    const line = raw.trim();
+    if (!line) continue;
+    const match = line.match(/^(\S+)\s+([A-Za-z0-9_-]+)\s+(.+)$/);
+    if (!match || !DLP_ACTIONS.includes(match[1] as DlpAction)) {
+      return `Line ${index + 1}: use "<block|redact|approve> <name> <regex>", e.g. "redact employee_id EMP-\\d{6}".`;
+    }
+    try {
+      new RegExp(match[3]);
+    } catch {
+      return `Line ${index + 1}: invalid regular expression.`;
+    }
+    patterns.push({ action: match[1] as DlpAction, name: match[2], pattern: match[3] });
+  }
+  return patterns;
+}
+
+const REDACTION_TYPES = ['json_path', 'field', 'regex'] as const;
+
+// Response redaction rules are edited one per line as "<type> <name> <pattern>".
+// Custom replacements (API only) are kept for rules whose name is unchanged.
+function redactionRulesToText(rules: ResponseRedactionRule[] | null | undefined): string {
+  return (rules ?? []).map((rule) => `${rule.type} ${rule.name} ${rule.pattern}`).join('\n');
+}
+
+function parseRedactionRules(text: string, existing: ResponseRedactionRule[] | null | undefined): ResponseRedactionRule[] | string {
+  const rules: ResponseRedactionRule[] = [];
+  for (const [index, raw] of text.split('\n').entries()) {
+    const line = raw.trim();
+    if (!line) continue;
+    const match = line.match(/^(\S+)\s+(\S+)\s+(.+)$/);
+    if (!match || !REDACTION_TYPES.includes(match[1] as ResponseRedactionRule['type'])) {
+      return `Line ${index + 1}: use "<json_path|field|regex> <name> <pattern>", e.g. "field ssn ssn".`;
+    }
+    const type = match[1] as ResponseRedactionRule['type'];
+    if (type === 'json_path' && !match[3].startsWith('$')) {
+      return `Line ${index + 1}: JSONPath must start with $.`;
+    }
+    if (type === 'regex') {
+      try {
+        new RegExp(match[3]);
+      } catch {
+        return `Line ${index + 1}: invalid regular expression.`;
+      }
+    }
+    const replacement = existing?.find((rule) => rule.name === match[2])?.replacement;
+    rules.push({ type, name: match[2], pattern: match[3], ...(replacement !== undefined ? { replacement } : {}) });
+  }
+  return rules;
+}
+
+const PLACEMENT_LOCATIONS = ['header', 'query', 'cookie'] as const;
+const DEFAULT_API_KEY_PLACEMENT = 'header X-API-Key {api_key}';
+
+// Credential placements are edited one per line as "<header|query|cookie> <name> <value template>"
+function placementsToText(placements: CredentialPlacement[] | null | undefined): string {
+  return (placements ?? []).map((p) => `${p.in} ${p.name} ${p.value}`).join('\n');
+}
+
+function placementKeys(value: string): string[] {
+  return [...value.matchAll(/\{([^{}]+)\}/g)].map((m) => m[1]);
+}
+
+function parsePlacements(text: string): CredentialPlacement[] | string {
+  const placements: CredentialPlacement[] = [];
+  for (const [index, raw] of text.split('\n').entries()) {
+    const line = raw.trim();
+    if (!line) continue;
+    const match = line.match(/^(\S+)\s+(\S+)\s+(.+)$/);
+    if (!match || !PLACEMENT_LOCATIONS.includes(match[1] as CredentialPlacement['in'])) {
+      return `Line ${index + 1}: use "<header|query|cookie> <name> <value>", e.g. "query api_key {api_key}".`;
+    }
+    if (placementKeys(match[3]).length === 0) {
+      return `Line ${index + 1}: the value must reference a credential, e.g. "Token {api_key}".`;
+    }
+    placements.push({ in: match[1] as CredentialPlacement['in'], name: match[2], value: match[3] });
+  }
+  return placements;
+}
+
+const MB = 1024 * 1024;
+
+// Limit inputs are shown in seconds / MB; empty means "use the gateway default"
+function toInput(value: number | null | undefined, unit: number): string {
+  return value == null ? '' : String(value / unit);
+}
+
+function fromInput(value: string, unit: number): number | null {
+  return value.trim() === '' ? null : Math.round(Number(value) * unit);
 }
 
 export function ServiceForm({ defaultValues, onSubmit, isSubmitting }: ServiceFormProps) {
@@ -23,27 +179,102 @@ export function ServiceForm({ defaultValues, onSubmit, isSubmitting }: ServiceFo
   const [name, setName] = useState(defaultValues?.name ?? '');
   const [baseUrl, setBaseUrl] = useState(defaultValues?.baseUrl ?? '');
   const [authType, setAuthType] = useState<string>(defaultValues?.authType ?? 'api_key');
-  const [apiKeyHeader, setApiKeyHeader] = useState('X-API-Key');
   const [apiKeyValue, setApiKeyValue] = useState('');
+  const [credentialPlacements, setCredentialPlacements] = useState(
+    defaultValues?.credentialPlacements
+      ? placementsToText(defaultValues.credentialPlacements)
+      : (defaultValues?.authType ?? 'api_key') === 'api_key' ? DEFAULT_API_KEY_PLACEMENT : ''
+  );
   const [bearerToken, setBearerToken] = useState('');
   const [basicUsername, setBasicUsername] = useState('');
   const [basicPassword, setBasicPassword] = useState('');
+  const [oauthGrant, setOauthGrant] = useState<'access_token' | 'client_credentials'>('client_credentials');
   const [oauthAccessToken, setOauthAccessToken] = useState('');
+  const [oauthClientId, setOauthClientId] = useState('');
+  const [oauthClientSecret, setOauthClientSecret] = useState('');
+  const [oauthTokenUrl, setOauthTokenUrl] = useState('');
+  const [oauthScope, setOauthScope] = useState('');
+  const [sigv4AccessKeyId, setSigv4AccessKeyId] = useState('');
+  const [sigv4SecretAccessKey, setSigv4SecretAccessKey] = useState('');
+  const [sigv4SessionToken, setSigv4SessionToken] = useState('');
+  const [sigv4Region, setSigv4Region] = useState('us-east-1');
+  const [sigv4Service, setSigv4Service] = useState('s3');
+  const [hmacSecret, setHmacSecret] = useState('');
+  const [hmacKeyId, setHmacKeyId] = useState('');
+  const [hmacSigning, setHmacSigning] = useState<HmacSigning>(
+    defaultValues?.hmacSigning ?? {
+      algorithm: 'sha256',
+      canonical: '{timestamp}\n{method}\n{path}\n{body}',
+      signatureHeader: 'X-Signature',
+      signatureFormat: '{signature}',
+      encoding: 'hex',
+      timestampHeader: 'X-Timestamp',
+      timestampFormat: 'unix',
+    }
+  );
   const [customCredentials, setCustomCredentials] = useState<Array<{ key: string; value: string }>>([]);
+  const [headerPolicyMode, setHeaderPolicyMode] = useState<string>(
+    defaultValues?.responseHeaderPolicy?.mode ?? 'all'
+  );
+  const [headerPolicyList, setHeaderPolicyList] = useState(
+    defaultValues?.responseHeaderPolicy?.headers.join(', ') ?? ''
+  );
+  const [followRedirects, setFollowRedirects] = useState(Boolean(defaultValues?.redirectPolicy));
+  const [redirectMaxHops, setRedirectMaxHops] = useState(
+    String(defaultValues?.redirectPolicy?.maxHops ?? 3)
+  );
+  const [redirectCrossOrigin, setRedirectCrossOrigin] = useState(
+    defaultValues?.redirectPolicy?.allowCrossOrigin ?? false
+  );
+  const [connectTimeout, setConnectTimeout] = useState(toInput(defaultValues?.connectTimeoutMs, 1000));
+  const [totalTimeout, setTotalTimeout] = useState(toInput(defaultValues?.timeoutMs, 1000));
+  const [maxRequestMb, setMaxRequestMb] = useState(toInput(defaultValues?.maxRequestBodyBytes, MB));
+  const [maxResponseMb, setMaxResponseMb] = useState(toInput(defaultValues?.maxResponseBodyBytes, MB));
+  const [maxConcurrency, setMaxConcurrency] = useState(toInput(defaultValues?.maxConcurrency, 1));
+  const [dlpDetectors, setDlpDetectors] = useState<Record<DlpDetector, DlpAction | 'off'>>(() =>
+    Object.fromEntries(
+      DLP_DETECTORS.map((d) => [d.id, defaultValues?.dlpPolicy?.detectors?.[d.id] ?? d.defaultAction])
+    ) as Record<DlpDetector, DlpAction | 'off'>
+  );
+  const [dlpPatterns, setDlpPatterns] = useState(patternsToText(defaultValues?.dlpPolicy?.customPatterns));
+  const [redactionRules, setRedactionRules] = useState(redactionRulesToText(defaultValues?.responseRedactionRules));
+  const [contentScanMode, setContentScanMode] = useState<string>(defaultValues?.contentScanPolicy?.mode ?? 'off');
+  const [contentScanThreshold, setContentScanThreshold] = useState(
+    defaultValues?.contentScanPolicy?.threshold !== undefined ? String(defaultValues.contentScanPolicy.threshold) : ''
+  );
+  const [schemaValidation, setSchemaValidation] = useState<string>(
+    defaultValues?.schemaValidationPolicy?.unknownOperations ?? 'off'
+  );
+  const [apiProtocol, setApiProtocol] = useState<string>(defaultValues?.apiProtocol ?? '');
+  const [operationRules, setOperationRules] = useState(rulesToText(defaultValues?.operationRules));
   const [errors, setErrors] = useState<FormErrors>({});
 
   function buildCredentials(): Record<string, string> {
     const credentials: Record<string, string> = {};
 
     if (authType === 'api_key') {
-      credentials[(apiKeyHeader.trim() || 'X-API-Key')] = apiKeyValue.trim();
+      if (apiKeyValue.trim()) credentials.api_key = apiKeyValue.trim();
     } else if (authType === 'bearer') {
       credentials.token = bearerToken.trim();
     } else if (authType === 'basic') {
       credentials.username = basicUsername.trim();
       credentials.password = basicPassword.trim();
+    } else if (authType === 'oauth2' && oauthGrant === 'client_credentials') {
+      credentials.client_id = oauthClientId.trim();
+      credentials.client_secret = oauthClientSecret.trim();
+      credentials.token_url = oauthTokenUrl.trim();
+      if (oauthScope.trim()) credentials.scope = oauthScope.trim();
     } else if (authType === 'oauth2') {
       credentials.access_token = oauthAccessToken.trim();
+    } else if (authType === 'sigv4') {
+      credentials.access_key_id = sigv4AccessKeyId.trim();
+      credentials.secret_access_key = sigv4SecretAccessKey.trim();
+      credentials.region = sigv4Region.trim();
+      credentials.service = sigv4Service.trim();
+      if (sigv4SessionToken.trim()) credentials.session_token = sigv4SessionToken.trim();
+    } else if (authType === 'hmac') {
+      credentials.secret = hmacSecret.trim();
+      if (hmacKeyId.trim()) credentials.key_id = hmacKeyId.trim();
     }
 
     for (const pair of customCredentials) {
@@ -55,6 +286,37 @@ export function ServiceForm({ defaultValues, onSubmit, isSubmitting }: ServiceFo
     return credentials;
   }
 
+  function buildHeaderPolicy(): HeaderPolicy | null {
+    if (headerPolicyMode !== 'allowlist' && headerPolicyMode !== 'denylist') return null;
+    const headers = headerPolicyList
+      .split(',')
+      .map((h) => h.trim())
+      .filter(Boolean);
+    return { mode: headerPolicyMode, headers };
+  }
+
+  function buildRedirectPolicy(): RedirectPolicy | null {
+    if (!followRedirects) return null;
+    return { maxHops: Number(redirectMaxHops), allowCrossOrigin: redirectCrossOrigin };
+  }
+
+  // Only settings that differ from the defaults are stored; all defaults → null
+  function buildDlpPolicy(): DlpPolicy | null {
+    const detectors: DlpPolicy['detectors'] = {};
+    for (const d of DLP_DETECTORS) {
+      if (dlpDetectors[d.id] !== d.defaultAction) detectors[d.id] = dlpDetectors[d.id];
+    }
+    const customPatterns = parsePatterns(dlpPatterns) as DlpPattern[];
+    if (Object.keys(detectors).length === 0 && customPatterns.length === 0) return null;
+    return { detectors, customPatterns };
+  }
+
+  function buildContentScanPolicy(): ContentScanPolicy | null {
+    if (contentScanMode === 'off') return null;
+    const mode = contentScanMode as ContentScanPolicy['mode'];
+    return contentScanThreshold.trim() === '' ? { mode } : { mode, threshold: Number(contentScanThreshold) };
+  }
+
   function validate(): boolean {
     const newErrors: FormErrors = {};
 
@@ -70,6 +332,66 @@ export function ServiceForm({ defaultValues, onSubmit, isSubmitting }: ServiceFo
       newErrors.baseUrl = 'Base URL must start with https:// or http://';
     }
 
+    if (followRedirects) {
+      const hops = Number(redirectMaxHops);
+      if (!Number.isInteger(hops) || hops < 1 || hops > 10) {
+        newErrors.redirectMaxHops = 'Max hops must be a whole number between 1 and 10.';
+      }
+    }
+
+    const limitInputs = [connectTimeout, totalTimeout, maxRequestMb, maxResponseMb, maxConcurrency];
+    if (limitInputs.some((v) => v.trim() !== '' && !(Number(v) > 0))) {
+      newErrors.limits = 'Limits must be positive numbers (leave empty for the default).';
+    } else if (maxConcurrency.trim() !== '' && !Number.isInteger(Number(maxConcurrency))) {
+      newErrors.limits = 'Max concurrent requests must be a whole number.';
+    }
+
+    if (authType === 'hmac') {
+      if (!hmacSigning.canonical || !hmacSigning.signatureHeader.trim()) {
+        newErrors.hmacSigning = 'A canonical string and a signature header are required.';
+      } else if (!(hmacSigning.signatureFormat ?? '{signature}').includes('{signature}')) {
+        newErrors.hmacSigning = 'The signature header format must contain {signature}.';
+      }
+    }
+
+    const parsedPlacements = parsePlacements(credentialPlacements);
+    if (typeof parsedPlacements === 'string') {
+      newErrors.credentialPlacements = parsedPlacements;
+    } else if (authType === 'api_key' && parsedPlacements.length === 0) {
+      newErrors.credentialPlacements = 'API key services need at least one placement, e.g. "header X-API-Key {api_key}".';
+    } else {
+      // Edits are checked against the stored credentials (keys only); creation against those entered below
+      const keys = isCreateMode ? Object.keys(buildCredentials()) : defaultValues?.credentials?.keys ?? [];
+      const missing = [...new Set(parsedPlacements.flatMap((p) => placementKeys(p.value)))].filter((k) => !keys.includes(k));
+      if (missing.length > 0) {
+        newErrors.credentialPlacements = `References ${missing.map((k) => `{${k}}`).join(', ')}, which ${
+          missing.length > 1 ? 'are' : 'is'
+        } not among the service's credentials.`;
+      }
+    }
+
+    const parsedRules = parseRules(operationRules);
+    if (typeof parsedRules === 'string') {
+      newErrors.operationRules = parsedRules;
+    }
+
+    const parsedPatterns = parsePatterns(dlpPatterns);
+    if (typeof parsedPatterns === 'string') {
+      newErrors.dlpPatterns = parsedPatterns;
+    }
+
+    const parsedRedactions = parseRedactionRules(redactionRules, defaultValues?.responseRedactionRules);
+    if (typeof parsedRedactions === 'string') {
+      newErrors.redactionRules = parsedRedactions;
+    }
+
+    if (contentScanMode !== 'off' && contentScanThreshold.trim() !== '') {
+      const threshold = Number(contentScanThreshold);
+      if (Number.isNaN(threshold) || threshold < 0 || threshold > 1) {
+        newErrors.contentScanThreshold = 'Threshold must be a number between 0 and 1 (leave empty for the default).';
+      }
+    }
+
     if (isCreateMode) {
       const hasCustomPairErrors = customCredentials.some(
         (pair) =>
@@ -79,6 +401,19 @@ export function ServiceForm({ defaultValues, onSubmit, isSubmitting }: ServiceFo
 
       if (hasCustomPairErrors) {
         newErrors.credentials = 'Each custom credential row must have both key and value.';
+      } else if (
+        authType === 'oauth2' &&
+        oauthGrant === 'client_credentials' &&
+        (!oauthClientId.trim() || !oauthClientSecret.trim() || !/^https?:\/\//.test(oauthTokenUrl.trim()))
+      ) {
+        newErrors.credentials = 'Client ID, client secret and an http(s) token URL are required.';
+      } else if (
+        authType === 'sigv4' &&
+        (!sigv4AccessKeyId.trim() || !sigv4SecretAccessKey.trim() || !sigv4Region.trim() || !sigv4Service.trim())
+      ) {
+        newErrors.credentials = 'Access key ID, secret access key, region and service are required.';
+      } else if (authType === 'hmac' && !hmacSecret.trim()) {
+        newErrors.credentials = 'The signing secret is required.';
       } else {
         const credentials = buildCredentials();
         if (Object.keys(credentials).length === 0) {
@@ -99,8 +434,29 @@ export function ServiceForm({ defaultValues, onSubmit, isSubmitting }: ServiceFo
       name: name.trim(),
       baseUrl: baseUrl.trim(),
       authType,
+      apiProtocol: apiProtocol ? (apiProtocol as ApiProtocol) : null,
+      responseHeaderPolicy: buildHeaderPolicy(),
+      redirectPolicy: buildRedirectPolicy(),
+      connectTimeoutMs: fromInput(connectTimeout, 1000),
+      timeoutMs: fromInput(totalTimeout, 1000),
+      maxRequestBodyBytes: fromInput(maxRequestMb, MB),
+      maxResponseBodyBytes: fromInput(maxResponseMb, MB),
+      maxConcurrency: fromInput(maxConcurrency, 1),
     };
 
+    const rules = parseRules(operationRules) as OperationRule[];
+    payload.operationRules = rules.length > 0 ? rules : null;
+    payload.dlpPolicy = buildDlpPolicy();
+    const redactions = parseRedactionRules(redactionRules, defaultValues?.responseRedactionRules) as ResponseRedactionRule[];
+    payload.responseRedactionRules = redactions.length > 0 ? redactions : null;
+    payload.contentScanPolicy = buildContentScanPolicy();
+    payload.schemaValidationPolicy = schemaValidation === 'off'
+      ? null
+      : { unknownOperations: schemaValidation as SchemaValidationPolicy['unknownOperations'] };
+    payload.hmacSigning = authType === 'hmac' ? buildHmacSigning() : null;
+    const placements = parsePlacements(credentialPlacements) as CredentialPlacement[];
+    payload.credentialPlacements = placements.length > 0 ? placements : null;
+
     if (isCreateMode) {
       payload.credentials = buildCredentials();
     }
@@ -108,6 +464,32 @@ export function ServiceForm({ defaultValues, onSubmit, isSubmitting }: ServiceFo
     onSubmit(payload);
   }
 
+  function buildHmacSigning(): HmacSigning {
+    return {
+      ...hmacSigning,
+      signatureHeader: hmacSigning.signatureHeader.trim(),
+      signatureFormat: hmacSigning.signatureFormat?.trim() || '{signature}',
+      timestampHeader: hmacSigning.timestampHeader?.trim() || null,
+      nonceHeader: hmacSigning.nonceHeader?.trim() || null,
+    };
+  }
+
+  // Switching to or from api_key fills in or drops the untouched default placement
+  function changeAuthType(next: string) {
+    setAuthType(next);
+    if (next === 'api_key' && !credentialPlacements.trim()) {
+      setCredentialPlacements(DEFAULT_API_KEY_PLACEMENT);
+    } else if (next !== 'api_key' && credentialPlacements.trim() === DEFAULT_API_KEY_PLACEMENT) {
+      setCredentialPlacements('');
+    }
+    setErrors((prev) => ({ ...prev, credentialPlacements: undefined }));
+  }
+
+  function updateHmacSigning(patch: Partial<HmacSigning>) {
+    setHmacSigning((prev) => ({ ...prev, ...patch }));
+    setErrors((prev) => ({ ...prev, hmacSigning: undefined }));
+  }
+
   function updateCustomCredential(index: number, patch: Partial<{ key: string; value: string }>) {
     setCustomCredentials((prev) =>
       prev.map((row, i) => (i === index ? { ...row, ...patch } : row))
@@ -190,18 +572,471 @@ export function ServiceForm({ defaultValues, onSubmit, isSubmitting }: ServiceFo
         <select
           id="service-auth-type"
           value={authType}
-          onChange={(e) => setAuthType(e.target.value)}
+          onChange={(e) => changeAuthType(e.target.value)}
         >
           <option value="api_key">API Key</option>
           <option value="bearer">Bearer Token</option>
           <option value="basic">Basic Auth (Username &amp; Password)</option>
           <option value="oauth2">OAuth 2.0</option>
+          <option value="sigv4">AWS Signature V4</option>
+          <option value="hmac">HMAC Request Signing</option>
         </select>
         <span style={{ fontSize: '0.75rem', color: '#555' }}>
-          {authType === 'api_key' && 'Header name and API key value are required.'}
+          {authType === 'api_key' && 'The API key maps to credentials.api_key; credential placement below says where it goes.'}
           {authType === 'bearer' && 'Token field maps to credentials.token.'}
           {authType === 'basic' && 'Username and password map to credentials.username/password.'}
-          {authType === 'oauth2' && 'Access token maps to credentials.access_token.'}
+          {authType === 'oauth2' &&
+            'Client ID, secret and token URL map to credentials.client_id/client_secret/token_url (the gateway fetches and refreshes tokens); a static token maps to credentials.access_token.'}
+          {authType === 'sigv4' &&
+            'Every request is signed with credentials.access_key_id/secret_access_key for the region and service (e.g. s3, execute-api); S3-compatible storage such as MinIO uses service s3.'}
+          {authType === 'hmac' &&
+            'Every request is signed with credentials.secret (and optional credentials.key_id) using the signing template below.'}
+        </span>
+      </div>
+
+      {/* HMAC signing template */}
+      {authType === 'hmac' && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+          <h3 style={{ margin: 0, fontSize: '0.95rem', color: '#ededed' }}>HMAC Signing</h3>
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <select
+              value={hmacSigning.algorithm}
+              onChange={(e) => updateHmacSigning({ algorithm: e.target.value as HmacSigning['algorithm'] })}
+              aria-label="HMAC algorithm"
+            >
+              <option value="sha256">HMAC-SHA256</option>
+              <option value="sha512">HMAC-SHA512</option>
+              <option value="sha1">HMAC-SHA1</option>
+            </select>
+            <select
+              value={hmacSigning.encoding ?? 'hex'}
+              onChange={(e) => updateHmacSigning({ encoding: e.target.value as HmacSigning['encoding'] })}
+              aria-label="Signature encoding"
+            >
+              <option value="hex">Hex signature</option>
+              <option value="base64">Base64 signature</option>
+            </select>
+            <select
+              value={hmacSigning.secretEncoding ?? 'utf8'}
+              onChange={(e) => updateHmacSigning({ secretEncoding: e.target.value as HmacSigning['secretEncoding'] })}
+              aria-label="Secret encoding"
+            >
+              <option value="utf8">Secret as text</option>
+              <option value="hex">Secret is hex</option>
+              <option value="base64">Secret is base64</option>
+            </select>
+          </div>
+          <label
+            htmlFor="service-hmac-canonical"
+            style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}
+          >
+            Canonical String
+          </label>
+          <textarea
+            id="service-hmac-canonical"
+            rows={4}
+            value={hmacSigning.canonical}
+            onChange={(e) => updateHmacSigning({ canonical: e.target.value })}
+            placeholder={'{timestamp}\n{method}\n{path}\n{body}'}
+            style={{ fontFamily: 'monospace', ...(errors.hmacSigning ? { borderColor: '#e53935' } : {}) }}
+          />
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <input
+              type="text"
+              value={hmacSigning.signatureHeader}
+              onChange={(e) => updateHmacSigning({ signatureHeader: e.target.value })}
+              placeholder="Signature header (X-Signature)"
+              aria-label="Signature header"
+            />
+            <input
+              type="text"
+              value={hmacSigning.signatureFormat ?? ''}
+              onChange={(e) => updateHmacSigning({ signatureFormat: e.target.value })}
+              placeholder="Header value ({signature})"
+              aria-label="Signature header format"
+              style={{ fontFamily: 'monospace' }}
+            />
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <input
+              type="text"
+              value={hmacSigning.timestampHeader ?? ''}
+              onChange={(e) => updateHmacSigning({ timestampHeader: e.target.value })}
+              placeholder="Timestamp header (optional)"
+              aria-label="Timestamp header"
+            />
+            <select
+              value={hmacSigning.timestampFormat ?? 'unix'}
+              onChange={(e) => updateHmacSigning({ timestampFormat: e.target.value as HmacSigning['timestampFormat'] })}
+              aria-label="Timestamp format"
+            >
+              <option value="unix">Unix seconds</option>
+              <option value="unix_ms">Unix milliseconds</option>
+              <option value="iso8601">ISO 8601</option>
+            </select>
+            <input
+              type="text"
+              value={hmacSigning.nonceHeader ?? ''}
+              onChange={(e) => updateHmacSigning({ nonceHeader: e.target.value })}
+              placeholder="Nonce header (optional)"
+              aria-label="Nonce header"
+            />
+          </div>
+          {errors.hmacSigning && (
+            <span style={{ fontSize: '0.75rem', color: '#ef5350' }}>{errors.hmacSigning}</span>
+          )}
+          <span style={{ fontSize: '0.75rem', color: '#555' }}>
+            Placeholders: {'{timestamp} {method} {path} {query} {host} {body} {body_sha256} {nonce} {key_id}'}; the
+            header value also takes {'{signature}'}, e.g. {'t={timestamp},v1={signature}'}. Each request is signed when it
+            is sent, so approved requests carry a fresh timestamp.
+          </span>
+        </div>
+      )}
+
+      {/* Credential placement (header / query / cookie) */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+        <label
+          htmlFor="service-credential-placements"
+          style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}
+        >
+          Credential Placement
+        </label>
+        <textarea
+          id="service-credential-placements"
+          rows={3}
+          value={credentialPlacements}
+          onChange={(e) => {
+            setCredentialPlacements(e.target.value);
+            setErrors((prev) => ({ ...prev, credentialPlacements: undefined }));
+          }}
+          placeholder={'header X-API-Key {api_key}\nheader X-Account-Id {account_id}\nquery key {api_key}'}
+          aria-describedby={errors.credentialPlacements ? 'credential-placements-error' : undefined}
+          style={{ fontFamily: 'monospace', ...(errors.credentialPlacements ? { borderColor: '#e53935' } : {}) }}
+        />
+        {errors.credentialPlacements && (
+          <span id="credential-placements-error" style={{ fontSize: '0.75rem', color: '#ef5350' }}>
+            {errors.credentialPlacements}
+          </span>
+        )}
+        <span style={{ fontSize: '0.75rem', color: '#555' }}>
+          One per line: header, query parameter or cookie, its name, and the value with {'{credential}'} references,
+          e.g. {'cookie session {api_key}'}. Required for API key services; other auth types can add placements on top.
+        </span>
+      </div>
+
+      {/* Response header passthrough policy */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+        <label
+          htmlFor="service-header-policy"
+          style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}
+        >
+          Response Headers
+        </label>
+        <select
+          id="service-header-policy"
+          value={headerPolicyMode}
+          onChange={(e) => setHeaderPolicyMode(e.target.value)}
+        >
+          <option value="all">Forward all upstream headers</option>
+          <option value="denylist">Forward all except listed</option>
+          <option value="allowlist">Forward only listed</option>
+        </select>
+        {headerPolicyMode !== 'all' && (
+          <input
+            type="text"
+            value={headerPolicyList}
+            onChange={(e) => setHeaderPolicyList(e.target.value)}
+            placeholder="ETag, Link, Retry-After"
+          />
+        )}
+        <span style={{ fontSize: '0.75rem', color: '#555' }}>
+          Hop-by-hop headers, cookies and echoed credentials are always removed.
+        </span>
+      </div>
+
+      {/* Redirect policy */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+        <label
+          htmlFor="service-redirects"
+          style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}
+        >
+          Redirects
+        </label>
+        <select
+          id="service-redirects"
+          value={followRedirects ? 'follow' : 'return'}
+          onChange={(e) => setFollowRedirects(e.target.value === 'follow')}
+        >
+          <option value="return">Return redirects to the agent</option>
+          <option value="follow">Follow redirects in the gateway</option>
+        </select>
+        {followRedirects && (
+          <>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={redirectMaxHops}
+              onChange={(e) => setRedirectMaxHops(e.target.value)}
+              aria-label="Maximum redirect hops"
+              aria-describedby={errors.redirectMaxHops ? 'redirect-hops-error' : undefined}
+              style={errors.redirectMaxHops ? { borderColor: '#e53935' } : undefined}
+            />
+            {errors.redirectMaxHops && (
+              <span id="redirect-hops-error" style={{ fontSize: '0.75rem', color: '#ef5350' }}>
+                {errors.redirectMaxHops}
+              </span>
+            )}
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8125rem', color: '#888' }}>
+              <input
+                type="checkbox"
+                checked={redirectCrossOrigin}
+                onChange={(e) => setRedirectCrossOrigin(e.target.checked)}
+              />
+              Allow hops to other hosts
+            </label>
+          </>
+        )}
+        <span style={{ fontSize: '0.75rem', color: '#555' }}>
+          Every hop is re-checked; credentials are only sent to the service&apos;s own origin.
+        </span>
+      </div>
+
+      {/* Outbound limits */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+        <span style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>Limits</span>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.5rem' }}>
+          {[
+            { id: 'limit-connect-timeout', label: 'Connect timeout (s)', value: connectTimeout, set: setConnectTimeout, placeholder: '30' },
+            { id: 'limit-total-timeout', label: 'Total timeout (s)', value: totalTimeout, set: setTotalTimeout, placeholder: '30' },
+            { id: 'limit-request-body', label: 'Max request body (MB)', value: maxRequestMb, set: setMaxRequestMb, placeholder: 'No limit' },
+            { id: 'limit-response-body', label: 'Max response body (MB)', value: maxResponseMb, set: setMaxResponseMb, placeholder: '10' },
+            { id: 'limit-concurrency', label: 'Max concurrent requests', value: maxConcurrency, set: setMaxConcurrency, placeholder: 'No limit' },
+          ].map((field) => (
+            <div key={field.id} style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+              <label htmlFor={field.id} style={{ fontSize: '0.75rem', color: '#888' }}>
+                {field.label}
+              </label>
+              <input
+                id={field.id}
+                type="number"
+                min={0}
+                step="any"
+                value={field.value}
+                onChange={(e) => field.set(e.target.value)}
+                placeholder={field.placeholder}
+                style={errors.limits ? { borderColor: '#e53935' } : undefined}
+              />
+            </div>
+          ))}
+        </div>
+        {errors.limits && (
+          <span style={{ fontSize: '0.75rem', color: '#ef5350' }}>{errors.limits}</span>
+        )}
+        <span style={{ fontSize: '0.75rem', color: '#555' }}>
+          Leave empty for the gateway defaults. Connect timeout covers the wait for response headers.
+        </span>
+      </div>
+
+      {/* Data-loss prevention */}
+      <fieldset style={{ border: 'none', padding: 0, margin: 0, display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+        <legend style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed', marginBottom: '0.375rem' }}>
+          Data-Loss Prevention
+        </legend>
+        {DLP_DETECTORS.map((d) => (
+          <label
+            key={d.id}
+            style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '0.75rem', fontSize: '0.8125rem', color: '#888' }}
+          >
+            {d.label}
+            <select
+              value={dlpDetectors[d.id]}
+              onChange={(e) => setDlpDetectors((prev) => ({ ...prev, [d.id]: e.target.value as DlpAction | 'off' }))}
+              style={{ width: 'auto' }}
+            >
+              <option value="off">Off</option>
+              <option value="approve">Require approval</option>
+              <option value="redact">Redact</option>
+              <option value="block">Block</option>
+            </select>
+          </label>
+        ))}
+        <textarea
+          rows={2}
+          value={dlpPatterns}
+          onChange={(e) => {
+            setDlpPatterns(e.target.value);
+            setErrors((prev) => ({ ...prev, dlpPatterns: undefined }));
+          }}
+          placeholder={'redact employee_id EMP-\\d{6}'}
+          aria-label="Custom DLP patterns"
+          aria-describedby={errors.dlpPatterns ? 'dlp-patterns-error' : undefined}
+          style={{ fontFamily: 'monospace', ...(errors.dlpPatterns ? { borderColor: '#e53935' } : {}) }}
+        />
+        {errors.dlpPatterns && (
+          <span id="dlp-patterns-error" style={{ fontSize: '0.75rem', color: '#ef5350' }}>
+            {errors.dlpPatterns}
+          </span>
+        )}
+        <span style={{ fontSize: '0.75rem', color: '#555' }}>
+          Request bodies are scanned before risk assessment. Custom patterns: one per line as
+          &quot;&lt;block|redact|approve&gt; &lt;name&gt; &lt;regex&gt;&quot;.
+        </span>
+      </fieldset>
+
+      {/* Response redaction */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+        <label
+          htmlFor="service-redaction-rules"
+          style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}
+        >
+          Response Redaction
+        </label>
+        <textarea
+          id="service-redaction-rules"
+          rows={3}
+          value={redactionRules}
+          onChange={(e) => {
+            setRedactionRules(e.target.value);
+            setErrors((prev) => ({ ...prev, redactionRules: undefined }));
+          }}
+          placeholder={'field ssn ssn\njson_path cards $.items[*].card.number\nregex tokens tok_[A-Za-z0-9]{24}'}
+          aria-describedby={errors.redactionRules ? 'redaction-rules-error' : undefined}
+          style={{ fontFamily: 'monospace', ...(errors.redactionRules ? { borderColor: '#e53935' } : {}) }}
+        />
+        {errors.redactionRules && (
+          <span id="redaction-rules-error" style={{ fontSize: '0.75rem', color: '#ef5350' }}>
+            {errors.redactionRules}
+          </span>
+        )}
+        <span style={{ fontSize: '0.75rem', color: '#555' }}>
+          One rule per line as &quot;&lt;json_path|field|regex&gt; &lt;name&gt; &lt;pattern&gt;&quot;. Matching values are
+          replaced with [REDACTED] before the agent sees the response; the audit log records rule names only.
+        </span>
+      </div>
+
+      {/* Response content scanning (prompt injection) */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+        <label
+          htmlFor="service-content-scan"
+          style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}
+        >
+          Prompt-Injection Scanning
+        </label>
+        <select
+          id="service-content-scan"
+          value={contentScanMode}
+          onChange={(e) => setContentScanMode(e.target.value)}
+        >
+          <option value="off">Don&apos;t scan responses</option>
+          <option value="annotate">Annotate with a risk header</option>
+          <option value="wrap">Wrap flagged content in a warning</option>
+          <option value="withhold">Withhold flagged content for review</option>
+        </select>
+        {contentScanMode !== 'off' && (
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={contentScanThreshold}
+            onChange={(e) => {
+              setContentScanThreshold(e.target.value);
+              setErrors((prev) => ({ ...prev, contentScanThreshold: undefined }));
+            }}
+            placeholder="Flag at score (default: gateway risk threshold)"
+            aria-describedby={errors.contentScanThreshold ? 'content-scan-error' : undefined}
+            style={errors.contentScanThreshold ? { borderColor: '#e53935' } : undefined}
+          />
+        )}
+        {errors.contentScanThreshold && (
+          <span id="content-scan-error" style={{ fontSize: '0.75rem', color: '#ef5350' }}>
+            {errors.contentScanThreshold}
+          </span>
+        )}
+        <span style={{ fontSize: '0.75rem', color: '#555' }}>
+          Text responses are checked for instructions aimed at the agent (pattern heuristics plus the LLM) and
+          carry an X-GaiterGuard-Content-Risk header. Withheld responses appear in the approval queue.
+        </span>
+      </div>
+
+      {/* OpenAPI request validation */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+        <label
+          htmlFor="service-schema-validation"
+          style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}
+        >
+          Request Validation
+        </label>
+        <select
+          id="service-schema-validation"
+          value={schemaValidation}
+          onChange={(e) => setSchemaValidation(e.target.value)}
+        >
+          <option value="off">Don&apos;t validate requests</option>
+          <option value="allow">Validate documented operations, allow unknown ones</option>
+          <option value="flag">Validate, and send unknown operations for approval</option>
+          <option value="block">Validate, and reject unknown operations</option>
+        </select>
+        <span style={{ fontSize: '0.75rem', color: '#555' }}>
+          Checks path parameters, query, headers and JSON bodies against the service&apos;s OpenAPI documentation.
+          Requests that don&apos;t match get a 422 listing each violation, before risk assessment.
+        </span>
+      </div>
+
+      {/* API protocol */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+        <label
+          htmlFor="service-api-protocol"
+          style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}
+        >
+          API Protocol
+        </label>
+        <select
+          id="service-api-protocol"
+          value={apiProtocol}
+          onChange={(e) => setApiProtocol(e.target.value)}
+        >
+          <option value="">HTTP</option>
+          <option value="graphql">GraphQL</option>
+          <option value="jsonrpc">JSON-RPC 2.0</option>
+        </select>
+        <span style={{ fontSize: '0.75rem', color: '#555' }}>
+          GraphQL and JSON-RPC bodies are only parsed for services registered with that protocol. For JSON-RPC
+          services each call&apos;s method is used for risk scoring, rules and the audit log; a batch is approved
+          or denied as a whole.
+        </span>
+      </div>
+
+      {/* Operation rules (GraphQL / JSON-RPC / OpenAPI operationId) */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+        <label
+          htmlFor="service-operation-rules"
+          style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}
+        >
+          Operation Rules
+        </label>
+        <textarea
+          id="service-operation-rules"
+          rows={3}
+          value={operationRules}
+          onChange={(e) => {
+            setOperationRules(e.target.value);
+            setErrors((prev) => ({ ...prev, operationRules: undefined }));
+          }}
+          placeholder={'deny mutation.delete*\napprove mutation.*\nallow query.*'}
+          aria-describedby={errors.operationRules ? 'operation-rules-error' : undefined}
+          style={{ fontFamily: 'monospace', ...(errors.operationRules ? { borderColor: '#e53935' } : {}) }}
+        />
+        {errors.operationRules && (
+          <span id="operation-rules-error" style={{ fontSize: '0.75rem', color: '#ef5350' }}>
+            {errors.operationRules}
+          </span>
+        )}
+        <span style={{ fontSize: '0.75rem', color: '#555' }}>
+          One rule per line, matched against GraphQL operations as type.field, JSON-RPC method names, or the operationId
+          of documented OpenAPI operations. Allow skips risk assessment,
+          approve always asks a human, deny rejects. The first matching rule applies.
         </span>
       </div>
 
@@ -213,31 +1048,18 @@ export function ServiceForm({ defaultValues, onSubmit, isSubmitting }: ServiceFo
           </p>
 
           {authType === 'api_key' && (
-            <>
-              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
-                <label style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>
-                  Header Name
-                </label>
-                <input
-                  type="text"
-                  value={apiKeyHeader}
-                  onChange={(e) => setApiKeyHeader(e.target.value)}
-                  placeholder="X-API-Key"
-                />
-              </div>
-              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
-                <label style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>
-                  API Key Value
-                </label>
-                <input
-                  type="password"
-                  value={apiKeyValue}
-                  onChange={(e) => setApiKeyValue(e.target.value)}
-                  placeholder="Enter API key"
-                  autoComplete="new-password"
-                />
-              </div>
-            </>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+              <label style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>
+                API Key
+              </label>
+              <input
+                type="password"
+                value={apiKeyValue}
+                onChange={(e) => setApiKeyValue(e.target.value)}
+                placeholder="Enter API key"
+                autoComplete="new-password"
+              />
+            </div>
           )}
 
           {authType === 'bearer' && (
@@ -284,6 +1106,71 @@ export function ServiceForm({ defaultValues, onSubmit, isSubmitting }: ServiceFo
           )}
 
           {authType === 'oauth2' && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+              <label style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>
+                Token Source
+              </label>
+              <select
+                value={oauthGrant}
+                onChange={(e) => setOauthGrant(e.target.value as 'access_token' | 'client_credentials')}
+              >
+                <option value="client_credentials">Client credentials (gateway fetches and refreshes tokens)</option>
+                <option value="access_token">Static access token</option>
+              </select>
+            </div>
+          )}
+
+          {authType === 'oauth2' && oauthGrant === 'client_credentials' && (
+            <>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+                <label style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>
+                  Client ID
+                </label>
+                <input
+                  type="text"
+                  value={oauthClientId}
+                  onChange={(e) => setOauthClientId(e.target.value)}
+                  placeholder="Enter client ID"
+                />
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+                <label style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>
+                  Client Secret
+                </label>
+                <input
+                  type="password"
+                  value={oauthClientSecret}
+                  onChange={(e) => setOauthClientSecret(e.target.value)}
+                  placeholder="Enter client secret"
+                  autoComplete="new-password"
+                />
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+                <label style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>
+                  Token URL
+                </label>
+                <input
+                  type="url"
+                  value={oauthTokenUrl}
+                  onChange={(e) => setOauthTokenUrl(e.target.value)}
+                  placeholder="https://auth.example.com/oauth/token"
+                />
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+                <label style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>
+                  Scope <span style={{ color: '#555', fontWeight: 400 }}>(optional, space-separated)</span>
+                </label>
+                <input
+                  type="text"
+                  value={oauthScope}
+                  onChange={(e) => setOauthScope(e.target.value)}
+                  placeholder="read write"
+                />
+              </div>
+            </>
+          )}
+
+          {authType === 'oauth2' && oauthGrant === 'access_token' && (
             <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
               <label style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>
                 Access Token
@@ -298,6 +1185,96 @@ export function ServiceForm({ defaultValues, onSubmit, isSubmitting }: ServiceFo
             </div>
           )}
 
+          {authType === 'sigv4' && (
+            <>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+                <label style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>
+                  Access Key ID
+                </label>
+                <input
+                  type="text"
+                  value={sigv4AccessKeyId}
+                  onChange={(e) => setSigv4AccessKeyId(e.target.value)}
+                  placeholder="AKIA..."
+                />
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+                <label style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>
+                  Secret Access Key
+                </label>
+                <input
+                  type="password"
+                  value={sigv4SecretAccessKey}
+                  onChange={(e) => setSigv4SecretAccessKey(e.target.value)}
+                  placeholder="Enter secret access key"
+                  autoComplete="new-password"
+                />
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+                <label style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>
+                  Region
+                </label>
+                <input
+                  type="text"
+                  value={sigv4Region}
+                  onChange={(e) => setSigv4Region(e.target.value)}
+                  placeholder="us-east-1"
+                />
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+                <label style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>
+                  Service
+                </label>
+                <input
+                  type="text"
+                  value={sigv4Service}
+                  onChange={(e) => setSigv4Service(e.target.value)}
+                  placeholder="s3"
+                />
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+                <label style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>
+                  Session Token <span style={{ color: '#555', fontWeight: 400 }}>(optional, temporary credentials)</span>
+                </label>
+                <input
+                  type="password"
+                  value={sigv4SessionToken}
+                  onChange={(e) => setSigv4SessionToken(e.target.value)}
+                  placeholder="Enter session token"
+                  autoComplete="new-password"
+                />
+              </div>
+            </>
+          )}
+
+          {authType === 'hmac' && (
+            <>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+                <label style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>
+                  Signing Secret
+                </label>
+                <input
+                  type="password"
+                  value={hmacSecret}
+                  onChange={(e) => setHmacSecret(e.target.value)}
+                  placeholder="Enter shared secret"
+                  autoComplete="new-password"
+                />
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem' }}>
+                <label style={{ fontSize: '0.875rem', fontWeight: 500, color: '#ededed' }}>
+                  Key ID <span style={{ color: '#555', fontWeight: 400 }}>(optional, for {'{key_id}'})</span>
+                </label>
+                <input
+                  type="text"
+                  value={hmacKeyId}
+                  onChange={(e) => setHmacKeyId(e.target.value)}
+                  placeholder="Enter key ID"
+                />
+              </div>
+            </>
+          )}
+
           <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
             <div style={{ fontSize: '0.8125rem', color: '#888' }}>Optional custom credentials</div>
             {customCredentials.map((pair, index) => (
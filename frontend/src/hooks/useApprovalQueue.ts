@@ -1,5 +1,52 @@
 import { useQuery } from '@tanstack/react-query';
 import { api } from '@/api/endpoints';
+import type { RequestBodySummary } from '@/api/endpoints';
+
+/**
+ * GraphQL operation parsed from the request body — top-level fields only
+ */
+export interface GraphQLOperationSummary {
+  type: 'query' | 'mutation' | 'subscription';
+  name: string | null;
+  fields: string[];
+}
+
+/**
+ * One JSON-RPC call; batched requests have several
+ */
+export interface JsonRpcCallSummary {
+  method: string;
+  id: string | number | null; // null for notifications
+  params: string | null;      // compact JSON, truncated
+  riskScore: number;          // baseline risk of the method name
+}
+
+export type RequestOperation =
+  | { protocol: 'graphql'; operations: GraphQLOperationSummary[] }
+  | { protocol: 'jsonrpc'; batch: boolean; calls: JsonRpcCallSummary[] };
+
+/**
+ * Data-loss prevention finding in the request body. The value itself is never sent — only a
+ * masked preview and its span in request_body (or in the multipart part's value).
+ */
+export interface DlpMatch {
+  detector: string; // built-in detector (api_key, private_key, credit_card, email, phone) or custom pattern name
+  action: 'block' | 'redact' | 'approve';
+  preview: string;
+  part?: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Prompt-injection scan of a withheld upstream response
+ */
+export interface ContentRisk {
+  score: number;
+  signals: string[]; // heuristic patterns matched, e.g. "override_instructions"
+  explanation: string;
+  flagged: boolean;
+}
 
 /**
  * PendingAction — matches the backend approval queue entry shape
@@ -10,11 +57,19 @@ export interface PendingAction {
   service_id: number;
   method: string;
   target_url: string;
+  protocol: 'http' | 'websocket'; // 'websocket' = the agent asked to open a WebSocket session
+  operation: RequestOperation | null; // null when the body isn't a recognized protocol (e.g. plain REST)
+  dlp_matches: DlpMatch[] | null; // sensitive data found in the body; 'redact' spans point at the placeholder
+  content_risk: ContentRisk | null; // set when the request already ran and its response is withheld for review
+  response_status: number | null;   // withheld response status
+  response_body: string | null;     // withheld response body (null if binary)
   intent: string;
   risk_score: number;
   risk_explanation: string;
   request_headers: Record<string, string>;
-  request_body: string | null;
+  request_body: string | null; // null for binary/multipart bodies — see request_body_summary
+  request_body_encoding: 'utf8' | 'base64' | 'multipart';
+  request_body_summary: RequestBodySummary | null;
   created_at: string;
 }
 
@@ -0,0 +1,61 @@
+// TanStack Query hooks for a service's API documentation (OpenAPI, markdown, URLs)
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/api/endpoints';
+import type { DocumentationPayload } from '@/api/endpoints';
+
+const docsQueryKey = (serviceId: number) => ['services', serviceId, 'docs'] as const;
+
+/**
+ * useDocumentation — list a service's documentation.
+ * queryKey: ['services', serviceId, 'docs']
+ */
+export function useDocumentation(serviceId: number) {
+  return useQuery({
+    queryKey: docsQueryKey(serviceId),
+    queryFn: () => api.listDocumentation(serviceId),
+    select: (data) => (Array.isArray(data) ? data : []),
+  });
+}
+
+/**
+ * useDocumentationDetail — one document with its indexed OpenAPI operations (for the preview).
+ * Disabled until a document is selected.
+ */
+export function useDocumentationDetail(serviceId: number, docId: number | null) {
+  return useQuery({
+    queryKey: [...docsQueryKey(serviceId), docId],
+    queryFn: () => api.getDocumentation(serviceId, docId as number),
+    enabled: docId !== null,
+  });
+}
+
+/**
+ * useCreateDocumentation — add documentation to a service.
+ * Invalidates the service's docs on success.
+ */
+export function useCreateDocumentation(serviceId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: DocumentationPayload) => api.createDocumentation(serviceId, data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: docsQueryKey(serviceId) });
+    },
+  });
+}
+
+/**
+ * useDeleteDocumentation — delete one of a service's documents.
+ * Invalidates the service's docs when settled.
+ */
+export function useDeleteDocumentation(serviceId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (docId: number) => api.deleteDocumentation(serviceId, docId),
+    onSettled: () => {
+      void queryClient.invalidateQueries({ queryKey: docsQueryKey(serviceId) });
+    },
+  });
+}
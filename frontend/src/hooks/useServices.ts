@@ -1,8 +1,88 @@
 // TanStack Query hooks for services CRUD
-// Provides useServices, useCreateService, useUpdateService, useDeleteService, useUpsertCredentials
+// Provides useServices, useCreateService, useImportService, useUpdateService, useDeleteService, useUpsertCredentials,
+// useStartOAuthConnect
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/api/endpoints';
+import type { OpenApiImportPayload } from '@/api/endpoints';
+
+// Response header passthrough policy (null = forward all headers that pass safety rules)
+export interface HeaderPolicy {
+  mode: 'denylist' | 'allowlist';
+  headers: string[];
+}
+
+// Redirect-following policy (null = 3xx responses are returned to the agent unfollowed)
+export interface RedirectPolicy {
+  maxHops: number;
+  allowCrossOrigin: boolean;
+}
+
+// API protocol spoken over the service URL; null = plain HTTP (bodies never parsed as GraphQL or JSON-RPC)
+export type ApiProtocol = 'graphql' | 'jsonrpc';
+
+// Operation rule matched against parsed operations (GraphQL "mutation.delete*", JSON-RPC method "eth_send*"); first match per operation wins
+export interface OperationRule {
+  match: string;
+  action: 'allow' | 'approve' | 'deny';
+}
+
+// Data-loss prevention policy; null = built-in defaults (private keys blocked, API keys and cards need approval)
+export type DlpAction = 'block' | 'redact' | 'approve';
+export type DlpDetector = 'api_key' | 'private_key' | 'credit_card' | 'email' | 'phone';
+
+export interface DlpPolicy {
+  detectors?: Partial<Record<DlpDetector, DlpAction | 'off'>>;
+  customPatterns?: Array<{ name: string; pattern: string; action: DlpAction }>;
+}
+
+// Response redaction rule: JSONPath, JSON field name (any depth) or regex; matches become the replacement
+export interface ResponseRedactionRule {
+  name: string;
+  type: 'json_path' | 'field' | 'regex';
+  pattern: string;
+  replacement?: string; // default "[REDACTED]"
+}
+
+// Response-side prompt-injection scanning; what happens to a flagged response
+export interface ContentScanPolicy {
+  mode: 'annotate' | 'wrap' | 'withhold';
+  threshold?: number; // 0-1; default: the gateway's risk threshold
+}
+
+// Request validation against the service's OpenAPI docs; what happens to requests matching no documented operation
+export interface SchemaValidationPolicy {
+  unknownOperations: 'block' | 'flag' | 'allow';
+}
+
+// Request signing template for hmac services; the key is credentials.secret (and credentials.key_id for {key_id})
+export interface HmacSigning {
+  algorithm: 'sha256' | 'sha512' | 'sha1';
+  canonical: string; // e.g. "{timestamp}\n{method}\n{path}\n{body}"
+  signatureHeader: string;
+  signatureFormat?: string; // header value; default "{signature}"
+  encoding?: 'hex' | 'base64';
+  secretEncoding?: 'utf8' | 'hex' | 'base64';
+  timestampHeader?: string | null;
+  timestampFormat?: 'unix' | 'unix_ms' | 'iso8601';
+  nonceHeader?: string | null;
+}
+
+// Where a credential goes on outgoing requests; value references credential keys, e.g. "Token {api_key}"
+export interface CredentialPlacement {
+  in: 'header' | 'query' | 'cookie';
+  name: string;
+  value: string;
+}
+
+// Live circuit breaker state for a service (per gateway process)
+export interface CircuitBreakerStatus {
+  state: 'closed' | 'open' | 'half_open';
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+  lastFailure: string | null;
+}
 
 // Service type matching backend response (credentials shown as metadata, not values)
 export interface ServiceType {
@@ -10,6 +90,23 @@ export interface ServiceType {
   name: string;
   baseUrl: string;
   authType: string;
+  apiProtocol: ApiProtocol | null;
+  responseHeaderPolicy: HeaderPolicy | null;
+  redirectPolicy: RedirectPolicy | null;
+  operationRules: OperationRule[] | null;
+  dlpPolicy: DlpPolicy | null;
+  responseRedactionRules: ResponseRedactionRule[] | null;
+  contentScanPolicy: ContentScanPolicy | null;
+  schemaValidationPolicy: SchemaValidationPolicy | null;
+  hmacSigning: HmacSigning | null;
+  credentialPlacements: CredentialPlacement[] | null;
+  // Outbound limits (null = gateway default)
+  connectTimeoutMs: number | null;
+  timeoutMs: number | null;
+  maxRequestBodyBytes: number | null;
+  maxResponseBodyBytes: number | null;
+  maxConcurrency: number | null;
+  circuitBreaker?: CircuitBreakerStatus;
   userId: number;
   createdAt: string;
   updatedAt: string;
@@ -24,6 +121,21 @@ export interface ServicePayload {
   name: string;
   baseUrl: string;
   authType: string;
+  apiProtocol?: ApiProtocol | null;
+  responseHeaderPolicy?: HeaderPolicy | null;
+  redirectPolicy?: RedirectPolicy | null;
+  operationRules?: OperationRule[] | null;
+  dlpPolicy?: DlpPolicy | null;
+  responseRedactionRules?: ResponseRedactionRule[] | null;
+  contentScanPolicy?: ContentScanPolicy | null;
+  schemaValidationPolicy?: SchemaValidationPolicy | null;
+  hmacSigning?: HmacSigning | null;
+  credentialPlacements?: CredentialPlacement[] | null;
+  connectTimeoutMs?: number | null;
+  timeoutMs?: number | null;
+  maxRequestBodyBytes?: number | null;
+  maxResponseBodyBytes?: number | null;
+  maxConcurrency?: number | null;
   credentials?: Record<string, string>;
 }
 
@@ -68,6 +180,21 @@ export function useCreateService() {
   });
 }
 
+/**
+ * useImportService — create a service from an OpenAPI document.
+ * Invalidates ['services'] on success.
+ */
+export function useImportService() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: OpenApiImportPayload) => api.importService(data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: SERVICES_QUERY_KEY });
+    },
+  });
+}
+
 /**
  * useUpdateService — update an existing service by ID.
  * Invalidates ['services'] on success.
@@ -135,3 +262,13 @@ export function useUpsertCredentials() {
     },
   });
 }
+
+/**
+ * useStartOAuthConnect — start connecting an OAuth 2.0 account for a service.
+ * Resolves with the provider URL; the caller redirects the browser there.
+ */
+export function useStartOAuthConnect() {
+  return useMutation({
+    mutationFn: (serviceId: number) => api.startOAuthConnect(serviceId),
+  });
+}
@@ -1,6 +1,7 @@
 // Edit service page — /services/:id/edit
 // Renders ServiceForm pre-populated with existing service data
-// Also renders CredentialForm below for managing credentials
+// Also renders CredentialForm below for managing credentials, OAuthConnect for oauth2 account connection
+// (?oauth=connected|error&message=... after the provider callback), and DocumentationManager for API docs
 // Vercel-style dark aesthetic with oat.ink semantic HTML
 
 import React from 'react';
@@ -11,14 +12,26 @@ import { useUpdateService } from '@/hooks/useServices';
 import type { ServiceType, ServicePayload } from '@/hooks/useServices';
 import { ServiceForm } from '@/components/services/ServiceForm';
 import { CredentialForm } from '@/components/services/CredentialForm';
+import { OAuthConnect } from '@/components/services/OAuthConnect';
+import { DocumentationManager } from '@/components/services/DocumentationManager';
 import { Skeleton } from '@/components/primitives/Skeleton';
 
+interface EditServiceSearch {
+  oauth?: 'connected' | 'error';
+  message?: string;
+}
+
 export const Route = createFileRoute('/_auth/services/$id/edit')({
+  validateSearch: (search: Record<string, unknown>): EditServiceSearch => ({
+    oauth: search.oauth === 'connected' || search.oauth === 'error' ? search.oauth : undefined,
+    message: typeof search.message === 'string' ? search.message : undefined,
+  }),
   component: EditServicePage,
 });
 
 function EditServicePage() {
   const { id } = Route.useParams();
+  const search = Route.useSearch();
   const navigate = useNavigate();
   const updateService = useUpdateService();
 
@@ -178,7 +191,59 @@ function EditServicePage() {
           )}
         </p>
         <article className="card">
-          <CredentialForm serviceId={service.id} authType={service.authType} />
+          <CredentialForm serviceId={service.id} authType={service.authType} placements={service.credentialPlacements} />
+        </article>
+      </section>
+
+      {service.authType === 'oauth2' && (
+        <section style={{ marginTop: '2rem' }}>
+          <h2
+            style={{
+              margin: '0 0 0.5rem',
+              fontSize: '1rem',
+              fontWeight: 600,
+              color: '#ededed',
+            }}
+          >
+            Connected Account
+          </h2>
+          <p style={{ margin: '0 0 1rem', fontSize: '0.875rem', color: '#555' }}>
+            Sign in with the provider to let agents call {service.name} on your behalf.
+          </p>
+          <article className="card">
+            <OAuthConnect
+              service={service}
+              result={search.oauth ? { status: search.oauth, message: search.message } : undefined}
+            />
+          </article>
+        </section>
+      )}
+
+      <hr
+        style={{
+          border: 'none',
+          borderTop: '1px solid #222',
+          margin: '2rem 0',
+        }}
+      />
+
+      {/* API documentation */}
+      <section>
+        <h2
+          style={{
+            margin: '0 0 0.5rem',
+            fontSize: '1rem',
+            fontWeight: 600,
+            color: '#ededed',
+          }}
+        >
+          Documentation
+        </h2>
+        <p style={{ margin: '0 0 1rem', fontSize: '0.875rem', color: '#555' }}>
+          OpenAPI specs and markdown docs for {service.name}, used to judge the risk of agent requests.
+        </p>
+        <article className="card">
+          <DocumentationManager serviceId={service.id} />
         </article>
       </section>
     </div>
@@ -1,12 +1,15 @@
 // Create service page — /services/new
-// Renders ServiceForm for registering a new API service
+// Renders ServiceForm for registering a new API service, or OpenApiImportForm to create one from a spec
 // Vercel-style dark aesthetic with oat.ink semantic HTML
 
-import React from 'react';
+import React, { useState } from 'react';
 import { createFileRoute, Link, useNavigate } from '@tanstack/react-router';
 import { useCreateService } from '@/hooks/useServices';
 import type { ServicePayload } from '@/hooks/useServices';
 import { ServiceForm } from '@/components/services/ServiceForm';
+import { OpenApiImportForm } from '@/components/services/OpenApiImportForm';
+import type { OpenApiImportResult } from '@/api/endpoints';
+import { Button } from '@/components/primitives/Button';
 
 export const Route = createFileRoute('/_auth/services/new')({
   component: NewServicePage,
@@ -15,6 +18,7 @@ export const Route = createFileRoute('/_auth/services/new')({
 function NewServicePage() {
   const navigate = useNavigate();
   const createService = useCreateService();
+  const [mode, setMode] = useState<'manual' | 'openapi'>('manual');
 
   function handleSubmit(data: ServicePayload) {
     createService.mutate(data, {
@@ -24,6 +28,11 @@ function NewServicePage() {
     });
   }
 
+  // Imported services have no credentials yet — continue on the edit page to add them
+  function handleImported(result: OpenApiImportResult) {
+    void navigate({ to: '/services/$id/edit', params: { id: String(result.service.id) } });
+  }
+
   return (
     <div style={{ maxWidth: 600, margin: '0 auto', padding: '2rem 1rem' }}>
       {/* Page header */}
@@ -66,12 +75,26 @@ function NewServicePage() {
         </div>
       )}
 
+      {/* Manual entry or OpenAPI import */}
+      <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
+        <Button type="button" variant={mode === 'manual' ? 'primary' : 'ghost'} onClick={() => setMode('manual')}>
+          Manual
+        </Button>
+        <Button type="button" variant={mode === 'openapi' ? 'primary' : 'ghost'} onClick={() => setMode('openapi')}>
+          Import OpenAPI
+        </Button>
+      </div>
+
       {/* Form card */}
       <article className="card">
-        <ServiceForm
-          onSubmit={handleSubmit}
-          isSubmitting={createService.isPending}
-        />
+        {mode === 'manual' ? (
+          <ServiceForm
+            onSubmit={handleSubmit}
+            isSubmitting={createService.isPending}
+          />
+        ) : (
+          <OpenApiImportForm onImported={handleImported} />
+        )}
       </article>
     </div>
   );